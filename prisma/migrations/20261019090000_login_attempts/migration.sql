@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "auth"."login_attempts" (
+    "key" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "window_started_at" TIMESTAMPTZ(6) NOT NULL,
+    "blocked_until" TIMESTAMPTZ(6),
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("key")
+);
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."categories" ADD COLUMN "parent_id" UUID,
+ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- A category cannot be its own parent; longer cycles are rejected by the API
+ALTER TABLE "public"."categories" ADD CONSTRAINT "categories_parent_not_self" CHECK ("parent_id" <> "id");
+
+-- CreateIndex
+CREATE INDEX "categories_parent_id_position_idx" ON "public"."categories"("parent_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "public"."categories" ADD CONSTRAINT "categories_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."categories"("id") ON DELETE RESTRICT ON UPDATE NO ACTION;
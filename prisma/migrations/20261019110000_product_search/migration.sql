@@ -0,0 +1,17 @@
+-- Trigram matching for "did you mean" suggestions
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- AlterTable
+-- The 'simple' configuration does not stem, so prefix queries ("lapt:*")
+-- match the words as typed. Only string and number spec values are indexed.
+ALTER TABLE "public"."products" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+  setweight(to_tsvector('simple', coalesce("description", '')), 'B') ||
+  setweight(jsonb_to_tsvector('simple', coalesce("specs", '{}'::jsonb), '["string", "numeric"]'), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "idx_products_search_vector" ON "public"."products" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "idx_products_name_trgm" ON "public"."products" USING GIN ("name" gin_trgm_ops);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "public"."order_status_history" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "order_id" UUID NOT NULL,
+    "from_status" "public"."order_status",
+    "to_status" "public"."order_status" NOT NULL,
+    "actor_id" UUID,
+    "reason" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_status_history_order_id_created_at_idx" ON "public"."order_status_history"("order_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_status_history" ADD CONSTRAINT "order_status_history_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- Existing orders start their history with their current status
+INSERT INTO "public"."order_status_history" ("order_id", "from_status", "to_status", "created_at")
+SELECT "id", NULL, COALESCE("status", 'pending'), COALESCE("created_at", CURRENT_TIMESTAMP)
+FROM "public"."orders";
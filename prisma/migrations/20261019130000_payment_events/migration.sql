@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "public"."payment_events" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "order_id" UUID,
+    "received_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "payment_events_pkey" PRIMARY KEY ("id")
+);
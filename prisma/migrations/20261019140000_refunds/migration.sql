@@ -0,0 +1,49 @@
+-- AlterEnum
+ALTER TYPE "public"."order_status" ADD VALUE 'partially_refunded';
+ALTER TYPE "public"."order_status" ADD VALUE 'refunded';
+
+-- CreateTable
+CREATE TABLE "public"."refunds" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "order_id" UUID NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "reason" TEXT,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "provider_refund_id" TEXT,
+    "actor_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "refunds_amount_positive" CHECK ("amount" > 0)
+);
+
+-- CreateTable
+CREATE TABLE "public"."refund_items" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "refund_id" UUID NOT NULL,
+    "order_item_id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "amount" DECIMAL(12,2) NOT NULL,
+
+    CONSTRAINT "refund_items_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "refund_items_quantity_not_negative" CHECK ("quantity" >= 0),
+    CONSTRAINT "refund_items_amount_not_negative" CHECK ("amount" >= 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_provider_refund_id_key" ON "public"."refunds"("provider_refund_id");
+
+-- CreateIndex
+CREATE INDEX "refunds_order_id_idx" ON "public"."refunds"("order_id");
+
+-- CreateIndex
+CREATE INDEX "refund_items_order_item_id_idx" ON "public"."refund_items"("order_item_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."refunds" ADD CONSTRAINT "refunds_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_items" ADD CONSTRAINT "refund_items_refund_id_fkey" FOREIGN KEY ("refund_id") REFERENCES "public"."refunds"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "public"."refund_items" ADD CONSTRAINT "refund_items_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
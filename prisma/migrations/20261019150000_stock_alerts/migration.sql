@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."stock_alert_status" AS ENUM ('open', 'acknowledged', 'resolved');
+
+-- CreateTable
+CREATE TABLE "public"."stock_alerts" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "product_id" UUID NOT NULL,
+    "status" "public"."stock_alert_status" NOT NULL DEFAULT 'open',
+    "stock_qty" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "snoozed_until" TIMESTAMPTZ(6),
+    "acknowledged_by" UUID,
+    "acknowledged_at" TIMESTAMPTZ(6),
+    "resolved_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."notifications" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "type" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "data" JSONB,
+    "read_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_alerts_status_created_at_idx" ON "public"."stock_alerts"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_alerts_product_id_idx" ON "public"."stock_alerts"("product_id");
+
+-- One unresolved alert per product, so concurrent stock changes cannot
+-- raise the same alert twice
+CREATE UNIQUE INDEX "stock_alerts_product_id_unresolved_key" ON "public"."stock_alerts"("product_id") WHERE "status" <> 'resolved';
+
+-- CreateIndex
+CREATE INDEX "notifications_created_at_idx" ON "public"."notifications"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."stock_alerts" ADD CONSTRAINT "stock_alerts_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "public"."stock_movement_reason" AS ENUM ('sale', 'restock', 'return', 'correction', 'damage');
+
+-- CreateTable
+CREATE TABLE "public"."stock_movements" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "product_id" UUID NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "reason" "public"."stock_movement_reason" NOT NULL,
+    "stock_after" INTEGER NOT NULL,
+    "order_id" UUID,
+    "actor_id" UUID,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "stock_movements_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "stock_movements_delta_check" CHECK ("delta" <> 0)
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_product_id_created_at_idx" ON "public"."stock_movements"("product_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_order_id_idx" ON "public"."stock_movements"("order_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."stock_movements" ADD CONSTRAINT "stock_movements_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- The ledger is append-only: a wrong movement is fixed with a correction.
+-- Rows are only removed together with their product.
+CREATE FUNCTION "public"."stock_movements_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'stock_movements is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "stock_movements_append_only"
+BEFORE UPDATE ON "public"."stock_movements"
+FOR EACH ROW EXECUTE FUNCTION "public"."stock_movements_append_only"();
+
+-- Opening balance, so the ledger of existing products adds up to their stock
+INSERT INTO "public"."stock_movements" ("product_id", "delta", "reason", "stock_after", "note")
+SELECT "id", "stock_qty", 'correction', "stock_qty", 'Opening balance'
+FROM "public"."products"
+WHERE COALESCE("stock_qty", 0) <> 0;
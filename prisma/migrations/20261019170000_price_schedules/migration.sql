@@ -0,0 +1,51 @@
+-- CreateEnum
+CREATE TYPE "public"."price_schedule_kind" AS ENUM ('percentage', 'fixed');
+
+-- CreateTable
+CREATE TABLE "public"."price_schedules" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "product_id" UUID,
+    "category_id" UUID,
+    "kind" "public"."price_schedule_kind" NOT NULL,
+    "value" DECIMAL(12,2) NOT NULL,
+    "starts_at" TIMESTAMPTZ(6) NOT NULL,
+    "ends_at" TIMESTAMPTZ(6) NOT NULL,
+    "created_by" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_schedules_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "price_schedules_target_check" CHECK (("product_id" IS NULL) <> ("category_id" IS NULL)),
+    CONSTRAINT "price_schedules_period_check" CHECK ("ends_at" > "starts_at"),
+    CONSTRAINT "price_schedules_value_check" CHECK (
+        "value" >= 0 AND ("kind" <> 'percentage' OR "value" < 100)
+    )
+);
+
+-- CreateTable
+CREATE TABLE "public"."price_schedule_products" (
+    "product_id" UUID NOT NULL,
+    "schedule_id" UUID NOT NULL,
+    "previous_sale_price" DECIMAL(12,2),
+    "applied_sale_price" DECIMAL(12,2) NOT NULL,
+    "applied_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_schedule_products_pkey" PRIMARY KEY ("product_id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_schedules_product_id_starts_at_idx" ON "public"."price_schedules"("product_id", "starts_at");
+
+-- CreateIndex
+CREATE INDEX "price_schedules_category_id_starts_at_idx" ON "public"."price_schedules"("category_id", "starts_at");
+
+-- CreateIndex
+CREATE INDEX "price_schedules_ends_at_idx" ON "public"."price_schedules"("ends_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."price_schedules" ADD CONSTRAINT "price_schedules_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "public"."price_schedules" ADD CONSTRAINT "price_schedules_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AddForeignKey
+ALTER TABLE "public"."price_schedule_products" ADD CONSTRAINT "price_schedule_products_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
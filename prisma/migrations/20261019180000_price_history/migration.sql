@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "public"."price_change_reason" AS ENUM ('admin', 'import', 'schedule', 'opening');
+
+-- CreateTable
+CREATE TABLE "public"."price_history" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "product_id" UUID NOT NULL,
+    "base_price" DECIMAL(12,2) NOT NULL,
+    "sale_price" DECIMAL(12,2),
+    "reason" "public"."price_change_reason" NOT NULL,
+    "schedule_id" UUID,
+    "actor_id" UUID,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "price_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "price_history_product_id_created_at_idx" ON "public"."price_history"("product_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."price_history" ADD CONSTRAINT "price_history_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- The history is append-only. Rows are only removed together with their
+-- product.
+CREATE FUNCTION "public"."price_history_append_only"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'price_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "price_history_append_only"
+BEFORE UPDATE ON "public"."price_history"
+FOR EACH ROW EXECUTE FUNCTION "public"."price_history_append_only"();
+
+-- Existing products start their history with their current prices. Earlier
+-- prices are unknown, so the history starts now rather than at created_at.
+INSERT INTO "public"."price_history" ("product_id", "base_price", "sale_price", "reason", "note")
+SELECT "id", "base_price", "sale_price", 'opening', 'Prices when history tracking started'
+FROM "public"."products";
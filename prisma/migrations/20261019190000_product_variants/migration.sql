@@ -0,0 +1,77 @@
+-- AlterTable
+ALTER TABLE "public"."products" ADD COLUMN "option_names" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."product_variants" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "product_id" UUID NOT NULL,
+    "sku" TEXT NOT NULL,
+    "options" JSONB NOT NULL DEFAULT '{}',
+    "price" DECIMAL(12,2),
+    "stock_qty" INTEGER NOT NULL DEFAULT 0,
+    "images" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "product_variants_options_check" CHECK (jsonb_typeof("options") = 'object'),
+    CONSTRAINT "product_variants_price_check" CHECK ("price" >= 0),
+    CONSTRAINT "product_variants_stock_qty_check" CHECK ("stock_qty" >= 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_sku_key" ON "public"."product_variants"("sku");
+
+-- CreateIndex
+CREATE INDEX "product_variants_product_id_position_idx" ON "public"."product_variants"("product_id", "position");
+
+-- A product cannot have two variants with the same options
+CREATE UNIQUE INDEX "product_variants_product_id_options_key" ON "public"."product_variants"("product_id", "options");
+
+-- Option filters in product search
+CREATE INDEX "product_variants_options_idx" ON "public"."product_variants" USING GIN ("options");
+
+-- AddForeignKey
+ALTER TABLE "public"."product_variants" ADD CONSTRAINT "product_variants_product_id_fkey" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+
+-- AlterTable
+ALTER TABLE "public"."order_items" ADD COLUMN "variant_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "order_items_variant_id_idx" ON "public"."order_items"("variant_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."order_items" ADD CONSTRAINT "order_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE RESTRICT ON UPDATE NO ACTION;
+
+-- AlterTable
+ALTER TABLE "public"."stock_movements" ADD COLUMN "variant_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "stock_movements_variant_id_created_at_idx" ON "public"."stock_movements"("variant_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."stock_movements" ADD CONSTRAINT "stock_movements_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "public"."product_variants"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+
+-- Every existing product becomes a single variant without options, holding
+-- its stock. Slugs are unique and lowercase, so their uppercase form is a
+-- unique SKU.
+INSERT INTO "public"."product_variants" ("product_id", "sku", "stock_qty", "created_at")
+SELECT "id", UPPER("slug"), GREATEST(COALESCE("stock_qty", 0), 0), COALESCE("created_at", CURRENT_TIMESTAMP)
+FROM "public"."products";
+
+UPDATE "public"."order_items" oi
+SET "variant_id" = v."id"
+FROM "public"."product_variants" v
+WHERE v."product_id" = oi."product_id";
+
+-- The ledger is append-only; assigning the movements so far to the only
+-- variant of their product does not change what they record
+ALTER TABLE "public"."stock_movements" DISABLE TRIGGER "stock_movements_append_only";
+
+UPDATE "public"."stock_movements" m
+SET "variant_id" = v."id"
+FROM "public"."product_variants" v
+WHERE v."product_id" = m."product_id";
+
+ALTER TABLE "public"."stock_movements" ENABLE TRIGGER "stock_movements_append_only";
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "auth"."passkey_login_challenges" (
+    "id" UUID NOT NULL,
+    "challenge" TEXT NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "passkey_login_challenges_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "passkey_login_challenges_expires_at_idx" ON "auth"."passkey_login_challenges"("expires_at");
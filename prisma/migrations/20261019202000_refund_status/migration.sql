@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "public"."refund_status" AS ENUM ('pending', 'succeeded', 'failed');
+
+-- AlterTable
+-- Refunds recorded so far were only committed once the provider accepted them
+ALTER TABLE "public"."refunds" ADD COLUMN "status" "public"."refund_status" NOT NULL DEFAULT 'succeeded';
+ALTER TABLE "public"."refunds" ALTER COLUMN "status" SET DEFAULT 'pending';
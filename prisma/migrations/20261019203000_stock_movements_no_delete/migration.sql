@@ -0,0 +1,18 @@
+-- Deleting movements would rewrite the ledger as much as updating them. A
+-- movement is only removed when its product is deleted; the foreign key
+-- cascade runs after the product row is gone.
+CREATE OR REPLACE FUNCTION "public"."stock_movements_append_only"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM "public"."products" WHERE "id" = OLD."product_id"
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'stock_movements is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "stock_movements_no_delete"
+BEFORE DELETE ON "public"."stock_movements"
+FOR EACH ROW EXECUTE FUNCTION "public"."stock_movements_append_only"();
@@ -0,0 +1,18 @@
+-- Deleting history rows would rewrite the history as much as updating them.
+-- A row is only removed when its product is deleted; the foreign key cascade
+-- runs after the product row is gone.
+CREATE OR REPLACE FUNCTION "public"."price_history_append_only"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM "public"."products" WHERE "id" = OLD."product_id"
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'price_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "price_history_no_delete"
+BEFORE DELETE ON "public"."price_history"
+FOR EACH ROW EXECUTE FUNCTION "public"."price_history_append_only"();
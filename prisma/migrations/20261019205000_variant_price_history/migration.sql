@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."price_history" ADD COLUMN "variant_id" UUID,
+ADD COLUMN "variant_price" DECIMAL(12,2);
+
+-- CreateIndex
+CREATE INDEX "price_history_variant_id_created_at_idx" ON "public"."price_history"("variant_id", "created_at");
+
+-- Variants with a price of their own start their history with it. Variants
+-- without one sell at the product's prices, which are already recorded.
+INSERT INTO "public"."price_history" ("product_id", "variant_id", "base_price", "sale_price", "variant_price", "reason", "note")
+SELECT v."product_id", v."id", p."base_price", p."sale_price", v."price", 'opening', 'Prices when history tracking started'
+FROM "public"."product_variants" v
+JOIN "public"."products" p ON p."id" = v."product_id"
+WHERE v."price" IS NOT NULL;
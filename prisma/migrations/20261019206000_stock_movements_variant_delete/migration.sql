@@ -0,0 +1,26 @@
+-- Deleting a variant sets the variant_id of its movements to NULL through
+-- the foreign key, which the append-only trigger refused, so no variant with
+-- movements could be deleted. That update is let through once the variant
+-- row is gone, as long as nothing else about the movement changes.
+CREATE OR REPLACE FUNCTION "public"."stock_movements_append_only"() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND NOT EXISTS (
+    SELECT 1 FROM "public"."products" WHERE "id" = OLD."product_id"
+  ) THEN
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND OLD."variant_id" IS NOT NULL
+    AND NEW."variant_id" IS NULL
+    AND to_jsonb(NEW) - 'variant_id' = to_jsonb(OLD) - 'variant_id'
+    AND NOT EXISTS (
+      SELECT 1 FROM "public"."product_variants" WHERE "id" = OLD."variant_id"
+    )
+  THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'stock_movements is append-only';
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Get,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+} from '@nestjs/common';
+
+import { DashboardService } from './dashboard.service';
+import { DashboardQueryDto } from './dto/dashboard-query.dto';
+import { DashboardResponse } from './dto/dashboard-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/dashboard')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminDashboardController {
+  constructor(private readonly dashboardService: DashboardService) {}
+
+  /**
+   * Sales, customer and stock KPIs compared with the previous period
+   * GET /admin/dashboard
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async getDashboard(
+    @Query() query: DashboardQueryDto,
+  ): Promise<DashboardResponse> {
+    return await this.dashboardService.getDashboard(query);
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { UsersService } from '../users/users.service';
+import { SessionsService } from '../auth/sessions.service';
+import { ListUsersQueryDto } from '../users/dto/list-users-query.dto';
+import { UpdateRoleDto } from '../users/dto/update-role.dto';
+import { BanUserDto } from '../users/dto/ban-user.dto';
+import { AdminUserResponse } from '../users/dto/admin-user-response.dto';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/users')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminUsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * List users with filters, search and pagination
+   * GET /admin/users
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listUsers(
+    @Query() query: ListUsersQueryDto,
+  ): Promise<PaginatedResponse<AdminUserResponse>> {
+    return await this.usersService.listUsers(query);
+  }
+
+  /**
+   * Get a single user
+   * GET /admin/users/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getUser(
+    @Param('id', ParseUUIDPipe) userId: string,
+  ): Promise<AdminUserResponse> {
+    return await this.usersService.findAdminUser(userId);
+  }
+
+  /**
+   * Promote or demote a user
+   * PATCH /admin/users/:id/role
+   */
+  @Patch(':id/role')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async changeRole(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() updateRoleDto: UpdateRoleDto,
+    @Request() req: any,
+  ): Promise<AdminUserResponse> {
+    const user = await this.usersService.changeRole(
+      userId,
+      updateRoleDto.role,
+      req.user.id,
+    );
+
+    // The role is carried in access tokens, so existing sessions must end
+    await this.sessionsService.revokeAllForUser(userId);
+
+    return user;
+  }
+
+  /**
+   * Ban a user until a date, or permanently
+   * POST /admin/users/:id/ban
+   */
+  @Post(':id/ban')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async banUser(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Body() banUserDto: BanUserDto,
+    @Request() req: any,
+  ): Promise<AdminUserResponse> {
+    const user = await this.usersService.ban(
+      userId,
+      banUserDto.until ? new Date(banUserDto.until) : null,
+      req.user.id,
+    );
+    await this.sessionsService.revokeAllForUser(userId);
+
+    return user;
+  }
+
+  /**
+   * Lift the ban of a user
+   * DELETE /admin/users/:id/ban
+   */
+  @Delete(':id/ban')
+  @HttpCode(HttpStatus.OK)
+  async unbanUser(
+    @Param('id', ParseUUIDPipe) userId: string,
+  ): Promise<AdminUserResponse> {
+    return await this.usersService.unban(userId);
+  }
+
+  /**
+   * Soft-delete a user
+   * DELETE /admin/users/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteUser(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Request() req: any,
+  ): Promise<void> {
+    await this.usersService.softDelete(userId, req.user.id);
+    await this.sessionsService.revokeAllForUser(userId);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+
+import { AdminUsersController } from './admin-users.controller';
+import { AdminDashboardController } from './admin-dashboard.controller';
+import { DashboardService } from './dashboard.service';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [
+    // Guards and SessionsService
+    AuthModule,
+    UsersModule,
+    PrismaModule,
+  ],
+  controllers: [AdminUsersController, AdminDashboardController],
+  providers: [DashboardService],
+})
+export class AdminModule {}
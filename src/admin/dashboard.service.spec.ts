@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { DashboardService } from './dashboard.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DashboardService', () => {
+  let service: DashboardService;
+  let queries: Prisma.Sql[];
+  let results: unknown[][];
+
+  const periodRow = (
+    period: 'current' | 'previous',
+    values: {
+      order_count: number;
+      paid_order_count: number;
+      gross_revenue: string;
+      refunded: string;
+      average_order_value: string;
+      new_customers: number;
+    },
+  ) => ({
+    period,
+    ...values,
+    gross_revenue: new Prisma.Decimal(values.gross_revenue),
+    refunded: new Prisma.Decimal(values.refunded),
+    average_order_value: new Prisma.Decimal(values.average_order_value),
+  });
+
+  beforeEach(async () => {
+    queries = [];
+    results = [
+      [
+        periodRow('current', {
+          order_count: 12,
+          paid_order_count: 10,
+          gross_revenue: '1500.00',
+          refunded: '100.00',
+          average_order_value: '150.00',
+          new_customers: 6,
+        }),
+        periodRow('previous', {
+          order_count: 8,
+          paid_order_count: 8,
+          gross_revenue: '1000.00',
+          refunded: '0.00',
+          average_order_value: '125.00',
+          new_customers: 0,
+        }),
+      ],
+      [
+        { period: 'current', status: 'paid', count: 7 },
+        { period: 'current', status: 'pending', count: 2 },
+        { period: 'current', status: 'refunded', count: 3 },
+        { period: 'previous', status: 'delivered', count: 8 },
+      ],
+      [{ low_stock_products: 4 }],
+    ];
+
+    const prismaMock = {
+      $queryRaw: jest.fn((strings: TemplateStringsArray, ...values: any[]) => {
+        const sql = Prisma.sql(strings, ...values);
+        const result = results[queries.length];
+        queries.push(sql);
+        return Promise.resolve(result);
+      }),
+      $transaction: jest.fn((queries: Promise<unknown>[]) =>
+        Promise.all(queries),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DashboardService,
+        { provide: PrismaService, useValue: prismaMock },
+      ],
+    }).compile();
+
+    service = module.get<DashboardService>(DashboardService);
+  });
+
+  it('should return the KPIs of both periods', async () => {
+    const result = await service.getDashboard({
+      from: '2026-09-01T00:00:00Z',
+      to: '2026-10-01T00:00:00Z',
+    });
+
+    expect(result.current).toEqual({
+      from: new Date('2026-09-01T00:00:00Z'),
+      to: new Date('2026-10-01T00:00:00Z'),
+      order_count: 12,
+      orders_by_status: {
+        pending: 2,
+        paid: 7,
+        shipped: 0,
+        delivered: 0,
+        cancelled: 0,
+        partially_refunded: 0,
+        refunded: 3,
+      },
+      paid_order_count: 10,
+      gross_revenue: '1500.00',
+      refunded: '100.00',
+      net_revenue: '1400.00',
+      average_order_value: '150.00',
+      new_customers: 6,
+    });
+    expect(result.previous.orders_by_status.delivered).toBe(8);
+    expect(result.low_stock_products).toBe(4);
+  });
+
+  it('should compare against the period of the same length before', async () => {
+    const result = await service.getDashboard({
+      from: '2026-09-01T00:00:00Z',
+      to: '2026-10-01T00:00:00Z',
+    });
+
+    expect(result.previous.from).toEqual(new Date('2026-08-02T00:00:00Z'));
+    expect(result.previous.to).toEqual(new Date('2026-09-01T00:00:00Z'));
+    expect(queries[0].values).toEqual(
+      expect.arrayContaining([
+        new Date('2026-08-02T00:00:00Z'),
+        new Date('2026-09-01T00:00:00Z'),
+        new Date('2026-10-01T00:00:00Z'),
+      ]),
+    );
+    expect(result.change).toEqual({
+      order_count: 50,
+      paid_order_count: 25,
+      gross_revenue: 50,
+      net_revenue: 40,
+      average_order_value: 20,
+      new_customers: null,
+    });
+  });
+
+  it('should default to the last 30 days', async () => {
+    const before = Date.now();
+
+    const result = await service.getDashboard({});
+
+    const to = result.current.to.getTime();
+    expect(to).toBeGreaterThanOrEqual(before);
+    expect(to - result.current.from.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+  });
+
+  it('should count revenue only for paid orders', async () => {
+    await service.getDashboard({});
+
+    expect(queries[0].values).toEqual(
+      expect.arrayContaining([
+        'paid',
+        'shipped',
+        'delivered',
+        'partially_refunded',
+        'refunded',
+      ]),
+    );
+    expect(queries[0].values).not.toContain('pending');
+  });
+
+  it('should reject a period that ends before it starts', async () => {
+    await expect(
+      service.getDashboard({
+        from: '2026-10-01T00:00:00Z',
+        to: '2026-09-01T00:00:00Z',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,184 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, order_status } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PAID_STATUSES } from '../orders/utils/order-status.util';
+import { resolveDateRange } from '../common/utils/date-range.util';
+import { DashboardQueryDto } from './dto/dashboard-query.dto';
+import {
+  DashboardChange,
+  DashboardPeriod,
+  DashboardResponse,
+} from './dto/dashboard-response.dto';
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+type PeriodName = 'current' | 'previous';
+
+interface PeriodRow {
+  period: PeriodName;
+  order_count: number;
+  paid_order_count: number;
+  gross_revenue: Prisma.Decimal;
+  refunded: Prisma.Decimal;
+  average_order_value: Prisma.Decimal;
+  new_customers: number;
+}
+
+interface StatusRow {
+  period: PeriodName;
+  status: order_status;
+  count: number;
+}
+
+@Injectable()
+export class DashboardService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Sales and customer KPIs for a period, next to the same figures for the
+   * period of the same length just before it
+   * @param query - Period; the last 30 days by default
+   * @returns Promise<DashboardResponse> - KPIs of both periods and the change between them
+   */
+  async getDashboard(query: DashboardQueryDto): Promise<DashboardResponse> {
+    const { from, to } = resolveDateRange(query, DEFAULT_PERIOD_DAYS);
+
+    const previousFrom = new Date(
+      from.getTime() - (to.getTime() - from.getTime()),
+    );
+    const paidStatuses = Prisma.join(
+      PAID_STATUSES.map((status) => Prisma.sql`${status}::public.order_status`),
+    );
+
+    const [periods, statuses, [{ low_stock_products }]] =
+      await this.prisma.$transaction([
+        this.prisma.$queryRaw<PeriodRow[]>`
+          SELECT
+            p.period,
+            o.order_count,
+            o.paid_order_count,
+            o.gross_revenue,
+            r.refunded,
+            o.average_order_value,
+            c.new_customers
+          FROM (
+            VALUES
+              ('current', ${from}::timestamptz, ${to}::timestamptz),
+              ('previous', ${previousFrom}::timestamptz, ${from}::timestamptz)
+          ) AS p(period, starts_at, ends_at)
+          CROSS JOIN LATERAL (
+            SELECT
+              COUNT(*)::int AS order_count,
+              (COUNT(*) FILTER (WHERE o.status IN (${paidStatuses})))::int AS paid_order_count,
+              COALESCE(SUM(o.total_amount) FILTER (WHERE o.status IN (${paidStatuses})), 0) AS gross_revenue,
+              ROUND(COALESCE(AVG(o.total_amount) FILTER (WHERE o.status IN (${paidStatuses})), 0), 2) AS average_order_value
+            FROM public.orders o
+            WHERE o.created_at >= p.starts_at AND o.created_at < p.ends_at
+          ) o
+          CROSS JOIN LATERAL (
+            SELECT COALESCE(SUM(r.amount), 0) AS refunded
+            FROM public.refunds r
+            WHERE r.created_at >= p.starts_at AND r.created_at < p.ends_at
+          ) r
+          CROSS JOIN LATERAL (
+            SELECT COUNT(*)::int AS new_customers
+            FROM public.profiles pr
+            JOIN auth.users u ON u.id = pr.id
+            WHERE pr.role = 'customer'
+              AND u.created_at >= p.starts_at AND u.created_at < p.ends_at
+          ) c
+        `,
+        this.prisma.$queryRaw<StatusRow[]>`
+          SELECT
+            CASE WHEN o.created_at >= ${from} THEN 'current' ELSE 'previous' END AS period,
+            COALESCE(o.status, 'pending') AS status,
+            COUNT(*)::int AS count
+          FROM public.orders o
+          WHERE o.created_at >= ${previousFrom} AND o.created_at < ${to}
+          GROUP BY 1, 2
+        `,
+        this.prisma.$queryRaw<{ low_stock_products: number }[]>`
+          SELECT COUNT(*)::int AS low_stock_products
+          FROM public.products p
+          WHERE p.is_active = true
+            AND COALESCE(p.stock_qty, 0) <= p.low_stock_threshold
+        `,
+      ]);
+
+    const current = this.toPeriod('current', from, to, periods, statuses);
+    const previous = this.toPeriod(
+      'previous',
+      previousFrom,
+      from,
+      periods,
+      statuses,
+    );
+
+    return {
+      current,
+      previous,
+      change: this.compare(current, previous),
+      low_stock_products,
+    };
+  }
+
+  private toPeriod(
+    name: PeriodName,
+    from: Date,
+    to: Date,
+    periods: PeriodRow[],
+    statuses: StatusRow[],
+  ): DashboardPeriod {
+    const row = periods.find((period) => period.period === name)!;
+
+    const ordersByStatus = Object.fromEntries(
+      Object.values(order_status).map((status) => [status, 0]),
+    ) as Record<order_status, number>;
+    for (const entry of statuses) {
+      if (entry.period === name) {
+        ordersByStatus[entry.status] = entry.count;
+      }
+    }
+
+    return {
+      from,
+      to,
+      order_count: row.order_count,
+      orders_by_status: ordersByStatus,
+      paid_order_count: row.paid_order_count,
+      gross_revenue: row.gross_revenue.toFixed(2),
+      refunded: row.refunded.toFixed(2),
+      net_revenue: row.gross_revenue.sub(row.refunded).toFixed(2),
+      average_order_value: row.average_order_value.toFixed(2),
+      new_customers: row.new_customers,
+    };
+  }
+
+  private compare(
+    current: DashboardPeriod,
+    previous: DashboardPeriod,
+  ): DashboardChange {
+    const change = (now: number | string, before: number | string) => {
+      const base = Number(before);
+      return base === 0
+        ? null
+        : Math.round(((Number(now) - base) / Math.abs(base)) * 1000) / 10;
+    };
+
+    return {
+      order_count: change(current.order_count, previous.order_count),
+      paid_order_count: change(
+        current.paid_order_count,
+        previous.paid_order_count,
+      ),
+      gross_revenue: change(current.gross_revenue, previous.gross_revenue),
+      net_revenue: change(current.net_revenue, previous.net_revenue),
+      average_order_value: change(
+        current.average_order_value,
+        previous.average_order_value,
+      ),
+      new_customers: change(current.new_customers, previous.new_customers),
+    };
+  }
+}
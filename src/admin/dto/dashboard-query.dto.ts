@@ -0,0 +1,13 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class DashboardQueryDto {
+  // Start of the period, inclusive; defaults to 30 days before `to`
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be an ISO 8601 date' })
+  from?: string;
+
+  // End of the period, exclusive; defaults to now
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be an ISO 8601 date' })
+  to?: string;
+}
@@ -0,0 +1,40 @@
+import { order_status } from '@prisma/client';
+
+export interface DashboardPeriod {
+  from: Date;
+  to: Date;
+  // Orders placed in the period, whatever their status
+  order_count: number;
+  orders_by_status: Record<order_status, number>;
+  // Orders placed in the period that were paid
+  paid_order_count: number;
+  // Total of the paid orders
+  gross_revenue: string;
+  // Refunds made in the period
+  refunded: string;
+  net_revenue: string;
+  average_order_value: string;
+  new_customers: number;
+}
+
+/**
+ * Change from the previous period in percent, or null when the previous
+ * value was zero
+ */
+export interface DashboardChange {
+  order_count: number | null;
+  paid_order_count: number | null;
+  gross_revenue: number | null;
+  net_revenue: number | null;
+  average_order_value: number | null;
+  new_customers: number | null;
+}
+
+export interface DashboardResponse {
+  current: DashboardPeriod;
+  // Period of the same length just before the current one
+  previous: DashboardPeriod;
+  change: DashboardChange;
+  // Active products at or below their low stock threshold, right now
+  low_stock_products: number;
+}
@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+} from '@nestjs/common';
+
+import { AnalyticsService } from './analytics.service';
+import {
+  SalesSeriesQueryDto,
+  TopSalesQueryDto,
+} from './dto/sales-analytics-query.dto';
+import {
+  SalesSeriesResponse,
+  TopSalesResponse,
+} from './dto/sales-analytics-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/analytics')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminAnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  /**
+   * Revenue, units and orders over time, optionally per category or product
+   * GET /admin/analytics/sales
+   */
+  @Get('sales')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async getSalesSeries(
+    @Query() query: SalesSeriesQueryDto,
+  ): Promise<SalesSeriesResponse> {
+    return await this.analyticsService.getSalesSeries(query);
+  }
+
+  /**
+   * Best-selling products or categories
+   * GET /admin/analytics/top
+   */
+  @Get('top')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async getTopSales(
+    @Query() query: TopSalesQueryDto,
+  ): Promise<TopSalesResponse> {
+    return await this.analyticsService.getTopSales(query);
+  }
+}
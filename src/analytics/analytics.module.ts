@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { AnalyticsService } from './analytics.service';
+import { AdminAnalyticsController } from './admin-analytics.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+
+    // JwtAuthGuard, RolesGuard and AalGuard
+    AuthModule,
+  ],
+  controllers: [AdminAnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,287 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { AnalyticsService } from './analytics.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  let queries: string[];
+
+  const mouseId = '3c3c3c3c-3c3c-4c3c-8c3c-3c3c3c3c3c3c';
+  const keyboardId = '4d4d4d4d-4d4d-4d4d-8d4d-4d4d4d4d4d4d';
+
+  // Sales per day and product, as the bucket query would group them
+  const sales = [
+    {
+      day: '2026-09-01',
+      id: mouseId,
+      name: 'Mouse',
+      revenue: '59.90',
+      units: 2,
+      orders: 2,
+    },
+    {
+      day: '2026-09-01',
+      id: keyboardId,
+      name: 'Keyboard',
+      revenue: '89.99',
+      units: 1,
+      orders: 1,
+    },
+    {
+      day: '2026-09-03',
+      id: keyboardId,
+      name: 'Keyboard',
+      revenue: '179.98',
+      units: 2,
+      orders: 1,
+    },
+  ];
+
+  const salesRows = (sql: string, from: Date, to: Date) => {
+    const byProduct = sql.includes('oi.product_id AS id');
+    const rows = new Map<string, Record<string, unknown>>();
+
+    for (const sale of sales) {
+      const bucket = new Date(`${sale.day}T00:00:00Z`);
+      if (bucket < from || bucket >= to) {
+        continue;
+      }
+
+      const key = `${sale.day}:${byProduct ? sale.id : ''}`;
+      const row = rows.get(key) ?? {
+        bucket,
+        id: byProduct ? sale.id : null,
+        name: byProduct ? sale.name : null,
+        revenue: new Prisma.Decimal(0),
+        units: 0,
+        orders: 0,
+      };
+      row.revenue = (row.revenue as Prisma.Decimal).add(sale.revenue);
+      row.units = (row.units as number) + sale.units;
+      row.orders = (row.orders as number) + sale.orders;
+      rows.set(key, row);
+    }
+
+    return [...rows.values()];
+  };
+
+  // Daily buckets in UTC from the day containing `from`
+  const dayBuckets = (from: Date, to: Date) => {
+    const buckets: { starts_at: Date; ends_at: Date }[] = [];
+    for (
+      let start = Math.floor(from.getTime() / DAY) * DAY;
+      start < to.getTime();
+      start += DAY
+    ) {
+      buckets.push({
+        starts_at: new Date(start),
+        ends_at: new Date(start + DAY),
+      });
+    }
+    return buckets;
+  };
+
+  beforeEach(async () => {
+    queries = [];
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2026-10-01T12:00:00Z'));
+
+    const prismaMock = {
+      $queryRaw: jest.fn((strings: TemplateStringsArray, ...values: any[]) => {
+        const query = Prisma.sql(strings, ...values);
+        const dates = query.values.filter(
+          (value): value is Date => value instanceof Date,
+        );
+        queries.push(query.sql);
+
+        if (query.sql.includes('generate_series')) {
+          return Promise.resolve(dayBuckets(dates[0], dates[1]));
+        }
+        if (query.sql.includes('LIMIT')) {
+          return Promise.resolve([
+            {
+              id: keyboardId,
+              name: 'Keyboard',
+              revenue: new Prisma.Decimal('269.97'),
+              units: 3,
+              orders: 2,
+            },
+          ]);
+        }
+        return Promise.resolve(
+          salesRows(
+            query.sql,
+            dates[dates.length - 2],
+            dates[dates.length - 1],
+          ),
+        );
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        { provide: ConfigService, useValue: { get: jest.fn(() => undefined) } },
+        { provide: PrismaService, useValue: prismaMock },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsService>(AnalyticsService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const salesQueries = () =>
+    queries.filter(
+      (sql) => !sql.includes('generate_series') && !sql.includes('LIMIT'),
+    );
+
+  describe('getSalesSeries', () => {
+    it('should return one point per bucket, including empty ones', async () => {
+      const result = await service.getSalesSeries({
+        from: '2026-09-01T08:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+        interval: 'day',
+      });
+
+      expect(result.from).toEqual(new Date('2026-09-01T00:00:00Z'));
+      expect(result.totals).toEqual({ revenue: '329.87', units: 5, orders: 4 });
+      expect(result.series).toHaveLength(1);
+      expect(result.series[0].points).toEqual([
+        {
+          bucket: new Date('2026-09-01T00:00:00Z'),
+          revenue: '149.89',
+          units: 3,
+          orders: 3,
+        },
+        {
+          bucket: new Date('2026-09-02T00:00:00Z'),
+          revenue: '0.00',
+          units: 0,
+          orders: 0,
+        },
+        {
+          bucket: new Date('2026-09-03T00:00:00Z'),
+          revenue: '179.98',
+          units: 2,
+          orders: 1,
+        },
+      ]);
+    });
+
+    it('should return a series per product, best sellers first', async () => {
+      const result = await service.getSalesSeries({
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+        group_by: 'product',
+        limit: 1,
+      });
+
+      expect(result.series).toHaveLength(1);
+      expect(result.series[0]).toMatchObject({
+        id: keyboardId,
+        name: 'Keyboard',
+        totals: { revenue: '269.97', units: 3, orders: 2 },
+      });
+      expect(result.totals.revenue).toBe('329.87');
+    });
+
+    it('should not query buckets that have ended again', async () => {
+      const query = {
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+      };
+
+      const first = await service.getSalesSeries(query);
+      const queriesBefore = salesQueries().length;
+      const second = await service.getSalesSeries(query);
+
+      expect(salesQueries()).toHaveLength(queriesBefore);
+      expect(second).toEqual(first);
+    });
+
+    it('should always query the current bucket', async () => {
+      const query = {
+        from: '2026-09-29T00:00:00Z',
+        to: '2026-10-02T00:00:00Z',
+      };
+
+      await service.getSalesSeries(query);
+      expect(salesQueries()).toHaveLength(2);
+
+      await service.getSalesSeries(query);
+      expect(salesQueries()).toHaveLength(3);
+    });
+
+    it('should reuse cached buckets for an overlapping period', async () => {
+      await service.getSalesSeries({
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-03T00:00:00Z',
+      });
+      await service.getSalesSeries({
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+      });
+
+      expect(salesQueries()).toHaveLength(2);
+    });
+
+    it('should reject periods with too many buckets', async () => {
+      await expect(
+        service.getSalesSeries({
+          from: '2026-01-01T00:00:00Z',
+          to: '2026-10-01T00:00:00Z',
+          interval: 'hour',
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe('getTopSales', () => {
+    it('should rank by the requested metric', async () => {
+      const result = await service.getTopSales({
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+        by: 'product',
+        metric: 'units',
+      });
+
+      expect(result.items).toEqual([
+        {
+          id: keyboardId,
+          name: 'Keyboard',
+          revenue: '269.97',
+          units: 3,
+          orders: 2,
+        },
+      ]);
+      expect(queries[0]).toContain('units DESC');
+    });
+
+    it('should cache periods that have ended', async () => {
+      const query = {
+        from: '2026-09-01T00:00:00Z',
+        to: '2026-09-04T00:00:00Z',
+      };
+
+      await service.getTopSales(query);
+      await service.getTopSales(query);
+
+      expect(queries).toHaveLength(1);
+    });
+
+    it('should not cache the current period', async () => {
+      await service.getTopSales({});
+      await service.getTopSales({});
+
+      expect(queries).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,375 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PAID_STATUSES } from '../orders/utils/order-status.util';
+import { resolveDateRange } from '../common/utils/date-range.util';
+import { validationError } from '../common/pipes/validation.pipe';
+import {
+  SalesDimension,
+  SalesInterval,
+  SalesMetric,
+  SalesSeriesQueryDto,
+  TopSalesQueryDto,
+} from './dto/sales-analytics-query.dto';
+import {
+  SalesFigures,
+  SalesSeries,
+  SalesSeriesResponse,
+  TopSalesResponse,
+} from './dto/sales-analytics-response.dto';
+import { ResultCache } from './utils/result-cache';
+
+const DEFAULT_PERIOD_DAYS = 30;
+
+// Keeps a chart readable and the bucket list cheap to build
+const MAX_BUCKETS = 1000;
+
+// Shortest length of each interval, to reject periods with too many buckets
+// before querying
+const MIN_INTERVAL_MS: Record<SalesInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000,
+};
+
+const DIMENSIONS: Record<
+  SalesDimension | 'all',
+  { id: Prisma.Sql; name: Prisma.Sql }
+> = {
+  all: { id: Prisma.sql`NULL::uuid`, name: Prisma.sql`NULL::text` },
+  category: { id: Prisma.sql`pr.category_id`, name: Prisma.sql`c.name` },
+  product: { id: Prisma.sql`oi.product_id`, name: Prisma.sql`pr.name` },
+};
+
+const METRIC_ORDERS: Record<SalesMetric, Prisma.Sql> = {
+  revenue: Prisma.sql`revenue DESC`,
+  units: Prisma.sql`units DESC`,
+  orders: Prisma.sql`orders DESC`,
+};
+
+interface Bucket {
+  starts_at: Date;
+  ends_at: Date;
+}
+
+interface SalesRow {
+  bucket: Date;
+  id: string | null;
+  name: string | null;
+  revenue: Prisma.Decimal;
+  units: number;
+  orders: number;
+}
+
+@Injectable()
+export class AnalyticsService {
+  private readonly cache: ResultCache<SalesRow[] | TopSalesResponse>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    configService: ConfigService,
+  ) {
+    this.cache = new ResultCache(
+      configService.get<number>('analytics.cacheTtlSeconds') ?? 3600,
+      configService.get<number>('analytics.cacheMaxEntries') ?? 20000,
+    );
+  }
+
+  /**
+   * Revenue, units and orders of paid orders per hour, day, week or month,
+   * overall or for the best-selling categories or products. The period
+   * starts at the beginning of the bucket containing `from`, so every
+   * bucket is complete. Buckets that have ended are cached, so only the
+   * current bucket is read again on the next load.
+   * @param query - Period, interval, time zone and optional grouping
+   * @returns Promise<SalesSeriesResponse> - One series, or one per category or product
+   */
+  async getSalesSeries(
+    query: SalesSeriesQueryDto,
+  ): Promise<SalesSeriesResponse> {
+    const { from, to } = resolveDateRange(query, DEFAULT_PERIOD_DAYS);
+    const interval = query.interval || 'day';
+    const timezone = query.timezone || 'UTC';
+
+    if (
+      (to.getTime() - from.getTime()) / MIN_INTERVAL_MS[interval] >
+      MAX_BUCKETS
+    ) {
+      throw validationError([
+        {
+          field: 'interval',
+          message: `The period has more than ${MAX_BUCKETS} ${interval}s`,
+        },
+      ]);
+    }
+
+    const buckets = await this.prisma.$queryRaw<Bucket[]>`
+      SELECT
+        b AT TIME ZONE ${timezone} AS starts_at,
+        (b + ${`1 ${interval}`}::interval) AT TIME ZONE ${timezone} AS ends_at
+      FROM generate_series(
+        date_trunc(${interval}, ${from}::timestamptz AT TIME ZONE ${timezone}),
+        ${to}::timestamptz AT TIME ZONE ${timezone},
+        ${`1 ${interval}`}::interval
+      ) AS b
+      WHERE b < ${to}::timestamptz AT TIME ZONE ${timezone}
+      ORDER BY b
+    `;
+
+    const overall = await this.findSalesRows(
+      'all',
+      interval,
+      timezone,
+      buckets,
+      to,
+    );
+    const grouped = query.group_by
+      ? await this.findSalesRows(
+          query.group_by,
+          interval,
+          timezone,
+          buckets,
+          to,
+        )
+      : null;
+
+    return {
+      from: buckets[0].starts_at,
+      to,
+      interval,
+      timezone,
+      group_by: query.group_by ?? null,
+      totals: this.sum(overall),
+      series: grouped
+        ? this.toSeries(grouped, buckets, query.limit || 10)
+        : this.toSeries(overall, buckets, 1),
+    };
+  }
+
+  /**
+   * Best-selling products or categories of paid orders over a period.
+   * Periods that have ended are cached.
+   * @param query - Period, dimension, ranking metric and number of entries
+   * @returns Promise<TopSalesResponse> - Entries ranked by the metric
+   */
+  async getTopSales(query: TopSalesQueryDto): Promise<TopSalesResponse> {
+    const { from, to } = resolveDateRange(query, DEFAULT_PERIOD_DAYS);
+    const by = query.by || 'product';
+    const metric = query.metric || 'revenue';
+    const limit = query.limit || 10;
+
+    const key = `top:${by}:${metric}:${limit}:${from.toISOString()}:${to.toISOString()}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached as TopSalesResponse;
+    }
+
+    const rows = await this.prisma.$queryRaw<Omit<SalesRow, 'bucket'>[]>`
+      SELECT
+        ${DIMENSIONS[by].id} AS id,
+        ${DIMENSIONS[by].name} AS name,
+        SUM(oi.price_at_purchase * oi.quantity) AS revenue,
+        SUM(oi.quantity)::int AS units,
+        COUNT(DISTINCT o.id)::int AS orders
+      FROM ${this.fromPaidOrderItems(from, to)}
+      GROUP BY 1, 2
+      ORDER BY ${METRIC_ORDERS[metric]}, name NULLS LAST
+      LIMIT ${limit}
+    `;
+
+    const response: TopSalesResponse = {
+      from,
+      to,
+      by,
+      items: rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        revenue: row.revenue.toFixed(2),
+        units: row.units,
+        orders: row.orders,
+      })),
+    };
+
+    // Orders can still be placed in a period that has not ended
+    if (to.getTime() <= Date.now()) {
+      this.cache.set(key, response);
+    }
+
+    return response;
+  }
+
+  /**
+   * Sales per bucket and per category, product or overall. Buckets that
+   * have ended are cached one by one; the current bucket is always queried.
+   */
+  private async findSalesRows(
+    dimension: SalesDimension | 'all',
+    interval: SalesInterval,
+    timezone: string,
+    buckets: Bucket[],
+    to: Date,
+  ): Promise<SalesRow[]> {
+    const closedBefore = Math.min(Date.now(), to.getTime());
+    const closed = buckets.filter(
+      (bucket) => bucket.ends_at.getTime() <= closedBefore,
+    );
+    const keyOf = (bucket: Bucket) =>
+      `series:${dimension}:${interval}:${timezone}:${bucket.starts_at.toISOString()}`;
+
+    const cached = closed.map(
+      (bucket) => this.cache.get(keyOf(bucket)) as SalesRow[] | undefined,
+    );
+    const missing = cached.indexOf(undefined);
+    const hits = missing === -1 ? closed.length : missing;
+    const rows = cached.slice(0, hits).flat() as SalesRow[];
+
+    // Everything from the first bucket missing from the cache is read in
+    // one query
+    if (hits < closed.length) {
+      const fresh = await this.querySalesRows(
+        dimension,
+        closed[hits].starts_at,
+        closed[closed.length - 1].ends_at,
+        interval,
+        timezone,
+      );
+
+      const byBucket = new Map<number, SalesRow[]>();
+      for (const row of fresh) {
+        const bucketRows = byBucket.get(row.bucket.getTime()) ?? [];
+        bucketRows.push(row);
+        byBucket.set(row.bucket.getTime(), bucketRows);
+      }
+      for (const bucket of closed.slice(hits)) {
+        this.cache.set(
+          keyOf(bucket),
+          byBucket.get(bucket.starts_at.getTime()) ?? [],
+        );
+      }
+
+      rows.push(...fresh);
+    }
+
+    const openFrom = closed.length
+      ? closed[closed.length - 1].ends_at
+      : buckets[0].starts_at;
+    if (openFrom < to) {
+      rows.push(
+        ...(await this.querySalesRows(
+          dimension,
+          openFrom,
+          to,
+          interval,
+          timezone,
+        )),
+      );
+    }
+
+    return rows;
+  }
+
+  private querySalesRows(
+    dimension: SalesDimension | 'all',
+    from: Date,
+    to: Date,
+    interval: SalesInterval,
+    timezone: string,
+  ): Promise<SalesRow[]> {
+    return this.prisma.$queryRaw<SalesRow[]>`
+      SELECT
+        date_trunc(${interval}, o.created_at AT TIME ZONE ${timezone}) AT TIME ZONE ${timezone} AS bucket,
+        ${DIMENSIONS[dimension].id} AS id,
+        ${DIMENSIONS[dimension].name} AS name,
+        SUM(oi.price_at_purchase * oi.quantity) AS revenue,
+        SUM(oi.quantity)::int AS units,
+        COUNT(DISTINCT o.id)::int AS orders
+      FROM ${this.fromPaidOrderItems(from, to)}
+      GROUP BY 1, 2, 3
+    `;
+  }
+
+  /**
+   * FROM and WHERE clauses selecting the lines of the orders placed in the
+   * period that were paid, with their product and category
+   */
+  private fromPaidOrderItems(from: Date, to: Date): Prisma.Sql {
+    return Prisma.sql`
+      public.orders o
+      JOIN public.order_items oi ON oi.order_id = o.id
+      LEFT JOIN public.products pr ON pr.id = oi.product_id
+      LEFT JOIN public.categories c ON c.id = pr.category_id
+      WHERE o.status IN (${Prisma.join(
+        PAID_STATUSES.map(
+          (status) => Prisma.sql`${status}::public.order_status`,
+        ),
+      )})
+        AND o.created_at >= ${from}
+        AND o.created_at < ${to}
+    `;
+  }
+
+  /**
+   * One series per category or product, best sellers by revenue first,
+   * with a point for every bucket
+   */
+  private toSeries(
+    rows: SalesRow[],
+    buckets: Bucket[],
+    limit: number,
+  ): SalesSeries[] {
+    const groups = new Map<
+      string | null,
+      { name: string | null; rows: SalesRow[] }
+    >();
+    for (const row of rows) {
+      const group = groups.get(row.id) ?? { name: row.name, rows: [] };
+      group.rows.push(row);
+      groups.set(row.id, group);
+    }
+    if (groups.size === 0) {
+      groups.set(null, { name: null, rows: [] });
+    }
+
+    return [...groups]
+      .map(([id, group]) => ({ id, group, totals: this.sum(group.rows) }))
+      .sort((a, b) => Number(b.totals.revenue) - Number(a.totals.revenue))
+      .slice(0, limit)
+      .map(({ id, group, totals }) => {
+        const byBucket = new Map(
+          group.rows.map((row) => [row.bucket.getTime(), row]),
+        );
+
+        return {
+          id,
+          name: group.name,
+          totals,
+          points: buckets.map((bucket) => {
+            const row = byBucket.get(bucket.starts_at.getTime());
+            return {
+              bucket: bucket.starts_at,
+              revenue: row ? row.revenue.toFixed(2) : '0.00',
+              units: row?.units ?? 0,
+              orders: row?.orders ?? 0,
+            };
+          }),
+        };
+      });
+  }
+
+  /**
+   * Add up bucket rows. Every order falls in a single bucket, so order
+   * counts add up too.
+   */
+  private sum(rows: SalesRow[]): SalesFigures {
+    return {
+      revenue: rows
+        .reduce((total, row) => total.add(row.revenue), new Prisma.Decimal(0))
+        .toFixed(2),
+      units: rows.reduce((total, row) => total + row.units, 0),
+      orders: rows.reduce((total, row) => total + row.orders, 0),
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsTimeZone,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const SALES_INTERVALS = ['hour', 'day', 'week', 'month'] as const;
+export type SalesInterval = (typeof SALES_INTERVALS)[number];
+
+export const SALES_DIMENSIONS = ['category', 'product'] as const;
+export type SalesDimension = (typeof SALES_DIMENSIONS)[number];
+
+export const SALES_METRICS = ['revenue', 'units', 'orders'] as const;
+export type SalesMetric = (typeof SALES_METRICS)[number];
+
+export class SalesRangeQueryDto {
+  // Start of the period, inclusive; defaults to 30 days before `to`
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be an ISO 8601 date' })
+  from?: string;
+
+  // End of the period, exclusive; defaults to now
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be an ISO 8601 date' })
+  to?: string;
+}
+
+export class SalesSeriesQueryDto extends SalesRangeQueryDto {
+  @IsOptional()
+  @IsIn(SALES_INTERVALS, {
+    message: `Interval must be one of: ${SALES_INTERVALS.join(', ')}`,
+  })
+  interval?: SalesInterval = 'day';
+
+  // Buckets start at midnight (or the hour) in this IANA time zone
+  @IsOptional()
+  @IsTimeZone({ message: 'Timezone must be a valid IANA time zone' })
+  timezone?: string = 'UTC';
+
+  // One series per category or product instead of a single total
+  @IsOptional()
+  @IsIn(SALES_DIMENSIONS, {
+    message: `Group by must be one of: ${SALES_DIMENSIONS.join(', ')}`,
+  })
+  group_by?: SalesDimension;
+
+  // Number of series when grouping, best sellers by revenue first
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(50, { message: 'Limit must be at most 50' })
+  limit?: number = 10;
+}
+
+export class TopSalesQueryDto extends SalesRangeQueryDto {
+  @IsOptional()
+  @IsIn(SALES_DIMENSIONS, {
+    message: `By must be one of: ${SALES_DIMENSIONS.join(', ')}`,
+  })
+  by?: SalesDimension = 'product';
+
+  @IsOptional()
+  @IsIn(SALES_METRICS, {
+    message: `Metric must be one of: ${SALES_METRICS.join(', ')}`,
+  })
+  metric?: SalesMetric = 'revenue';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 10;
+}
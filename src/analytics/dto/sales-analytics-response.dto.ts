@@ -0,0 +1,43 @@
+import { SalesDimension, SalesInterval } from './sales-analytics-query.dto';
+
+export interface SalesFigures {
+  revenue: string;
+  units: number;
+  orders: number;
+}
+
+export interface SalesPoint extends SalesFigures {
+  // Start of the bucket in the requested time zone
+  bucket: Date;
+}
+
+export interface SalesSeries {
+  // Category or product; null for the overall series, and for products
+  // that were deleted or have no category
+  id: string | null;
+  name: string | null;
+  totals: SalesFigures;
+  points: SalesPoint[];
+}
+
+export interface SalesSeriesResponse {
+  from: Date;
+  to: Date;
+  interval: SalesInterval;
+  timezone: string;
+  group_by: SalesDimension | null;
+  totals: SalesFigures;
+  series: SalesSeries[];
+}
+
+export interface TopSalesEntry extends SalesFigures {
+  id: string | null;
+  name: string | null;
+}
+
+export interface TopSalesResponse {
+  from: Date;
+  to: Date;
+  by: SalesDimension;
+  items: TopSalesEntry[];
+}
@@ -0,0 +1,43 @@
+interface CacheEntry<T> {
+  value: T;
+  expires_at: number;
+}
+
+/**
+ * Keeps query results in process memory for a while. Entries are dropped
+ * oldest first once the cache is full.
+ */
+export class ResultCache<T> {
+  // Maps keep insertion order, which makes the first key the oldest
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  constructor(
+    private readonly ttlSeconds: number,
+    private readonly maxEntries: number,
+  ) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expires_at <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry?.value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.maxEntries && this.entries.size > 0) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(key, {
+      value,
+      expires_at: Date.now() + this.ttlSeconds * 1000,
+    });
+  }
+}
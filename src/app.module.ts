@@ -4,17 +4,55 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from './prisma/prisma.module';
 import { AuthModule } from './auth/auth.module';
+import { AdminModule } from './admin/admin.module';
+import { ProductsModule } from './products/products.module';
+import { CategoriesModule } from './categories/categories.module';
+import { OrdersModule } from './orders/orders.module';
+import { PaymentsModule } from './payments/payments.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { InventoryModule } from './inventory/inventory.module';
+import { StorageModule } from './storage/storage.module';
+import { PricingModule } from './pricing/pricing.module';
 import jwtConfig from './config/jwt.config';
+import sessionConfig from './config/session.config';
+import authConfig from './config/auth.config';
+import mailConfig from './config/mail.config';
+import paymentsConfig from './config/payments.config';
+import analyticsConfig from './config/analytics.config';
+import notificationsConfig from './config/notifications.config';
+import storageConfig from './config/storage.config';
+import pricingConfig from './config/pricing.config';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [jwtConfig],
+      load: [
+        jwtConfig,
+        sessionConfig,
+        authConfig,
+        mailConfig,
+        paymentsConfig,
+        analyticsConfig,
+        notificationsConfig,
+        storageConfig,
+        pricingConfig,
+      ],
       envFilePath: '.env',
     }),
     PrismaModule,
     AuthModule,
+    AdminModule,
+    ProductsModule,
+    CategoriesModule,
+    OrdersModule,
+    PaymentsModule,
+    AnalyticsModule,
+    NotificationsModule,
+    InventoryModule,
+    StorageModule,
+    PricingModule,
   ],
   controllers: [AppController],
   providers: [AppService],
@@ -2,26 +2,58 @@ import {
   Controller,
   Post,
   Get,
+  Delete,
   Body,
+  Param,
+  ParseUUIDPipe,
   HttpCode,
   HttpStatus,
-  ValidationPipe,
   UsePipes,
   UseGuards,
+  UseFilters,
   Request,
 } from '@nestjs/common';
 
 import { AuthService } from './auth.service';
+import { PasswordResetService } from './password-reset.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { EmailConfirmationService } from './email-confirmation.service';
+import {
+  WebAuthnService,
+  PasskeyLoginOptionsResponse,
+} from './webauthn.service';
+import { SessionContext } from './sessions.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponse } from './dto/auth-response.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { ConfirmEmailDto } from './dto/confirm-email.dto';
+import { ResendConfirmationDto } from './dto/resend-confirmation.dto';
+import { PasskeyLoginDto } from './dto/passkey-login.dto';
+import {
+  AuthResponse,
+  ConfirmationPendingResponse,
+  TokenResponse,
+} from './dto/auth-response.dto';
+import { SessionResponse } from './dto/session-response.dto';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { AalGuard } from './guards/aal.guard';
 import { Roles } from './decorators/roles.decorator';
+import { RequireAal } from './decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+import { RetryAfterFilter } from '../common/filters/retry-after.filter';
 
 @Controller('auth')
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly emailConfirmationService: EmailConfirmationService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly loginThrottleService: LoginThrottleService,
+  ) {}
 
   /**
    * Register a new user
@@ -29,24 +61,15 @@ export class AuthController {
    */
   @Post('register')
   @HttpCode(HttpStatus.CREATED)
-  @UsePipes(new ValidationPipe({ 
-    whitelist: true, 
-    forbidNonWhitelisted: true,
-    transform: true,
-    exceptionFactory: (errors) => {
-      const messages = errors.map(error => ({
-        field: error.property,
-        message: Object.values(error.constraints || {}).join(', '),
-      }));
-      return {
-        statusCode: HttpStatus.BAD_REQUEST,
-        message: 'Validation failed',
-        errors: messages,
-      };
-    },
-  }))
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponse> {
-    return await this.authService.register(registerDto);
+  @UsePipes(createValidationPipe())
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Request() req: any,
+  ): Promise<AuthResponse | ConfirmationPendingResponse> {
+    return await this.authService.register(
+      registerDto,
+      this.getSessionContext(req),
+    );
   }
 
   /**
@@ -55,24 +78,189 @@ export class AuthController {
    */
   @Post('login')
   @HttpCode(HttpStatus.OK)
-  @UsePipes(new ValidationPipe({ 
-    whitelist: true, 
-    forbidNonWhitelisted: true,
-    transform: true,
-    exceptionFactory: (errors) => {
-      const messages = errors.map(error => ({
-        field: error.property,
-        message: Object.values(error.constraints || {}).join(', '),
-      }));
-      return {
-        statusCode: HttpStatus.BAD_REQUEST,
-        message: 'Validation failed',
-        errors: messages,
-      };
-    },
-  }))
-  async login(@Body() loginDto: LoginDto): Promise<AuthResponse> {
-    return await this.authService.login(loginDto);
+  @UsePipes(createValidationPipe())
+  @UseFilters(RetryAfterFilter)
+  async login(
+    @Body() loginDto: LoginDto,
+    @Request() req: any,
+  ): Promise<AuthResponse> {
+    return await this.authService.login(loginDto, this.getSessionContext(req));
+  }
+
+  /**
+   * Start a passwordless login with a passkey
+   * POST /auth/passkey/options
+   */
+  @Post('passkey/options')
+  @HttpCode(HttpStatus.OK)
+  async passkeyOptions(): Promise<PasskeyLoginOptionsResponse> {
+    return await this.webAuthnService.generatePasskeyLoginOptions();
+  }
+
+  /**
+   * Login with a passkey instead of a password
+   * POST /auth/passkey/login
+   */
+  @Post('passkey/login')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async passkeyLogin(
+    @Body() passkeyLoginDto: PasskeyLoginDto,
+    @Request() req: any,
+  ): Promise<AuthResponse> {
+    return await this.authService.loginWithPasskey(
+      passkeyLoginDto.challenge_token,
+      passkeyLoginDto.credential,
+      this.getSessionContext(req),
+    );
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotates the refresh token)
+   * POST /auth/refresh
+   */
+  @Post('refresh')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async refresh(@Body() refreshTokenDto: RefreshTokenDto): Promise<TokenResponse> {
+    return await this.authService.refreshTokens(refreshTokenDto.refresh_token);
+  }
+
+  /**
+   * Confirm an email address
+   * POST /auth/confirm
+   */
+  @Post('confirm')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async confirmEmail(@Body() confirmEmailDto: ConfirmEmailDto) {
+    await this.emailConfirmationService.confirm(confirmEmailDto.token);
+
+    return {
+      message: 'Email address confirmed. You can now log in.',
+    };
+  }
+
+  /**
+   * Send a new confirmation email
+   * POST /auth/confirm/resend
+   */
+  @Post('confirm/resend')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UsePipes(createValidationPipe())
+  async resendConfirmation(@Body() resendConfirmationDto: ResendConfirmationDto) {
+    await this.emailConfirmationService.resend(resendConfirmationDto.email);
+
+    // Same response whether or not the account exists
+    return {
+      message:
+        'If an unconfirmed account exists for this email, a confirmation link has been sent',
+    };
+  }
+
+  /**
+   * Request a password reset email
+   * POST /auth/password/forgot
+   */
+  @Post('password/forgot')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UsePipes(createValidationPipe())
+  async forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    await this.passwordResetService.requestReset(forgotPasswordDto.email);
+
+    // Same response whether or not the account exists
+    return {
+      message:
+        'If an account exists for this email, a password reset link has been sent',
+    };
+  }
+
+  /**
+   * Set a new password using a reset token
+   * POST /auth/password/reset
+   */
+  @Post('password/reset')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    await this.passwordResetService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.password,
+    );
+
+    return {
+      message: 'Password has been reset. Please log in again.',
+    };
+  }
+
+  /**
+   * End the current session
+   * POST /auth/logout
+   */
+  @Post('logout')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(@Request() req: any): Promise<void> {
+    await this.authService.logout(req.user.session_id);
+  }
+
+  /**
+   * End every session of the current user
+   * POST /auth/logout-all
+   */
+  @Post('logout-all')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async logoutAll(@Request() req: any) {
+    const revoked = await this.authService.logoutAll(req.user.id);
+
+    return {
+      message: 'All sessions have been revoked',
+      revoked_sessions: revoked,
+    };
+  }
+
+  /**
+   * List the active sessions (devices) of the current user
+   * GET /auth/sessions
+   */
+  @Get('sessions')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.OK)
+  async getSessions(@Request() req: any): Promise<SessionResponse[]> {
+    return await this.authService.listSessions(
+      req.user.id,
+      req.user.session_id,
+    );
+  }
+
+  /**
+   * Revoke a single session. Admins may revoke any user's session.
+   * DELETE /auth/sessions/:id
+   */
+  @Delete('sessions/:id')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async revokeSession(
+    @Param('id', ParseUUIDPipe) sessionId: string,
+    @Request() req: any,
+  ): Promise<void> {
+    await this.authService.revokeSession(sessionId, req.user);
+  }
+
+  /**
+   * Lift the login lockout of an account (admin only)
+   * DELETE /auth/lockouts/:userId
+   */
+  @Delete('lockouts/:userId')
+  @UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+  @Roles('admin')
+  @RequireAal('aal2')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async clearLockout(
+    @Param('userId', ParseUUIDPipe) userId: string,
+  ): Promise<void> {
+    await this.loginThrottleService.clearLockout(userId);
   }
 
   /**
@@ -95,28 +283,12 @@ export class AuthController {
   }
 
   /**
-   * Admin-only endpoint (requires admin role)
-   * GET /auth/admin
+   * Extract device information for a new session from the request
    */
-  @Get('admin')
-  @UseGuards(JwtAuthGuard, RolesGuard)
-  @Roles('admin')
-  @HttpCode(HttpStatus.OK)
-  async getAdminData(@Request() req: any) {
-    const user = req.user;
-    
+  private getSessionContext(req: any): SessionContext {
     return {
-      message: 'Admin access granted',
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-      },
-      adminData: {
-        systemStatus: 'operational',
-        totalUsers: 'classified',
-        serverInfo: 'admin-only-data',
-      },
+      user_agent: req.headers?.['user-agent'],
+      ip: req.ip,
     };
   }
-}
\ No newline at end of file
+}
@@ -5,13 +5,31 @@ import { PassportModule } from '@nestjs/passport';
 
 import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
+import { MfaController } from './mfa.controller';
 import { JwtService as CustomJwtService } from './jwt.service';
 import { PasswordService } from './password.service';
+import { SessionsService } from './sessions.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { OneTimeTokenService } from './one-time-token.service';
+import { PasswordResetService } from './password-reset.service';
+import { EmailConfirmationService } from './email-confirmation.service';
+import { MfaService } from './mfa.service';
+import { WebAuthnService } from './webauthn.service';
+import { LoginThrottleService } from './login-throttle.service';
+import {
+  LOGIN_ATTEMPT_STORE,
+  LoginAttemptStore,
+} from './login-attempts/login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './login-attempts/stores/memory.store';
+import { PostgresLoginAttemptStore } from './login-attempts/stores/postgres.store';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
 import { RolesGuard } from './guards/roles.guard';
+import { AalGuard } from './guards/aal.guard';
 import { UsersModule } from '../users/users.module';
 import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
   imports: [
@@ -20,6 +38,9 @@ import { PrismaModule } from '../prisma/prisma.module';
     
     // Import PrismaModule for database access
     PrismaModule,
+
+    // Import MailModule to send confirmation and password reset emails
+    MailModule,
     
     // Configure PassportModule with default JWT strategy
     PassportModule.register({ 
@@ -39,12 +60,38 @@ import { PrismaModule } from '../prisma/prisma.module';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
+  controllers: [AuthController, MfaController],
   providers: [
     // Core authentication services
     AuthService,
     CustomJwtService,
     PasswordService,
+    SessionsService,
+    RefreshTokenService,
+    OneTimeTokenService,
+    PasswordResetService,
+    EmailConfirmationService,
+    MfaService,
+    WebAuthnService,
+    LoginThrottleService,
+
+    // Select where failed login attempts are counted from configuration
+    {
+      provide: LOGIN_ATTEMPT_STORE,
+      useFactory: (
+        configService: ConfigService,
+        prisma: PrismaService,
+      ): LoginAttemptStore => {
+        if (
+          configService.get<string>('auth.loginAttemptStore') === 'postgres'
+        ) {
+          return new PostgresLoginAttemptStore(prisma);
+        }
+
+        return new MemoryLoginAttemptStore();
+      },
+      inject: [ConfigService, PrismaService],
+    },
     
     // JWT strategy for Passport
     JwtStrategy,
@@ -52,6 +99,7 @@ import { PrismaModule } from '../prisma/prisma.module';
     // Authentication and authorization guards
     JwtAuthGuard,
     RolesGuard,
+    AalGuard,
   ],
   exports: [
     // Export AuthService for use by other modules
@@ -60,10 +108,16 @@ import { PrismaModule } from '../prisma/prisma.module';
     // Export guards for use in other modules
     JwtAuthGuard,
     RolesGuard,
+    AalGuard,
     
     // Export JWT and Password services for potential reuse
     CustomJwtService,
     PasswordService,
+
+    // Export SessionsService and UsersModule, required by JwtAuthGuard in
+    // other modules
+    SessionsService,
+    UsersModule,
   ],
 })
 export class AuthModule {}
\ No newline at end of file
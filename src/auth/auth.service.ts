@@ -2,19 +2,34 @@ import {
   Injectable, 
   ConflictException, 
   UnauthorizedException,
+  ForbiddenException,
   BadRequestException,
+  HttpStatus,
   InternalServerErrorException 
 } from '@nestjs/common';
 import { randomUUID } from 'crypto';
-import { profiles } from '@prisma/client';
+import { mfa_factors, profiles } from '@prisma/client';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
 
 import { UsersService } from '../users/users.service';
 import { PasswordService } from './password.service';
-import { JwtService } from './jwt.service';
+import { JwtService, TokenPair } from './jwt.service';
+import { SessionsService, SessionContext } from './sessions.service';
+import { RefreshTokenService } from './refresh-token.service';
+import { EmailConfirmationService } from './email-confirmation.service';
+import { MfaService } from './mfa.service';
+import { WebAuthnService } from './webauthn.service';
+import { LoginThrottleService } from './login-throttle.service';
+import { TooManyRequestsException } from '../common/exceptions/too-many-requests.exception';
 import { PrismaService } from '../prisma/prisma.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
-import { AuthResponse, TokenResponse } from './dto/auth-response.dto';
+import {
+  AuthResponse,
+  ConfirmationPendingResponse,
+  TokenResponse,
+} from './dto/auth-response.dto';
+import { SessionResponse } from './dto/session-response.dto';
 
 @Injectable()
 export class AuthService {
@@ -23,14 +38,25 @@ export class AuthService {
     private readonly passwordService: PasswordService,
     private readonly jwtService: JwtService,
     private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
+    private readonly refreshTokenService: RefreshTokenService,
+    private readonly emailConfirmationService: EmailConfirmationService,
+    private readonly mfaService: MfaService,
+    private readonly webAuthnService: WebAuthnService,
+    private readonly loginThrottleService: LoginThrottleService,
   ) {}
 
   /**
    * Register a new user with duplicate email prevention
    * @param registerDto - Registration data containing email, password, and full_name
-   * @returns Promise<AuthResponse> - Authentication response with tokens and user data
+   * @param context - Device information for the new session
+   * @returns Promise<AuthResponse | ConfirmationPendingResponse> - Tokens and user data,
+   * or a pending response when the email must be confirmed first
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponse> {
+  async register(
+    registerDto: RegisterDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponse | ConfirmationPendingResponse> {
     try {
       // Validate password strength
       const passwordValidation = this.passwordService.validatePasswordStrength(registerDto.password);
@@ -53,13 +79,16 @@ export class AuthService {
       // Generate unique user ID
       const userId = randomUUID();
 
+      const confirmationRequired = this.emailConfirmationService.isRequired();
+
       // Create user in auth.users table with encrypted password
       await this.prisma.users.create({
         data: {
           id: userId,
           email: registerDto.email,
           encrypted_password: hashedPassword,
-          email_confirmed_at: new Date(), // Auto-confirm for this implementation
+          // Only auto-confirm when email confirmation is turned off
+          email_confirmed_at: confirmationRequired ? null : new Date(),
           created_at: new Date(),
           updated_at: new Date(),
         },
@@ -73,12 +102,33 @@ export class AuthService {
         role: 'customer', // Default role
       });
 
-      // Generate tokens
-      const tokens = await this.jwtService.generateTokens({
-        sub: user.id,
-        email: user.email,
-        role: user.role || 'customer',
-      });
+      // No tokens until the user proves they own the email address
+      if (confirmationRequired) {
+        try {
+          await this.emailConfirmationService.sendConfirmation(
+            user.id,
+            user.email,
+          );
+        } catch (error) {
+          // The account exists; the user can ask for a new email via /auth/confirm/resend
+          console.error('Confirmation email error:', error);
+        }
+
+        return {
+          message:
+            'Registration successful. Please check your email to confirm your account.',
+          confirmation_required: true,
+          user: {
+            id: user.id,
+            email: user.email,
+            role: user.role as 'admin' | 'customer',
+            full_name: user.full_name || '',
+          },
+        };
+      }
+
+      // Open a session and generate tokens
+      const tokens = await this.createSessionTokens(user, context);
 
       return {
         access_token: tokens.access_token,
@@ -110,10 +160,17 @@ export class AuthService {
   /**
    * Authenticate user login with credential validation
    * @param loginDto - Login credentials containing email and password
+   * @param context - Device information for the new session
    * @returns Promise<AuthResponse> - Authentication response with tokens and user data
    */
-  async login(loginDto: LoginDto): Promise<AuthResponse> {
+  async login(
+    loginDto: LoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
     try {
+      // Refuse early while this email or IP is backing off or locked out
+      await this.loginThrottleService.assertAllowed(loginDto.email, context.ip);
+
       // Find user by email
       const user = await this.usersService.findByEmail(loginDto.email);
       
@@ -121,25 +178,48 @@ export class AuthService {
       const invalidCredentialsError = new UnauthorizedException('Invalid credentials');
 
       if (!user) {
+        await this.loginThrottleService.recordFailure(
+          loginDto.email,
+          context.ip,
+        );
         throw invalidCredentialsError;
       }
 
       // Validate user credentials
       const isValidUser = await this.validateUser(loginDto.email, loginDto.password);
       if (!isValidUser) {
+        await this.loginThrottleService.recordFailure(
+          loginDto.email,
+          context.ip,
+        );
         throw invalidCredentialsError;
       }
 
-      // Generate tokens
-      const tokens = await this.jwtService.generateTokens({
-        sub: user.id,
-        email: user.email,
-        role: user.role || 'customer',
-      });
+      await this.loginThrottleService.recordSuccess(loginDto.email);
+
+      await this.assertAccountUsable(user.id);
+
+      // Admins cannot self-register; those created by a seed are exempt from
+      // email confirmation, any other admin confirms like everyone else
+      if (!(await this.isEmailConfirmed(user.id, user.role))) {
+        throw new ForbiddenException({
+          statusCode: HttpStatus.FORBIDDEN,
+          error: 'email_not_confirmed',
+          message: 'Email address has not been confirmed',
+        });
+      }
+
+      // Open a session and generate tokens
+      const tokens = await this.createSessionTokens(user, context);
+
+      // The session starts at aal1; users with a verified factor must complete
+      // an MFA challenge before reaching routes that require aal2
+      const mfaRequired = await this.mfaService.hasVerifiedFactor(user.id);
 
       return {
         access_token: tokens.access_token,
         refresh_token: tokens.refresh_token,
+        mfa_required: mfaRequired,
         user: {
           id: user.id,
           email: user.email,
@@ -149,7 +229,11 @@ export class AuthService {
       };
     } catch (error) {
       // Handle known authentication errors
-      if (error instanceof UnauthorizedException) {
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof ForbiddenException ||
+        error instanceof TooManyRequestsException
+      ) {
         throw error;
       }
 
@@ -159,6 +243,68 @@ export class AuthService {
     }
   }
 
+  /**
+   * Sign in with a passkey alone. The authenticator must verify the user
+   * (PIN or biometric), so the new session starts at aal2.
+   * @param challengeToken - Token returned with the passkey login options
+   * @param credential - Assertion response from the browser
+   * @param context - Device information for the new session
+   * @returns Promise<AuthResponse> - Authentication response with tokens and user data
+   */
+  async loginWithPasskey(
+    challengeToken: string,
+    credential: AuthenticationResponseJSON,
+    context: SessionContext = {},
+  ): Promise<AuthResponse> {
+    try {
+      const factor = await this.webAuthnService.verifyPasskeyLogin(
+        challengeToken,
+        credential,
+      );
+
+      const user = await this.usersService.findById(factor.user_id);
+      if (!user) {
+        throw new UnauthorizedException('Passkey not recognised');
+      }
+
+      await this.assertAccountUsable(user.id);
+
+      if (!(await this.isEmailConfirmed(user.id, user.role))) {
+        throw new ForbiddenException({
+          statusCode: HttpStatus.FORBIDDEN,
+          error: 'email_not_confirmed',
+          message: 'Email address has not been confirmed',
+        });
+      }
+
+      const tokens = await this.createSessionTokens(user, context, factor);
+
+      return {
+        access_token: tokens.access_token,
+        refresh_token: tokens.refresh_token,
+        mfa_required: false,
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role as 'admin' | 'customer',
+          full_name: user.full_name || '',
+        },
+      };
+    } catch (error) {
+      if (
+        error instanceof UnauthorizedException ||
+        error instanceof ForbiddenException
+      ) {
+        throw error;
+      }
+
+      console.error('Passkey login error:', error);
+      throw new InternalServerErrorException(
+        'Authentication failed. Please try again.',
+      );
+    }
+  }
+
   /**
    * Refresh authentication tokens using a valid refresh token
    * @param refreshToken - Valid refresh token
@@ -166,7 +312,34 @@ export class AuthService {
    */
   async refreshTokens(refreshToken: string): Promise<TokenResponse> {
     try {
-      return await this.jwtService.refreshTokens(refreshToken);
+      const payload = await this.jwtService.verifyRefreshToken(refreshToken);
+
+      // Rotate: the presented token can never be used again
+      const record = await this.refreshTokenService.consume(refreshToken);
+      const sessionId = record.session_id as string;
+
+      // Reload the profile so role changes are reflected in the new tokens
+      const user = await this.usersService.findById(payload.sub);
+      if (!user || record.user_id !== user.id) {
+        throw new UnauthorizedException('Invalid or expired refresh token');
+      }
+
+      const tokens = await this.jwtService.generateTokens({
+        sub: user.id,
+        email: user.email,
+        role: user.role || 'customer',
+        session_id: sessionId,
+      });
+
+      await this.refreshTokenService.store(
+        tokens.refresh_token,
+        user.id,
+        sessionId,
+        record.token,
+      );
+      await this.sessionsService.touch(sessionId);
+
+      return tokens;
     } catch (error) {
       if (error instanceof UnauthorizedException) {
         throw error;
@@ -177,6 +350,149 @@ export class AuthService {
     }
   }
 
+  /**
+   * End the current session
+   * @param sessionId - Session the request was authenticated with
+   */
+  async logout(sessionId: string): Promise<void> {
+    await this.sessionsService.revoke(sessionId);
+  }
+
+  /**
+   * End every session of a user, on all devices
+   * @param userId - ID of the user
+   * @returns Promise<number> - Number of sessions that were revoked
+   */
+  async logoutAll(userId: string): Promise<number> {
+    return await this.sessionsService.revokeAllForUser(userId);
+  }
+
+  /**
+   * List the active sessions (devices) of a user
+   * @param userId - ID of the user
+   * @param currentSessionId - Session the request was authenticated with
+   * @returns Promise<SessionResponse[]> - Active sessions, newest first
+   */
+  async listSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<SessionResponse[]> {
+    const sessions = await this.sessionsService.findActiveByUser(userId);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      user_agent: session.user_agent,
+      ip: session.ip,
+      aal: session.aal,
+      created_at: session.created_at,
+      refreshed_at: session.refreshed_at,
+      not_after: session.not_after,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke a single session
+   * @param sessionId - Session to revoke
+   * @param requester - Authenticated user; admins may revoke any user's session
+   */
+  async revokeSession(
+    sessionId: string,
+    requester: { id: string; role: string },
+  ): Promise<void> {
+    const ownerId = requester.role === 'admin' ? null : requester.id;
+    await this.sessionsService.revokeOwned(sessionId, ownerId);
+  }
+
+  /**
+   * Open a new session for a user and issue its first token pair
+   * @param user - Authenticated user profile
+   * @param context - Device information for the new session
+   * @param factor - Factor already verified during sign-in; raises the session to aal2
+   * @returns Promise<TokenPair> - Access and refresh tokens bound to the session
+   */
+  private async createSessionTokens(
+    user: profiles,
+    context: SessionContext,
+    factor?: mfa_factors,
+  ): Promise<TokenPair> {
+    const session = await this.sessionsService.create(user.id, context);
+
+    if (factor) {
+      await this.mfaService.completeVerification(
+        factor,
+        session.id,
+        'webauthn',
+      );
+    }
+
+    const tokens = await this.jwtService.generateTokens({
+      sub: user.id,
+      email: user.email,
+      role: user.role || 'customer',
+      session_id: session.id,
+    });
+
+    await this.refreshTokenService.store(
+      tokens.refresh_token,
+      user.id,
+      session.id,
+    );
+
+    return tokens;
+  }
+
+  /**
+   * Reject accounts that were soft-deleted or banned by an administrator
+   * @param userId - ID of the user logging in
+   */
+  private async assertAccountUsable(userId: string): Promise<void> {
+    const state = await this.usersService.getAccountState(userId);
+
+    if (state === 'deleted' || state === null) {
+      // Deleted accounts are reported like unknown ones
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (state === 'banned') {
+      throw new ForbiddenException({
+        statusCode: HttpStatus.FORBIDDEN,
+        error: 'user_banned',
+        message: 'This account has been suspended',
+      });
+    }
+  }
+
+  /**
+   * Check whether a user has confirmed their email address. Admins created
+   * by a seed, which marks them with raw_app_meta_data.seeded, count as
+   * confirmed.
+   * @param userId - ID of the user
+   * @param role - Role of the user
+   * @returns Promise<boolean> - True if email_confirmed_at is set or the user is a seeded admin
+   */
+  private async isEmailConfirmed(
+    userId: string,
+    role: string | null,
+  ): Promise<boolean> {
+    const authUser = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: { email_confirmed_at: true, raw_app_meta_data: true },
+    });
+    if (authUser?.email_confirmed_at) {
+      return true;
+    }
+
+    const appMetadata = authUser?.raw_app_meta_data;
+    return (
+      role === 'admin' &&
+      typeof appMetadata === 'object' &&
+      appMetadata !== null &&
+      !Array.isArray(appMetadata) &&
+      appMetadata.seeded === true
+    );
+  }
+
   /**
    * Validate user credentials during login
    * @param email - User email
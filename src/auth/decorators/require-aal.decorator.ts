@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuthenticatorAssuranceLevel } from '../guards/aal.guard';
+
+export const AAL_KEY = 'aal';
+export const RequireAal = (aal: AuthenticatorAssuranceLevel) =>
+  SetMetadata(AAL_KEY, aal);
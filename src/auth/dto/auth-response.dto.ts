@@ -1,6 +1,8 @@
 export interface AuthResponse {
   access_token: string;
   refresh_token: string;
+  // True when a second factor must be verified to reach aal2
+  mfa_required?: boolean;
   user: {
     id: string;
     email: string;
@@ -12,4 +14,15 @@ export interface AuthResponse {
 export interface TokenResponse {
   access_token: string;
   refresh_token: string;
-}
\ No newline at end of file
+}
+
+export interface ConfirmationPendingResponse {
+  message: string;
+  confirmation_required: true;
+  user: {
+    id: string;
+    email: string;
+    role: 'admin' | 'customer';
+    full_name: string;
+  };
+}
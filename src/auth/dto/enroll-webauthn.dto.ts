@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class EnrollWebAuthnDto {
+  @IsOptional()
+  @IsString({ message: 'Friendly name must be a string' })
+  @MaxLength(100, { message: 'Friendly name must be at most 100 characters' })
+  friendly_name?: string;
+}
@@ -0,0 +1,6 @@
+import { IsUUID } from 'class-validator';
+
+export class MfaChallengeDto {
+  @IsUUID('4', { message: 'Factor ID must be a valid UUID' })
+  factor_id: string;
+}
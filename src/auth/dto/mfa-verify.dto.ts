@@ -0,0 +1,12 @@
+import { IsUUID, Matches } from 'class-validator';
+
+export class MfaVerifyDto {
+  @IsUUID('4', { message: 'Factor ID must be a valid UUID' })
+  factor_id: string;
+
+  @IsUUID('4', { message: 'Challenge ID must be a valid UUID' })
+  challenge_id: string;
+
+  @Matches(/^\d{6}$/, { message: 'Code must be a 6-digit number' })
+  code: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsObject, IsString } from 'class-validator';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+
+export class PasskeyLoginDto {
+  @IsString({ message: 'Challenge token must be a string' })
+  @IsNotEmpty({ message: 'Challenge token is required' })
+  challenge_token: string;
+
+  // Checked cryptographically by the WebAuthn verifier, not field by field
+  @IsObject({ message: 'Credential must be the authenticator response object' })
+  credential: AuthenticationResponseJSON;
+}
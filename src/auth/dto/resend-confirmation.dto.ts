@@ -0,0 +1,6 @@
+import { IsEmail } from 'class-validator';
+
+export class ResendConfirmationDto {
+  @IsEmail({}, { message: 'Please provide a valid email address' })
+  email: string;
+}
@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, MinLength, Matches } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsString({ message: 'Token must be a string' })
+  @IsNotEmpty({ message: 'Token is required' })
+  token: string;
+
+  @IsString({ message: 'Password must be a string' })
+  @MinLength(8, { message: 'Password must be at least 8 characters long' })
+  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
+    message:
+      'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character (@$!%*?&)',
+  })
+  password: string;
+}
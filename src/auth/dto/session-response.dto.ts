@@ -0,0 +1,10 @@
+export interface SessionResponse {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  aal: 'aal1' | 'aal2' | 'aal3' | null;
+  created_at: Date | null;
+  refreshed_at: Date | null;
+  not_after: Date | null;
+  current: boolean;
+}
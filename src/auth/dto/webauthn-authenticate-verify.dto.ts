@@ -0,0 +1,11 @@
+import { IsObject, IsUUID } from 'class-validator';
+import type { AuthenticationResponseJSON } from '@simplewebauthn/server';
+
+export class WebAuthnAuthenticateVerifyDto {
+  @IsUUID('4', { message: 'Challenge ID must be a valid UUID' })
+  challenge_id: string;
+
+  // Checked cryptographically by the WebAuthn verifier, not field by field
+  @IsObject({ message: 'Credential must be the authenticator response object' })
+  credential: AuthenticationResponseJSON;
+}
@@ -0,0 +1,11 @@
+import { IsObject, IsUUID } from 'class-validator';
+import type { RegistrationResponseJSON } from '@simplewebauthn/server';
+
+export class WebAuthnRegisterVerifyDto {
+  @IsUUID('4', { message: 'Factor ID must be a valid UUID' })
+  factor_id: string;
+
+  // Checked cryptographically by the WebAuthn verifier, not field by field
+  @IsObject({ message: 'Credential must be the authenticator response object' })
+  credential: RegistrationResponseJSON;
+}
@@ -0,0 +1,164 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EmailConfirmationService } from './email-confirmation.service';
+import { OneTimeTokenService } from './one-time-token.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+
+describe('EmailConfirmationService', () => {
+  let service: EmailConfirmationService;
+  let prisma: PrismaService;
+  let oneTimeTokenService: OneTimeTokenService;
+  let mailService: MailService;
+  let config: Record<string, unknown>;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const email = 'user@example.com';
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailConfirmationService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            users: {
+              findFirst: jest.fn(),
+              update: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: OneTimeTokenService,
+          useValue: {
+            issue: jest.fn().mockResolvedValue('confirm-token'),
+            consume: jest.fn(),
+          },
+        },
+        {
+          provide: MailService,
+          useValue: {
+            send: jest.fn(),
+            buildLink: jest.fn(
+              (path: string, params: Record<string, string>) =>
+                `http://app${path}?token=${params.token}`,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<EmailConfirmationService>(EmailConfirmationService);
+    prisma = module.get<PrismaService>(PrismaService);
+    oneTimeTokenService = module.get<OneTimeTokenService>(OneTimeTokenService);
+    mailService = module.get<MailService>(MailService);
+  });
+
+  describe('isRequired', () => {
+    it('should require confirmation by default', () => {
+      expect(service.isRequired()).toBe(true);
+    });
+
+    it('should not require confirmation when turned off', () => {
+      config['auth.emailConfirmation'] = 'off';
+
+      expect(service.isRequired()).toBe(false);
+    });
+  });
+
+  describe('sendConfirmation', () => {
+    it('should issue a token, record the send time and email the link', async () => {
+      await service.sendConfirmation(userId, email);
+
+      expect(oneTimeTokenService.issue).toHaveBeenCalledWith(
+        userId,
+        'confirmation_token',
+        email,
+      );
+      expect(prisma.users.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: {
+          confirmation_sent_at: expect.any(Date),
+          updated_at: expect.any(Date),
+        },
+      });
+      expect(mailService.send).toHaveBeenCalledWith(
+        email,
+        'Confirm your email address',
+        expect.stringContaining('http://app/confirm-email?token=confirm-token'),
+      );
+    });
+  });
+
+  describe('confirm', () => {
+    it('should mark the email as confirmed', async () => {
+      jest
+        .spyOn(oneTimeTokenService, 'consume')
+        .mockResolvedValue({ user_id: userId } as any);
+
+      await service.confirm('confirm-token');
+
+      expect(prisma.users.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: {
+          email_confirmed_at: expect.any(Date),
+          updated_at: expect.any(Date),
+        },
+      });
+    });
+
+    it('should reject an invalid or expired token', async () => {
+      jest.spyOn(oneTimeTokenService, 'consume').mockResolvedValue(null);
+
+      await expect(service.confirm('bad-token')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(prisma.users.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resend', () => {
+    it('should not email an account that is already confirmed', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        id: userId,
+        email_confirmed_at: new Date(),
+        confirmation_sent_at: null,
+      } as any);
+
+      await service.resend(email);
+
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should not email again during the cooldown', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        id: userId,
+        email_confirmed_at: null,
+        confirmation_sent_at: new Date(),
+      } as any);
+
+      await service.resend(email);
+
+      expect(mailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should email an unconfirmed account once the cooldown has passed', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        id: userId,
+        email_confirmed_at: null,
+        confirmation_sent_at: new Date(Date.now() - 120 * 1000),
+      } as any);
+
+      await service.resend(email);
+
+      expect(mailService.send).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { OneTimeTokenService } from './one-time-token.service';
+
+@Injectable()
+export class EmailConfirmationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly oneTimeTokenService: OneTimeTokenService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Whether new accounts must confirm their email before logging in
+   * @returns boolean - True when confirmation mode is 'required'
+   */
+  isRequired(): boolean {
+    return (
+      (this.configService.get<string>('auth.emailConfirmation') ||
+        'required') === 'required'
+    );
+  }
+
+  /**
+   * Issue a confirmation token and email it to the user
+   * @param userId - ID of the account to confirm
+   * @param email - Address to confirm
+   */
+  async sendConfirmation(userId: string, email: string): Promise<void> {
+    const token = await this.oneTimeTokenService.issue(
+      userId,
+      'confirmation_token',
+      email,
+    );
+
+    await this.prisma.users.update({
+      where: { id: userId },
+      data: { confirmation_sent_at: new Date(), updated_at: new Date() },
+    });
+
+    const ttlHours = Math.round(this.getTokenTtlSeconds() / 3600);
+    const link = this.mailService.buildLink('/confirm-email', { token });
+
+    await this.mailService.send(
+      email,
+      'Confirm your email address',
+      `Welcome! Please confirm your email address by opening the following link: ${link}\n\n` +
+        `The link expires in ${ttlHours} hours. ` +
+        `If you did not create an account, you can ignore this email.`,
+    );
+  }
+
+  /**
+   * Confirm an email address using a confirmation token
+   * @param token - Confirmation token received by email
+   */
+  async confirm(token: string): Promise<void> {
+    const record = await this.oneTimeTokenService.consume(
+      token,
+      'confirmation_token',
+      this.getTokenTtlSeconds(),
+    );
+    if (!record) {
+      throw new BadRequestException('Invalid or expired confirmation token');
+    }
+
+    await this.prisma.users.update({
+      where: { id: record.user_id },
+      data: { email_confirmed_at: new Date(), updated_at: new Date() },
+    });
+  }
+
+  /**
+   * Send a new confirmation email to an unconfirmed account.
+   * Resolves the same way whether or not the email is known, to prevent user enumeration.
+   * @param email - Email address of the account
+   */
+  async resend(email: string): Promise<void> {
+    try {
+      const user = await this.prisma.users.findFirst({
+        where: { email, deleted_at: null },
+      });
+
+      if (!user || user.email_confirmed_at) {
+        return;
+      }
+
+      // Avoid flooding a mailbox with confirmation emails
+      const cooldownSeconds =
+        this.configService.get<number>('auth.confirmationCooldownSeconds') ??
+        60;
+      if (
+        user.confirmation_sent_at &&
+        Date.now() - user.confirmation_sent_at.getTime() <
+          cooldownSeconds * 1000
+      ) {
+        return;
+      }
+
+      await this.sendConfirmation(user.id, email);
+    } catch (error) {
+      // Never reveal delivery problems to the caller
+      console.error('Confirmation resend error:', error);
+    }
+  }
+
+  private getTokenTtlSeconds(): number {
+    return (
+      this.configService.get<number>('auth.confirmationTokenTtlSeconds') ||
+      86400
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  HttpStatus,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AAL_KEY } from '../decorators/require-aal.decorator';
+
+export type AuthenticatorAssuranceLevel = 'aal1' | 'aal2';
+
+const AAL_RANK: Record<string, number> = {
+  aal1: 1,
+  aal2: 2,
+  aal3: 3,
+};
+
+@Injectable()
+export class AalGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    // Get required assurance level from the route metadata
+    const requiredAal =
+      this.reflector.getAllAndOverride<AuthenticatorAssuranceLevel>(AAL_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]);
+
+    // If no assurance level is required, allow access
+    if (!requiredAal) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    // Check if user exists (should be set by JWT auth guard)
+    if (!user) {
+      throw new UnauthorizedException('User not authenticated');
+    }
+
+    // The session's level is attached to request.user by JwtAuthGuard
+    const sessionRank = AAL_RANK[user.aal] || AAL_RANK.aal1;
+
+    if (sessionRank < AAL_RANK[requiredAal]) {
+      throw new ForbiddenException({
+        statusCode: HttpStatus.FORBIDDEN,
+        error: 'mfa_required',
+        message:
+          'Complete a multi-factor authentication step to access this resource',
+      });
+    }
+
+    return true;
+  }
+}
@@ -5,10 +5,16 @@ import {
 } from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
 import { JwtService } from '../jwt.service';
+import { SessionsService } from '../sessions.service';
+import { UsersService } from '../../users/users.service';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
-  constructor(private readonly jwtService: JwtService) {
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly sessionsService: SessionsService,
+    private readonly usersService: UsersService,
+  ) {
     super();
   }
 
@@ -30,12 +36,37 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     try {
       // Verify and decode the token
       const payload = await this.jwtService.verifyAccessToken(token);
+
+      // Reject tokens whose session was revoked (logout) or has expired
+      const session = payload.session_id
+        ? await this.sessionsService.findById(payload.session_id)
+        : null;
+      if (
+        !session ||
+        session.user_id !== payload.sub ||
+        !this.sessionsService.isActive(session)
+      ) {
+        throw new UnauthorizedException(
+          'Session has been revoked or has expired',
+        );
+      }
+
+      // Reject accounts that were soft-deleted or banned by an administrator
+      // after the token was issued
+      const state = await this.usersService.getAccountState(payload.sub);
+      if (state === null || state === 'deleted' || state === 'banned') {
+        throw new UnauthorizedException(
+          'User not found or has been deactivated',
+        );
+      }
       
       // Attach user information to the request object for route handlers
       request.user = {
         id: payload.sub,
         email: payload.email,
         role: payload.role,
+        session_id: session.id,
+        aal: session.aal || 'aal1',
       };
 
       return true;
@@ -188,7 +188,7 @@ describe('JwtService', () => {
 
       it('should reject an expired refresh token', async () => {
         const secret =
-          configService.get<string>('jwt.secret') || 'default-secret';
+          configService.get<string>('jwt.refreshSecret') || 'default-refresh-secret';
         const payload = {
           sub: '123e4567-e89b-12d3-a456-426614174000',
           email: 'test@example.com',
@@ -247,41 +247,51 @@ describe('JwtService', () => {
       });
     });
 
-    describe('Token Refresh', () => {
-      it('should refresh tokens using valid refresh token', async () => {
+    describe('Refresh Token Isolation', () => {
+      it('should give every refresh token a unique jti', async () => {
         const payload: JwtPayload = {
           sub: '123e4567-e89b-12d3-a456-426614174000',
           email: 'test@example.com',
           role: 'customer',
         };
 
-        const originalTokens = await service.generateTokens(payload);
-        
-        // Add a small delay to ensure different iat timestamps
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        const newTokens = await service.refreshTokens(
-          originalTokens.refresh_token,
-        );
+        const first = await service.generateTokens(payload);
+        const second = await service.generateTokens(payload);
 
-        expect(newTokens).toHaveProperty('access_token');
-        expect(newTokens).toHaveProperty('refresh_token');
-        expect(newTokens.access_token).not.toBe(originalTokens.access_token);
-        expect(newTokens.refresh_token).not.toBe(originalTokens.refresh_token);
+        const firstVerified = await service.verifyRefreshToken(first.refresh_token);
+        const secondVerified = await service.verifyRefreshToken(second.refresh_token);
 
-        // Verify new tokens contain same user data
-        const verified = await service.verifyAccessToken(newTokens.access_token);
-        expect(verified.sub).toBe(payload.sub);
-        expect(verified.email).toBe(payload.email);
-        expect(verified.role).toBe(payload.role);
+        expect(firstVerified.jti).toBeDefined();
+        expect(firstVerified.jti).not.toBe(secondVerified.jti);
+        expect(first.refresh_token).not.toBe(second.refresh_token);
       });
 
-      it('should reject refresh with invalid token', async () => {
-        const invalidToken = 'invalid.refresh.token';
+      it('should not accept a refresh token as an access token', async () => {
+        const payload: JwtPayload = {
+          sub: '123e4567-e89b-12d3-a456-426614174000',
+          email: 'test@example.com',
+          role: 'customer',
+        };
 
-        await expect(service.refreshTokens(invalidToken)).rejects.toThrow(
-          'Invalid or expired refresh token',
-        );
+        const tokens = await service.generateTokens(payload);
+
+        await expect(
+          service.verifyAccessToken(tokens.refresh_token),
+        ).rejects.toThrow('Invalid or expired access token');
+      });
+
+      it('should not accept an access token as a refresh token', async () => {
+        const payload: JwtPayload = {
+          sub: '123e4567-e89b-12d3-a456-426614174000',
+          email: 'test@example.com',
+          role: 'customer',
+        };
+
+        const tokens = await service.generateTokens(payload);
+
+        await expect(
+          service.verifyRefreshToken(tokens.access_token),
+        ).rejects.toThrow('Invalid or expired refresh token');
       });
     });
   });
@@ -310,6 +320,8 @@ describe('JwtService', () => {
 
             // Decode tokens to verify structure and expiration
             const secret = configService.get<string>('jwt.secret') || 'default-secret';
+            const refreshSecret =
+              configService.get<string>('jwt.refreshSecret') || 'default-refresh-secret';
             
             const accessDecoded = jwt.decode(tokens.access_token) as any;
             const refreshDecoded = jwt.decode(tokens.refresh_token) as any;
@@ -344,7 +356,8 @@ describe('JwtService', () => {
 
             // Verify tokens can be verified with the secret
             expect(() => jwt.verify(tokens.access_token, secret)).not.toThrow();
-            expect(() => jwt.verify(tokens.refresh_token, secret)).not.toThrow();
+            expect(() => jwt.verify(tokens.refresh_token, refreshSecret)).not.toThrow();
+            expect(() => jwt.verify(tokens.refresh_token, secret)).toThrow();
           },
         ),
         { numRuns: 100 },
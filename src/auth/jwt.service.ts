@@ -2,11 +2,14 @@ import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService as NestJwtService } from '@nestjs/jwt';
 import * as jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 
 export interface JwtPayload {
   sub: string; // user ID
   email: string;
   role: string;
+  session_id?: string; // server-side session the token belongs to
+  jti?: string; // refresh token ID, unique per issued refresh token
   iat?: number;
   exp?: number;
 }
@@ -36,6 +39,7 @@ export class JwtService {
       sub: payload.sub,
       email: payload.email,
       role: payload.role,
+      ...(payload.session_id && { session_id: payload.session_id }),
     };
 
     const [access_token, refresh_token] = await Promise.all([
@@ -68,14 +72,16 @@ export class JwtService {
   }
 
   /**
-   * Generate refresh token with 7 days expiration
+   * Generate refresh token with 7 days expiration.
+   * Signed with a dedicated secret and a unique jti so that every issued
+   * refresh token can be tracked and rotated server-side.
    */
   private async generateRefreshToken(payload: Record<string, any>): Promise<string> {
-    const secret = this.configService.get<string>('jwt.secret') || 'default-secret';
+    const secret = this.getRefreshSecret();
     const expiresIn = this.configService.get<string>('jwt.refreshTokenExpiration') || '7d';
 
     return new Promise((resolve, reject) => {
-      jwt.sign(payload, secret, { expiresIn: expiresIn as any }, (err, token) => {
+      jwt.sign(payload, secret, { expiresIn: expiresIn as any, jwtid: randomUUID() }, (err, token) => {
         if (err) {
           reject(err);
         } else {
@@ -102,6 +108,7 @@ export class JwtService {
               sub: payload.sub,
               email: payload.email,
               role: payload.role,
+              session_id: payload.session_id,
               iat: payload.iat,
               exp: payload.exp,
             });
@@ -118,7 +125,7 @@ export class JwtService {
    */
   async verifyRefreshToken(token: string): Promise<JwtPayload> {
     try {
-      const secret = this.configService.get<string>('jwt.secret') || 'default-secret';
+      const secret = this.getRefreshSecret();
       
       return new Promise((resolve, reject) => {
         jwt.verify(token, secret, (err, decoded) => {
@@ -130,6 +137,8 @@ export class JwtService {
               sub: payload.sub,
               email: payload.email,
               role: payload.role,
+              session_id: payload.session_id,
+              jti: payload.jti,
               iat: payload.iat,
               exp: payload.exp,
             });
@@ -159,18 +168,9 @@ export class JwtService {
   }
 
   /**
-   * Refresh tokens using a valid refresh token
+   * Resolve the secret used to sign refresh tokens
    */
-  async refreshTokens(refreshToken: string): Promise<TokenResponse> {
-    const payload = await this.verifyRefreshToken(refreshToken);
-    
-    // Generate new tokens with the same payload
-    const tokens = await this.generateTokens({
-      sub: payload.sub,
-      email: payload.email,
-      role: payload.role,
-    });
-
-    return tokens;
+  private getRefreshSecret(): string {
+    return this.configService.get<string>('jwt.refreshSecret') || 'default-refresh-secret';
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+export const LOGIN_ATTEMPT_STORE = 'LOGIN_ATTEMPT_STORE';
+
+export interface LoginAttemptRecord {
+  attempts: number;
+  blocked_until: Date | null;
+}
+
+export interface LoginAttemptStore {
+  /**
+   * Read the failed attempts recorded for a key
+   * @param key - Throttling key (per email or per IP)
+   */
+  get(key: string): Promise<LoginAttemptRecord | null>;
+
+  /**
+   * Record a failed attempt. The count restarts once the window has elapsed.
+   * @param key - Throttling key
+   * @param windowSeconds - How long failed attempts are remembered
+   * @returns Number of failed attempts in the current window
+   */
+  increment(key: string, windowSeconds: number): Promise<number>;
+
+  /**
+   * Refuse attempts for a key until the given date
+   * @param key - Throttling key
+   * @param until - End of the block
+   */
+  block(key: string, until: Date): Promise<void>;
+
+  /**
+   * Forget every attempt recorded for a key
+   * @param key - Throttling key
+   */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,95 @@
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../login-attempt-store.interface';
+
+interface MemoryEntry {
+  attempts: number;
+  expires_at: number;
+  blocked_until: Date | null;
+}
+
+// Expired entries are swept once the map grows past this size
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Keeps login attempts in process memory.
+ * Only suitable when a single instance serves the API.
+ */
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  get(key: string): Promise<LoginAttemptRecord | null> {
+    const entry = this.getLiveEntry(key);
+    if (!entry) {
+      return Promise.resolve(null);
+    }
+
+    return Promise.resolve({
+      attempts: entry.attempts,
+      blocked_until: entry.blocked_until,
+    });
+  }
+
+  increment(key: string, windowSeconds: number): Promise<number> {
+    const entry = this.getLiveEntry(key);
+
+    if (entry) {
+      entry.attempts += 1;
+      return Promise.resolve(entry.attempts);
+    }
+
+    if (this.entries.size >= SWEEP_THRESHOLD) {
+      this.sweep();
+    }
+
+    this.entries.set(key, {
+      attempts: 1,
+      expires_at: Date.now() + windowSeconds * 1000,
+      blocked_until: null,
+    });
+    return Promise.resolve(1);
+  }
+
+  block(key: string, until: Date): Promise<void> {
+    const entry = this.entries.get(key);
+
+    if (entry) {
+      entry.blocked_until = until;
+      entry.expires_at = Math.max(entry.expires_at, until.getTime());
+    } else {
+      this.entries.set(key, {
+        attempts: 0,
+        expires_at: until.getTime(),
+        blocked_until: until,
+      });
+    }
+
+    return Promise.resolve();
+  }
+
+  reset(key: string): Promise<void> {
+    this.entries.delete(key);
+    return Promise.resolve();
+  }
+
+  private getLiveEntry(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+
+    if (entry && entry.expires_at <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expires_at <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  LoginAttemptRecord,
+  LoginAttemptStore,
+} from '../login-attempt-store.interface';
+
+/**
+ * Keeps login attempts in the auth.login_attempts table so that every
+ * instance of the API shares the same counters.
+ */
+export class PostgresLoginAttemptStore implements LoginAttemptStore {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async get(key: string): Promise<LoginAttemptRecord | null> {
+    const record = await this.prisma.login_attempts.findUnique({
+      where: { key },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    return { attempts: record.attempts, blocked_until: record.blocked_until };
+  }
+
+  async increment(key: string, windowSeconds: number): Promise<number> {
+    // A single statement, so concurrent failures on several instances are all counted
+    const [row] = await this.prisma.$queryRaw<{ attempts: number }[]>`
+      INSERT INTO auth.login_attempts (key, attempts, window_started_at, updated_at)
+      VALUES (${key}, 1, now(), now())
+      ON CONFLICT (key) DO UPDATE SET
+        attempts = CASE
+          WHEN login_attempts.window_started_at < now() - make_interval(secs => ${windowSeconds})
+          THEN 1
+          ELSE login_attempts.attempts + 1
+        END,
+        window_started_at = CASE
+          WHEN login_attempts.window_started_at < now() - make_interval(secs => ${windowSeconds})
+          THEN now()
+          ELSE login_attempts.window_started_at
+        END,
+        updated_at = now()
+      RETURNING attempts
+    `;
+
+    return row.attempts;
+  }
+
+  async block(key: string, until: Date): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.login_attempts.upsert({
+      where: { key },
+      create: {
+        key,
+        attempts: 0,
+        window_started_at: now,
+        blocked_until: until,
+        updated_at: now,
+      },
+      update: { blocked_until: until, updated_at: now },
+    });
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.prisma.login_attempts.deleteMany({ where: { key } });
+  }
+}
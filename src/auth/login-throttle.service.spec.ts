@@ -0,0 +1,216 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HttpStatus, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { LoginThrottleService } from './login-throttle.service';
+import { LOGIN_ATTEMPT_STORE } from './login-attempts/login-attempt-store.interface';
+import { MemoryLoginAttemptStore } from './login-attempts/stores/memory.store';
+import { PrismaService } from '../prisma/prisma.service';
+import { TooManyRequestsException } from '../common/exceptions/too-many-requests.exception';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let prisma: PrismaService;
+
+  const email = 'admin@example.com';
+  const ip = '203.0.113.7';
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+
+  const settings: Record<string, number> = {
+    'auth.loginAttemptWindowSeconds': 900,
+    'auth.loginFreeAttemptsPerEmail': 3,
+    'auth.loginFreeAttemptsPerIp': 5,
+    'auth.loginBackoffBaseSeconds': 1,
+    'auth.loginBackoffMaxSeconds': 60,
+    'auth.loginMaxAttemptsPerEmail': 8,
+    'auth.loginLockoutSeconds': 900,
+  };
+
+  const fail = async (times: number, from = email, address = ip) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(from, address);
+    }
+  };
+
+  const getRetryAfter = async (from = email, address = ip) => {
+    try {
+      await service.assertAllowed(from, address);
+      return 0;
+    } catch (error) {
+      expect(error).toBeInstanceOf(TooManyRequestsException);
+      return (error as TooManyRequestsException).retryAfterSeconds;
+    }
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: LOGIN_ATTEMPT_STORE,
+          useValue: new MemoryLoginAttemptStore(),
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => settings[key]) },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            users: {
+              findFirst: jest.fn().mockResolvedValue(null),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+            },
+            $executeRaw: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginThrottleService>(LoginThrottleService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('backoff', () => {
+    it('should allow the free attempts without delay', async () => {
+      await fail(3);
+
+      expect(await getRetryAfter()).toBe(0);
+    });
+
+    it('should double the delay after each further failure', async () => {
+      await fail(4);
+      expect(await getRetryAfter()).toBe(1);
+
+      await fail(1);
+      expect(await getRetryAfter()).toBe(2);
+
+      await fail(1);
+      expect(await getRetryAfter()).toBe(4);
+    });
+
+    it('should allow a new attempt once the delay has elapsed', async () => {
+      await fail(4);
+
+      jest.advanceTimersByTime(1000);
+
+      expect(await getRetryAfter()).toBe(0);
+    });
+
+    it('should throttle an IP across different emails', async () => {
+      for (let i = 0; i < 6; i++) {
+        await service.recordFailure(`user${i}@example.com`, ip);
+      }
+
+      expect(await getRetryAfter('someone-else@example.com')).toBe(1);
+      expect(
+        await getRetryAfter('someone-else@example.com', '198.51.100.1'),
+      ).toBe(0);
+    });
+
+    it('should treat emails case-insensitively', async () => {
+      await fail(4, 'Admin@Example.com');
+
+      expect(await getRetryAfter(email, '198.51.100.1')).toBe(1);
+    });
+
+    it('should reset the email counter after a successful login', async () => {
+      await fail(3);
+      await service.recordSuccess(email);
+      await fail(3, email, '198.51.100.1');
+
+      expect(await getRetryAfter(email, '198.51.100.1')).toBe(0);
+    });
+  });
+
+  describe('lockout', () => {
+    it('should lock the account and record it in users.banned_until', async () => {
+      await fail(8);
+
+      expect(await getRetryAfter(email, '198.51.100.1')).toBe(900);
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(1);
+      const [strings, ...values] = jest.mocked(prisma.$executeRaw).mock
+        .calls[0] as [TemplateStringsArray, ...unknown[]];
+      const query = Prisma.sql(strings, ...values);
+      expect(query.sql).toContain('UPDATE auth.users');
+      // Accounts banned by an administrator keep their ban
+      expect(query.sql).toContain(
+        "(raw_app_meta_data -> 'banned') IS DISTINCT FROM 'true'::jsonb",
+      );
+      expect(query.values).toEqual([
+        new Date('2026-01-01T00:15:00Z'),
+        email,
+        new Date('2026-01-01T00:15:00Z'),
+      ]);
+    });
+
+    it('should honour banned_until even when the store has no record', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        banned_until: new Date('2026-01-01T00:10:00Z'),
+        deleted_at: null,
+        raw_app_meta_data: null,
+      } as any);
+
+      await expect(service.assertAllowed(email, ip)).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+        retryAfterSeconds: 600,
+      });
+    });
+
+    it('should clear the lockout of an account', async () => {
+      await fail(8, email, '198.51.100.1');
+      jest.spyOn(prisma.users, 'findUnique').mockResolvedValue({
+        email,
+        banned_until: new Date('2026-01-01T00:15:00Z'),
+        deleted_at: null,
+        raw_app_meta_data: null,
+      } as any);
+
+      await service.clearLockout(userId);
+
+      expect(prisma.users.update).toHaveBeenCalledWith({
+        where: { id: userId },
+        data: { banned_until: null, updated_at: expect.any(Date) },
+      });
+      expect(await getRetryAfter()).toBe(0);
+    });
+
+    it('should not lift a ban set by an administrator', async () => {
+      jest.spyOn(prisma.users, 'findUnique').mockResolvedValue({
+        email,
+        banned_until: new Date('2026-02-01T00:00:00Z'),
+        deleted_at: null,
+        raw_app_meta_data: { banned: true },
+      } as any);
+
+      await service.clearLockout(userId);
+
+      expect(prisma.users.update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a ban set by an administrator', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        banned_until: new Date('2026-02-01T00:00:00Z'),
+        deleted_at: null,
+        raw_app_meta_data: { banned: true },
+      } as any);
+
+      expect(await getRetryAfter()).toBe(0);
+    });
+
+    it('should throw NotFoundException when clearing an unknown user', async () => {
+      jest.spyOn(prisma.users, 'findUnique').mockResolvedValue(null);
+
+      await expect(service.clearLockout(userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { TooManyRequestsException } from '../common/exceptions/too-many-requests.exception';
+import { getAccountState } from '../users/utils/account-state.util';
+import {
+  LOGIN_ATTEMPT_STORE,
+  type LoginAttemptStore,
+} from './login-attempts/login-attempt-store.interface';
+
+@Injectable()
+export class LoginThrottleService {
+  constructor(
+    @Inject(LOGIN_ATTEMPT_STORE) private readonly store: LoginAttemptStore,
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Refuse a login attempt while the email or IP is backing off or locked out
+   * @param email - Email the client is trying to log in with
+   * @param ip - IP address of the client
+   */
+  async assertAllowed(email: string, ip?: string): Promise<void> {
+    const now = Date.now();
+    let blockedUntil = 0;
+
+    for (const key of this.getKeys(email, ip)) {
+      const record = await this.store.get(key);
+      if (record?.blocked_until) {
+        blockedUntil = Math.max(blockedUntil, record.blocked_until.getTime());
+      }
+    }
+
+    // The lockout is also recorded on the account, so it survives a restart
+    // of the in-memory store. Bans by an administrator are handled by login.
+    const lockedUser = await this.prisma.users.findFirst({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        banned_until: { gt: new Date(now) },
+      },
+      select: { banned_until: true, deleted_at: true, raw_app_meta_data: true },
+    });
+    if (
+      lockedUser?.banned_until &&
+      getAccountState(lockedUser, new Date(now)) === 'locked'
+    ) {
+      blockedUntil = Math.max(blockedUntil, lockedUser.banned_until.getTime());
+    }
+
+    if (blockedUntil > now) {
+      // Same response for unknown emails, to prevent user enumeration
+      throw new TooManyRequestsException(
+        'Too many failed login attempts. Please try again later.',
+        Math.ceil((blockedUntil - now) / 1000),
+        'too_many_attempts',
+      );
+    }
+  }
+
+  /**
+   * Record a failed login. Each failure past the free attempts doubles the
+   * delay before the next one; too many failures lock the account.
+   * @param email - Email used in the failed attempt
+   * @param ip - IP address of the client
+   */
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    const windowSeconds = this.getSetting('loginAttemptWindowSeconds', 900);
+    const emailKey = this.getEmailKey(email);
+
+    const emailAttempts = await this.store.increment(emailKey, windowSeconds);
+    if (emailAttempts >= this.getSetting('loginMaxAttemptsPerEmail', 10)) {
+      await this.lockAccount(email);
+    } else {
+      await this.applyBackoff(
+        emailKey,
+        emailAttempts,
+        this.getSetting('loginFreeAttemptsPerEmail', 3),
+      );
+    }
+
+    if (ip) {
+      const ipKey = this.getIpKey(ip);
+      const ipAttempts = await this.store.increment(ipKey, windowSeconds);
+      await this.applyBackoff(
+        ipKey,
+        ipAttempts,
+        this.getSetting('loginFreeAttemptsPerIp', 20),
+      );
+    }
+  }
+
+  /**
+   * Forget the failed attempts of an email after a successful login.
+   * IP counters are kept, so one valid account cannot reset them.
+   * @param email - Email that just logged in
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.store.reset(this.getEmailKey(email));
+  }
+
+  /**
+   * Lift the lockout of an account (admin action)
+   * @param userId - ID of the locked user
+   */
+  async clearLockout(userId: string): Promise<void> {
+    const user = await this.prisma.users.findUnique({
+      where: { id: userId },
+      select: {
+        email: true,
+        banned_until: true,
+        deleted_at: true,
+        raw_app_meta_data: true,
+      },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    // An administrator's ban is lifted separately, never as a side effect
+    if (getAccountState(user) === 'locked') {
+      await this.prisma.users.update({
+        where: { id: userId },
+        data: { banned_until: null, updated_at: new Date() },
+      });
+    }
+
+    if (user.email) {
+      await this.store.reset(this.getEmailKey(user.email));
+    }
+  }
+
+  private async lockAccount(email: string): Promise<void> {
+    const emailKey = this.getEmailKey(email);
+    const lockedUntil = new Date(
+      Date.now() + this.getSetting('loginLockoutSeconds', 900) * 1000,
+    );
+
+    // Start counting afresh once the lockout ends
+    await this.store.reset(emailKey);
+    await this.store.block(emailKey, lockedUntil);
+
+    // Accounts banned by an administrator are left alone: the lockout would
+    // extend a shorter ban, and lifting it would lift the ban. The marker
+    // check is in SQL so rows without app metadata are still locked.
+    await this.prisma.$executeRaw`
+      UPDATE auth.users
+      SET banned_until = ${lockedUntil}, updated_at = now()
+      WHERE lower(email) = lower(${email})
+        AND (banned_until IS NULL OR banned_until < ${lockedUntil})
+        AND (raw_app_meta_data -> 'banned') IS DISTINCT FROM 'true'::jsonb
+    `;
+  }
+
+  private async applyBackoff(
+    key: string,
+    attempts: number,
+    freeAttempts: number,
+  ): Promise<void> {
+    if (attempts <= freeAttempts) {
+      return;
+    }
+
+    const baseSeconds = this.getSetting('loginBackoffBaseSeconds', 1);
+    const maxSeconds = this.getSetting('loginBackoffMaxSeconds', 300);
+    const delaySeconds = Math.min(
+      baseSeconds * 2 ** (attempts - freeAttempts - 1),
+      maxSeconds,
+    );
+
+    await this.store.block(key, new Date(Date.now() + delaySeconds * 1000));
+  }
+
+  private getKeys(email: string, ip?: string): string[] {
+    const keys = [this.getEmailKey(email)];
+    if (ip) {
+      keys.push(this.getIpKey(ip));
+    }
+    return keys;
+  }
+
+  private getEmailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  private getIpKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+
+  private getSetting(name: string, fallback: number): number {
+    return this.configService.get<number>(`auth.${name}`) ?? fallback;
+  }
+}
@@ -0,0 +1,199 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import {
+  MfaService,
+  MfaChallengeResponse,
+  MfaFactorResponse,
+  MfaVerificationResponse,
+  TotpEnrollmentResponse,
+} from './mfa.service';
+import {
+  WebAuthnService,
+  WebAuthnAuthenticationOptionsResponse,
+  WebAuthnRegistrationOptionsResponse,
+} from './webauthn.service';
+import { EnrollTotpDto } from './dto/enroll-totp.dto';
+import { MfaChallengeDto } from './dto/mfa-challenge.dto';
+import { MfaVerifyDto } from './dto/mfa-verify.dto';
+import { EnrollWebAuthnDto } from './dto/enroll-webauthn.dto';
+import { WebAuthnRegisterVerifyDto } from './dto/webauthn-register-verify.dto';
+import { WebAuthnAuthenticateVerifyDto } from './dto/webauthn-authenticate-verify.dto';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('auth/mfa')
+@UseGuards(JwtAuthGuard)
+export class MfaController {
+  constructor(
+    private readonly mfaService: MfaService,
+    private readonly webAuthnService: WebAuthnService,
+  ) {}
+
+  /**
+   * List the MFA factors of the current user
+   * GET /auth/mfa/factors
+   */
+  @Get('factors')
+  @HttpCode(HttpStatus.OK)
+  async getFactors(@Request() req: any): Promise<MfaFactorResponse[]> {
+    return await this.mfaService.listFactors(req.user.id);
+  }
+
+  /**
+   * Start enrolling a TOTP authenticator app
+   * POST /auth/mfa/totp/enroll
+   */
+  @Post('totp/enroll')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async enrollTotp(
+    @Body() enrollTotpDto: EnrollTotpDto,
+    @Request() req: any,
+  ): Promise<TotpEnrollmentResponse> {
+    return await this.mfaService.enrollTotp(
+      req.user.id,
+      req.user.email,
+      req.user.aal,
+      enrollTotpDto.friendly_name,
+    );
+  }
+
+  /**
+   * Create a challenge for a factor
+   * POST /auth/mfa/challenge
+   */
+  @Post('challenge')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async challenge(
+    @Body() mfaChallengeDto: MfaChallengeDto,
+    @Request() req: any,
+  ): Promise<MfaChallengeResponse> {
+    return await this.mfaService.challenge(
+      req.user.id,
+      mfaChallengeDto.factor_id,
+      req.ip,
+    );
+  }
+
+  /**
+   * Answer a challenge; completes enrollment and raises the session to aal2
+   * POST /auth/mfa/verify
+   */
+  @Post('verify')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async verify(
+    @Body() mfaVerifyDto: MfaVerifyDto,
+    @Request() req: any,
+  ): Promise<MfaVerificationResponse> {
+    return await this.mfaService.verify(
+      req.user.id,
+      req.user.session_id,
+      mfaVerifyDto.factor_id,
+      mfaVerifyDto.challenge_id,
+      mfaVerifyDto.code,
+    );
+  }
+
+  /**
+   * Start registering a passkey (security key, Touch ID, Windows Hello...)
+   * POST /auth/mfa/webauthn/register/options
+   */
+  @Post('webauthn/register/options')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async webAuthnRegisterOptions(
+    @Body() enrollWebAuthnDto: EnrollWebAuthnDto,
+    @Request() req: any,
+  ): Promise<WebAuthnRegistrationOptionsResponse> {
+    return await this.webAuthnService.generateRegistrationOptions(
+      req.user.id,
+      req.user.email,
+      req.user.aal,
+      enrollWebAuthnDto.friendly_name,
+    );
+  }
+
+  /**
+   * Finish registering a passkey; raises the session to aal2
+   * POST /auth/mfa/webauthn/register/verify
+   */
+  @Post('webauthn/register/verify')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async webAuthnRegisterVerify(
+    @Body() registerVerifyDto: WebAuthnRegisterVerifyDto,
+    @Request() req: any,
+  ): Promise<MfaVerificationResponse> {
+    return await this.webAuthnService.verifyRegistration(
+      req.user.id,
+      req.user.session_id,
+      registerVerifyDto.factor_id,
+      registerVerifyDto.credential,
+    );
+  }
+
+  /**
+   * Create a passkey assertion challenge for a factor
+   * POST /auth/mfa/webauthn/authenticate/options
+   */
+  @Post('webauthn/authenticate/options')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async webAuthnAuthenticateOptions(
+    @Body() mfaChallengeDto: MfaChallengeDto,
+    @Request() req: any,
+  ): Promise<WebAuthnAuthenticationOptionsResponse> {
+    return await this.webAuthnService.generateAuthenticationOptions(
+      req.user.id,
+      mfaChallengeDto.factor_id,
+      req.ip,
+    );
+  }
+
+  /**
+   * Answer a passkey assertion challenge; raises the session to aal2
+   * POST /auth/mfa/webauthn/authenticate/verify
+   */
+  @Post('webauthn/authenticate/verify')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async webAuthnAuthenticateVerify(
+    @Body() authenticateVerifyDto: WebAuthnAuthenticateVerifyDto,
+    @Request() req: any,
+  ): Promise<MfaVerificationResponse> {
+    return await this.webAuthnService.verifyAuthentication(
+      req.user.id,
+      req.user.session_id,
+      authenticateVerifyDto.challenge_id,
+      authenticateVerifyDto.credential,
+    );
+  }
+
+  /**
+   * Remove an MFA factor
+   * DELETE /auth/mfa/factors/:id
+   */
+  @Delete('factors/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async unenroll(
+    @Param('id', ParseUUIDPipe) factorId: string,
+    @Request() req: any,
+  ): Promise<void> {
+    await this.mfaService.unenroll(req.user.id, factorId, req.user.aal);
+  }
+}
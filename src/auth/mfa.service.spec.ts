@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mfa_challenges, mfa_factors } from '@prisma/client';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { generateTotp, generateTotpSecret } from './utils/totp.util';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let prisma: PrismaService;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const sessionId = '123e4567-e89b-12d3-a456-426614174000';
+  const factorId = '1b4e28ba-2fa1-41d2-883f-0016d3cca427';
+  const challengeId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+
+  const buildFactor = (overrides: Partial<mfa_factors> = {}): mfa_factors => ({
+    id: factorId,
+    user_id: userId,
+    friendly_name: null,
+    factor_type: 'totp',
+    status: 'unverified',
+    created_at: new Date(),
+    updated_at: new Date(),
+    secret: generateTotpSecret(),
+    phone: null,
+    last_challenged_at: null,
+    web_authn_credential: null,
+    web_authn_aaguid: null,
+    last_webauthn_challenge_data: null,
+    ...overrides,
+  });
+
+  const buildChallenge = (
+    overrides: Partial<mfa_challenges> = {},
+  ): mfa_challenges => ({
+    id: challengeId,
+    factor_id: factorId,
+    created_at: new Date(),
+    verified_at: null,
+    ip_address: '127.0.0.1',
+    otp_code: null,
+    web_authn_session_data: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            mfa_factors: {
+              findUnique: jest.fn(),
+              count: jest.fn().mockResolvedValue(0),
+              create: jest.fn(),
+              deleteMany: jest.fn(),
+              delete: jest.fn(),
+              update: jest.fn(),
+            },
+            mfa_challenges: {
+              create: jest.fn(),
+              findFirst: jest.fn(),
+              count: jest.fn().mockResolvedValue(0),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+            sessions: { update: jest.fn() },
+            mfa_amr_claims: { upsert: jest.fn() },
+            $transaction: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('enrollTotp', () => {
+    it('should create an unverified factor and return an otpauth URI', async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'create')
+        .mockImplementation((args: any) => args.data);
+
+      const result = await service.enrollTotp(
+        userId,
+        'admin@example.com',
+        'aal1',
+      );
+
+      expect(result.factor_type).toBe('totp');
+      expect(result.otpauth_uri).toContain('otpauth://totp/');
+      expect(result.otpauth_uri).toContain(`secret=${result.secret}`);
+      expect(prisma.mfa_factors.deleteMany).toHaveBeenCalledWith({
+        where: { user_id: userId, factor_type: 'totp', status: 'unverified' },
+      });
+    });
+
+    it('should require aal2 to add a factor when one is already verified', async () => {
+      jest.spyOn(prisma.mfa_factors, 'count').mockResolvedValue(1);
+
+      await expect(
+        service.enrollTotp(userId, 'admin@example.com', 'aal1'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.mfa_factors.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verify', () => {
+    it('should verify the factor and raise the session to aal2', async () => {
+      const factor = buildFactor();
+      jest.spyOn(prisma.mfa_factors, 'findUnique').mockResolvedValue(factor);
+      jest
+        .spyOn(prisma.mfa_challenges, 'findFirst')
+        .mockResolvedValue(buildChallenge());
+
+      const result = await service.verify(
+        userId,
+        sessionId,
+        factorId,
+        challengeId,
+        generateTotp(factor.secret as string),
+      );
+
+      expect(result).toEqual({ factor_id: factorId, aal: 'aal2' });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.sessions.update).toHaveBeenCalledWith({
+        where: { id: sessionId },
+        data: {
+          aal: 'aal2',
+          factor_id: factorId,
+          updated_at: expect.any(Date),
+        },
+      });
+      expect(prisma.mfa_factors.update).toHaveBeenCalledWith({
+        where: { id: factorId },
+        data: { status: 'verified', updated_at: expect.any(Date) },
+      });
+    });
+
+    it('should burn the challenge on a wrong code', async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'findUnique')
+        .mockResolvedValue(buildFactor());
+      jest
+        .spyOn(prisma.mfa_challenges, 'findFirst')
+        .mockResolvedValue(buildChallenge());
+
+      await expect(
+        service.verify(userId, sessionId, factorId, challengeId, '000000'),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(prisma.mfa_challenges.delete).toHaveBeenCalledWith({
+        where: { id: challengeId },
+      });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject a code that was already used', async () => {
+      const factor = buildFactor();
+      jest.spyOn(prisma.mfa_factors, 'findUnique').mockResolvedValue(factor);
+      jest
+        .spyOn(prisma.mfa_challenges, 'findFirst')
+        .mockResolvedValue(buildChallenge());
+      jest.spyOn(prisma.mfa_challenges, 'count').mockResolvedValue(1);
+
+      await expect(
+        service.verify(
+          userId,
+          sessionId,
+          factorId,
+          challengeId,
+          generateTotp(factor.secret as string),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an expired challenge', async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'findUnique')
+        .mockResolvedValue(buildFactor());
+      jest
+        .spyOn(prisma.mfa_challenges, 'findFirst')
+        .mockResolvedValue(
+          buildChallenge({ created_at: new Date(Date.now() - 10 * 60 * 1000) }),
+        );
+
+      await expect(
+        service.verify(userId, sessionId, factorId, challengeId, '123456'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should not reveal another user's factor", async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'findUnique')
+        .mockResolvedValue(buildFactor({ user_id: 'someone-else' }));
+
+      await expect(
+        service.verify(userId, sessionId, factorId, challengeId, '123456'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('unenroll', () => {
+    it('should require aal2 to remove a verified factor', async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'findUnique')
+        .mockResolvedValue(buildFactor({ status: 'verified' }));
+
+      await expect(service.unenroll(userId, factorId, 'aal1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.mfa_factors.delete).not.toHaveBeenCalled();
+    });
+
+    it('should allow removing an unverified factor at aal1', async () => {
+      jest
+        .spyOn(prisma.mfa_factors, 'findUnique')
+        .mockResolvedValue(buildFactor());
+
+      await service.unenroll(userId, factorId, 'aal1');
+
+      expect(prisma.mfa_factors.delete).toHaveBeenCalledWith({
+        where: { id: factorId },
+      });
+    });
+  });
+});
@@ -0,0 +1,339 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { Prisma, aal_level, mfa_factors } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './utils/token.util';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp.util';
+
+// A TOTP code stays valid for up to three 30-second periods (clock drift window)
+const TOTP_REPLAY_WINDOW_MS = 90 * 1000;
+
+export interface MfaFactorResponse {
+  id: string;
+  friendly_name: string | null;
+  factor_type: string;
+  status: string;
+  created_at: Date;
+}
+
+export interface TotpEnrollmentResponse {
+  factor_id: string;
+  factor_type: 'totp';
+  secret: string;
+  otpauth_uri: string;
+}
+
+export interface MfaChallengeResponse {
+  challenge_id: string;
+  factor_id: string;
+  expires_at: Date;
+}
+
+export interface MfaVerificationResponse {
+  factor_id: string;
+  aal: aal_level;
+}
+
+@Injectable()
+export class MfaService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * List the MFA factors of a user
+   * @param userId - ID of the user
+   * @returns Promise<MfaFactorResponse[]> - Factors, oldest first
+   */
+  async listFactors(userId: string): Promise<MfaFactorResponse[]> {
+    const factors = await this.prisma.mfa_factors.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return factors.map((factor) => ({
+      id: factor.id,
+      friendly_name: factor.friendly_name,
+      factor_type: factor.factor_type,
+      status: factor.status,
+      created_at: factor.created_at,
+    }));
+  }
+
+  /**
+   * Check whether a user has at least one verified MFA factor
+   * @param userId - ID of the user
+   * @returns Promise<boolean> - True if a second factor must be completed after login
+   */
+  async hasVerifiedFactor(userId: string): Promise<boolean> {
+    const count = await this.prisma.mfa_factors.count({
+      where: { user_id: userId, status: 'verified' },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Start enrolling a TOTP factor. The factor stays unverified until a first
+   * code is verified through a challenge. Adding a factor to an account that
+   * already has a verified factor requires aal2.
+   * @param userId - ID of the user
+   * @param accountName - Label shown in the authenticator app (email)
+   * @param currentAal - Assurance level of the requesting session
+   * @param friendlyName - Optional name chosen by the user
+   * @returns Promise<TotpEnrollmentResponse> - Secret and otpauth URI for the authenticator app
+   */
+  async enrollTotp(
+    userId: string,
+    accountName: string,
+    currentAal: aal_level | null,
+    friendlyName?: string,
+  ): Promise<TotpEnrollmentResponse> {
+    await this.assertCanEnroll(userId, currentAal);
+
+    // Abandoned enrollments are replaced rather than accumulated
+    await this.prisma.mfa_factors.deleteMany({
+      where: { user_id: userId, factor_type: 'totp', status: 'unverified' },
+    });
+
+    const secret = generateTotpSecret();
+    const now = new Date();
+
+    const factor = await this.prisma.mfa_factors.create({
+      data: {
+        id: randomUUID(),
+        user_id: userId,
+        friendly_name: friendlyName || null,
+        factor_type: 'totp',
+        status: 'unverified',
+        secret,
+        created_at: now,
+        updated_at: now,
+      },
+    });
+
+    const issuer =
+      this.configService.get<string>('auth.mfaIssuer') || 'E-Commerce Admin';
+
+    return {
+      factor_id: factor.id,
+      factor_type: 'totp',
+      secret,
+      otpauth_uri: buildOtpauthUri(issuer, accountName, secret),
+    };
+  }
+
+  /**
+   * Create a challenge that must be answered with a code from the factor
+   * @param userId - ID of the factor owner
+   * @param factorId - Factor to challenge
+   * @param ip - IP address of the client
+   * @returns Promise<MfaChallengeResponse> - Challenge ID and expiry
+   */
+  async challenge(
+    userId: string,
+    factorId: string,
+    ip?: string,
+  ): Promise<MfaChallengeResponse> {
+    const factor = await this.findOwnedFactor(userId, factorId);
+    const now = new Date();
+
+    const challenge = await this.prisma.mfa_challenges.create({
+      data: {
+        id: randomUUID(),
+        factor_id: factor.id,
+        created_at: now,
+        ip_address: ip || '0.0.0.0',
+      },
+    });
+
+    return {
+      challenge_id: challenge.id,
+      factor_id: factor.id,
+      expires_at: new Date(
+        now.getTime() + this.getChallengeTtlSeconds() * 1000,
+      ),
+    };
+  }
+
+  /**
+   * Answer a TOTP challenge. On success the factor becomes verified and the
+   * session is raised to aal2.
+   * @param userId - ID of the factor owner
+   * @param sessionId - Session to raise
+   * @param factorId - Challenged factor
+   * @param challengeId - Challenge being answered
+   * @param code - Six-digit code from the authenticator app
+   * @returns Promise<MfaVerificationResponse> - The new assurance level of the session
+   */
+  async verify(
+    userId: string,
+    sessionId: string,
+    factorId: string,
+    challengeId: string,
+    code: string,
+  ): Promise<MfaVerificationResponse> {
+    const factor = await this.findOwnedFactor(userId, factorId);
+    if (factor.factor_type !== 'totp' || !factor.secret) {
+      throw new BadRequestException('Factor cannot be verified with a code');
+    }
+
+    const challenge = await this.prisma.mfa_challenges.findFirst({
+      where: { id: challengeId, factor_id: factor.id, verified_at: null },
+    });
+    const ttlMs = this.getChallengeTtlSeconds() * 1000;
+    if (!challenge || challenge.created_at.getTime() + ttlMs < Date.now()) {
+      throw new BadRequestException('Challenge not found or has expired');
+    }
+
+    // A code that was already accepted cannot be replayed within its validity window
+    const codeHash = hashToken(`${factor.id}:${code}`);
+    const replayed = await this.prisma.mfa_challenges.count({
+      where: {
+        factor_id: factor.id,
+        otp_code: codeHash,
+        verified_at: { gt: new Date(Date.now() - TOTP_REPLAY_WINDOW_MS) },
+      },
+    });
+
+    if (replayed > 0 || !verifyTotp(factor.secret, code)) {
+      // Each challenge allows a single attempt
+      await this.prisma.mfa_challenges.delete({ where: { id: challenge.id } });
+      throw new UnauthorizedException('Invalid verification code');
+    }
+
+    await this.completeVerification(factor, sessionId, 'totp', [
+      this.prisma.mfa_challenges.update({
+        where: { id: challenge.id },
+        data: { verified_at: new Date(), otp_code: codeHash },
+      }),
+    ]);
+
+    return { factor_id: factor.id, aal: 'aal2' };
+  }
+
+  /**
+   * Remove an MFA factor
+   * @param userId - ID of the factor owner
+   * @param factorId - Factor to remove
+   * @param currentAal - Assurance level of the requesting session
+   */
+  async unenroll(
+    userId: string,
+    factorId: string,
+    currentAal: aal_level | null,
+  ): Promise<void> {
+    const factor = await this.findOwnedFactor(userId, factorId);
+
+    // Otherwise a stolen password would be enough to strip the second factor
+    if (factor.status === 'verified' && currentAal !== 'aal2') {
+      throw new ForbiddenException(
+        'Complete an MFA challenge before removing a verified factor',
+      );
+    }
+
+    await this.prisma.mfa_factors.delete({ where: { id: factor.id } });
+  }
+
+  /**
+   * Make sure the session may add a new factor. Adding a factor to an
+   * account that already has a verified factor requires aal2; otherwise a
+   * stolen password would be enough to enroll and verify a factor of one's
+   * own and reach aal2.
+   * @param userId - ID of the user
+   * @param currentAal - Assurance level of the requesting session
+   */
+  async assertCanEnroll(
+    userId: string,
+    currentAal: aal_level | null,
+  ): Promise<void> {
+    if (currentAal !== 'aal2' && (await this.hasVerifiedFactor(userId))) {
+      throw new ForbiddenException(
+        'Complete an MFA challenge before adding another factor',
+      );
+    }
+  }
+
+  /**
+   * Mark a factor as verified and raise the session to aal2, together with
+   * any factor-specific writes, in a single transaction
+   * @param factor - Factor that was just verified
+   * @param sessionId - Session to raise
+   * @param method - Authentication method recorded in mfa_amr_claims
+   * @param extraWrites - Additional writes to commit atomically
+   */
+  async completeVerification(
+    factor: mfa_factors,
+    sessionId: string,
+    method: string,
+    extraWrites: Prisma.PrismaPromise<unknown>[] = [],
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      ...extraWrites,
+      this.prisma.mfa_factors.update({
+        where: { id: factor.id },
+        data: { status: 'verified', updated_at: now },
+      }),
+      this.prisma.sessions.update({
+        where: { id: sessionId },
+        data: { aal: 'aal2', factor_id: factor.id, updated_at: now },
+      }),
+      this.prisma.mfa_amr_claims.upsert({
+        where: {
+          session_id_authentication_method: {
+            session_id: sessionId,
+            authentication_method: method,
+          },
+        },
+        create: {
+          id: randomUUID(),
+          session_id: sessionId,
+          authentication_method: method,
+          created_at: now,
+          updated_at: now,
+        },
+        update: { updated_at: now },
+      }),
+    ]);
+  }
+
+  /**
+   * Find a factor and make sure it belongs to the user
+   * @param userId - Expected owner
+   * @param factorId - Factor ID
+   * @returns Promise<mfa_factors> - The factor
+   */
+  async findOwnedFactor(
+    userId: string,
+    factorId: string,
+  ): Promise<mfa_factors> {
+    const factor = await this.prisma.mfa_factors.findUnique({
+      where: { id: factorId },
+    });
+
+    if (!factor || factor.user_id !== userId) {
+      throw new NotFoundException('MFA factor not found');
+    }
+
+    return factor;
+  }
+
+  private getChallengeTtlSeconds(): number {
+    return this.configService.get<number>('auth.mfaChallengeTtlSeconds') || 300;
+  }
+}
@@ -0,0 +1,123 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { one_time_tokens } from '@prisma/client';
+import { OneTimeTokenService } from './one-time-token.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './utils/token.util';
+
+describe('OneTimeTokenService', () => {
+  let service: OneTimeTokenService;
+  let prisma: PrismaService;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+
+  const buildToken = (
+    overrides: Partial<one_time_tokens> = {},
+  ): one_time_tokens => ({
+    id: '123e4567-e89b-12d3-a456-426614174000',
+    user_id: userId,
+    token_type: 'recovery_token',
+    token_hash: hashToken('plain-token'),
+    relates_to: 'user@example.com',
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OneTimeTokenService,
+        {
+          provide: PrismaService,
+          useValue: {
+            one_time_tokens: {
+              upsert: jest.fn(),
+              findFirst: jest.fn(),
+              deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OneTimeTokenService>(OneTimeTokenService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('issue', () => {
+    it('should store only the hash of the issued token', async () => {
+      const upsertSpy = jest.spyOn(prisma.one_time_tokens, 'upsert');
+
+      const token = await service.issue(
+        userId,
+        'recovery_token',
+        'user@example.com',
+      );
+
+      const args = upsertSpy.mock.calls[0][0];
+      expect(args.create.token_hash).toBe(hashToken(token));
+      expect(args.create.token_hash).not.toBe(token);
+      expect(args.update.token_hash).toBe(hashToken(token));
+    });
+
+    it('should generate a different token each time', async () => {
+      const first = await service.issue(userId, 'recovery_token', 'a@b.co');
+      const second = await service.issue(userId, 'recovery_token', 'a@b.co');
+
+      expect(first).not.toBe(second);
+    });
+  });
+
+  describe('consume', () => {
+    it('should return and delete a valid token', async () => {
+      jest
+        .spyOn(prisma.one_time_tokens, 'findFirst')
+        .mockResolvedValue(buildToken());
+
+      const record = await service.consume('plain-token', 'recovery_token', 60);
+
+      expect(record?.user_id).toBe(userId);
+      expect(prisma.one_time_tokens.findFirst).toHaveBeenCalledWith({
+        where: {
+          token_hash: hashToken('plain-token'),
+          token_type: 'recovery_token',
+        },
+      });
+      expect(prisma.one_time_tokens.deleteMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject a token that has already been consumed', async () => {
+      jest
+        .spyOn(prisma.one_time_tokens, 'findFirst')
+        .mockResolvedValue(buildToken());
+      jest
+        .spyOn(prisma.one_time_tokens, 'deleteMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.consume('plain-token', 'recovery_token', 60),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject and delete an expired token', async () => {
+      jest
+        .spyOn(prisma.one_time_tokens, 'findFirst')
+        .mockResolvedValue(
+          buildToken({ created_at: new Date(Date.now() - 120 * 1000) }),
+        );
+
+      await expect(
+        service.consume('plain-token', 'recovery_token', 60),
+      ).resolves.toBeNull();
+      expect(prisma.one_time_tokens.deleteMany).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an unknown token', async () => {
+      jest.spyOn(prisma.one_time_tokens, 'findFirst').mockResolvedValue(null);
+
+      await expect(
+        service.consume('unknown', 'recovery_token', 60),
+      ).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { one_time_token_type, one_time_tokens } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { generateOpaqueToken, hashToken } from './utils/token.util';
+
+@Injectable()
+export class OneTimeTokenService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Issue a new one-time token, replacing any outstanding token of the same type
+   * @param userId - Owner of the token
+   * @param tokenType - Purpose of the token
+   * @param relatesTo - Address the token was sent to
+   * @returns Promise<string> - Plain token; only its hash is stored
+   */
+  async issue(
+    userId: string,
+    tokenType: one_time_token_type,
+    relatesTo: string,
+  ): Promise<string> {
+    const token = generateOpaqueToken();
+    const now = new Date();
+
+    await this.prisma.one_time_tokens.upsert({
+      where: {
+        user_id_token_type: { user_id: userId, token_type: tokenType },
+      },
+      create: {
+        id: randomUUID(),
+        user_id: userId,
+        token_type: tokenType,
+        token_hash: hashToken(token),
+        relates_to: relatesTo,
+        created_at: now,
+        updated_at: now,
+      },
+      update: {
+        token_hash: hashToken(token),
+        relates_to: relatesTo,
+        created_at: now,
+        updated_at: now,
+      },
+    });
+
+    return token;
+  }
+
+  /**
+   * Consume a one-time token. The token is deleted so it cannot be used twice.
+   * @param token - Plain token presented by the user
+   * @param tokenType - Expected purpose of the token
+   * @param ttlSeconds - Maximum age of the token
+   * @returns Promise<one_time_tokens | null> - Token row if valid, null otherwise
+   */
+  async consume(
+    token: string,
+    tokenType: one_time_token_type,
+    ttlSeconds: number,
+  ): Promise<one_time_tokens | null> {
+    const record = await this.prisma.one_time_tokens.findFirst({
+      where: { token_hash: hashToken(token), token_type: tokenType },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    // Delete by id so that only one concurrent request can consume the token
+    const { count } = await this.prisma.one_time_tokens.deleteMany({
+      where: { id: record.id },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const expiresAt = record.created_at.getTime() + ttlSeconds * 1000;
+    if (expiresAt < Date.now()) {
+      return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * Delete any outstanding token of a given type for a user
+   * @param userId - Owner of the tokens
+   * @param tokenType - Purpose of the tokens
+   */
+  async revoke(userId: string, tokenType: one_time_token_type): Promise<void> {
+    await this.prisma.one_time_tokens.deleteMany({
+      where: { user_id: userId, token_type: tokenType },
+    });
+  }
+}
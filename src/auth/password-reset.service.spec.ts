@@ -0,0 +1,167 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PasswordResetService } from './password-reset.service';
+import { PasswordService } from './password.service';
+import { SessionsService } from './sessions.service';
+import { OneTimeTokenService } from './one-time-token.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { MAIL_TRANSPORT } from '../mail/mail-transport.interface';
+import { FileMailTransport } from '../mail/transports/file.transport';
+
+describe('PasswordResetService', () => {
+  let service: PasswordResetService;
+  let prisma: PrismaService;
+  let oneTimeTokenService: OneTimeTokenService;
+  let sessionsService: SessionsService;
+  let mailDir: string;
+
+  const authUser = {
+    id: '987e6543-e21b-43d3-a654-426614174999',
+    email: 'user@example.com',
+    recovery_sent_at: null,
+  };
+
+  const readSentMails = async () => {
+    const files = await readdir(mailDir).catch(() => [] as string[]);
+    return Promise.all(
+      files.map(async (file) =>
+        JSON.parse(await readFile(join(mailDir, file), 'utf8')),
+      ),
+    );
+  };
+
+  beforeEach(async () => {
+    mailDir = await mkdtemp(join(tmpdir(), 'mail-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordResetService,
+        PasswordService,
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: new FileMailTransport(mailDir) },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            users: {
+              findFirst: jest.fn(),
+              update: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: OneTimeTokenService,
+          useValue: {
+            issue: jest.fn().mockResolvedValue('reset-token'),
+            consume: jest.fn(),
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: { revokeAllForUser: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PasswordResetService>(PasswordResetService);
+    prisma = module.get<PrismaService>(PrismaService);
+    oneTimeTokenService = module.get<OneTimeTokenService>(OneTimeTokenService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+  });
+
+  afterEach(async () => {
+    await rm(mailDir, { recursive: true, force: true });
+  });
+
+  describe('requestReset', () => {
+    it('should email a reset link for a known account', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue(authUser as any);
+
+      await service.requestReset(authUser.email);
+
+      const mails = await readSentMails();
+      expect(mails).toHaveLength(1);
+      expect(mails[0].to).toBe(authUser.email);
+      expect(mails[0].text).toContain('token=reset-token');
+      expect(prisma.users.update).toHaveBeenCalledWith({
+        where: { id: authUser.id },
+        data: {
+          recovery_sent_at: expect.any(Date),
+          updated_at: expect.any(Date),
+        },
+      });
+    });
+
+    it('should silently do nothing for an unknown email', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue(null);
+
+      await expect(
+        service.requestReset('nobody@example.com'),
+      ).resolves.toBeUndefined();
+      expect(await readSentMails()).toHaveLength(0);
+      expect(oneTimeTokenService.issue).not.toHaveBeenCalled();
+    });
+
+    it('should not send another email during the cooldown', async () => {
+      jest.spyOn(prisma.users, 'findFirst').mockResolvedValue({
+        ...authUser,
+        recovery_sent_at: new Date(),
+      } as any);
+
+      await service.requestReset(authUser.email);
+
+      expect(await readSentMails()).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should update the password and revoke all sessions', async () => {
+      jest.spyOn(oneTimeTokenService, 'consume').mockResolvedValue({
+        user_id: authUser.id,
+      } as any);
+
+      await service.resetPassword('reset-token', 'NewPassword123!');
+
+      expect(oneTimeTokenService.consume).toHaveBeenCalledWith(
+        'reset-token',
+        'recovery_token',
+        3600,
+      );
+      expect(prisma.users.update).toHaveBeenCalledWith({
+        where: { id: authUser.id },
+        data: {
+          encrypted_password: expect.any(String),
+          recovery_sent_at: null,
+          updated_at: expect.any(Date),
+        },
+      });
+      expect(sessionsService.revokeAllForUser).toHaveBeenCalledWith(
+        authUser.id,
+      );
+    });
+
+    it('should reject a weak password before consuming the token', async () => {
+      await expect(
+        service.resetPassword('reset-token', 'weak'),
+      ).rejects.toThrow(BadRequestException);
+      expect(oneTimeTokenService.consume).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid or expired token', async () => {
+      jest.spyOn(oneTimeTokenService, 'consume').mockResolvedValue(null);
+
+      await expect(
+        service.resetPassword('bad-token', 'NewPassword123!'),
+      ).rejects.toThrow('Invalid or expired password reset token');
+      expect(prisma.users.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { PasswordService } from './password.service';
+import { SessionsService } from './sessions.service';
+import { OneTimeTokenService } from './one-time-token.service';
+
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly passwordService: PasswordService,
+    private readonly sessionsService: SessionsService,
+    private readonly oneTimeTokenService: OneTimeTokenService,
+    private readonly mailService: MailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send a password reset link to a user.
+   * Resolves the same way whether or not the email is known, to prevent user enumeration.
+   * @param email - Email address of the account
+   */
+  async requestReset(email: string): Promise<void> {
+    try {
+      const user = await this.prisma.users.findFirst({
+        where: { email, deleted_at: null },
+      });
+
+      if (!user) {
+        return;
+      }
+
+      // Avoid flooding a mailbox with reset emails
+      const cooldownSeconds =
+        this.configService.get<number>('auth.passwordResetCooldownSeconds') ??
+        60;
+      if (
+        user.recovery_sent_at &&
+        Date.now() - user.recovery_sent_at.getTime() < cooldownSeconds * 1000
+      ) {
+        return;
+      }
+
+      const token = await this.oneTimeTokenService.issue(
+        user.id,
+        'recovery_token',
+        email,
+      );
+
+      await this.prisma.users.update({
+        where: { id: user.id },
+        data: { recovery_sent_at: new Date(), updated_at: new Date() },
+      });
+
+      const ttlMinutes = Math.round(this.getTokenTtlSeconds() / 60);
+      const link = this.mailService.buildLink('/reset-password', { token });
+
+      await this.mailService.send(
+        email,
+        'Reset your password',
+        `We received a request to reset your password.\n\n` +
+          `Open the following link to choose a new one: ${link}\n\n` +
+          `The link expires in ${ttlMinutes} minutes and can only be used once. ` +
+          `If you did not request a password reset, you can ignore this email.`,
+      );
+    } catch (error) {
+      // Never reveal delivery problems to the caller
+      console.error('Password reset request error:', error);
+    }
+  }
+
+  /**
+   * Set a new password using a reset token and end all existing sessions
+   * @param token - Reset token received by email
+   * @param newPassword - New plain text password
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const passwordValidation =
+      this.passwordService.validatePasswordStrength(newPassword);
+    if (!passwordValidation.isValid) {
+      throw new BadRequestException({
+        message: 'Password does not meet strength requirements',
+        errors: passwordValidation.errors,
+      });
+    }
+
+    const record = await this.oneTimeTokenService.consume(
+      token,
+      'recovery_token',
+      this.getTokenTtlSeconds(),
+    );
+    if (!record) {
+      throw new BadRequestException('Invalid or expired password reset token');
+    }
+
+    try {
+      const hashedPassword =
+        await this.passwordService.hashPassword(newPassword);
+
+      await this.prisma.users.update({
+        where: { id: record.user_id },
+        data: {
+          encrypted_password: hashedPassword,
+          recovery_sent_at: null,
+          updated_at: new Date(),
+        },
+      });
+
+      // Anyone holding a session obtained with the old password is logged out
+      await this.sessionsService.revokeAllForUser(record.user_id);
+    } catch (error) {
+      console.error('Password reset error:', error);
+      throw new InternalServerErrorException(
+        'Password reset failed. Please try again.',
+      );
+    }
+  }
+
+  private getTokenTtlSeconds(): number {
+    return (
+      this.configService.get<number>('auth.passwordResetTokenTtlSeconds') ||
+      3600
+    );
+  }
+}
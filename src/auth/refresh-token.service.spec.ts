@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { RefreshTokenService } from './refresh-token.service';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { hashToken } from './utils/token.util';
+import { refresh_tokens } from '@prisma/client';
+
+describe('RefreshTokenService', () => {
+  let service: RefreshTokenService;
+  let prisma: PrismaService;
+  let sessionsService: SessionsService;
+
+  const sessionId = '123e4567-e89b-12d3-a456-426614174000';
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+
+  const activeSession = {
+    id: sessionId,
+    user_id: userId,
+    created_at: new Date(),
+    updated_at: new Date(),
+    factor_id: null,
+    aal: null,
+    not_after: null,
+    refreshed_at: null,
+    user_agent: null,
+    ip: null,
+    tag: null,
+    oauth_client_id: null,
+    refresh_token_hmac_key: null,
+    refresh_token_counter: null,
+    scopes: null,
+  };
+
+  const storedToken = (
+    overrides: Partial<refresh_tokens> = {},
+  ): refresh_tokens => ({
+    id: BigInt(1),
+    token: hashToken('refresh-token'),
+    user_id: userId,
+    session_id: sessionId,
+    parent: null,
+    revoked: false,
+    created_at: new Date(),
+    updated_at: new Date(),
+    instance_id: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefreshTokenService,
+        {
+          provide: PrismaService,
+          useValue: {
+            refresh_tokens: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              updateMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: SessionsService,
+          useValue: {
+            findById: jest.fn().mockResolvedValue(activeSession),
+            isActive: jest.fn().mockReturnValue(true),
+            revoke: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefreshTokenService>(RefreshTokenService);
+    prisma = module.get<PrismaService>(PrismaService);
+    sessionsService = module.get<SessionsService>(SessionsService);
+  });
+
+  describe('store', () => {
+    it('should persist only the hash of the token', async () => {
+      await service.store('refresh-token', userId, sessionId, 'parent-hash');
+
+      expect(prisma.refresh_tokens.create).toHaveBeenCalledWith({
+        data: {
+          token: hashToken('refresh-token'),
+          user_id: userId,
+          session_id: sessionId,
+          parent: 'parent-hash',
+          revoked: false,
+          created_at: expect.any(Date),
+          updated_at: expect.any(Date),
+        },
+      });
+    });
+  });
+
+  describe('consume', () => {
+    it('should mark a fresh token as used and return it', async () => {
+      jest
+        .spyOn(prisma.refresh_tokens, 'findUnique')
+        .mockResolvedValue(storedToken());
+      jest
+        .spyOn(prisma.refresh_tokens, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+
+      const record = await service.consume('refresh-token');
+
+      expect(record.session_id).toBe(sessionId);
+      expect(prisma.refresh_tokens.updateMany).toHaveBeenCalledWith({
+        where: { id: BigInt(1), revoked: false },
+        data: { revoked: true, updated_at: expect.any(Date) },
+      });
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown token', async () => {
+      jest.spyOn(prisma.refresh_tokens, 'findUnique').mockResolvedValue(null);
+
+      await expect(service.consume('unknown')).rejects.toThrow(
+        'Invalid or expired refresh token',
+      );
+    });
+
+    it('should revoke the whole session when a used token is presented again', async () => {
+      jest
+        .spyOn(prisma.refresh_tokens, 'findUnique')
+        .mockResolvedValue(storedToken({ revoked: true }));
+
+      await expect(service.consume('refresh-token')).rejects.toThrow(
+        'Refresh token reuse detected',
+      );
+      expect(sessionsService.revoke).toHaveBeenCalledWith(sessionId);
+      expect(prisma.refresh_tokens.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should treat a lost rotation race as reuse', async () => {
+      jest
+        .spyOn(prisma.refresh_tokens, 'findUnique')
+        .mockResolvedValue(storedToken());
+      jest
+        .spyOn(prisma.refresh_tokens, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(service.consume('refresh-token')).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(sessionsService.revoke).toHaveBeenCalledWith(sessionId);
+    });
+
+    it('should reject a token whose session has ended', async () => {
+      jest
+        .spyOn(prisma.refresh_tokens, 'findUnique')
+        .mockResolvedValue(storedToken());
+      jest.spyOn(sessionsService, 'isActive').mockReturnValue(false);
+
+      await expect(service.consume('refresh-token')).rejects.toThrow(
+        'Session has been revoked or has expired',
+      );
+      expect(prisma.refresh_tokens.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
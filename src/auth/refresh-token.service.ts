@@ -0,0 +1,84 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { refresh_tokens } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { SessionsService } from './sessions.service';
+import { hashToken } from './utils/token.util';
+
+@Injectable()
+export class RefreshTokenService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sessionsService: SessionsService,
+  ) {}
+
+  /**
+   * Persist a newly issued refresh token
+   * @param token - Refresh token handed to the client
+   * @param userId - Owner of the token
+   * @param sessionId - Session the token belongs to
+   * @param parent - Stored hash of the token this one replaces, if any
+   */
+  async store(
+    token: string,
+    userId: string,
+    sessionId: string,
+    parent: string | null = null,
+  ): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.refresh_tokens.create({
+      data: {
+        token: hashToken(token),
+        user_id: userId,
+        session_id: sessionId,
+        parent,
+        revoked: false,
+        created_at: now,
+        updated_at: now,
+      },
+    });
+  }
+
+  /**
+   * Consume a refresh token so it can be rotated.
+   * A token that was already used is treated as stolen: the whole session
+   * family is revoked and the request is rejected.
+   * @param token - Refresh token presented by the client
+   * @returns Promise<refresh_tokens> - The consumed token row
+   */
+  async consume(token: string): Promise<refresh_tokens> {
+    const record = await this.prisma.refresh_tokens.findUnique({
+      where: { token: hashToken(token) },
+    });
+
+    if (!record || !record.session_id) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
+
+    const session = await this.sessionsService.findById(record.session_id);
+    if (!session || !this.sessionsService.isActive(session)) {
+      throw new UnauthorizedException(
+        'Session has been revoked or has expired',
+      );
+    }
+
+    if (record.revoked) {
+      await this.sessionsService.revoke(record.session_id);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    // Conditional update so that two concurrent refreshes cannot both succeed
+    const { count } = await this.prisma.refresh_tokens.updateMany({
+      where: { id: record.id, revoked: false },
+      data: { revoked: true, updated_at: new Date() },
+    });
+
+    if (count === 0) {
+      await this.sessionsService.revoke(record.session_id);
+      throw new UnauthorizedException('Refresh token reuse detected');
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { sessions } from '@prisma/client';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  let prisma: PrismaService;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const sessionId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const buildSession = (overrides: Partial<sessions> = {}): sessions => ({
+    id: sessionId,
+    user_id: userId,
+    created_at: new Date(),
+    updated_at: new Date(),
+    factor_id: null,
+    aal: 'aal1',
+    not_after: null,
+    refreshed_at: null,
+    user_agent: null,
+    ip: null,
+    tag: null,
+    oauth_client_id: null,
+    refresh_token_hmac_key: null,
+    refresh_token_counter: null,
+    scopes: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            sessions: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn(),
+            },
+            refresh_tokens: {
+              updateMany: jest.fn(),
+            },
+            $transaction: jest
+              .fn()
+              .mockResolvedValue([{ count: 0 }, { count: 2 }]),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue(3600),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('create', () => {
+    it('should record device information and an absolute expiry', async () => {
+      const createSpy = jest
+        .spyOn(prisma.sessions, 'create')
+        .mockResolvedValue(buildSession());
+
+      const before = Date.now();
+      await service.create(userId, {
+        user_agent: 'Mozilla/5.0',
+        ip: '10.0.0.1',
+      });
+
+      const data = createSpy.mock.calls[0][0].data;
+      expect(data.user_id).toBe(userId);
+      expect(data.user_agent).toBe('Mozilla/5.0');
+      expect(data.ip).toBe('10.0.0.1');
+      expect((data.not_after as Date).getTime()).toBeGreaterThanOrEqual(
+        before + 3600 * 1000,
+      );
+    });
+  });
+
+  describe('isActive', () => {
+    it('should treat sessions without not_after as active', () => {
+      expect(service.isActive(buildSession())).toBe(true);
+    });
+
+    it('should treat sessions past not_after as inactive', () => {
+      const session = buildSession({ not_after: new Date(Date.now() - 1000) });
+
+      expect(service.isActive(session)).toBe(false);
+    });
+  });
+
+  describe('revokeOwned', () => {
+    it("should not let a user revoke someone else's session", async () => {
+      jest
+        .spyOn(prisma.sessions, 'findUnique')
+        .mockResolvedValue(buildSession({ user_id: 'another-user' }));
+
+      await expect(service.revokeOwned(sessionId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should let an admin revoke any session', async () => {
+      jest
+        .spyOn(prisma.sessions, 'findUnique')
+        .mockResolvedValue(buildSession({ user_id: 'another-user' }));
+
+      await service.revokeOwned(sessionId, null);
+
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revokeAllForUser', () => {
+    it('should return the number of revoked sessions', async () => {
+      await expect(service.revokeAllForUser(userId)).resolves.toBe(2);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { sessions } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+
+export interface SessionContext {
+  user_agent?: string;
+  ip?: string;
+}
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Open a new session for a user
+   * @param userId - ID of the authenticated user
+   * @param context - Device information captured from the login request
+   * @returns Promise<sessions> - The created session row
+   */
+  async create(
+    userId: string,
+    context: SessionContext = {},
+  ): Promise<sessions> {
+    const now = new Date();
+    const maxAgeSeconds =
+      this.configService.get<number>('session.maxAgeSeconds') || 2592000;
+
+    return await this.prisma.sessions.create({
+      data: {
+        id: randomUUID(),
+        user_id: userId,
+        aal: 'aal1',
+        user_agent: context.user_agent || null,
+        ip: context.ip || null,
+        not_after: new Date(now.getTime() + maxAgeSeconds * 1000),
+        created_at: now,
+        updated_at: now,
+      },
+    });
+  }
+
+  /**
+   * Find a session by its ID
+   * @param sessionId - Session ID
+   * @returns Promise<sessions | null> - Session if found, null otherwise
+   */
+  async findById(sessionId: string): Promise<sessions | null> {
+    return await this.prisma.sessions.findUnique({
+      where: { id: sessionId },
+    });
+  }
+
+  /**
+   * List the sessions of a user that can still be used, newest first
+   * @param userId - ID of the session owner
+   * @returns Promise<sessions[]> - Active sessions
+   */
+  async findActiveByUser(userId: string): Promise<sessions[]> {
+    return await this.prisma.sessions.findMany({
+      where: {
+        user_id: userId,
+        OR: [{ not_after: null }, { not_after: { gt: new Date() } }],
+      },
+      orderBy: { created_at: 'desc' },
+    });
+  }
+
+  /**
+   * Check whether a session can still be used
+   * @param session - Session row
+   * @returns boolean - True if the session has not been ended
+   */
+  isActive(session: sessions): boolean {
+    return !session.not_after || session.not_after.getTime() > Date.now();
+  }
+
+  /**
+   * Record that a session has just been refreshed
+   * @param sessionId - Session ID
+   */
+  async touch(sessionId: string): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.sessions.update({
+      where: { id: sessionId },
+      data: {
+        refreshed_at: now,
+        updated_at: now,
+      },
+    });
+  }
+
+  /**
+   * Revoke a session and every refresh token issued within it
+   * @param sessionId - Session ID
+   */
+  async revoke(sessionId: string): Promise<void> {
+    const now = new Date();
+
+    await this.prisma.$transaction([
+      this.prisma.refresh_tokens.updateMany({
+        where: { session_id: sessionId, revoked: false },
+        data: { revoked: true, updated_at: now },
+      }),
+      this.prisma.sessions.update({
+        where: { id: sessionId },
+        data: { not_after: now, updated_at: now },
+      }),
+    ]);
+  }
+
+  /**
+   * Revoke a single session, checking who it belongs to
+   * @param sessionId - Session ID
+   * @param userId - Expected owner, or null to skip the ownership check (admins)
+   */
+  async revokeOwned(sessionId: string, userId: string | null): Promise<void> {
+    const session = await this.findById(sessionId);
+
+    if (!session || (userId !== null && session.user_id !== userId)) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.revoke(sessionId);
+  }
+
+  /**
+   * Revoke every session of a user ("log out everywhere")
+   * @param userId - ID of the session owner
+   * @returns Promise<number> - Number of sessions that were revoked
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const now = new Date();
+    const active = {
+      user_id: userId,
+      OR: [{ not_after: null }, { not_after: { gt: now } }],
+    };
+
+    const [, revokedSessions] = await this.prisma.$transaction([
+      this.prisma.refresh_tokens.updateMany({
+        where: { user_id: userId, revoked: false },
+        data: { revoked: true, updated_at: now },
+      }),
+      this.prisma.sessions.updateMany({
+        where: active,
+        data: { not_after: now, updated_at: now },
+      }),
+    ]);
+
+    return revokedSessions.count;
+  }
+}
@@ -38,6 +38,16 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('User not found or has been deactivated');
       }
 
+      // Reject accounts that were soft-deleted or banned by an administrator.
+      // JwtAuthGuard verifies tokens itself and checks this too; this covers
+      // routes that use the strategy through AuthGuard('jwt').
+      const state = await this.usersService.getAccountState(userId);
+      if (state === 'deleted' || state === 'banned') {
+        throw new UnauthorizedException(
+          'User not found or has been deactivated',
+        );
+      }
+
       // Return user object that will be attached to request.user
       return {
         id: user.id,
@@ -0,0 +1,18 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Hash a token for storage so that a leaked database row cannot be replayed
+ * @param token - Plain token as handed to the client
+ * @returns string - Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Generate a random, URL-safe token to be sent to the user (e.g. by email)
+ * @returns string - 256-bit base64url-encoded token
+ */
+export function generateOpaqueToken(): string {
+  return randomBytes(32).toString('base64url');
+}
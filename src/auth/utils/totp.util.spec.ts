@@ -0,0 +1,92 @@
+import * as fc from 'fast-check';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  verifyTotp,
+} from './totp.util';
+
+describe('TOTP utilities', () => {
+  // RFC 6238 Appendix B shared secret "12345678901234567890", base32-encoded
+  const rfcSecret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  describe('base32', () => {
+    it('should encode the RFC 6238 test secret', () => {
+      expect(base32Encode(Buffer.from('12345678901234567890'))).toBe(rfcSecret);
+    });
+
+    it('should round-trip any byte sequence', () => {
+      fc.assert(
+        fc.property(fc.uint8Array({ minLength: 1, maxLength: 64 }), (bytes) => {
+          const buffer = Buffer.from(bytes);
+          expect(base32Decode(base32Encode(buffer)).equals(buffer)).toBe(true);
+        }),
+        { numRuns: 100 },
+      );
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => base32Decode('not-base32!')).toThrow(
+        'Invalid base32 character',
+      );
+    });
+  });
+
+  describe('generateTotp', () => {
+    it.each([
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(rfcSecret, seconds * 1000, 8)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1700000000000;
+
+    it('should accept the current code', () => {
+      const secret = generateTotpSecret();
+      const code = generateTotp(secret, now);
+
+      expect(verifyTotp(secret, code, 1, now)).toBe(true);
+    });
+
+    it('should tolerate one period of clock drift', () => {
+      const secret = generateTotpSecret();
+      const previousCode = generateTotp(secret, now - 30 * 1000);
+
+      expect(verifyTotp(secret, previousCode, 1, now)).toBe(true);
+      expect(verifyTotp(secret, previousCode, 0, now)).toBe(false);
+    });
+
+    it('should reject codes from outside the window', () => {
+      const secret = generateTotpSecret();
+      const oldCode = generateTotp(secret, now - 5 * 60 * 1000);
+
+      expect(verifyTotp(secret, oldCode, 1, now)).toBe(false);
+    });
+
+    it('should reject malformed codes', () => {
+      const secret = generateTotpSecret();
+
+      expect(verifyTotp(secret, '12345', 1, now)).toBe(false);
+      expect(verifyTotp(secret, 'abcdef', 1, now)).toBe(false);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should build a URI authenticator apps can import', () => {
+      const uri = buildOtpauthUri('Shop Admin', 'admin@example.com', rfcSecret);
+
+      expect(uri).toBe(
+        'otpauth://totp/Shop%20Admin%3Aadmin%40example.com' +
+          `?secret=${rfcSecret}&issuer=Shop+Admin&algorithm=SHA1&digits=6&period=30`,
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding (the format authenticator apps expect)
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode an RFC 4648 base32 string, ignoring padding, spaces and case
+ */
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/[\s=]/g, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random 160-bit TOTP secret, base32-encoded
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Compute the HOTP code (RFC 4226) for a given counter
+ */
+function generateHotp(secret: Buffer, counter: number, digits: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+}
+
+/**
+ * Compute the TOTP code (RFC 6238) for a point in time
+ * @param secret - Base32-encoded shared secret
+ * @param timestamp - Time in milliseconds, defaults to now
+ * @param digits - Number of digits in the code
+ */
+export function generateTotp(
+  secret: string,
+  timestamp: number = Date.now(),
+  digits: number = TOTP_DIGITS,
+): string {
+  const counter = Math.floor(timestamp / 1000 / TOTP_PERIOD_SECONDS);
+  return generateHotp(base32Decode(secret), counter, digits);
+}
+
+/**
+ * Check a TOTP code, tolerating clock drift of `window` periods either way
+ * @param secret - Base32-encoded shared secret
+ * @param code - Code entered by the user
+ * @param window - Number of periods accepted before and after the current one
+ * @param timestamp - Time in milliseconds, defaults to now
+ * @returns boolean - True if the code matches
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  window: number = 1,
+  timestamp: number = Date.now(),
+): boolean {
+  if (!/^\d{6}$/.test(code)) {
+    return false;
+  }
+
+  const expected = Buffer.from(code);
+
+  for (let step = -window; step <= window; step++) {
+    const candidate = Buffer.from(
+      generateTotp(secret, timestamp + step * TOTP_PERIOD_SECONDS * 1000),
+    );
+    if (timingSafeEqual(candidate, expected)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Build the otpauth:// URI that authenticator apps import (usually as a QR code)
+ * @param issuer - Name of the service shown in the app
+ * @param accountName - Account label, usually the email address
+ * @param secret - Base32-encoded shared secret
+ */
+export function buildOtpauthUri(
+  issuer: string,
+  accountName: string,
+  secret: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
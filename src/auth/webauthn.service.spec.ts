@@ -0,0 +1,411 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, mfa_challenges, mfa_factors } from '@prisma/client';
+import { WebAuthnService } from './webauthn.service';
+import { MfaService } from './mfa.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SoftwareAuthenticator } from '../../test/fixtures/software-authenticator';
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+  let prisma: PrismaService;
+  let mfaService: MfaService;
+  let config: Record<string, unknown>;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const sessionId = '123e4567-e89b-12d3-a456-426614174000';
+  const challengeId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+
+  const buildFactor = (overrides: Partial<mfa_factors> = {}): mfa_factors => ({
+    id: '1b4e28ba-2fa1-41d2-883f-0016d3cca427',
+    user_id: userId,
+    friendly_name: null,
+    factor_type: 'webauthn',
+    status: 'unverified',
+    created_at: new Date(),
+    updated_at: new Date(),
+    secret: null,
+    phone: null,
+    last_challenged_at: null,
+    web_authn_credential: null,
+    web_authn_aaguid: null,
+    last_webauthn_challenge_data: null,
+    ...overrides,
+  });
+
+  /**
+   * Run a full registration ceremony and return the factor as it would be stored
+   */
+  const registerAuthenticator = async (
+    authenticator: SoftwareAuthenticator,
+  ): Promise<mfa_factors> => {
+    jest
+      .spyOn(prisma.mfa_factors, 'create')
+      .mockImplementation((args: any) => buildFactor(args.data) as any);
+
+    const { options } = await service.generateRegistrationOptions(
+      userId,
+      'admin@example.com',
+      'aal1',
+    );
+    const pending = buildFactor({
+      last_webauthn_challenge_data: {
+        challenge: options.challenge,
+        expires_at: new Date(Date.now() + 60000).toISOString(),
+      },
+    });
+    jest.spyOn(mfaService, 'findOwnedFactor').mockResolvedValue(pending);
+
+    await service.verifyRegistration(
+      userId,
+      sessionId,
+      pending.id,
+      authenticator.createCredential(options),
+    );
+
+    const update = jest.mocked(prisma.mfa_factors.update).mock.calls[0][0];
+    jest.mocked(prisma.mfa_factors.update).mockClear();
+    jest.mocked(mfaService.completeVerification).mockClear();
+
+    return buildFactor({
+      status: 'verified',
+      web_authn_credential: update.data
+        .web_authn_credential as Prisma.JsonValue,
+    });
+  };
+
+  beforeEach(async () => {
+    const loginChallenges = new Map<string, unknown>();
+    config = {
+      'auth.webauthnRpId': 'localhost',
+      'auth.webauthnOrigins': 'http://localhost:3000',
+      'auth.passkeyLogin': false,
+      'jwt.secret': 'test-secret',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: MfaService,
+          useValue: {
+            assertCanEnroll: jest.fn(),
+            findOwnedFactor: jest.fn(),
+            completeVerification: jest.fn(),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            mfa_factors: {
+              findMany: jest.fn().mockResolvedValue([]),
+              findFirst: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn((args: unknown) => args),
+              deleteMany: jest.fn(),
+            },
+            mfa_challenges: {
+              create: jest.fn(),
+              findFirst: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            passkey_login_challenges: {
+              create: jest.fn((args: any) => {
+                loginChallenges.set(args.data.id, args.data);
+                return args.data;
+              }),
+              findUnique: jest.fn(
+                (args: any) => loginChallenges.get(args.where.id) ?? null,
+              ),
+              deleteMany: jest.fn((args: any) => ({
+                count: loginChallenges.delete(args.where.id) ? 1 : 0,
+              })),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+    prisma = module.get<PrismaService>(PrismaService);
+    mfaService = module.get<MfaService>(MfaService);
+  });
+
+  describe('registration', () => {
+    it('should store the credential and raise the session to aal2', async () => {
+      const authenticator = new SoftwareAuthenticator();
+
+      const factor = await registerAuthenticator(authenticator);
+
+      expect(factor.web_authn_credential).toMatchObject({
+        id: authenticator.credentialId,
+        counter: 0,
+        transports: ['internal'],
+      });
+    });
+
+    it('should check the enrollment policy before creating a factor', async () => {
+      jest
+        .spyOn(mfaService, 'assertCanEnroll')
+        .mockRejectedValue(new ForbiddenException());
+
+      await expect(
+        service.generateRegistrationOptions(
+          userId,
+          'admin@example.com',
+          'aal1',
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.mfa_factors.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an attestation for a different challenge', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      jest
+        .spyOn(prisma.mfa_factors, 'create')
+        .mockImplementation((args: any) => buildFactor(args.data) as any);
+      const { options } = await service.generateRegistrationOptions(
+        userId,
+        'admin@example.com',
+        'aal1',
+      );
+      jest.spyOn(mfaService, 'findOwnedFactor').mockResolvedValue(
+        buildFactor({
+          last_webauthn_challenge_data: {
+            challenge: 'another-challenge',
+            expires_at: new Date(Date.now() + 60000).toISOString(),
+          },
+        }),
+      );
+
+      await expect(
+        service.verifyRegistration(
+          userId,
+          sessionId,
+          challengeId,
+          authenticator.createCredential(options),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(mfaService.completeVerification).not.toHaveBeenCalled();
+    });
+
+    it('should reject an attestation from another origin', async () => {
+      const authenticator = new SoftwareAuthenticator('https://evil.example');
+
+      await expect(registerAuthenticator(authenticator)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+
+  describe('second-factor assertion', () => {
+    const answerChallenge = async (
+      authenticator: SoftwareAuthenticator,
+      factor: mfa_factors,
+    ) => {
+      jest.spyOn(mfaService, 'findOwnedFactor').mockResolvedValue(factor);
+      jest
+        .spyOn(prisma.mfa_challenges, 'create')
+        .mockImplementation((args: any) => args.data);
+      const { options } = await service.generateAuthenticationOptions(
+        userId,
+        factor.id,
+      );
+
+      const challenge: mfa_challenges & { mfa_factors: mfa_factors } = {
+        id: challengeId,
+        factor_id: factor.id,
+        created_at: new Date(),
+        verified_at: null,
+        ip_address: '127.0.0.1',
+        otp_code: null,
+        web_authn_session_data: jest.mocked(prisma.mfa_challenges.create).mock
+          .calls[0][0].data.web_authn_session_data as Prisma.JsonValue,
+        mfa_factors: factor,
+      };
+      jest
+        .spyOn(prisma.mfa_challenges, 'findFirst')
+        .mockResolvedValue(challenge);
+
+      return await service.verifyAuthentication(
+        userId,
+        sessionId,
+        challengeId,
+        authenticator.getAssertion(options),
+      );
+    };
+
+    it('should verify the assertion and advance the signature counter', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+
+      const result = await answerChallenge(authenticator, factor);
+
+      expect(result).toEqual({ factor_id: factor.id, aal: 'aal2' });
+      expect(mfaService.completeVerification).toHaveBeenCalledWith(
+        factor,
+        sessionId,
+        'webauthn',
+        expect.any(Array),
+      );
+      expect(prisma.mfa_factors.update).toHaveBeenCalledWith({
+        where: { id: factor.id },
+        data: {
+          web_authn_credential: expect.objectContaining({ counter: 1 }),
+        },
+      });
+    });
+
+    it('should reject a signature counter that went backwards (cloned authenticator)', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+      factor.web_authn_credential = {
+        ...(factor.web_authn_credential as Prisma.JsonObject),
+        counter: 5,
+      };
+
+      await expect(answerChallenge(authenticator, factor)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mfaService.completeVerification).not.toHaveBeenCalled();
+    });
+
+    it('should reject an assertion from a different authenticator', async () => {
+      const factor = await registerAuthenticator(new SoftwareAuthenticator());
+
+      await expect(
+        answerChallenge(new SoftwareAuthenticator(), factor),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should allow a single attempt per challenge', async () => {
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+      jest
+        .spyOn(prisma.mfa_challenges, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await expect(answerChallenge(authenticator, factor)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('passwordless login', () => {
+    const login = async (
+      authenticator: SoftwareAuthenticator,
+      factor: mfa_factors,
+    ) => {
+      const { challenge_token, options } =
+        await service.generatePasskeyLoginOptions();
+      jest.spyOn(prisma.mfa_factors, 'findFirst').mockResolvedValue(factor);
+
+      return await service.verifyPasskeyLogin(
+        challenge_token,
+        authenticator.getAssertion(options),
+      );
+    };
+
+    it('should be disabled unless configured', async () => {
+      await expect(service.generatePasskeyLoginOptions()).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should identify the user from a discoverable passkey', async () => {
+      config['auth.passkeyLogin'] = true;
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+
+      const result = await login(authenticator, factor);
+
+      expect(result.user_id).toBe(userId);
+      expect(prisma.mfa_factors.findFirst).toHaveBeenCalledWith({
+        where: {
+          factor_type: 'webauthn',
+          status: 'verified',
+          web_authn_credential: {
+            path: ['id'],
+            equals: authenticator.credentialId,
+          },
+        },
+      });
+    });
+
+    it('should require user verification', async () => {
+      config['auth.passkeyLogin'] = true;
+      const authenticator = new SoftwareAuthenticator(
+        'http://localhost:3000',
+        false,
+      );
+      const factor = await registerAuthenticator(authenticator);
+
+      await expect(login(authenticator, factor)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a tampered challenge token', async () => {
+      config['auth.passkeyLogin'] = true;
+      const authenticator = new SoftwareAuthenticator();
+      const { options } = await service.generatePasskeyLoginOptions();
+
+      await expect(
+        service.verifyPasskeyLogin(
+          'not-a-token',
+          authenticator.getAssertion(options),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should not accept the same challenge twice', async () => {
+      config['auth.passkeyLogin'] = true;
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+      const { challenge_token, options } =
+        await service.generatePasskeyLoginOptions();
+      jest.spyOn(prisma.mfa_factors, 'findFirst').mockResolvedValue(factor);
+
+      await service.verifyPasskeyLogin(
+        challenge_token,
+        authenticator.getAssertion(options),
+      );
+
+      await expect(
+        service.verifyPasskeyLogin(
+          challenge_token,
+          authenticator.getAssertion(options),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should keep concurrent sign-ins apart', async () => {
+      config['auth.passkeyLogin'] = true;
+      const authenticator = new SoftwareAuthenticator();
+      const factor = await registerAuthenticator(authenticator);
+      const first = await service.generatePasskeyLoginOptions();
+      const second = await service.generatePasskeyLoginOptions();
+      jest.spyOn(prisma.mfa_factors, 'findFirst').mockResolvedValue(factor);
+
+      await service.verifyPasskeyLogin(
+        second.challenge_token,
+        authenticator.getAssertion(second.options),
+      );
+      const result = await service.verifyPasskeyLogin(
+        first.challenge_token,
+        authenticator.getAssertion(first.options),
+      );
+
+      expect(result.id).toBe(factor.id);
+    });
+  });
+});
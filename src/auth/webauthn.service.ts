@@ -0,0 +1,544 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { Prisma, aal_level, mfa_factors } from '@prisma/client';
+import {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+  WebAuthnCredential,
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { MfaService, MfaVerificationResponse } from './mfa.service';
+
+/**
+ * Shape of mfa_factors.web_authn_credential
+ */
+interface StoredWebAuthnCredential {
+  id: string;
+  public_key: string; // base64url-encoded COSE public key
+  counter: number;
+  transports?: AuthenticatorTransportFuture[];
+  device_type?: string;
+  backed_up?: boolean;
+}
+
+/**
+ * Shape of mfa_factors.last_webauthn_challenge_data (registration) and
+ * mfa_challenges.web_authn_session_data
+ */
+interface StoredWebAuthnChallenge {
+  challenge: string;
+  expires_at: string;
+}
+
+export interface WebAuthnRegistrationOptionsResponse {
+  factor_id: string;
+  options: PublicKeyCredentialCreationOptionsJSON;
+}
+
+export interface WebAuthnAuthenticationOptionsResponse {
+  challenge_id: string;
+  factor_id: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+}
+
+export interface PasskeyLoginOptionsResponse {
+  challenge_token: string;
+  options: PublicKeyCredentialRequestOptionsJSON;
+}
+
+@Injectable()
+export class WebAuthnService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly mfaService: MfaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start registering a passkey (registration ceremony, step 1)
+   * @param userId - ID of the user
+   * @param userName - Account name shown by the authenticator (email)
+   * @param currentAal - Assurance level of the requesting session
+   * @param friendlyName - Optional name chosen by the user
+   * @returns Promise<WebAuthnRegistrationOptionsResponse> - Options for navigator.credentials.create()
+   */
+  async generateRegistrationOptions(
+    userId: string,
+    userName: string,
+    currentAal: aal_level | null,
+    friendlyName?: string,
+  ): Promise<WebAuthnRegistrationOptionsResponse> {
+    await this.mfaService.assertCanEnroll(userId, currentAal);
+
+    // Abandoned registrations are replaced rather than accumulated
+    await this.prisma.mfa_factors.deleteMany({
+      where: { user_id: userId, factor_type: 'webauthn', status: 'unverified' },
+    });
+
+    const existing = await this.findVerifiedCredentials(userId);
+
+    const options = await generateRegistrationOptions({
+      rpName: this.getRpName(),
+      rpID: this.getRpId(),
+      userName,
+      userID: new TextEncoder().encode(userId),
+      attestationType: 'none',
+      excludeCredentials: existing.map(({ credential }) => ({
+        id: credential.id,
+        transports: credential.transports,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'preferred',
+      },
+    });
+
+    const now = new Date();
+    const factor = await this.prisma.mfa_factors.create({
+      data: {
+        id: randomUUID(),
+        user_id: userId,
+        friendly_name: friendlyName || null,
+        factor_type: 'webauthn',
+        status: 'unverified',
+        created_at: now,
+        updated_at: now,
+        last_webauthn_challenge_data: this.buildChallengeData(
+          options.challenge,
+        ) as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return { factor_id: factor.id, options };
+  }
+
+  /**
+   * Verify the attestation returned by the authenticator (registration ceremony, step 2).
+   * Stores the credential and raises the session to aal2.
+   * @param userId - ID of the user
+   * @param sessionId - Session to raise
+   * @param factorId - Factor created in step 1
+   * @param response - Attestation response from the browser
+   * @returns Promise<MfaVerificationResponse> - The new assurance level of the session
+   */
+  async verifyRegistration(
+    userId: string,
+    sessionId: string,
+    factorId: string,
+    response: RegistrationResponseJSON,
+  ): Promise<MfaVerificationResponse> {
+    const factor = await this.mfaService.findOwnedFactor(userId, factorId);
+    if (factor.factor_type !== 'webauthn' || factor.status !== 'unverified') {
+      throw new BadRequestException('Factor is not awaiting registration');
+    }
+
+    const expectedChallenge = this.readChallengeData(
+      factor.last_webauthn_challenge_data,
+    );
+
+    let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.getOrigins(),
+        expectedRPID: this.getRpId(),
+        requireUserVerification: false,
+      });
+    } catch {
+      throw new UnauthorizedException(
+        'Passkey registration could not be verified',
+      );
+    }
+
+    if (!verification.verified) {
+      throw new UnauthorizedException(
+        'Passkey registration could not be verified',
+      );
+    }
+
+    const { credential, aaguid, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    const stored: StoredWebAuthnCredential = {
+      id: credential.id,
+      public_key: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports,
+      device_type: credentialDeviceType,
+      backed_up: credentialBackedUp,
+    };
+
+    await this.mfaService.completeVerification(factor, sessionId, 'webauthn', [
+      this.prisma.mfa_factors.update({
+        where: { id: factor.id },
+        data: {
+          web_authn_credential: stored as unknown as Prisma.InputJsonValue,
+          web_authn_aaguid: aaguid,
+          last_webauthn_challenge_data: Prisma.DbNull,
+        },
+      }),
+    ]);
+
+    return { factor_id: factor.id, aal: 'aal2' };
+  }
+
+  /**
+   * Start a second-factor assertion with a registered passkey
+   * @param userId - ID of the user
+   * @param factorId - Passkey factor to use
+   * @param ip - IP address of the client
+   * @returns Promise<WebAuthnAuthenticationOptionsResponse> - Options for navigator.credentials.get()
+   */
+  async generateAuthenticationOptions(
+    userId: string,
+    factorId: string,
+    ip?: string,
+  ): Promise<WebAuthnAuthenticationOptionsResponse> {
+    const factor = await this.mfaService.findOwnedFactor(userId, factorId);
+    const credential = this.readCredential(factor);
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.getRpId(),
+      allowCredentials: [
+        { id: credential.id, transports: credential.transports },
+      ],
+      userVerification: 'preferred',
+    });
+
+    const challenge = await this.prisma.mfa_challenges.create({
+      data: {
+        id: randomUUID(),
+        factor_id: factor.id,
+        created_at: new Date(),
+        ip_address: ip || '0.0.0.0',
+        web_authn_session_data: this.buildChallengeData(
+          options.challenge,
+        ) as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return { challenge_id: challenge.id, factor_id: factor.id, options };
+  }
+
+  /**
+   * Verify a second-factor assertion and raise the session to aal2
+   * @param userId - ID of the user
+   * @param sessionId - Session to raise
+   * @param challengeId - Challenge created by generateAuthenticationOptions
+   * @param response - Assertion response from the browser
+   * @returns Promise<MfaVerificationResponse> - The new assurance level of the session
+   */
+  async verifyAuthentication(
+    userId: string,
+    sessionId: string,
+    challengeId: string,
+    response: AuthenticationResponseJSON,
+  ): Promise<MfaVerificationResponse> {
+    const challenge = await this.prisma.mfa_challenges.findFirst({
+      where: { id: challengeId, verified_at: null },
+      include: { mfa_factors: true },
+    });
+
+    if (!challenge || challenge.mfa_factors.user_id !== userId) {
+      throw new BadRequestException('Challenge not found or has expired');
+    }
+
+    const factor = challenge.mfa_factors;
+    const expectedChallenge = this.readChallengeData(
+      challenge.web_authn_session_data,
+    );
+
+    // Each challenge allows a single attempt
+    const { count } = await this.prisma.mfa_challenges.updateMany({
+      where: { id: challenge.id, verified_at: null },
+      data: { verified_at: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('Challenge not found or has expired');
+    }
+
+    const newCounter = await this.verifyAssertion(
+      factor,
+      response,
+      expectedChallenge,
+      false,
+    );
+
+    await this.mfaService.completeVerification(factor, sessionId, 'webauthn', [
+      this.buildCounterUpdate(factor, newCounter),
+    ]);
+
+    return { factor_id: factor.id, aal: 'aal2' };
+  }
+
+  /**
+   * Start a passwordless login with a discoverable passkey
+   * @returns PasskeyLoginOptionsResponse - Options for navigator.credentials.get()
+   * and a signed token carrying the challenge
+   */
+  async generatePasskeyLoginOptions(): Promise<PasskeyLoginOptionsResponse> {
+    this.assertPasskeyLoginEnabled();
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.getRpId(),
+      userVerification: 'required',
+    });
+
+    // No user is known yet, so each ceremony gets its own row, named by a
+    // signed token; expired ones are cleared as new ones are issued
+    const now = new Date();
+    await this.prisma.passkey_login_challenges.deleteMany({
+      where: { expires_at: { lt: now } },
+    });
+    const challenge = await this.prisma.passkey_login_challenges.create({
+      data: {
+        id: randomUUID(),
+        challenge: options.challenge,
+        expires_at: new Date(
+          now.getTime() + this.getChallengeTtlSeconds() * 1000,
+        ),
+      },
+    });
+
+    const challengeToken = jwt.sign({}, this.getChallengeTokenSecret(), {
+      jwtid: challenge.id,
+      expiresIn: this.getChallengeTtlSeconds(),
+    });
+
+    return { challenge_token: challengeToken, options };
+  }
+
+  /**
+   * Verify a passwordless login assertion
+   * @param challengeToken - Token returned by generatePasskeyLoginOptions
+   * @param response - Assertion response from the browser
+   * @returns Promise<mfa_factors> - The passkey factor that was used; identifies the user
+   */
+  async verifyPasskeyLogin(
+    challengeToken: string,
+    response: AuthenticationResponseJSON,
+  ): Promise<mfa_factors> {
+    this.assertPasskeyLoginEnabled();
+
+    const expectedChallenge = await this.consumeLoginChallenge(challengeToken);
+
+    const factor = await this.prisma.mfa_factors.findFirst({
+      where: {
+        factor_type: 'webauthn',
+        status: 'verified',
+        web_authn_credential: { path: ['id'], equals: response.id },
+      },
+    });
+    if (!factor) {
+      throw new UnauthorizedException('Passkey not recognised');
+    }
+
+    const newCounter = await this.verifyAssertion(
+      factor,
+      response,
+      expectedChallenge,
+      true,
+    );
+
+    await this.prisma.mfa_factors.update({
+      where: { id: factor.id },
+      data: {
+        web_authn_credential: {
+          ...this.readCredential(factor),
+          counter: newCounter,
+        } as unknown as Prisma.InputJsonValue,
+        updated_at: new Date(),
+      },
+    });
+
+    return factor;
+  }
+
+  /**
+   * Take the challenge of a passwordless login ceremony out of the database.
+   * Each challenge allows a single attempt, so concurrent ceremonies do not
+   * interfere and a used challenge cannot be replayed.
+   * @param challengeToken - Token returned by generatePasskeyLoginOptions
+   * @returns Promise<string> - The challenge the assertion must sign
+   */
+  private async consumeLoginChallenge(challengeToken: string): Promise<string> {
+    let challengeId: string | undefined;
+    try {
+      const payload = jwt.verify(
+        challengeToken,
+        this.getChallengeTokenSecret(),
+      ) as jwt.JwtPayload;
+      challengeId = payload.jti;
+    } catch {
+      challengeId = undefined;
+    }
+    if (!challengeId) {
+      throw new UnauthorizedException('Invalid or expired passkey challenge');
+    }
+
+    const challenge = await this.prisma.passkey_login_challenges.findUnique({
+      where: { id: challengeId },
+    });
+    const { count } = await this.prisma.passkey_login_challenges.deleteMany({
+      where: { id: challengeId },
+    });
+    if (!challenge || count === 0 || challenge.expires_at < new Date()) {
+      throw new UnauthorizedException('Invalid or expired passkey challenge');
+    }
+
+    return challenge.challenge;
+  }
+
+  /**
+   * Verify an assertion signature and signature counter
+   * @returns Promise<number> - The new signature counter
+   */
+  private async verifyAssertion(
+    factor: mfa_factors,
+    response: AuthenticationResponseJSON,
+    expectedChallenge: string,
+    requireUserVerification: boolean,
+  ): Promise<number> {
+    const stored = this.readCredential(factor);
+    if (response.id !== stored.id) {
+      throw new UnauthorizedException('Passkey does not match this factor');
+    }
+
+    const credential: WebAuthnCredential = {
+      id: stored.id,
+      publicKey: new Uint8Array(Buffer.from(stored.public_key, 'base64url')),
+      counter: stored.counter,
+      transports: stored.transports,
+    };
+
+    let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+    try {
+      // Also rejects a counter that did not increase, a sign of a cloned authenticator
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.getOrigins(),
+        expectedRPID: this.getRpId(),
+        credential,
+        requireUserVerification,
+      });
+    } catch {
+      throw new UnauthorizedException(
+        'Passkey assertion could not be verified',
+      );
+    }
+
+    if (!verification.verified) {
+      throw new UnauthorizedException(
+        'Passkey assertion could not be verified',
+      );
+    }
+
+    return verification.authenticationInfo.newCounter;
+  }
+
+  private buildCounterUpdate(factor: mfa_factors, newCounter: number) {
+    return this.prisma.mfa_factors.update({
+      where: { id: factor.id },
+      data: {
+        web_authn_credential: {
+          ...this.readCredential(factor),
+          counter: newCounter,
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  private async findVerifiedCredentials(
+    userId: string,
+  ): Promise<{ factor: mfa_factors; credential: StoredWebAuthnCredential }[]> {
+    const factors = await this.prisma.mfa_factors.findMany({
+      where: { user_id: userId, factor_type: 'webauthn', status: 'verified' },
+    });
+
+    return factors.map((factor) => ({
+      factor,
+      credential: this.readCredential(factor),
+    }));
+  }
+
+  private readCredential(factor: mfa_factors): StoredWebAuthnCredential {
+    const credential =
+      factor.web_authn_credential as unknown as StoredWebAuthnCredential | null;
+
+    if (factor.factor_type !== 'webauthn' || !credential?.id) {
+      throw new BadRequestException('Factor is not a registered passkey');
+    }
+
+    return credential;
+  }
+
+  private buildChallengeData(challenge: string): StoredWebAuthnChallenge {
+    const expiresAt = Date.now() + this.getChallengeTtlSeconds() * 1000;
+    return { challenge, expires_at: new Date(expiresAt).toISOString() };
+  }
+
+  private readChallengeData(data: Prisma.JsonValue): string {
+    const stored = data as unknown as StoredWebAuthnChallenge | null;
+
+    if (
+      !stored?.challenge ||
+      new Date(stored.expires_at).getTime() < Date.now()
+    ) {
+      throw new BadRequestException('Challenge not found or has expired');
+    }
+
+    return stored.challenge;
+  }
+
+  private assertPasskeyLoginEnabled(): void {
+    if (!this.configService.get<boolean>('auth.passkeyLogin')) {
+      throw new ForbiddenException('Passwordless passkey login is disabled');
+    }
+  }
+
+  private getRpId(): string {
+    return this.configService.get<string>('auth.webauthnRpId') || 'localhost';
+  }
+
+  private getRpName(): string {
+    return (
+      this.configService.get<string>('auth.webauthnRpName') ||
+      'E-Commerce Admin'
+    );
+  }
+
+  private getOrigins(): string[] {
+    const origins =
+      this.configService.get<string>('auth.webauthnOrigins') ||
+      'http://localhost:3000';
+    return origins.split(',').map((origin) => origin.trim());
+  }
+
+  private getChallengeTtlSeconds(): number {
+    return this.configService.get<number>('auth.mfaChallengeTtlSeconds') || 300;
+  }
+
+  private getChallengeTokenSecret(): string {
+    // Domain-separated so a challenge token can never pass as an access token
+    const secret =
+      this.configService.get<string>('jwt.secret') || 'default-secret';
+    return `${secret}:webauthn-challenge`;
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { MoveCategoryDto } from './dto/move-category.dto';
+import { DeleteCategoryQueryDto } from './dto/delete-category-query.dto';
+import {
+  CategoryDeletionResponse,
+  CategoryResponse,
+} from './dto/category-response.dto';
+import { UploadedImageResponse } from '../storage/dto/uploaded-image-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/categories')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminCategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  /**
+   * List all categories as a flat list
+   * GET /admin/categories
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  async listCategories(): Promise<CategoryResponse[]> {
+    return await this.categoriesService.findAll();
+  }
+
+  /**
+   * Get a category by ID
+   * GET /admin/categories/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getCategory(
+    @Param('id', ParseUUIDPipe) categoryId: string,
+  ): Promise<CategoryResponse> {
+    return await this.categoriesService.findById(categoryId);
+  }
+
+  /**
+   * Create a category
+   * POST /admin/categories
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createCategory(
+    @Body() createCategoryDto: CreateCategoryDto,
+  ): Promise<CategoryResponse> {
+    return await this.categoriesService.create(createCategoryDto);
+  }
+
+  /**
+   * Update a category
+   * PATCH /admin/categories/:id
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async updateCategory(
+    @Param('id', ParseUUIDPipe) categoryId: string,
+    @Body() updateCategoryDto: UpdateCategoryDto,
+  ): Promise<CategoryResponse> {
+    return await this.categoriesService.update(categoryId, updateCategoryDto);
+  }
+
+  /**
+   * Upload the category image (multipart/form-data, field "image"): JPEG,
+   * PNG or WebP. Resized variants are generated alongside it.
+   * POST /admin/categories/:id/image
+   */
+  @Post(':id/image')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('image'))
+  async uploadImage(
+    @Param('id', ParseUUIDPipe) categoryId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ): Promise<UploadedImageResponse> {
+    return await this.categoriesService.setImage(categoryId, file);
+  }
+
+  /**
+   * Move a category to another parent or position
+   * POST /admin/categories/:id/move
+   */
+  @Post(':id/move')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async moveCategory(
+    @Param('id', ParseUUIDPipe) categoryId: string,
+    @Body() moveCategoryDto: MoveCategoryDto,
+  ): Promise<CategoryResponse> {
+    return await this.categoriesService.move(categoryId, moveCategoryDto);
+  }
+
+  /**
+   * Delete a category, reassigning its products and subcategories
+   * DELETE /admin/categories/:id?reassign_to=:categoryId
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async deleteCategory(
+    @Param('id', ParseUUIDPipe) categoryId: string,
+    @Query() query: DeleteCategoryQueryDto,
+  ): Promise<CategoryDeletionResponse> {
+    return await this.categoriesService.remove(categoryId, query.reassign_to);
+  }
+}
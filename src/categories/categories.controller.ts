@@ -0,0 +1,32 @@
+import { Controller, Get, Param, HttpCode, HttpStatus } from '@nestjs/common';
+
+import { CategoriesService } from './categories.service';
+import {
+  CategoryResponse,
+  CategoryTreeNode,
+} from './dto/category-response.dto';
+
+@Controller('categories')
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  /**
+   * Get the category tree with active product counts (storefront navigation)
+   * GET /categories/tree
+   */
+  @Get('tree')
+  @HttpCode(HttpStatus.OK)
+  async getTree(): Promise<CategoryTreeNode[]> {
+    return await this.categoriesService.getTree();
+  }
+
+  /**
+   * Get a category by slug
+   * GET /categories/:slug
+   */
+  @Get(':slug')
+  @HttpCode(HttpStatus.OK)
+  async getCategory(@Param('slug') slug: string): Promise<CategoryResponse> {
+    return await this.categoriesService.findBySlug(slug);
+  }
+}
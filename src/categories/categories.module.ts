@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+
+import { CategoriesService } from './categories.service';
+import { CategoriesController } from './categories.controller';
+import { AdminCategoriesController } from './admin-categories.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+
+    // Image uploads
+    StorageModule,
+  ],
+  controllers: [CategoriesController, AdminCategoriesController],
+  providers: [CategoriesService],
+  exports: [CategoriesService],
+})
+export class CategoriesModule {}
@@ -0,0 +1,380 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, categories } from '@prisma/client';
+import { CategoriesService } from './categories.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ImagesService } from '../storage/images.service';
+
+describe('CategoriesService', () => {
+  let service: CategoriesService;
+  let prisma: PrismaService;
+  let imagesService: ImagesService;
+  let rows: categories[];
+
+  const ids = {
+    electronics: '0a5e1a5e-0000-4000-8000-000000000001',
+    computers: '0a5e1a5e-0000-4000-8000-000000000002',
+    laptops: '0a5e1a5e-0000-4000-8000-000000000003',
+    phones: '0a5e1a5e-0000-4000-8000-000000000004',
+    books: '0a5e1a5e-0000-4000-8000-000000000005',
+  };
+
+  const buildCategory = (
+    id: string,
+    name: string,
+    parentId: string | null,
+    position: number,
+  ): categories => ({
+    id,
+    name,
+    slug: name.toLowerCase(),
+    description: null,
+    image_url: null,
+    parent_id: parentId,
+    position,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+  });
+
+  beforeEach(async () => {
+    // electronics > (computers > laptops, phones); books
+    rows = [
+      buildCategory(ids.electronics, 'Electronics', null, 0),
+      buildCategory(ids.computers, 'Computers', ids.electronics, 0),
+      buildCategory(ids.laptops, 'Laptops', ids.computers, 0),
+      buildCategory(ids.phones, 'Phones', ids.electronics, 1),
+      buildCategory(ids.books, 'Books', null, 1),
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CategoriesService,
+        {
+          provide: PrismaService,
+          useValue: {
+            categories: {
+              findMany: jest.fn(
+                (args?: { where?: { parent_id?: string | null } }) => {
+                  const where = args?.where;
+                  return Promise.resolve(
+                    rows
+                      .filter(
+                        (row) =>
+                          !where ||
+                          where.parent_id === undefined ||
+                          row.parent_id === where.parent_id,
+                      )
+                      .sort((a, b) => a.position - b.position),
+                  );
+                },
+              ),
+              findUnique: jest.fn(
+                (args: { where: { id?: string; slug?: string } }) =>
+                  Promise.resolve(
+                    rows.find(
+                      (row) =>
+                        row.id === args.where.id ||
+                        row.slug === args.where.slug,
+                    ) ?? null,
+                  ),
+              ),
+              create: jest.fn(),
+              update: jest.fn(
+                (args: { where: { id: string }; data: Partial<categories> }) =>
+                  Promise.resolve(
+                    Object.assign(
+                      rows.find(
+                        (row) => row.id === args.where.id,
+                      ) as categories,
+                      args.data,
+                    ),
+                  ),
+              ),
+              delete: jest.fn(),
+            },
+            products: {
+              groupBy: jest.fn().mockResolvedValue([]),
+              updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            $executeRaw: jest.fn(),
+            $transaction: jest.fn(
+              (
+                arg:
+                  | ((tx: PrismaService) => Promise<unknown>)
+                  | Promise<unknown>[],
+              ) => (typeof arg === 'function' ? arg(prisma) : Promise.all(arg)),
+            ),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            upload: jest.fn().mockResolvedValue({
+              url: '/uploads/categories/image-id/original.jpg',
+              variants: {
+                thumb: '/uploads/categories/image-id/thumb.jpg',
+                medium: '/uploads/categories/image-id/medium.jpg',
+              },
+              width: 1200,
+              height: 800,
+            }),
+            discard: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<CategoriesService>(CategoriesService);
+    prisma = module.get<PrismaService>(PrismaService);
+    imagesService = module.get<ImagesService>(ImagesService);
+  });
+
+  describe('getTree', () => {
+    it('should nest categories and sum product counts up the tree', async () => {
+      jest.spyOn(prisma.products, 'groupBy').mockResolvedValue([
+        { category_id: ids.laptops, _count: { _all: 4 } },
+        { category_id: ids.electronics, _count: { _all: 1 } },
+        { category_id: ids.phones, _count: { _all: 2 } },
+      ] as any);
+
+      const tree = await service.getTree();
+
+      expect(tree.map((node) => node.slug)).toEqual(['electronics', 'books']);
+
+      const [electronics, books] = tree;
+      expect(electronics.product_count).toBe(1);
+      expect(electronics.total_product_count).toBe(7);
+      expect(electronics.children.map((node) => node.slug)).toEqual([
+        'computers',
+        'phones',
+      ]);
+      expect(electronics.children[0].product_count).toBe(0);
+      expect(electronics.children[0].total_product_count).toBe(4);
+      expect(books.total_product_count).toBe(0);
+    });
+
+    it('should only count active products', async () => {
+      await service.getTree();
+
+      expect(prisma.products.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { is_active: true, category_id: { not: null } },
+        }),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should generate a slug and append the category to its siblings', async () => {
+      jest.spyOn(prisma.categories, 'create').mockImplementation(((args: {
+        data: categories;
+      }) => {
+        const created = { ...args.data, id: 'new-id' } as categories;
+        rows.push(created);
+        return Promise.resolve(created);
+      }) as any);
+
+      const result = await service.create({
+        name: 'Tablets & E-Readers',
+        parent_id: ids.electronics,
+      });
+
+      expect(prisma.categories.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          slug: 'tablets-e-readers',
+          parent_id: ids.electronics,
+          position: 2,
+        }),
+      });
+      expect(result.position).toBe(2);
+    });
+
+    it('should throw NotFoundException for an unknown parent', async () => {
+      await expect(
+        service.create({
+          name: 'Tablets',
+          parent_id: '0a5e1a5e-0000-4000-8000-0000000000ff',
+        }),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw ConflictException when the slug is taken', async () => {
+      jest.spyOn(prisma.categories, 'create').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await expect(
+        service.create({ name: 'Books', slug: 'books' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('setImage', () => {
+    const file = { mimetype: 'image/jpeg' } as Express.Multer.File;
+
+    it('should store the image as the category image', async () => {
+      const result = await service.setImage(ids.books, file);
+
+      expect(imagesService.upload).toHaveBeenCalledWith('categories', file);
+      expect(prisma.categories.update).toHaveBeenCalledWith({
+        where: { id: ids.books },
+        data: { image_url: result.url },
+      });
+    });
+
+    it('should not upload for an unknown category', async () => {
+      await expect(
+        service.setImage('0a5e1a5e-0000-4000-8000-0000000000ff', file),
+      ).rejects.toThrow(NotFoundException);
+      expect(imagesService.upload).not.toHaveBeenCalled();
+    });
+
+    it('should remove the upload when the category disappears meanwhile', async () => {
+      jest.spyOn(prisma.categories, 'update').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Record not found', {
+          code: 'P2025',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await expect(service.setImage(ids.books, file)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(imagesService.discard).toHaveBeenCalled();
+    });
+  });
+
+  describe('move', () => {
+    it('should reject moving a category under one of its descendants', async () => {
+      await expect(
+        service.move(ids.electronics, { parent_id: ids.laptops }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.categories.update).not.toHaveBeenCalled();
+    });
+
+    it('should check for cycles under the category tree lock', async () => {
+      await expect(
+        service.move(ids.electronics, { parent_id: ids.laptops }),
+      ).rejects.toThrow(BadRequestException);
+
+      const [strings] = jest.mocked(prisma.$executeRaw).mock.calls[0];
+      expect((strings as TemplateStringsArray).join('?')).toContain(
+        'pg_advisory_xact_lock',
+      );
+      expect(
+        jest.mocked(prisma.$executeRaw).mock.invocationCallOrder[0],
+      ).toBeLessThan(
+        jest.mocked(prisma.categories.findMany).mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject moving a category under itself', async () => {
+      await expect(
+        service.move(ids.computers, { parent_id: ids.computers }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should move a category under a new parent', async () => {
+      const result = await service.move(ids.laptops, {
+        parent_id: ids.books,
+      });
+
+      expect(result.parent_id).toBe(ids.books);
+      expect(result.position).toBe(0);
+    });
+
+    it('should reorder siblings densely', async () => {
+      await service.move(ids.books, { parent_id: null, position: 0 });
+
+      const roots = rows
+        .filter((row) => row.parent_id === null)
+        .sort((a, b) => a.position - b.position)
+        .map((row) => [row.slug, row.position]);
+      expect(roots).toEqual([
+        ['books', 0],
+        ['electronics', 1],
+      ]);
+    });
+
+    it('should close the gap among the siblings it leaves', async () => {
+      await service.move(ids.computers, { parent_id: null });
+
+      const children = rows
+        .filter((row) => row.parent_id === ids.electronics)
+        .map((row) => [row.slug, row.position]);
+      expect(children).toEqual([['phones', 0]]);
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should move a category to the root', async () => {
+      const result = await service.move(ids.phones, { parent_id: null });
+
+      expect(result.parent_id).toBeNull();
+      expect(result.position).toBe(2);
+    });
+  });
+
+  describe('remove', () => {
+    it('should reassign products to the parent by default', async () => {
+      jest.spyOn(prisma.products, 'updateMany').mockResolvedValue({ count: 3 });
+
+      const result = await service.remove(ids.computers);
+
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { category_id: ids.computers },
+        data: { category_id: ids.electronics },
+      });
+      expect(result).toEqual({
+        id: ids.computers,
+        reassigned_to: ids.electronics,
+        reassigned_products: 3,
+      });
+    });
+
+    it('should move subcategories up one level after the remaining siblings', async () => {
+      await service.remove(ids.computers);
+
+      expect(prisma.categories.update).toHaveBeenCalledWith({
+        where: { id: ids.laptops },
+        data: { parent_id: ids.electronics, position: 1 },
+      });
+      expect(prisma.categories.delete).toHaveBeenCalledWith({
+        where: { id: ids.computers },
+      });
+    });
+
+    it('should reassign products to an explicit category', async () => {
+      await service.remove(ids.computers, ids.books);
+
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { category_id: ids.computers },
+        data: { category_id: ids.books },
+      });
+    });
+
+    it('should leave products uncategorized when deleting a root category', async () => {
+      const result = await service.remove(ids.books);
+
+      expect(result.reassigned_to).toBeNull();
+    });
+
+    it('should reject reassigning products to the deleted category', async () => {
+      await expect(
+        service.remove(ids.computers, ids.computers),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw NotFoundException for an unknown target', async () => {
+      await expect(
+        service.remove(ids.computers, '0a5e1a5e-0000-4000-8000-0000000000ff'),
+      ).rejects.toThrow(NotFoundException);
+      expect(prisma.categories.delete).not.toHaveBeenCalled();
+    });
+  });
+});
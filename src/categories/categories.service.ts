@@ -0,0 +1,473 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, categories } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { ImagesService } from '../storage/images.service';
+import { UploadedImageResponse } from '../storage/dto/uploaded-image-response.dto';
+import { nextAvailableSlug, slugify } from '../common/utils/slug.util';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { MoveCategoryDto } from './dto/move-category.dto';
+import {
+  CategoryDeletionResponse,
+  CategoryResponse,
+  CategoryTreeNode,
+} from './dto/category-response.dto';
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly imagesService: ImagesService,
+  ) {}
+
+  /**
+   * Build the whole category tree with active product counts.
+   * The table is small, so it is loaded at once and assembled in memory.
+   * @returns Promise<CategoryTreeNode[]> - Root categories, ordered by position
+   */
+  async getTree(): Promise<CategoryTreeNode[]> {
+    const [rows, counts] = await Promise.all([
+      this.prisma.categories.findMany({
+        orderBy: [{ position: 'asc' }, { name: 'asc' }],
+      }),
+      this.prisma.products.groupBy({
+        by: ['category_id'],
+        where: { is_active: true, category_id: { not: null } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countByCategory = new Map(
+      counts.map((count) => [count.category_id, count._count._all]),
+    );
+
+    const nodes = new Map<string, CategoryTreeNode>();
+    for (const row of rows) {
+      const productCount = countByCategory.get(row.id) ?? 0;
+      nodes.set(row.id, {
+        ...this.toResponse(row),
+        product_count: productCount,
+        total_product_count: productCount,
+        children: [],
+      });
+    }
+
+    const roots: CategoryTreeNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) {
+        parent.children.push(node);
+      } else {
+        roots.push(node);
+      }
+    }
+
+    const sumTotals = (node: CategoryTreeNode): number => {
+      for (const child of node.children) {
+        node.total_product_count += sumTotals(child);
+      }
+      return node.total_product_count;
+    };
+    roots.forEach(sumTotals);
+
+    return roots;
+  }
+
+  /**
+   * List every category as a flat list (admin)
+   * @returns Promise<CategoryResponse[]> - Categories ordered by parent and position
+   */
+  async findAll(): Promise<CategoryResponse[]> {
+    const rows = await this.prisma.categories.findMany({
+      orderBy: [{ parent_id: 'asc' }, { position: 'asc' }, { name: 'asc' }],
+    });
+
+    return rows.map((row) => this.toResponse(row));
+  }
+
+  /**
+   * Find a category by its slug
+   * @param slug - Category slug
+   * @returns Promise<CategoryResponse> - The category
+   */
+  async findBySlug(slug: string): Promise<CategoryResponse> {
+    const category = await this.prisma.categories.findUnique({
+      where: { slug },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    return this.toResponse(category);
+  }
+
+  /**
+   * Find a category by its ID
+   * @param id - Category ID
+   * @returns Promise<CategoryResponse> - The category
+   */
+  async findById(id: string): Promise<CategoryResponse> {
+    return this.toResponse(await this.findCategory(id));
+  }
+
+  /**
+   * Create a category, optionally under a parent
+   * @param createCategoryDto - Category data
+   * @returns Promise<CategoryResponse> - The created category
+   */
+  async create(
+    createCategoryDto: CreateCategoryDto,
+  ): Promise<CategoryResponse> {
+    const { slug, parent_id, position, ...rest } = createCategoryDto;
+    const parentId = parent_id ?? null;
+
+    if (parentId) {
+      await this.findCategory(parentId);
+    }
+
+    const siblings = await this.findChildren(parentId);
+    const candidate = slug || (await this.generateSlug(rest.name));
+
+    try {
+      const created = await this.prisma.categories.create({
+        data: {
+          ...rest,
+          slug: candidate,
+          parent_id: parentId,
+          position: siblings.length,
+        },
+      });
+
+      if (position !== undefined && position < siblings.length) {
+        await this.prisma.$transaction((tx) =>
+          this.placeAmongSiblings(tx, created.id, parentId, position),
+        );
+      }
+
+      return await this.findById(created.id);
+    } catch (error) {
+      if (this.isSlugConflict(error)) {
+        throw new ConflictException('A category with this slug already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update the name, slug, description or image of a category
+   * @param id - Category ID
+   * @param updateCategoryDto - Fields to change
+   * @returns Promise<CategoryResponse> - The updated category
+   */
+  async update(
+    id: string,
+    updateCategoryDto: UpdateCategoryDto,
+  ): Promise<CategoryResponse> {
+    await this.findCategory(id);
+
+    try {
+      const category = await this.prisma.categories.update({
+        where: { id },
+        data: updateCategoryDto,
+      });
+
+      return this.toResponse(category);
+    } catch (error) {
+      if (this.isSlugConflict(error)) {
+        throw new ConflictException('A category with this slug already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload an image and make it the image of a category. The image it
+   * replaces is left to the orphan cleanup.
+   * @param id - Category ID
+   * @param file - Uploaded file
+   * @returns Promise<UploadedImageResponse> - The stored image and its variants
+   */
+  async setImage(
+    id: string,
+    file: Express.Multer.File | undefined,
+  ): Promise<UploadedImageResponse> {
+    await this.findCategory(id);
+
+    const image = await this.imagesService.upload('categories', file);
+
+    try {
+      await this.prisma.categories.update({
+        where: { id },
+        data: { image_url: image.url },
+      });
+    } catch (error) {
+      await this.imagesService.discard(image);
+
+      // The category was deleted while the image was processed
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new NotFoundException('Category not found');
+      }
+      throw error;
+    }
+
+    return image;
+  }
+
+  /**
+   * Move a category under another parent and/or to another position among
+   * its siblings. The siblings it leaves behind close the gap.
+   * @param id - Category to move
+   * @param moveCategoryDto - New parent (null for root) and position
+   * @returns Promise<CategoryResponse> - The moved category
+   */
+  async move(
+    id: string,
+    moveCategoryDto: MoveCategoryDto,
+  ): Promise<CategoryResponse> {
+    await this.findCategory(id);
+    const parentId = moveCategoryDto.parent_id;
+
+    if (parentId) {
+      await this.findCategory(parentId);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.lockTree(tx);
+
+      // Checked under the lock, against the tree as other moves left it
+      if (parentId && (await this.getDescendantIds(id, tx)).has(parentId)) {
+        throw new BadRequestException(
+          'A category cannot be moved under itself or one of its descendants',
+        );
+      }
+
+      const category = await tx.categories.findUnique({
+        where: { id },
+        select: { parent_id: true },
+      });
+      if (!category) {
+        throw new NotFoundException('Category not found');
+      }
+
+      await this.placeAmongSiblings(
+        tx,
+        id,
+        parentId,
+        moveCategoryDto.position,
+        category.parent_id,
+      );
+    });
+
+    return await this.findById(id);
+  }
+
+  /**
+   * Delete a category. Its products move to the given category (or to the
+   * parent category by default) and its subcategories move up one level.
+   * @param id - Category ID
+   * @param reassignTo - Category that receives the products
+   * @returns Promise<CategoryDeletionResponse> - Where the products went
+   */
+  async remove(
+    id: string,
+    reassignTo?: string,
+  ): Promise<CategoryDeletionResponse> {
+    const category = await this.findCategory(id);
+    const targetId = reassignTo ?? category.parent_id;
+
+    if (targetId === id) {
+      throw new BadRequestException(
+        'Products cannot be reassigned to the category being deleted',
+      );
+    }
+    if (targetId) {
+      await this.findCategory(targetId);
+    }
+
+    const [children, parentSiblings] = await Promise.all([
+      this.findChildren(id),
+      this.findChildren(category.parent_id),
+    ]);
+    const remainingSiblings = parentSiblings.filter(
+      (sibling) => sibling.id !== id,
+    );
+
+    const [reassigned] = await this.prisma.$transaction([
+      this.prisma.products.updateMany({
+        where: { category_id: id },
+        data: { category_id: targetId },
+      }),
+      // Subcategories take the place of the deleted category, after its siblings
+      ...children.map((child, index) =>
+        this.prisma.categories.update({
+          where: { id: child.id },
+          data: {
+            parent_id: category.parent_id,
+            position: remainingSiblings.length + index,
+          },
+        }),
+      ),
+      this.prisma.categories.delete({ where: { id } }),
+    ]);
+
+    return {
+      id,
+      reassigned_to: targetId,
+      reassigned_products: reassigned.count,
+    };
+  }
+
+  /**
+   * Collect a category and all of its descendants
+   * @param id - Category ID
+   * @param client - Transaction to read the tree in, if any
+   * @returns Promise<Set<string>> - IDs of the category and every category below it
+   */
+  async getDescendantIds(
+    id: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Set<string>> {
+    const rows = await client.categories.findMany({
+      select: { id: true, parent_id: true },
+    });
+
+    const childrenByParent = new Map<string, string[]>();
+    for (const row of rows) {
+      if (row.parent_id) {
+        const children = childrenByParent.get(row.parent_id) ?? [];
+        children.push(row.id);
+        childrenByParent.set(row.parent_id, children);
+      }
+    }
+
+    const descendants = new Set<string>([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      for (const child of childrenByParent.get(queue.shift() as string) ?? []) {
+        if (!descendants.has(child)) {
+          descendants.add(child);
+          queue.push(child);
+        }
+      }
+    }
+
+    return descendants;
+  }
+
+  /**
+   * Put a category at an index among the children of a parent and renumber
+   * the siblings 0..n so positions stay dense. When the category comes from
+   * another parent, its former siblings are renumbered too.
+   */
+  private async placeAmongSiblings(
+    tx: Prisma.TransactionClient,
+    id: string,
+    parentId: string | null,
+    position?: number,
+    previousParentId?: string | null,
+  ): Promise<void> {
+    const siblings = (await this.findChildren(parentId, tx)).filter(
+      (sibling) => sibling.id !== id,
+    );
+    const formerSiblings =
+      previousParentId !== undefined && previousParentId !== parentId
+        ? (await this.findChildren(previousParentId, tx)).filter(
+            (sibling) => sibling.id !== id,
+          )
+        : [];
+    const index = Math.min(position ?? siblings.length, siblings.length);
+    const ordered = [
+      ...siblings.slice(0, index).map((sibling) => sibling.id),
+      id,
+      ...siblings.slice(index).map((sibling) => sibling.id),
+    ];
+
+    for (const [order, categoryId] of ordered.entries()) {
+      await tx.categories.update({
+        where: { id: categoryId },
+        data:
+          categoryId === id
+            ? { parent_id: parentId, position: order }
+            : { position: order },
+      });
+    }
+    for (const [order, sibling] of formerSiblings.entries()) {
+      await tx.categories.update({
+        where: { id: sibling.id },
+        data: { position: order },
+      });
+    }
+  }
+
+  // Serialises moves, so two moves that would together form a cycle (A
+  // under B and B under A) cannot both pass the descendant check
+  private async lockTree(tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('categories'))`;
+  }
+
+  private async findChildren(
+    parentId: string | null,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<categories[]> {
+    return await client.categories.findMany({
+      where: { parent_id: parentId },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  private async findCategory(id: string): Promise<categories> {
+    const category = await this.prisma.categories.findUnique({
+      where: { id },
+    });
+
+    if (!category) {
+      throw new NotFoundException('Category not found');
+    }
+
+    return category;
+  }
+
+  private async generateSlug(name: string): Promise<string> {
+    const base = slugify(name) || 'category';
+
+    const taken = await this.prisma.categories.findMany({
+      where: { slug: { startsWith: base } },
+      select: { slug: true },
+    });
+
+    return nextAvailableSlug(
+      base,
+      taken.map((category) => category.slug),
+    );
+  }
+
+  private isSlugConflict(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    );
+  }
+
+  private toResponse(category: categories): CategoryResponse {
+    return {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      image_url: category.image_url,
+      parent_id: category.parent_id,
+      position: category.position,
+      created_at: category.created_at,
+    };
+  }
+}
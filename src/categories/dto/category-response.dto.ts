@@ -0,0 +1,25 @@
+export interface CategoryResponse {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  image_url: string | null;
+  parent_id: string | null;
+  position: number;
+  created_at: Date | null;
+}
+
+export interface CategoryTreeNode extends CategoryResponse {
+  // Active products directly in this category
+  product_count: number;
+  // Active products in this category and all of its descendants
+  total_product_count: number;
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryDeletionResponse {
+  id: string;
+  // Category that received the products, or null when they were uncategorised
+  reassigned_to: string | null;
+  reassigned_products: number;
+}
@@ -0,0 +1,44 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateCategoryDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters' })
+  name: string;
+
+  // Generated from the name when omitted
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  @MaxLength(100, { message: 'Slug must be at most 100 characters' })
+  slug?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Image URL must be a string' })
+  image_url?: string;
+
+  // Root category when omitted
+  @IsOptional()
+  @IsUUID('4', { message: 'Parent ID must be a valid UUID' })
+  parent_id?: string;
+
+  // Appended after its siblings when omitted
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position cannot be negative' })
+  position?: number;
+}
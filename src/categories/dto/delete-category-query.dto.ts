@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class DeleteCategoryQueryDto {
+  // Category that receives the products; defaults to the parent category
+  @IsOptional()
+  @IsUUID('4', { message: 'Reassign target must be a valid UUID' })
+  reassign_to?: string;
+}
@@ -0,0 +1,14 @@
+import { IsInt, IsOptional, IsUUID, Min, ValidateIf } from 'class-validator';
+
+export class MoveCategoryDto {
+  // null moves the category to the root
+  @ValidateIf((dto: MoveCategoryDto) => dto.parent_id !== null)
+  @IsUUID('4', { message: 'Parent ID must be a valid UUID or null' })
+  parent_id: string | null;
+
+  // Index among the new siblings; appended at the end when omitted
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position cannot be negative' })
+  position?: number;
+}
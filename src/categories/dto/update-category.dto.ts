@@ -0,0 +1,32 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+// The parent and position are changed through the move endpoint
+export class UpdateCategoryDto {
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(100, { message: 'Name must be at most 100 characters' })
+  name?: string;
+
+  // Changing the slug breaks existing category URLs
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  @MaxLength(100, { message: 'Slug must be at most 100 characters' })
+  slug?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string | null;
+
+  @IsOptional()
+  @IsString({ message: 'Image URL must be a string' })
+  image_url?: string | null;
+}
@@ -0,0 +1,19 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+
+import { TooManyRequestsException } from '../exceptions/too-many-requests.exception';
+
+/**
+ * Send TooManyRequestsException with a Retry-After header
+ */
+@Catch(TooManyRequestsException)
+export class RetryAfterFilter implements ExceptionFilter {
+  catch(exception: TooManyRequestsException, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    response
+      .status(exception.getStatus())
+      .setHeader('Retry-After', String(exception.retryAfterSeconds))
+      .json(exception.getResponse());
+  }
+}
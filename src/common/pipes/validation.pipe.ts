@@ -0,0 +1,55 @@
+import {
+  BadRequestException,
+  HttpStatus,
+  type ValidationError,
+  ValidationPipe,
+} from '@nestjs/common';
+
+/**
+ * Create the validation pipe shared by all request bodies.
+ * Rejects unknown properties and reports failures per field.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    transform: true,
+    exceptionFactory: (errors) => validationError(flattenErrors(errors)),
+  });
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Build the error the validation pipe reports, for checks a DTO cannot
+ * express (cross-field rules, checks against the database...)
+ * @param errors - Failed fields, e.g. "items.0.quantity", and why
+ * @returns BadRequestException - The exception to throw
+ */
+export function validationError(errors: FieldError[]): BadRequestException {
+  return new BadRequestException({
+    statusCode: HttpStatus.BAD_REQUEST,
+    message: 'Validation failed',
+    errors,
+  });
+}
+
+/**
+ * Report errors of nested objects under their path, e.g. "items.0.quantity"
+ */
+function flattenErrors(
+  errors: ValidationError[],
+  parent?: string,
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    const messages = error.constraints
+      ? [{ field, message: Object.values(error.constraints).join(', ') }]
+      : [];
+
+    return [...messages, ...flattenErrors(error.children || [], field)];
+  });
+}
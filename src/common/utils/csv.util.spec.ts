@@ -0,0 +1,59 @@
+import { Readable } from 'stream';
+import { parseCsv, toCsvLine } from './csv.util';
+
+describe('csv utils', () => {
+  const parse = async (...chunks: string[]) => {
+    const records: string[][] = [];
+    for await (const record of parseCsv(Readable.from(chunks))) {
+      records.push(record);
+    }
+    return records;
+  };
+
+  describe('parseCsv', () => {
+    it('should split records and fields', async () => {
+      expect(await parse('a,b\r\n1,2\n3,\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+        ['3', ''],
+      ]);
+    });
+
+    it('should keep commas, quotes and line breaks inside quoted fields', async () => {
+      expect(await parse('"a, b","say ""hi""","line\nbreak"')).toEqual([
+        ['a, b', 'say "hi"', 'line\nbreak'],
+      ]);
+    });
+
+    it('should join records split across chunks', async () => {
+      expect(await parse('na', 'me,"quo', 'ted"\r', '\nx,y')).toEqual([
+        ['name', 'quoted'],
+        ['x', 'y'],
+      ]);
+    });
+
+    it('should skip a byte order mark and empty lines', async () => {
+      expect(await parse('\uFEFFa\n\n\nb\n')).toEqual([['a'], ['b']]);
+    });
+
+    it('should reject an unterminated quoted field', async () => {
+      await expect(parse('"open')).rejects.toThrow(
+        'CSV ends inside a quoted field',
+      );
+    });
+  });
+
+  describe('toCsvLine', () => {
+    it('should quote only the fields that need it', () => {
+      expect(toCsvLine(['plain', 'a,b', 'say "hi"', null, 4, true])).toBe(
+        'plain,"a,b","say ""hi""",,4,true\r\n',
+      );
+    });
+
+    it('should round-trip through parseCsv', async () => {
+      const values = ['x\ny', '"', ''];
+
+      expect(await parse(toCsvLine(values))).toEqual([values]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+// Longest record accepted, so an unterminated quote cannot buffer a whole file
+const MAX_RECORD_LENGTH = 1024 * 1024;
+
+/**
+ * Parse CSV (RFC 4180) as it streams in: comma-separated fields, optionally
+ * quoted with "", doubled quotes inside quoted fields, CRLF or LF line ends.
+ * A leading byte order mark and empty lines are skipped.
+ * @param chunks - Text or UTF-8 chunks, e.g. a request stream
+ * @returns AsyncGenerator<string[]> - One array of fields per record
+ */
+export async function* parseCsv(
+  chunks: AsyncIterable<string | Buffer>,
+): AsyncGenerator<string[]> {
+  const decoder = new TextDecoder('utf-8');
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Whether the last character was the closing quote of a quoted field
+  let quoteClosed = false;
+  let length = 0;
+  let first = true;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    quoteClosed = false;
+  };
+
+  for await (const chunk of chunks) {
+    let text =
+      typeof chunk === 'string'
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    if (first) {
+      text = text.replace(/^\uFEFF/, '');
+      first = false;
+    }
+
+    for (const char of text) {
+      if (++length > MAX_RECORD_LENGTH) {
+        throw new Error(
+          `CSV record longer than ${MAX_RECORD_LENGTH} characters`,
+        );
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          quoted = false;
+          quoteClosed = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        // A doubled quote inside a quoted field is a literal quote
+        if (quoteClosed) {
+          field += '"';
+        }
+        quoted = true;
+        quoteClosed = false;
+      } else if (char === ',') {
+        endField();
+      } else if (char === '\n') {
+        endField();
+        if (record.length > 1 || record[0] !== '') {
+          yield record;
+        }
+        record = [];
+        length = 0;
+      } else if (char !== '\r') {
+        // A carriage return outside quotes is part of a CRLF line end
+        field += char;
+        quoteClosed = false;
+      }
+    }
+  }
+
+  if (quoted) {
+    throw new Error('CSV ends inside a quoted field');
+  }
+
+  endField();
+  if (record.length > 1 || record[0] !== '') {
+    yield record;
+  }
+}
+
+/**
+ * Format one CSV record, quoting the fields that need it
+ * @param values - Field values; null and undefined become empty fields
+ * @returns string - The record, ending with CRLF
+ */
+export function toCsvLine(
+  values: (string | number | boolean | null | undefined)[],
+): string {
+  return (
+    values
+      .map((value) => {
+        const text = value === null || value === undefined ? '' : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
@@ -0,0 +1,26 @@
+import { validationError } from '../pipes/validation.pipe';
+
+/**
+ * Turn optional `from`/`to` query dates into a period. `to` defaults to now
+ * and `from` to `defaultDays` before `to`.
+ * @param query - ISO 8601 dates from the query string
+ * @param defaultDays - Length of the period when `from` is left out
+ * @returns The period, `from` inclusive and `to` exclusive
+ */
+export function resolveDateRange(
+  query: { from?: string; to?: string },
+  defaultDays: number,
+): { from: Date; to: Date } {
+  const to = query.to ? new Date(query.to) : new Date();
+  const from = query.from
+    ? new Date(query.from)
+    : new Date(to.getTime() - defaultDays * 24 * 60 * 60 * 1000);
+
+  if (from >= to) {
+    throw validationError([
+      { field: 'to', message: 'To must be later than from' },
+    ]);
+  }
+
+  return { from, to };
+}
@@ -0,0 +1,7 @@
+/**
+ * class-transformer helper for boolean query parameters. Query strings arrive
+ * as text; only 'true' and 'false' are converted, anything else is left for
+ * @IsBoolean() to reject.
+ */
+export const toBoolean = ({ value }: { value: unknown }): unknown =>
+  value === 'true' ? true : value === 'false' ? false : value;
@@ -0,0 +1,34 @@
+import { nextAvailableSlug, slugify } from './slug.util';
+
+describe('slug utils', () => {
+  describe('slugify', () => {
+    it('should lowercase and hyphenate words', () => {
+      expect(slugify('Wireless Mouse  Pro')).toBe('wireless-mouse-pro');
+    });
+
+    it('should strip accents and punctuation', () => {
+      expect(slugify('Café Crème, 250g!')).toBe('cafe-creme-250g');
+    });
+
+    it('should not leave leading or trailing hyphens', () => {
+      expect(slugify('  --Hello--  ')).toBe('hello');
+      expect(slugify(`${'a'.repeat(79)} b`)).toBe('a'.repeat(79));
+    });
+
+    it('should return an empty string when nothing is left', () => {
+      expect(slugify('!!!')).toBe('');
+    });
+  });
+
+  describe('nextAvailableSlug', () => {
+    it('should keep the base slug when it is free', () => {
+      expect(nextAvailableSlug('mouse', ['mouse-pad'])).toBe('mouse');
+    });
+
+    it('should append the first free numeric suffix', () => {
+      expect(nextAvailableSlug('mouse', ['mouse', 'mouse-2', 'mouse-4'])).toBe(
+        'mouse-3',
+      );
+    });
+  });
+});
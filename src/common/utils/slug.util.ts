@@ -0,0 +1,35 @@
+/**
+ * Turn a name into a URL slug: lowercase ASCII words joined by hyphens
+ * @param value - Text to convert, e.g. "Café Crème 250g"
+ * @returns string - e.g. "cafe-creme-250g"
+ */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/g, '');
+}
+
+/**
+ * Pick the first free slug: "name", then "name-2", "name-3"...
+ * @param base - Slug derived from the name
+ * @param taken - Existing slugs starting with base
+ * @returns string - A slug that is not in taken
+ */
+export function nextAvailableSlug(base: string, taken: string[]): string {
+  const used = new Set(taken);
+  if (!used.has(base)) {
+    return base;
+  }
+
+  let suffix = 2;
+  while (used.has(`${base}-${suffix}`)) {
+    suffix++;
+  }
+
+  return `${base}-${suffix}`;
+}
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('analytics', () => ({
+  // How long results for periods that have ended are reused. Orders placed
+  // in those periods can still be cancelled or refunded, so this bounds how
+  // stale a chart can get.
+  cacheTtlSeconds: parseInt(
+    process.env.ANALYTICS_CACHE_TTL_SECONDS || '3600',
+    10,
+  ),
+  // Oldest results are dropped beyond this many cached buckets and reports
+  cacheMaxEntries: parseInt(
+    process.env.ANALYTICS_CACHE_MAX_ENTRIES || '20000',
+    10,
+  ),
+}));
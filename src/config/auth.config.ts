@@ -0,0 +1,70 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('auth', () => ({
+  // 'required': new accounts must confirm their email before logging in
+  // 'off': accounts are confirmed on registration
+  emailConfirmation: process.env.AUTH_EMAIL_CONFIRMATION || 'required',
+  confirmationTokenTtlSeconds: parseInt(
+    process.env.CONFIRMATION_TOKEN_TTL_SECONDS || '86400',
+    10,
+  ),
+  // Minimum delay between two confirmation emails for the same user
+  confirmationCooldownSeconds: parseInt(
+    process.env.CONFIRMATION_COOLDOWN_SECONDS || '60',
+    10,
+  ),
+  passwordResetTokenTtlSeconds: parseInt(
+    process.env.PASSWORD_RESET_TOKEN_TTL_SECONDS || '3600',
+    10,
+  ),
+  // Minimum delay between two password reset emails for the same user
+  passwordResetCooldownSeconds: parseInt(
+    process.env.PASSWORD_RESET_COOLDOWN_SECONDS || '60',
+    10,
+  ),
+  // Issuer name shown in authenticator apps
+  mfaIssuer: process.env.MFA_ISSUER || 'E-Commerce Admin',
+  mfaChallengeTtlSeconds: parseInt(
+    process.env.MFA_CHALLENGE_TTL_SECONDS || '300',
+    10,
+  ),
+  // WebAuthn relying party: the domain passkeys are bound to, and the
+  // comma-separated origins the dashboard is served from
+  webauthnRpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+  webauthnRpName: process.env.WEBAUTHN_RP_NAME || 'E-Commerce Admin',
+  webauthnOrigins: process.env.WEBAUTHN_ORIGINS || 'http://localhost:3000',
+  // Allow signing in with a passkey alone, without a password
+  passkeyLogin: process.env.PASSKEY_LOGIN_ENABLED === 'true',
+  // Login throttling: 'memory' for a single instance, 'postgres' when
+  // several instances must share the same counters
+  loginAttemptStore: process.env.LOGIN_ATTEMPT_STORE || 'memory',
+  // How long failed attempts are remembered
+  loginAttemptWindowSeconds: parseInt(
+    process.env.LOGIN_ATTEMPT_WINDOW_SECONDS || '900',
+    10,
+  ),
+  // Failures allowed before each further attempt is delayed, doubling from
+  // loginBackoffBaseSeconds up to loginBackoffMaxSeconds
+  loginFreeAttemptsPerEmail: parseInt(
+    process.env.LOGIN_FREE_ATTEMPTS_PER_EMAIL || '3',
+    10,
+  ),
+  loginFreeAttemptsPerIp: parseInt(
+    process.env.LOGIN_FREE_ATTEMPTS_PER_IP || '20',
+    10,
+  ),
+  loginBackoffBaseSeconds: parseInt(
+    process.env.LOGIN_BACKOFF_BASE_SECONDS || '1',
+    10,
+  ),
+  loginBackoffMaxSeconds: parseInt(
+    process.env.LOGIN_BACKOFF_MAX_SECONDS || '300',
+    10,
+  ),
+  // Failures on one account that lock it for loginLockoutSeconds
+  loginMaxAttemptsPerEmail: parseInt(
+    process.env.LOGIN_MAX_ATTEMPTS_PER_EMAIL || '10',
+    10,
+  ),
+  loginLockoutSeconds: parseInt(process.env.LOGIN_LOCKOUT_SECONDS || '900', 10),
+}));
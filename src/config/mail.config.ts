@@ -0,0 +1,11 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('mail', () => ({
+  // Transport used to deliver emails: 'console' or 'file'
+  transport: process.env.MAIL_TRANSPORT || 'console',
+  from: process.env.MAIL_FROM || 'no-reply@localhost',
+  // Directory written to by the file transport
+  outputDir: process.env.MAIL_OUTPUT_DIR || '.tmp/mail',
+  // Base URL of the frontend, used to build links in emails
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+}));
@@ -0,0 +1,10 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('notifications', () => ({
+  // Comma-separated channels admin notifications are delivered through:
+  // 'in_app' (stored for the admin dashboard) and/or 'email'
+  channels: process.env.NOTIFICATION_CHANNELS || 'in_app,email',
+  // Comma-separated addresses for email notifications; every admin
+  // receives them when empty
+  emailRecipients: process.env.NOTIFICATION_EMAIL_RECIPIENTS || '',
+}));
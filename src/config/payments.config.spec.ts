@@ -0,0 +1,37 @@
+import paymentsConfig from './payments.config';
+
+describe('Payments Configuration', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    process.env = { ...env };
+    delete process.env.PAYMENTS_PROVIDER;
+    delete process.env.PAYMENTS_WEBHOOK_SECRET;
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('should use the local webhook secret with the fake provider', () => {
+    expect(paymentsConfig()).toMatchObject({
+      provider: 'fake',
+      webhookSecret: 'whsec_local',
+    });
+  });
+
+  it('should refuse to start a real provider without a webhook secret', () => {
+    process.env.PAYMENTS_PROVIDER = 'stripe';
+
+    expect(() => paymentsConfig()).toThrow(
+      'PAYMENTS_WEBHOOK_SECRET must be set for the stripe payment provider',
+    );
+  });
+
+  it('should use the configured webhook secret', () => {
+    process.env.PAYMENTS_PROVIDER = 'stripe';
+    process.env.PAYMENTS_WEBHOOK_SECRET = 'whsec_configured';
+
+    expect(paymentsConfig().webhookSecret).toBe('whsec_configured');
+  });
+});
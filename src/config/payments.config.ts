@@ -0,0 +1,34 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('payments', () => {
+  // Payment provider: 'fake' (local, no network) or 'stripe'
+  const provider = process.env.PAYMENTS_PROVIDER || 'fake';
+
+  // Only the fake provider may sign webhooks with the well-known local secret
+  if (provider !== 'fake' && !process.env.PAYMENTS_WEBHOOK_SECRET) {
+    throw new Error(
+      `PAYMENTS_WEBHOOK_SECRET must be set for the ${provider} payment provider`,
+    );
+  }
+
+  return {
+    provider,
+    stripeSecretKey: process.env.STRIPE_SECRET_KEY || '',
+    stripeApiUrl: process.env.STRIPE_API_URL || 'https://api.stripe.com',
+    // Secret used to sign webhook events (Stripe-Signature header)
+    webhookSecret: process.env.PAYMENTS_WEBHOOK_SECRET || 'whsec_local',
+    // Oldest signature timestamp accepted, against replayed events
+    webhookToleranceSeconds: parseInt(
+      process.env.PAYMENTS_WEBHOOK_TOLERANCE_SECONDS || '300',
+      10,
+    ),
+    currency: process.env.PAYMENTS_CURRENCY || 'usd',
+    // Pages the customer returns to after paying or giving up
+    successUrl:
+      process.env.PAYMENTS_SUCCESS_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/checkout/success`,
+    cancelUrl:
+      process.env.PAYMENTS_CANCEL_URL ||
+      `${process.env.APP_URL || 'http://localhost:3000'}/checkout/cancel`,
+  };
+});
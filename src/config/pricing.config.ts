@@ -0,0 +1,13 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('pricing', () => ({
+  // Whether this instance writes scheduled sale prices to products. Reads
+  // and checkout resolve schedules on their own, so a stopped scheduler only
+  // delays sorting and filtering by the new prices.
+  schedulerEnabled: process.env.PRICING_SCHEDULER_ENABLED !== 'false',
+  // How often the scheduler looks for schedules that started or ended
+  schedulerIntervalSeconds: parseInt(
+    process.env.PRICING_SCHEDULER_INTERVAL_SECONDS || '60',
+    10,
+  ),
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('session', () => ({
+  // Absolute lifetime of a login session, regardless of refreshes (default 30 days)
+  maxAgeSeconds: parseInt(process.env.SESSION_MAX_AGE_SECONDS || '2592000', 10),
+}));
@@ -0,0 +1,32 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('storage', () => ({
+  // Where uploaded files are kept: 'local' (filesystem) or 's3' (any
+  // S3-compatible object store)
+  driver: process.env.STORAGE_DRIVER || 'local',
+  // Directory written to by the local driver, served under publicUrl
+  localDir: process.env.STORAGE_LOCAL_DIR || 'uploads',
+  // Base URL stored files are reachable at. For S3 this defaults to the
+  // bucket URL; point it at a CDN in front of the bucket if there is one.
+  publicUrl:
+    process.env.STORAGE_PUBLIC_URL ||
+    (process.env.STORAGE_DRIVER === 's3'
+      ? `${process.env.S3_ENDPOINT || 'https://s3.amazonaws.com'}/${process.env.S3_BUCKET || ''}`
+      : '/uploads'),
+  s3Endpoint: process.env.S3_ENDPOINT || 'https://s3.amazonaws.com',
+  s3Region: process.env.S3_REGION || 'us-east-1',
+  s3Bucket: process.env.S3_BUCKET || '',
+  s3AccessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+  s3SecretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+  // Largest image upload accepted, in bytes
+  maxUploadBytes: parseInt(
+    process.env.STORAGE_MAX_UPLOAD_BYTES || String(10 * 1024 * 1024),
+    10,
+  ),
+  // Files younger than this are never treated as orphans, so an upload
+  // whose product update is still in flight is not removed under it
+  orphanGraceHours: parseInt(
+    process.env.STORAGE_ORPHAN_GRACE_HOURS || '24',
+    10,
+  ),
+}));
@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { StockAlertsService } from './stock-alerts.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { ListStockAlertsQueryDto } from './dto/list-stock-alerts-query.dto';
+import { SnoozeStockAlertDto } from './dto/snooze-stock-alert.dto';
+import { StockAlertResponse } from './dto/stock-alert-response.dto';
+import { CreateStockAdjustmentDto } from './dto/create-stock-adjustment.dto';
+import { ListStockMovementsQueryDto } from './dto/list-stock-movements-query.dto';
+import {
+  StockDriftResponse,
+  StockMovementResponse,
+} from './dto/stock-movement-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/inventory')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminInventoryController {
+  constructor(
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockLedgerService: StockLedgerService,
+  ) {}
+
+  /**
+   * List low stock alerts
+   * GET /admin/inventory/alerts
+   */
+  @Get('alerts')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listAlerts(
+    @Query() query: ListStockAlertsQueryDto,
+  ): Promise<PaginatedResponse<StockAlertResponse>> {
+    return await this.stockAlertsService.list(query);
+  }
+
+  /**
+   * Acknowledge a low stock alert
+   * POST /admin/inventory/alerts/:id/acknowledge
+   */
+  @Post('alerts/:id/acknowledge')
+  @HttpCode(HttpStatus.OK)
+  async acknowledgeAlert(
+    @Param('id', ParseUUIDPipe) alertId: string,
+    @Request() req: any,
+  ): Promise<StockAlertResponse> {
+    return await this.stockAlertsService.acknowledge(alertId, req.user.id);
+  }
+
+  /**
+   * Hide a low stock alert until a given time
+   * POST /admin/inventory/alerts/:id/snooze
+   */
+  @Post('alerts/:id/snooze')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async snoozeAlert(
+    @Param('id', ParseUUIDPipe) alertId: string,
+    @Body() snoozeStockAlertDto: SnoozeStockAlertDto,
+  ): Promise<StockAlertResponse> {
+    return await this.stockAlertsService.snooze(
+      alertId,
+      new Date(snoozeStockAlertDto.until),
+    );
+  }
+
+  /**
+   * Adjust the stock of a product variant by hand
+   * POST /admin/inventory/adjustments
+   */
+  @Post('adjustments')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createAdjustment(
+    @Body() createStockAdjustmentDto: CreateStockAdjustmentDto,
+    @Request() req: any,
+  ): Promise<StockMovementResponse> {
+    return await this.stockLedgerService.adjust(
+      createStockAdjustmentDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Stock history of a product
+   * GET /admin/inventory/products/:id/movements
+   */
+  @Get('products/:id/movements')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listMovements(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Query() query: ListStockMovementsQueryDto,
+  ): Promise<PaginatedResponse<StockMovementResponse>> {
+    return await this.stockLedgerService.history(productId, query);
+  }
+
+  /**
+   * Variants whose stock differs from their ledger
+   * GET /admin/inventory/reconciliation
+   */
+  @Get('reconciliation')
+  @HttpCode(HttpStatus.OK)
+  async reconcile(): Promise<StockDriftResponse[]> {
+    return await this.stockLedgerService.reconcile();
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  IsIn,
+  IsInt,
+  IsNotIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { stock_movement_reason } from '@prisma/client';
+
+// Sales are only recorded by checkout and order cancellation
+export const ADJUSTMENT_REASONS = [
+  'restock',
+  'return',
+  'correction',
+  'damage',
+] as const satisfies readonly stock_movement_reason[];
+
+export type AdjustmentReason = (typeof ADJUSTMENT_REASONS)[number];
+
+export class CreateStockAdjustmentDto {
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id: string;
+
+  // Products with a single variant may leave it out
+  @IsOptional()
+  @IsUUID('4', { message: 'Variant ID must be a valid UUID' })
+  variant_id?: string;
+
+  // Units added, or removed when negative
+  @IsInt({ message: 'Delta must be an integer' })
+  @IsNotIn([0], { message: 'Delta cannot be zero' })
+  delta: number;
+
+  @IsIn(ADJUSTMENT_REASONS, {
+    message: `Reason must be one of: ${ADJUSTMENT_REASONS.join(', ')}`,
+  })
+  reason: AdjustmentReason;
+
+  @IsOptional()
+  @IsString({ message: 'Note must be a string' })
+  @MaxLength(500, { message: 'Note must be at most 500 characters' })
+  note?: string;
+}
@@ -0,0 +1,39 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { stock_alert_status } from '@prisma/client';
+import { toBoolean } from '../../common/utils/query.util';
+
+export class ListStockAlertsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  // Open and acknowledged alerts when left out
+  @IsOptional()
+  @IsEnum(stock_alert_status, {
+    message: `Status must be one of: ${Object.values(stock_alert_status).join(', ')}`,
+  })
+  status?: stock_alert_status;
+
+  // Also list alerts that are snoozed
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Include snoozed must be true or false' })
+  include_snoozed?: boolean;
+}
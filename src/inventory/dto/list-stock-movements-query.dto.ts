@@ -0,0 +1,28 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { stock_movement_reason } from '@prisma/client';
+
+export class ListStockMovementsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Variant ID must be a valid UUID' })
+  variant_id?: string;
+
+  @IsOptional()
+  @IsEnum(stock_movement_reason, {
+    message: `Reason must be one of: ${Object.values(stock_movement_reason).join(', ')}`,
+  })
+  reason?: stock_movement_reason;
+}
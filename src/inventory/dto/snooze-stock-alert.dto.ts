@@ -0,0 +1,6 @@
+import { IsDateString } from 'class-validator';
+
+export class SnoozeStockAlertDto {
+  @IsDateString({}, { message: 'Until must be an ISO 8601 date' })
+  until: string;
+}
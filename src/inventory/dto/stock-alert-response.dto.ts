@@ -0,0 +1,22 @@
+import { stock_alert_status } from '@prisma/client';
+
+export interface StockAlertResponse {
+  id: string;
+  product: {
+    id: string;
+    name: string;
+    slug: string;
+    // Current level, which may have changed since the alert was raised
+    stock_qty: number;
+    low_stock_threshold: number | null;
+  };
+  status: stock_alert_status;
+  // Level and threshold when the alert was raised
+  stock_qty: number;
+  threshold: number;
+  snoozed_until: Date | null;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  resolved_at: Date | null;
+  created_at: Date;
+}
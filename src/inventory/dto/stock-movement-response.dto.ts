@@ -0,0 +1,26 @@
+import { stock_movement_reason } from '@prisma/client';
+
+export interface StockMovementResponse {
+  id: string;
+  product_id: string;
+  // Null once the variant is deleted
+  variant_id: string | null;
+  delta: number;
+  reason: stock_movement_reason;
+  stock_after: number;
+  order_id: string | null;
+  actor_id: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+export interface StockDriftResponse {
+  product_id: string;
+  variant_id: string;
+  name: string;
+  sku: string;
+  stock_qty: number;
+  // Sum of the ledger deltas, which stock_qty should equal
+  ledger_qty: number;
+  drift: number;
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+
+import { StockAlertsService } from './stock-alerts.service';
+import { StockLedgerService } from './stock-ledger.service';
+import { AdminInventoryController } from './admin-inventory.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+
+    // Low stock notifications
+    NotificationsModule,
+  ],
+  controllers: [AdminInventoryController],
+  providers: [StockAlertsService, StockLedgerService],
+  exports: [StockAlertsService, StockLedgerService],
+})
+export class InventoryModule {}
@@ -0,0 +1,30 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { StockLedgerService } from './stock-ledger.service';
+
+/**
+ * Flag product variants whose stock_qty differs from the sum of their ledger.
+ * Exits with status 1 when any variant drifts, so it can run from cron or CI.
+ * Usage: npm run inventory:reconcile
+ */
+async function reconcile() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const drift = await app.get(StockLedgerService).reconcile();
+
+    if (drift.length === 0) {
+      console.log('Stock matches the ledger for every variant');
+      return;
+    }
+
+    console.table(drift);
+    console.error(`${drift.length} variant(s) drift from the ledger`);
+    process.exitCode = 1;
+  } finally {
+    await app.close();
+  }
+}
+void reconcile();
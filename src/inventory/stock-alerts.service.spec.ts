@@ -0,0 +1,254 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { StockAlertsService } from './stock-alerts.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('StockAlertsService', () => {
+  let service: StockAlertsService;
+  let prisma: any;
+  let notificationsService: { notify: jest.Mock };
+
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const alertId = '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a';
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const buildProduct = (
+    overrides: Partial<{
+      low_stock_threshold: number | null;
+      is_active: boolean | null;
+      product_variants: { stock_qty: number }[];
+      stock_alerts: { id: string }[];
+    }> = {},
+  ) => ({
+    id: productId,
+    name: 'Wireless Mouse',
+    low_stock_threshold: 5,
+    is_active: true,
+    product_variants: [{ stock_qty: 3 }],
+    stock_alerts: [],
+    ...overrides,
+  });
+
+  const buildAlert = () => ({
+    id: alertId,
+    product_id: productId,
+    status: 'open',
+    stock_qty: 3,
+    threshold: 5,
+    snoozed_until: null,
+    acknowledged_by: null,
+    acknowledged_at: null,
+    resolved_at: null,
+    created_at: new Date(),
+    products: {
+      id: productId,
+      name: 'Wireless Mouse',
+      slug: 'wireless-mouse',
+      stock_qty: 3,
+      low_stock_threshold: 5,
+    },
+  });
+
+  beforeEach(async () => {
+    notificationsService = { notify: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockAlertsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            products: { findMany: jest.fn() },
+            stock_alerts: {
+              create: jest.fn().mockResolvedValue({ id: alertId }),
+              findMany: jest.fn().mockResolvedValue([]),
+              findUnique: jest.fn(),
+              count: jest.fn().mockResolvedValue(0),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            $transaction: jest.fn((queries: Promise<unknown>[]) =>
+              Promise.all(queries),
+            ),
+          },
+        },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = module.get<StockAlertsService>(StockAlertsService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('checkProducts', () => {
+    it('should raise an alert and notify when stock falls to the threshold', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        buildProduct({
+          product_variants: [{ stock_qty: 2 }, { stock_qty: 3 }],
+        }),
+      ]);
+
+      await service.checkProducts([productId]);
+
+      expect(prisma.products.findMany).toHaveBeenCalledWith({
+        where: { id: { in: [productId] } },
+        select: expect.objectContaining({
+          product_variants: {
+            where: { is_active: true },
+            select: { stock_qty: true },
+          },
+        }),
+      });
+      expect(prisma.stock_alerts.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { product_id: productId, stock_qty: 5, threshold: 5 },
+        }),
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'stock.low',
+          data: expect.objectContaining({
+            alert_id: alertId,
+            product_id: productId,
+          }),
+        }),
+      );
+    });
+
+    it('should not raise a second alert while one is unresolved', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        buildProduct({ stock_alerts: [{ id: alertId }] }),
+      ]);
+
+      await service.checkProducts([productId]);
+
+      expect(prisma.stock_alerts.create).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should ignore products without a threshold or that are inactive', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        buildProduct({ low_stock_threshold: null }),
+        buildProduct({ is_active: false }),
+      ]);
+
+      await service.checkProducts([productId]);
+
+      expect(prisma.stock_alerts.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the alert once the product is restocked', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        buildProduct({
+          product_variants: [{ stock_qty: 20 }],
+          stock_alerts: [{ id: alertId }],
+        }),
+      ]);
+
+      await service.checkProducts([productId]);
+
+      expect(prisma.stock_alerts.updateMany).toHaveBeenCalledWith({
+        where: { id: alertId, status: { not: 'resolved' } },
+        data: { status: 'resolved', resolved_at: expect.any(Date) },
+      });
+    });
+
+    it('should not notify when a concurrent change raised the alert first', async () => {
+      prisma.products.findMany.mockResolvedValue([buildProduct()]);
+      prisma.stock_alerts.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await service.checkProducts([productId]);
+
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when checking fails', async () => {
+      prisma.products.findMany.mockRejectedValue(new Error('Connection lost'));
+
+      await expect(service.checkProducts([productId])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('list', () => {
+    it('should list unresolved alerts that are not snoozed by default', async () => {
+      await service.list({});
+
+      expect(prisma.stock_alerts.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: { in: ['open', 'acknowledged'] },
+            OR: [
+              { snoozed_until: null },
+              { snoozed_until: { lte: expect.any(Date) } },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should include snoozed alerts when asked', async () => {
+      await service.list({ status: 'resolved', include_snoozed: true });
+
+      expect(prisma.stock_alerts.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { status: 'resolved' } }),
+      );
+    });
+  });
+
+  describe('acknowledge', () => {
+    it('should record who acknowledged an open alert', async () => {
+      prisma.stock_alerts.findUnique.mockResolvedValue(buildAlert());
+
+      await service.acknowledge(alertId, adminId);
+
+      expect(prisma.stock_alerts.updateMany).toHaveBeenCalledWith({
+        where: { id: alertId, status: 'open' },
+        data: {
+          status: 'acknowledged',
+          acknowledged_by: adminId,
+          acknowledged_at: expect.any(Date),
+        },
+      });
+    });
+
+    it('should throw NotFoundException for an unknown alert', async () => {
+      prisma.stock_alerts.findUnique.mockResolvedValue(null);
+
+      await expect(service.acknowledge(alertId, adminId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('snooze', () => {
+    it('should snooze an unresolved alert', async () => {
+      const until = new Date(Date.now() + DAY);
+      prisma.stock_alerts.findUnique.mockResolvedValue(buildAlert());
+
+      await service.snooze(alertId, until);
+
+      expect(prisma.stock_alerts.updateMany).toHaveBeenCalledWith({
+        where: { id: alertId, status: { not: 'resolved' } },
+        data: { snoozed_until: until },
+      });
+    });
+
+    it('should reject a time in the past or more than 30 days ahead', async () => {
+      await expect(
+        service.snooze(alertId, new Date(Date.now() - DAY)),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.snooze(alertId, new Date(Date.now() + 31 * DAY)),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.stock_alerts.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { validationError } from '../common/pipes/validation.pipe';
+import { ListStockAlertsQueryDto } from './dto/list-stock-alerts-query.dto';
+import { StockAlertResponse } from './dto/stock-alert-response.dto';
+
+const ALERT_INCLUDE = {
+  products: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      stock_qty: true,
+      low_stock_threshold: true,
+    },
+  },
+} satisfies Prisma.stock_alertsInclude;
+
+type StockAlertWithProduct = Prisma.stock_alertsGetPayload<{
+  include: typeof ALERT_INCLUDE;
+}>;
+
+// Longest snooze, so an alert cannot be hidden and forgotten
+const MAX_SNOOZE_DAYS = 30;
+
+@Injectable()
+export class StockAlertsService {
+  private readonly logger = new Logger('Inventory');
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * Compare the stock of products with their low stock threshold after it
+   * changed. Only active variants count, as archived ones cannot be sold. A
+   * product that fell to its threshold gets an alert and the admins are
+   * notified; the alert of a product restocked above it is resolved. Call
+   * it after the stock change is committed. Failures are logged, never
+   * thrown, so they cannot undo the change that was made.
+   * @param productIds - Products whose stock or threshold changed
+   */
+  async checkProducts(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    try {
+      const products = await this.prisma.products.findMany({
+        where: { id: { in: productIds } },
+        select: {
+          id: true,
+          name: true,
+          low_stock_threshold: true,
+          is_active: true,
+          product_variants: {
+            where: { is_active: true },
+            select: { stock_qty: true },
+          },
+          stock_alerts: {
+            where: { status: { not: 'resolved' } },
+            select: { id: true },
+          },
+        },
+      });
+
+      for (const product of products) {
+        const stock = product.product_variants.reduce(
+          (sum, variant) => sum + variant.stock_qty,
+          0,
+        );
+        const threshold = product.low_stock_threshold;
+        const isLow =
+          product.is_active !== false &&
+          threshold !== null &&
+          stock <= threshold;
+        const [alert] = product.stock_alerts;
+
+        if (isLow && !alert) {
+          await this.raise(product.id, product.name, stock, threshold);
+        } else if (!isLow && alert) {
+          await this.prisma.stock_alerts.updateMany({
+            where: { id: alert.id, status: { not: 'resolved' } },
+            data: { status: 'resolved', resolved_at: new Date() },
+          });
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Checking stock levels failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /**
+   * List stock alerts, newest first
+   * @param query - Status, snoozed filter and page
+   * @returns Promise<PaginatedResponse<StockAlertResponse>> - One page of alerts
+   */
+  async list(
+    query: ListStockAlertsQueryDto,
+  ): Promise<PaginatedResponse<StockAlertResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Prisma.stock_alertsWhereInput = {
+      status: query.status ?? { in: ['open', 'acknowledged'] },
+      ...(!query.include_snoozed && {
+        OR: [{ snoozed_until: null }, { snoozed_until: { lte: new Date() } }],
+      }),
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.stock_alerts.findMany({
+        where,
+        include: ALERT_INCLUDE,
+        orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.stock_alerts.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Record that an admin is handling an alert. It stays listed until the
+   * product is restocked.
+   * @param id - Alert ID
+   * @param actorId - Admin acknowledging the alert
+   * @returns Promise<StockAlertResponse> - The alert
+   */
+  async acknowledge(id: string, actorId: string): Promise<StockAlertResponse> {
+    await this.prisma.stock_alerts.updateMany({
+      where: { id, status: 'open' },
+      data: {
+        status: 'acknowledged',
+        acknowledged_by: actorId,
+        acknowledged_at: new Date(),
+      },
+    });
+
+    return await this.findById(id);
+  }
+
+  /**
+   * Hide an unresolved alert from the default listing until a given time
+   * @param id - Alert ID
+   * @param until - End of the snooze, at most 30 days ahead
+   * @returns Promise<StockAlertResponse> - The alert
+   */
+  async snooze(id: string, until: Date): Promise<StockAlertResponse> {
+    const now = Date.now();
+    if (
+      until.getTime() <= now ||
+      until.getTime() > now + MAX_SNOOZE_DAYS * 24 * 60 * 60 * 1000
+    ) {
+      throw validationError([
+        {
+          field: 'until',
+          message: `Until must be in the next ${MAX_SNOOZE_DAYS} days`,
+        },
+      ]);
+    }
+
+    await this.prisma.stock_alerts.updateMany({
+      where: { id, status: { not: 'resolved' } },
+      data: { snoozed_until: until },
+    });
+
+    return await this.findById(id);
+  }
+
+  private async raise(
+    productId: string,
+    productName: string,
+    stock: number,
+    threshold: number,
+  ): Promise<void> {
+    let alertId: string;
+    try {
+      alertId = (
+        await this.prisma.stock_alerts.create({
+          data: { product_id: productId, stock_qty: stock, threshold },
+          select: { id: true },
+        })
+      ).id;
+    } catch (error) {
+      // A concurrent stock change raised it first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return;
+      }
+      throw error;
+    }
+
+    await this.notificationsService.notify({
+      type: 'stock.low',
+      title: `Low stock: ${productName}`,
+      body: `${productName} is down to ${stock} in stock (threshold ${threshold}).`,
+      data: {
+        alert_id: alertId,
+        product_id: productId,
+        stock_qty: stock,
+        threshold,
+      },
+    });
+  }
+
+  private async findById(id: string): Promise<StockAlertResponse> {
+    const alert = await this.prisma.stock_alerts.findUnique({
+      where: { id },
+      include: ALERT_INCLUDE,
+    });
+
+    if (!alert) {
+      throw new NotFoundException('Stock alert not found');
+    }
+
+    return this.toResponse(alert);
+  }
+
+  private toResponse(alert: StockAlertWithProduct): StockAlertResponse {
+    return {
+      id: alert.id,
+      product: {
+        id: alert.products.id,
+        name: alert.products.name,
+        slug: alert.products.slug,
+        stock_qty: alert.products.stock_qty ?? 0,
+        low_stock_threshold: alert.products.low_stock_threshold,
+      },
+      status: alert.status,
+      stock_qty: alert.stock_qty,
+      threshold: alert.threshold,
+      snoozed_until: alert.snoozed_until,
+      acknowledged_by: alert.acknowledged_by,
+      acknowledged_at: alert.acknowledged_at,
+      resolved_at: alert.resolved_at,
+      created_at: alert.created_at,
+    };
+  }
+}
@@ -0,0 +1,372 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { StockLedgerService } from './stock-ledger.service';
+import { StockAlertsService } from './stock-alerts.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('StockLedgerService', () => {
+  let service: StockLedgerService;
+  let prisma: any;
+  let stockAlertsService: StockAlertsService;
+  let queries: Prisma.Sql[];
+
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const variantId = '9b2e7c41-6d3a-4f58-8e1b-0c7d5a2f4e63';
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+
+  // Stock level of the variant, or undefined when the product is missing
+  let stock: number | undefined;
+  // Variants of the product
+  let variants: { id: string; stock_qty: number }[];
+
+  beforeEach(async () => {
+    queries = [];
+    stock = 5;
+    variants = [{ id: variantId, stock_qty: 5 }];
+
+    const prismaMock = {
+      // Mirrors the locking read and the conditional update
+      $queryRaw: jest.fn((strings: TemplateStringsArray, ...values: any[]) => {
+        const query = Prisma.sql(strings, ...values);
+        queries.push(query);
+
+        if (stock === undefined) {
+          return Promise.resolve([]);
+        }
+        if (query.sql.includes('UPDATE public.product_variants')) {
+          const delta = query.values[0] as number;
+          if (stock + delta < 0) {
+            return Promise.resolve([]);
+          }
+          stock += delta;
+          return Promise.resolve([{ stock_qty: stock }]);
+        }
+        return Promise.resolve([{ id: productId, is_active: true }]);
+      }),
+      $executeRaw: jest.fn().mockResolvedValue(1),
+      products: {
+        findUnique: jest.fn(() =>
+          Promise.resolve(stock === undefined ? null : { id: productId }),
+        ),
+      },
+      product_variants: {
+        findMany: jest.fn((args: { where: { id?: string } }) =>
+          Promise.resolve(
+            variants
+              .filter(
+                (variant) => !args.where.id || variant.id === args.where.id,
+              )
+              .map((variant) => ({ ...variant, stock_qty: stock })),
+          ),
+        ),
+      },
+      stock_movements: {
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve({
+            id: 'movement-id',
+            order_id: null,
+            actor_id: null,
+            note: null,
+            created_at: new Date(),
+            ...args.data,
+          }),
+        ),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockLedgerService,
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StockLedgerService>(StockLedgerService);
+    prisma = module.get<PrismaService>(PrismaService);
+    stockAlertsService = module.get<StockAlertsService>(StockAlertsService);
+  });
+
+  describe('apply', () => {
+    it('should change the stock and record the level after it', async () => {
+      const movement = await service.apply(prisma, {
+        product_id: productId,
+        variant_id: variantId,
+        delta: -2,
+        reason: 'sale',
+      });
+
+      expect(stock).toBe(3);
+      expect(movement).toMatchObject({ delta: -2, stock_after: 3 });
+      expect(prisma.stock_movements.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          product_id: productId,
+          variant_id: variantId,
+          delta: -2,
+          reason: 'sale',
+          stock_after: 3,
+        }),
+      });
+      // The product keeps the total of its variants
+      expect(prisma.$executeRaw).toHaveBeenCalled();
+    });
+
+    it('should not take stock below zero', async () => {
+      const movement = await service.apply(prisma, {
+        product_id: productId,
+        variant_id: variantId,
+        delta: -6,
+        reason: 'damage',
+      });
+
+      expect(movement).toBeNull();
+      expect(stock).toBe(5);
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+      expect(prisma.stock_movements.create).not.toHaveBeenCalled();
+    });
+
+    it('should lock the product before its variant', async () => {
+      await service.apply(prisma, {
+        product_id: productId,
+        variant_id: variantId,
+        delta: 1,
+        reason: 'restock',
+      });
+
+      expect(queries[0].sql).toContain('FOR UPDATE');
+      expect(queries[1].sql).toContain('UPDATE public.product_variants');
+    });
+
+    it('should only move the stock of active variants when asked to', async () => {
+      await service.apply(
+        prisma,
+        {
+          product_id: productId,
+          variant_id: variantId,
+          delta: -1,
+          reason: 'sale',
+        },
+        { activeOnly: true },
+      );
+
+      expect(queries[1].sql).toContain('is_active = true');
+    });
+
+    it('should not move the stock of an inactive product when asked to', async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([{ is_active: false }]);
+
+      const movement = await service.apply(
+        prisma,
+        {
+          product_id: productId,
+          variant_id: variantId,
+          delta: -1,
+          reason: 'sale',
+        },
+        { activeOnly: true },
+      );
+
+      expect(movement).toBeNull();
+      expect(stock).toBe(5);
+    });
+  });
+
+  describe('setStock', () => {
+    it('should record the difference with the current level', async () => {
+      await service.setStock(prisma, productId, 8, {
+        reason: 'correction',
+        actor_id: adminId,
+      });
+
+      expect(stock).toBe(8);
+      expect(prisma.stock_movements.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          delta: 3,
+          reason: 'correction',
+          actor_id: adminId,
+        }),
+      });
+    });
+
+    it('should record nothing when the level does not change', async () => {
+      await service.setStock(prisma, productId, 5, { reason: 'correction' });
+
+      expect(prisma.stock_movements.create).not.toHaveBeenCalled();
+    });
+
+    it('should require a variant when the product has several', async () => {
+      variants.push({ id: 'other-variant-id', stock_qty: 0 });
+
+      const error = await service
+        .setStock(prisma, productId, 8, { reason: 'correction' })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error: 'variant_required',
+      });
+      expect(stock).toBe(5);
+    });
+
+    it('should set the stock of the given variant', async () => {
+      variants.push({ id: 'other-variant-id', stock_qty: 0 });
+
+      await service.setStock(
+        prisma,
+        productId,
+        8,
+        { reason: 'correction' },
+        variantId,
+      );
+
+      expect(prisma.stock_movements.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ variant_id: variantId, delta: 3 }),
+      });
+    });
+  });
+
+  describe('adjust', () => {
+    it('should record the adjustment and check the stock level', async () => {
+      const result = await service.adjust(
+        { product_id: productId, delta: -2, reason: 'damage', note: 'Dropped' },
+        adminId,
+      );
+
+      expect(result).toMatchObject({
+        product_id: productId,
+        variant_id: variantId,
+        delta: -2,
+        reason: 'damage',
+        stock_after: 3,
+        actor_id: adminId,
+        note: 'Dropped',
+      });
+      expect(stockAlertsService.checkProducts).toHaveBeenCalledWith([
+        productId,
+      ]);
+    });
+
+    it.each([
+      ['restock', -1],
+      ['return', -1],
+      ['damage', 1],
+    ] as const)(
+      'should reject a %s moving stock the wrong way',
+      async (reason, delta) => {
+        await expect(
+          service.adjust({ product_id: productId, delta, reason }, adminId),
+        ).rejects.toThrow(BadRequestException);
+        expect(queries).toHaveLength(0);
+      },
+    );
+
+    it('should reject removing more than is in stock', async () => {
+      const error = await service
+        .adjust(
+          { product_id: productId, delta: -6, reason: 'correction' },
+          adminId,
+        )
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error: 'insufficient_stock',
+      });
+      expect(stockAlertsService.checkProducts).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      stock = undefined;
+
+      await expect(
+        service.adjust(
+          { product_id: productId, delta: 1, reason: 'restock' },
+          adminId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw NotFoundException for a variant of another product', async () => {
+      await expect(
+        service.adjust(
+          {
+            product_id: productId,
+            variant_id: 'f0e1d2c3-b4a5-4968-8776-655443322110',
+            delta: 1,
+            reason: 'restock',
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('history', () => {
+    it('should list the movements of a product, filtered by reason', async () => {
+      await service.history(productId, { reason: 'sale' });
+
+      expect(prisma.stock_movements.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            product_id: productId,
+            variant_id: undefined,
+            reason: 'sale',
+          },
+        }),
+      );
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      stock = undefined;
+
+      await expect(service.history(productId, {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should report how far stock drifts from the ledger', async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([
+        {
+          product_id: productId,
+          variant_id: variantId,
+          name: 'Mouse',
+          sku: 'MOUSE',
+          stock_qty: 7,
+          ledger_qty: 5,
+        },
+      ]);
+
+      const result = await service.reconcile();
+
+      expect(result).toEqual([
+        {
+          product_id: productId,
+          variant_id: variantId,
+          name: 'Mouse',
+          sku: 'MOUSE',
+          stock_qty: 7,
+          ledger_qty: 5,
+          drift: 2,
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, stock_movement_reason, stock_movements } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from './stock-alerts.service';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { validationError } from '../common/pipes/validation.pipe';
+import {
+  AdjustmentReason,
+  CreateStockAdjustmentDto,
+} from './dto/create-stock-adjustment.dto';
+import { ListStockMovementsQueryDto } from './dto/list-stock-movements-query.dto';
+import {
+  StockDriftResponse,
+  StockMovementResponse,
+} from './dto/stock-movement-response.dto';
+
+export interface StockMovementInput {
+  product_id: string;
+  variant_id: string;
+  // Units added, or removed when negative
+  delta: number;
+  reason: stock_movement_reason;
+  order_id?: string | null;
+  actor_id?: string | null;
+  note?: string | null;
+}
+
+// Direction each manual adjustment reason may move stock in
+const ADJUSTMENT_SIGNS: Record<AdjustmentReason, 1 | -1 | null> = {
+  restock: 1,
+  return: 1,
+  damage: -1,
+  correction: null,
+};
+
+@Injectable()
+export class StockLedgerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockAlertsService: StockAlertsService,
+  ) {}
+
+  /**
+   * Change the stock of a product variant and record the movement in the
+   * ledger, within a transaction opened by the caller. Stock never goes
+   * below zero, and the product's stock stays the sum of its variants.
+   * Callers changing several variants should move them in product ID, then
+   * variant ID order, so concurrent transactions lock rows in the same order.
+   * @param tx - Transaction client
+   * @param movement - Product, variant, delta and why
+   * @param options - activeOnly: only move the stock of active products and variants
+   * @returns Promise<stock_movements | null> - The movement, or null when the variant is missing, inactive or short of stock
+   */
+  async apply(
+    tx: Prisma.TransactionClient,
+    movement: StockMovementInput,
+    options: { activeOnly?: boolean } = {},
+  ): Promise<stock_movements | null> {
+    // The product row is locked before its variants, so movements of
+    // different variants of a product cannot deadlock
+    const [product] = await tx.$queryRaw<{ is_active: boolean | null }[]>`
+      SELECT is_active
+      FROM public.products
+      WHERE id = ${movement.product_id}::uuid
+      FOR UPDATE
+    `;
+    if (!product || (options.activeOnly && product.is_active !== true)) {
+      return null;
+    }
+
+    // The stock check and the change are a single statement, so two
+    // concurrent movements cannot both take the last unit
+    const [variant] = await tx.$queryRaw<{ stock_qty: number }[]>`
+      UPDATE public.product_variants
+      SET stock_qty = stock_qty + ${movement.delta}
+      WHERE id = ${movement.variant_id}::uuid
+        AND product_id = ${movement.product_id}::uuid
+        AND stock_qty + ${movement.delta} >= 0
+        ${options.activeOnly ? Prisma.sql`AND is_active = true` : Prisma.empty}
+      RETURNING stock_qty
+    `;
+    if (!variant) {
+      return null;
+    }
+
+    await tx.$executeRaw`
+      UPDATE public.products
+      SET stock_qty = COALESCE(stock_qty, 0) + ${movement.delta}
+      WHERE id = ${movement.product_id}::uuid
+    `;
+
+    return await tx.stock_movements.create({
+      data: {
+        product_id: movement.product_id,
+        variant_id: movement.variant_id,
+        delta: movement.delta,
+        reason: movement.reason,
+        stock_after: variant.stock_qty,
+        order_id: movement.order_id,
+        actor_id: movement.actor_id,
+        note: movement.note,
+      },
+    });
+  }
+
+  /**
+   * Set the stock of a product variant to a given level, recording the
+   * difference as a movement, within a transaction opened by the caller
+   * @param tx - Transaction client
+   * @param productId - Product ID
+   * @param quantity - New stock level
+   * @param movement - Why, and who made the change
+   * @param variantId - Variant ID, which products with a single variant may leave out
+   */
+  async setStock(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    quantity: number,
+    movement: Omit<StockMovementInput, 'product_id' | 'variant_id' | 'delta'>,
+    variantId?: string,
+  ): Promise<void> {
+    const variant = await this.lockVariant(tx, productId, variantId);
+
+    if (variant && variant.stock_qty !== quantity) {
+      await this.apply(tx, {
+        ...movement,
+        product_id: productId,
+        variant_id: variant.id,
+        delta: quantity - variant.stock_qty,
+      });
+    }
+  }
+
+  /**
+   * Record a manual stock adjustment made by an admin
+   * @param createStockAdjustmentDto - Product, delta, reason and note
+   * @param actorId - Admin making the adjustment
+   * @returns Promise<StockMovementResponse> - The recorded movement
+   */
+  async adjust(
+    createStockAdjustmentDto: CreateStockAdjustmentDto,
+    actorId: string,
+  ): Promise<StockMovementResponse> {
+    const { product_id, variant_id, delta, reason, note } =
+      createStockAdjustmentDto;
+
+    const sign = ADJUSTMENT_SIGNS[reason];
+    if (sign !== null && Math.sign(delta) !== sign) {
+      throw validationError([
+        {
+          field: 'delta',
+          message: `Delta must be ${sign > 0 ? 'positive' : 'negative'} for ${reason}`,
+        },
+      ]);
+    }
+
+    const movement = await this.prisma.$transaction(async (tx) => {
+      const variant = await this.lockVariant(tx, product_id, variant_id);
+      if (!variant) {
+        throw new NotFoundException('Product not found');
+      }
+
+      const applied = await this.apply(tx, {
+        product_id,
+        variant_id: variant.id,
+        delta,
+        reason,
+        actor_id: actorId,
+        note,
+      });
+
+      if (!applied) {
+        throw new ConflictException({
+          statusCode: HttpStatus.CONFLICT,
+          error: 'insufficient_stock',
+          message: `Cannot remove ${-delta} units, only ${variant.stock_qty} in stock`,
+        });
+      }
+
+      return applied;
+    });
+
+    await this.stockAlertsService.checkProducts([product_id]);
+
+    return this.toResponse(movement);
+  }
+
+  /**
+   * Stock movements of a product, newest first
+   * @param productId - Product ID
+   * @param query - Variant and reason filters, and page
+   * @returns Promise<PaginatedResponse<StockMovementResponse>> - One page of movements
+   */
+  async history(
+    productId: string,
+    query: ListStockMovementsQueryDto,
+  ): Promise<PaginatedResponse<StockMovementResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const product = await this.prisma.products.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const where: Prisma.stock_movementsWhereInput = {
+      product_id: productId,
+      variant_id: query.variant_id,
+      reason: query.reason,
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.stock_movements.findMany({
+        where,
+        orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.stock_movements.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Variants whose stock level differs from the sum of their ledger, e.g.
+   * after stock_qty was written outside the ledger
+   * @returns Promise<StockDriftResponse[]> - Drifting variants, largest drift first
+   */
+  async reconcile(): Promise<StockDriftResponse[]> {
+    const rows = await this.prisma.$queryRaw<
+      {
+        product_id: string;
+        variant_id: string;
+        name: string;
+        sku: string;
+        stock_qty: number;
+        ledger_qty: number;
+      }[]
+    >`
+      SELECT
+        v.product_id,
+        v.id AS variant_id,
+        p.name,
+        v.sku,
+        v.stock_qty,
+        COALESCE(SUM(m.delta), 0)::int AS ledger_qty
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      LEFT JOIN public.stock_movements m ON m.variant_id = v.id
+      GROUP BY v.id, p.name
+      HAVING v.stock_qty <> COALESCE(SUM(m.delta), 0)
+      ORDER BY ABS(v.stock_qty - COALESCE(SUM(m.delta), 0)) DESC, p.name, v.sku
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      drift: row.stock_qty - row.ledger_qty,
+    }));
+  }
+
+  /**
+   * Lock a product and look up the variant whose stock is to change
+   * @param tx - Transaction client
+   * @param productId - Product ID
+   * @param variantId - Variant ID, which products with a single variant may leave out
+   * @returns Promise<{ id: string; stock_qty: number } | null> - The variant, or null when the product is missing
+   */
+  private async lockVariant(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    variantId?: string,
+  ): Promise<{ id: string; stock_qty: number } | null> {
+    // Every movement locks the product first, so the stock read below
+    // cannot change before the transaction ends
+    const [product] = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id
+      FROM public.products
+      WHERE id = ${productId}::uuid
+      FOR UPDATE
+    `;
+    if (!product) {
+      return null;
+    }
+
+    const variants = await tx.product_variants.findMany({
+      where: { product_id: productId, id: variantId },
+      select: { id: true, stock_qty: true },
+      take: 2,
+    });
+    if (variants.length === 0) {
+      throw new NotFoundException('Variant not found');
+    }
+    if (variants.length > 1) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'variant_required',
+        message: 'The product has several variants, choose the one to change',
+      });
+    }
+
+    return variants[0];
+  }
+
+  private toResponse(movement: stock_movements): StockMovementResponse {
+    return {
+      id: movement.id,
+      product_id: movement.product_id,
+      variant_id: movement.variant_id,
+      delta: movement.delta,
+      reason: movement.reason,
+      stock_after: movement.stock_after,
+      order_id: movement.order_id,
+      actor_id: movement.actor_id,
+      note: movement.note,
+      created_at: movement.created_at,
+    };
+  }
+}
@@ -0,0 +1,16 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  /**
+   * Deliver a single message
+   * @param message - Fully addressed message
+   */
+  send(message: MailMessage): Promise<void>;
+}
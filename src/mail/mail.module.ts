@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    // Select the mail transport from configuration
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('mail.transport');
+
+        if (transport === 'file') {
+          return new FileMailTransport(
+            configService.get<string>('mail.outputDir') || '.tmp/mail',
+          );
+        }
+
+        return new ConsoleMailTransport();
+      },
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,45 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Send an email through the configured transport
+   * @param to - Recipient address
+   * @param subject - Email subject
+   * @param text - Plain text body
+   */
+  async send(to: string, subject: string, text: string): Promise<void> {
+    await this.transport.send({
+      from: this.configService.get<string>('mail.from') || 'no-reply@localhost',
+      to,
+      subject,
+      text,
+    });
+  }
+
+  /**
+   * Build an absolute link to a frontend page
+   * @param path - Path on the frontend, e.g. /reset-password
+   * @param params - Query string parameters
+   * @returns string - Absolute URL
+   */
+  buildLink(path: string, params: Record<string, string>): string {
+    const appUrl =
+      this.configService.get<string>('mail.appUrl') || 'http://localhost:3000';
+    const url = new URL(path, appUrl);
+
+    Object.entries(params).forEach(([key, value]) => {
+      url.searchParams.set(key, value);
+    });
+
+    return url.toString();
+  }
+}
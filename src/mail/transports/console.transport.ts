@@ -0,0 +1,17 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Prints emails to the application log instead of sending them.
+ * Intended for local development.
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  send(message: MailMessage): Promise<void> {
+    this.logger.log(
+      `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+    return Promise.resolve();
+  }
+}
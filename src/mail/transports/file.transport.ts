@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+/**
+ * Writes each email as a JSON file in a directory instead of sending it.
+ * Intended for local development and tests that need to read the emails back.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    const content = { ...message, sent_at: new Date().toISOString() };
+
+    await writeFile(
+      join(this.outputDir, fileName),
+      JSON.stringify(content, null, 2),
+    );
+  }
+}
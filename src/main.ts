@@ -1,8 +1,32 @@
 import { NestFactory } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Webhook signatures are computed over the raw request body
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
+
+  // Files of the local storage driver are served by the app. Their keys are
+  // never reused, so they can be cached indefinitely.
+  const configService = app.get(ConfigService);
+  if (configService.get<string>('storage.driver') === 'local') {
+    app.useStaticAssets(
+      configService.get<string>('storage.localDir') || 'uploads',
+      {
+        prefix: new URL(
+          configService.get<string>('storage.publicUrl') || '/uploads',
+          'http://localhost',
+        ).pathname,
+        index: false,
+        immutable: true,
+        maxAge: '365d',
+      },
+    );
+  }
+
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -0,0 +1,56 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+} from '@nestjs/common';
+
+import { NotificationsService } from './notifications.service';
+import { ListNotificationsQueryDto } from './dto/list-notifications-query.dto';
+import { NotificationResponse } from './dto/notification-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/notifications')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminNotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  /**
+   * List in-app notifications
+   * GET /admin/notifications
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listNotifications(
+    @Query() query: ListNotificationsQueryDto,
+  ): Promise<PaginatedResponse<NotificationResponse>> {
+    return await this.notificationsService.list(query);
+  }
+
+  /**
+   * Mark a notification as read
+   * POST /admin/notifications/:id/read
+   */
+  @Post(':id/read')
+  @HttpCode(HttpStatus.OK)
+  async markRead(
+    @Param('id', ParseUUIDPipe) notificationId: string,
+  ): Promise<NotificationResponse> {
+    return await this.notificationsService.markRead(notificationId);
+  }
+}
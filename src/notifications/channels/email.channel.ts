@@ -0,0 +1,36 @@
+import { MailService } from '../../mail/mail.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  Notification,
+  NotificationChannel,
+} from '../notification-channel.interface';
+
+/**
+ * Emails notifications through the configured mail transport, to a fixed
+ * list of addresses or else to every admin
+ */
+export class EmailNotificationChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  constructor(
+    private readonly mailService: MailService,
+    private readonly prisma: PrismaService,
+    private readonly recipients: string[],
+  ) {}
+
+  async deliver(notification: Notification): Promise<void> {
+    const recipients =
+      this.recipients.length > 0
+        ? this.recipients
+        : (
+            await this.prisma.profiles.findMany({
+              where: { role: 'admin' },
+              select: { email: true },
+            })
+          ).map((profile) => profile.email);
+
+    for (const to of recipients) {
+      await this.mailService.send(to, notification.title, notification.body);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  Notification,
+  NotificationChannel,
+} from '../notification-channel.interface';
+
+/**
+ * Stores notifications for the admin dashboard
+ */
+export class InAppNotificationChannel implements NotificationChannel {
+  readonly name = 'in_app';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async deliver(notification: Notification): Promise<void> {
+    await this.prisma.notifications.create({
+      data: {
+        type: notification.type,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+      },
+    });
+  }
+}
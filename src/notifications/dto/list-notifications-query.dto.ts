@@ -0,0 +1,23 @@
+import { Transform, Type } from 'class-transformer';
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { toBoolean } from '../../common/utils/query.util';
+
+export class ListNotificationsQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Unread must be true or false' })
+  unread?: boolean;
+}
@@ -0,0 +1,11 @@
+import { Prisma } from '@prisma/client';
+
+export interface NotificationResponse {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Prisma.JsonValue;
+  read_at: Date | null;
+  created_at: Date;
+}
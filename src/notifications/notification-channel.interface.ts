@@ -0,0 +1,20 @@
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
+
+export interface Notification {
+  // e.g. 'stock.low'
+  type: string;
+  title: string;
+  body: string;
+  // Details for the dashboard, such as the IDs the notification is about
+  data?: Record<string, string | number | boolean | null>;
+}
+
+export interface NotificationChannel {
+  readonly name: string;
+
+  /**
+   * Deliver a notification to the admin team
+   * @param notification - What happened
+   */
+  deliver(notification: Notification): Promise<void>;
+}
@@ -0,0 +1,71 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { NotificationsService } from './notifications.service';
+import { AdminNotificationsController } from './admin-notifications.controller';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './notification-channel.interface';
+import { InAppNotificationChannel } from './channels/in-app.channel';
+import { EmailNotificationChannel } from './channels/email.channel';
+import { PrismaModule } from '../prisma/prisma.module';
+import { PrismaService } from '../prisma/prisma.service';
+import { MailModule } from '../mail/mail.module';
+import { MailService } from '../mail/mail.service';
+import { AuthModule } from '../auth/auth.module';
+
+const splitList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+    MailModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+  ],
+  controllers: [AdminNotificationsController],
+  providers: [
+    // Select the delivery channels from configuration
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (
+        configService: ConfigService,
+        prisma: PrismaService,
+        mailService: MailService,
+      ): NotificationChannel[] => {
+        const names = splitList(
+          configService.get<string>('notifications.channels'),
+        );
+        const channels: NotificationChannel[] = [];
+
+        if (names.includes('in_app')) {
+          channels.push(new InAppNotificationChannel(prisma));
+        }
+        if (names.includes('email')) {
+          channels.push(
+            new EmailNotificationChannel(
+              mailService,
+              prisma,
+              splitList(
+                configService.get<string>('notifications.emailRecipients'),
+              ),
+            ),
+          );
+        }
+
+        return channels;
+      },
+      inject: [ConfigService, PrismaService, MailService],
+    },
+    NotificationsService,
+  ],
+  exports: [NotificationsService],
+})
+export class NotificationsModule {}
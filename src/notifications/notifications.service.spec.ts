@@ -0,0 +1,52 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationsService } from './notifications.service';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+} from './notification-channel.interface';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let channels: { name: string; deliver: jest.Mock }[];
+
+  const notification = {
+    type: 'stock.low',
+    title: 'Low stock: Wireless Mouse',
+    body: 'Wireless Mouse is down to 3 in stock (threshold 5).',
+  };
+
+  beforeEach(async () => {
+    channels = [
+      { name: 'in_app', deliver: jest.fn() },
+      { name: 'email', deliver: jest.fn() },
+    ];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        {
+          provide: NOTIFICATION_CHANNELS,
+          useValue: channels as NotificationChannel[],
+        },
+        { provide: PrismaService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  it('should deliver through every channel', async () => {
+    await service.notify(notification);
+
+    expect(channels[0].deliver).toHaveBeenCalledWith(notification);
+    expect(channels[1].deliver).toHaveBeenCalledWith(notification);
+  });
+
+  it('should keep delivering when a channel fails', async () => {
+    channels[0].deliver.mockRejectedValue(new Error('Connection lost'));
+
+    await expect(service.notify(notification)).resolves.toBeUndefined();
+    expect(channels[1].deliver).toHaveBeenCalledWith(notification);
+  });
+});
@@ -0,0 +1,113 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, notifications } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import {
+  NOTIFICATION_CHANNELS,
+  Notification,
+  type NotificationChannel,
+} from './notification-channel.interface';
+import { ListNotificationsQueryDto } from './dto/list-notifications-query.dto';
+import { NotificationResponse } from './dto/notification-response.dto';
+
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger('Notifications');
+
+  constructor(
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Deliver a notification through every configured channel. A failing
+   * channel is logged and does not keep the others from delivering.
+   * @param notification - What happened
+   */
+  async notify(notification: Notification): Promise<void> {
+    for (const channel of this.channels) {
+      try {
+        await channel.deliver(notification);
+      } catch (error) {
+        this.logger.error(
+          `Delivering ${notification.type} through ${channel.name} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+    }
+  }
+
+  /**
+   * List in-app notifications, newest first
+   * @param query - Page and unread filter
+   * @returns Promise<PaginatedResponse<NotificationResponse>> - One page of notifications
+   */
+  async list(
+    query: ListNotificationsQueryDto,
+  ): Promise<PaginatedResponse<NotificationResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Prisma.notificationsWhereInput =
+      query.unread === undefined
+        ? {}
+        : { read_at: query.unread ? null : { not: null } };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.notifications.findMany({
+        where,
+        orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.notifications.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Mark an in-app notification as read
+   * @param id - Notification ID
+   * @returns Promise<NotificationResponse> - The notification
+   */
+  async markRead(id: string): Promise<NotificationResponse> {
+    // Reading it again keeps the first read time
+    await this.prisma.notifications.updateMany({
+      where: { id, read_at: null },
+      data: { read_at: new Date() },
+    });
+
+    const notification = await this.prisma.notifications.findUnique({
+      where: { id },
+    });
+    if (!notification) {
+      throw new NotFoundException('Notification not found');
+    }
+
+    return this.toResponse(notification);
+  }
+
+  private toResponse(notification: notifications): NotificationResponse {
+    return {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body,
+      data: notification.data,
+      read_at: notification.read_at,
+      created_at: notification.created_at,
+    };
+  }
+}
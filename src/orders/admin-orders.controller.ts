@@ -0,0 +1,82 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { OrdersService } from './orders.service';
+import { AdminListOrdersQueryDto } from './dto/list-orders-query.dto';
+import { UpdateOrderStatusDto } from './dto/update-order-status.dto';
+import {
+  AdminOrderDetailResponse,
+  OrderResponse,
+} from './dto/order-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/orders')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminOrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  /**
+   * List all orders
+   * GET /admin/orders
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listOrders(
+    @Query() query: AdminListOrdersQueryDto,
+  ): Promise<PaginatedResponse<OrderResponse>> {
+    return await this.ordersService.list(query);
+  }
+
+  /**
+   * Get an order with its full status history
+   * GET /admin/orders/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getOrder(
+    @Param('id', ParseUUIDPipe) orderId: string,
+  ): Promise<AdminOrderDetailResponse> {
+    return await this.ordersService.findById(orderId);
+  }
+
+  /**
+   * Change the status of an order
+   * PATCH /admin/orders/:id/status
+   */
+  @Patch(':id/status')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async updateStatus(
+    @Param('id', ParseUUIDPipe) orderId: string,
+    @Body() updateOrderStatusDto: UpdateOrderStatusDto,
+    @Request() req: any,
+  ): Promise<AdminOrderDetailResponse> {
+    return await this.ordersService.changeStatus(
+      orderId,
+      updateOrderStatusDto.status,
+      req.user.id,
+      updateOrderStatusDto.reason,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class CheckoutItemDto {
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id: string;
+
+  // Products with a single variant may leave it out
+  @IsOptional()
+  @IsUUID('4', { message: 'Variant ID must be a valid UUID' })
+  variant_id?: string;
+
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  @Max(100, { message: 'Quantity must be at most 100' })
+  quantity: number;
+}
+
+export class CheckoutDto {
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'At least one item is required' })
+  @ArrayMaxSize(50, { message: 'At most 50 items are allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => CheckoutItemDto)
+  items: CheckoutItemDto[];
+}
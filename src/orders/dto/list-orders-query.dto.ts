@@ -0,0 +1,30 @@
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { order_status } from '@prisma/client';
+
+export class ListOrdersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsEnum(order_status, {
+    message: `Status must be one of: ${Object.values(order_status).join(', ')}`,
+  })
+  status?: order_status;
+}
+
+export class AdminListOrdersQueryDto extends ListOrdersQueryDto {
+  @IsOptional()
+  @IsUUID('4', { message: 'User ID must be a valid UUID' })
+  user_id?: string;
+}
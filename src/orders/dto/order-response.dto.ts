@@ -0,0 +1,56 @@
+import { order_status } from '@prisma/client';
+import { VariantOptions } from '../../products/dto/product-response.dto';
+
+export interface OrderItemResponse {
+  id: string;
+  // Null once the product has been deleted
+  product_id: string | null;
+  product_name: string | null;
+  // Null for the variant of a deleted product
+  variant_id: string | null;
+  sku: string | null;
+  options: VariantOptions | null;
+  quantity: number;
+  // Decimal strings ("19.99"), like product prices
+  price_at_purchase: string;
+  line_total: string;
+}
+
+export interface OrderResponse {
+  id: string;
+  user_id: string | null;
+  status: order_status;
+  total_amount: string;
+  items: OrderItemResponse[];
+  created_at: Date | null;
+}
+
+export interface StockErrorLine {
+  product_id: string;
+  // Null when the product has no variant to sell
+  variant_id: string | null;
+  requested: number;
+  available: number;
+  // unavailable: the product or variant does not exist or is not for sale
+  reason: 'insufficient_stock' | 'unavailable';
+}
+
+export interface OrderStatusHistoryEntry {
+  from_status: order_status | null;
+  to_status: order_status;
+  created_at: Date;
+}
+
+export interface AdminOrderStatusHistoryEntry extends OrderStatusHistoryEntry {
+  // Null for changes made by the system, e.g. payment webhooks
+  actor_id: string | null;
+  reason: string | null;
+}
+
+export interface OrderDetailResponse extends OrderResponse {
+  status_history: OrderStatusHistoryEntry[];
+}
+
+export interface AdminOrderDetailResponse extends OrderResponse {
+  status_history: AdminOrderStatusHistoryEntry[];
+}
@@ -0,0 +1,21 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { order_status } from '@prisma/client';
+
+import { REFUND_STATUSES } from '../utils/order-status.util';
+
+// Refund statuses follow from the refunds recorded on the order
+const MANUAL_STATUSES = Object.values(order_status).filter(
+  (status) => !REFUND_STATUSES.includes(status),
+);
+
+export class UpdateOrderStatusDto {
+  @IsIn(MANUAL_STATUSES, {
+    message: `Status must be one of: ${MANUAL_STATUSES.join(', ')}`,
+  })
+  status: order_status;
+
+  @IsOptional()
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(500, { message: 'Reason must be at most 500 characters' })
+  reason?: string;
+}
@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { OrdersService } from './orders.service';
+import { CheckoutDto } from './dto/checkout.dto';
+import { ListOrdersQueryDto } from './dto/list-orders-query.dto';
+import { OrderDetailResponse, OrderResponse } from './dto/order-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('orders')
+@UseGuards(JwtAuthGuard)
+export class OrdersController {
+  constructor(private readonly ordersService: OrdersService) {}
+
+  /**
+   * Place an order, reserving stock for every item
+   * POST /orders/checkout
+   */
+  @Post('checkout')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async checkout(
+    @Body() checkoutDto: CheckoutDto,
+    @Request() req: any,
+  ): Promise<OrderResponse> {
+    return await this.ordersService.checkout(req.user.id, checkoutDto);
+  }
+
+  /**
+   * List the orders of the current user
+   * GET /orders
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listOrders(
+    @Query() query: ListOrdersQueryDto,
+    @Request() req: any,
+  ): Promise<PaginatedResponse<OrderResponse>> {
+    return await this.ordersService.list(query, req.user.id);
+  }
+
+  /**
+   * Get an order of the current user
+   * GET /orders/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getOrder(
+    @Param('id', ParseUUIDPipe) orderId: string,
+    @Request() req: any,
+  ): Promise<OrderDetailResponse> {
+    return await this.ordersService.findForUser(orderId, req.user.id);
+  }
+}
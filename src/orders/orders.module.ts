@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+
+import { OrdersService } from './orders.service';
+import { OrdersController } from './orders.controller';
+import { AdminOrdersController } from './admin-orders.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { PricingModule } from '../pricing/pricing.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+
+    // Guards for the customer and admin endpoints
+    AuthModule,
+
+    // Stock movements and low stock alerts on checkout and cancellation
+    InventoryModule,
+
+    // Scheduled sale prices at checkout
+    PricingModule,
+  ],
+  controllers: [OrdersController, AdminOrdersController],
+  providers: [OrdersService],
+  exports: [OrdersService],
+})
+export class OrdersModule {}
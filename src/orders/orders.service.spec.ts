@@ -0,0 +1,679 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, order_status } from '@prisma/client';
+import { OrdersService } from './orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import {
+  StockLedgerService,
+  StockMovementInput,
+} from '../inventory/stock-ledger.service';
+import { PricedProduct, PricingService } from '../pricing/pricing.service';
+
+describe('OrdersService', () => {
+  let service: OrdersService;
+  let prisma: PrismaService;
+  let stockLedgerService: StockLedgerService;
+  let pricingService: PricingService;
+
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const mouseId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const keyboardId = '7c6b5a4f-3e2d-4c1b-9a8e-7d5b2e9a1c3f';
+  const mouseVariantId = '1e2d3c4b-5a69-4788-9a0b-1c2d3e4f5a6b';
+  const keyboardVariantId = '2f3e4d5c-6b7a-4899-8b1c-2d3e4f5a6b7c';
+  const orderId = '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a';
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+
+  // Prices as stored in the products table, with the only variant of each
+  // product and its stock
+  let stock: Record<
+    string,
+    {
+      variant_id: string;
+      variant_price: Prisma.Decimal | null;
+      stock_qty: number;
+      is_active: boolean;
+      base_price: Prisma.Decimal;
+      sale_price: Prisma.Decimal | null;
+    }
+  >;
+
+  // Variants besides the one in stock
+  let otherVariants: {
+    id: string;
+    product_id: string;
+    price: Prisma.Decimal | null;
+    stock_qty: number;
+    is_active: boolean;
+  }[];
+
+  // The order returned by orders.findUnique
+  let order: any;
+
+  const buildOrder = (status: order_status, ownerId = userId) => ({
+    id: orderId,
+    user_id: ownerId,
+    status,
+    total_amount: new Prisma.Decimal('169.89'),
+    stripe_session_id: null,
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    order_items: [
+      {
+        id: 'item-1',
+        order_id: orderId,
+        product_id: mouseId,
+        variant_id: mouseVariantId,
+        quantity: 2,
+        price_at_purchase: new Prisma.Decimal('39.95'),
+        products: { name: 'Mouse' },
+        product_variants: { sku: 'MOUSE', options: {} },
+      },
+      {
+        id: 'item-2',
+        order_id: orderId,
+        product_id: keyboardId,
+        variant_id: keyboardVariantId,
+        quantity: 1,
+        price_at_purchase: new Prisma.Decimal('89.99'),
+        products: { name: 'Keyboard' },
+        product_variants: { sku: 'KEYBOARD', options: {} },
+      },
+    ],
+    status_history: [
+      {
+        id: 'history-1',
+        order_id: orderId,
+        from_status: null,
+        to_status: 'pending',
+        actor_id: ownerId,
+        reason: null,
+        created_at: new Date('2026-01-01T00:00:00Z'),
+      },
+    ],
+  });
+
+  beforeEach(async () => {
+    order = null;
+    otherVariants = [];
+    stock = {
+      [mouseId]: {
+        variant_id: mouseVariantId,
+        variant_price: null,
+        stock_qty: 5,
+        is_active: true,
+        base_price: new Prisma.Decimal('49.90'),
+        sale_price: new Prisma.Decimal('39.95'),
+      },
+      [keyboardId]: {
+        variant_id: keyboardVariantId,
+        variant_price: null,
+        stock_qty: 2,
+        is_active: true,
+        base_price: new Prisma.Decimal('89.99'),
+        sale_price: null,
+      },
+    };
+
+    const prismaMock = {
+      products: {
+        findMany: jest.fn(() =>
+          Promise.resolve(
+            Object.entries(stock).map(([id, product]) => ({ id, ...product })),
+          ),
+        ),
+      },
+      product_variants: {
+        findMany: jest.fn(() =>
+          Promise.resolve([
+            ...Object.entries(stock).map(([productId, product]) => ({
+              id: product.variant_id,
+              product_id: productId,
+              price: product.variant_price,
+              stock_qty: product.stock_qty,
+              is_active: true,
+            })),
+            ...otherVariants,
+          ]),
+        ),
+      },
+      orders: {
+        findUnique: jest.fn(() => Promise.resolve(order)),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        // Mirrors the status check of the real query
+        updateMany: jest.fn(
+          (args: {
+            where: { status: order_status };
+            data: { status: order_status };
+          }) => {
+            if (!order || order.status !== args.where.status) {
+              return Promise.resolve({ count: 0 });
+            }
+            order.status = args.data.status;
+            return Promise.resolve({ count: 1 });
+          },
+        ),
+        create: jest.fn(
+          (args: {
+            data: {
+              user_id: string;
+              total_amount: Prisma.Decimal;
+              order_items: {
+                create: {
+                  product_id: string;
+                  variant_id: string;
+                  quantity: number;
+                  price_at_purchase: Prisma.Decimal;
+                }[];
+              };
+            };
+          }) =>
+            Promise.resolve({
+              id: 'order-id',
+              user_id: args.data.user_id,
+              status: 'pending',
+              total_amount: args.data.total_amount,
+              stripe_session_id: null,
+              created_at: new Date(),
+              order_items: args.data.order_items.create.map((item, index) => ({
+                id: `item-${index}`,
+                order_id: 'order-id',
+                ...item,
+                products: {
+                  name: item.product_id === mouseId ? 'Mouse' : 'Keyboard',
+                },
+                product_variants: { sku: 'SKU', options: {} },
+              })),
+            }),
+        ),
+      },
+      order_status_history: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrdersService,
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+        {
+          provide: StockLedgerService,
+          useValue: {
+            // Mirrors the conditional update of the real query
+            apply: jest.fn(
+              (
+                tx: unknown,
+                movement: StockMovementInput,
+                options: { activeOnly?: boolean } = {},
+              ) => {
+                const product = stock[movement.product_id];
+                if (
+                  !product ||
+                  product.variant_id !== movement.variant_id ||
+                  (options.activeOnly && !product.is_active) ||
+                  product.stock_qty + movement.delta < 0
+                ) {
+                  return Promise.resolve(null);
+                }
+                product.stock_qty += movement.delta;
+                return Promise.resolve({
+                  id: 'movement-id',
+                  ...movement,
+                  stock_after: product.stock_qty,
+                });
+              },
+            ),
+          },
+        },
+        {
+          provide: PricingService,
+          useValue: {
+            resolve: jest.fn((products: PricedProduct[]) =>
+              Promise.resolve(
+                new Map(
+                  products.map((product) => [
+                    product.id,
+                    { sale_price: product.sale_price, sale_ends_at: null },
+                  ]),
+                ),
+              ),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrdersService>(OrdersService);
+    prisma = module.get<PrismaService>(PrismaService);
+    stockLedgerService = module.get<StockLedgerService>(StockLedgerService);
+    pricingService = module.get<PricingService>(PricingService);
+  });
+
+  describe('checkout', () => {
+    it('should reserve stock and snapshot the sale price when there is one', async () => {
+      const order = await service.checkout(userId, {
+        items: [
+          { product_id: mouseId, quantity: 2 },
+          { product_id: keyboardId, quantity: 1 },
+        ],
+      });
+
+      expect(stock[mouseId].stock_qty).toBe(3);
+      expect(stock[keyboardId].stock_qty).toBe(1);
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(
+        prisma,
+        {
+          product_id: mouseId,
+          variant_id: mouseVariantId,
+          delta: -2,
+          reason: 'sale',
+          order_id: expect.any(String),
+        },
+        { activeOnly: true },
+      );
+      expect(order.status).toBe('pending');
+      expect(order.total_amount).toBe('169.89');
+      expect(prisma.orders.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status_history: {
+              create: { to_status: 'pending', actor_id: userId },
+            },
+          }),
+        }),
+      );
+      expect(
+        order.items.map((item) => [
+          item.product_id,
+          item.price_at_purchase,
+          item.line_total,
+        ]),
+      ).toEqual(
+        expect.arrayContaining([
+          [mouseId, '39.95', '79.90'],
+          [keyboardId, '89.99', '89.99'],
+        ]),
+      );
+    });
+
+    it('should charge the sale price of a running price schedule', async () => {
+      jest.mocked(pricingService.resolve).mockResolvedValueOnce(
+        new Map([
+          [
+            mouseId,
+            {
+              sale_price: new Prisma.Decimal('29.00'),
+              sale_ends_at: new Date('2026-10-25T00:00:00Z'),
+            },
+          ],
+        ]),
+      );
+
+      const order = await service.checkout(userId, {
+        items: [{ product_id: mouseId, quantity: 2 }],
+      });
+
+      expect(order.total_amount).toBe('58.00');
+      expect(pricingService.resolve).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ id: mouseId })]),
+        prisma,
+      );
+    });
+
+    it('should compute the total without floating point errors', async () => {
+      stock[mouseId].sale_price = new Prisma.Decimal('0.10');
+
+      await service.checkout(userId, {
+        items: [{ product_id: mouseId, quantity: 3 }],
+      });
+
+      const [[args]] = jest.mocked(prisma.orders.create).mock.calls;
+      expect((args.data.total_amount as Prisma.Decimal).toFixed(2)).toBe(
+        '0.30',
+      );
+    });
+
+    it('should merge lines for the same product', async () => {
+      await service.checkout(userId, {
+        items: [
+          { product_id: mouseId, quantity: 2 },
+          { product_id: mouseId, quantity: 3 },
+        ],
+      });
+
+      expect(stockLedgerService.apply).toHaveBeenCalledTimes(1);
+      expect(stock[mouseId].stock_qty).toBe(0);
+    });
+
+    it('should reserve products in ID order', async () => {
+      await service.checkout(userId, {
+        items: [
+          { product_id: keyboardId, quantity: 1 },
+          { product_id: mouseId, quantity: 1 },
+        ],
+      });
+
+      const ids = jest
+        .mocked(stockLedgerService.apply)
+        .mock.calls.map(([, movement]) => movement.product_id);
+      expect(ids).toEqual([mouseId, keyboardId].sort());
+    });
+
+    it('should report every line that cannot be fulfilled', async () => {
+      stock[keyboardId].is_active = false;
+
+      const error = await service
+        .checkout(userId, {
+          items: [
+            { product_id: mouseId, quantity: 6 },
+            { product_id: keyboardId, quantity: 1 },
+          ],
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toEqual({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'insufficient_stock',
+        message: 'Some items are not available in the requested quantity',
+        errors: expect.arrayContaining([
+          {
+            product_id: mouseId,
+            variant_id: mouseVariantId,
+            requested: 6,
+            available: 5,
+            reason: 'insufficient_stock',
+          },
+          {
+            product_id: keyboardId,
+            variant_id: keyboardVariantId,
+            requested: 1,
+            available: 0,
+            reason: 'unavailable',
+          },
+        ]),
+      });
+      expect(prisma.orders.create).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown products as unavailable', async () => {
+      const unknownId = '0a5e1a5e-0000-4000-8000-0000000000ff';
+
+      await expect(
+        service.checkout(userId, {
+          items: [{ product_id: unknownId, quantity: 1 }],
+        }),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              product_id: unknownId,
+              variant_id: null,
+              requested: 1,
+              available: 0,
+              reason: 'unavailable',
+            },
+          ],
+        },
+      });
+    });
+
+    it('should charge a variant price discounted like the product', async () => {
+      stock[mouseId].variant_price = new Prisma.Decimal('59.88');
+
+      const order = await service.checkout(userId, {
+        items: [
+          { product_id: mouseId, variant_id: mouseVariantId, quantity: 1 },
+        ],
+      });
+
+      // 59.88 x 39.95 / 49.90 = 47.94
+      expect(order.items[0]).toMatchObject({
+        variant_id: mouseVariantId,
+        price_at_purchase: '47.94',
+      });
+    });
+
+    it('should require a variant for products with several active ones', async () => {
+      otherVariants.push({
+        id: '3a4b5c6d-7e8f-4a9b-8c0d-1e2f3a4b5c6d',
+        product_id: mouseId,
+        price: null,
+        stock_qty: 3,
+        is_active: true,
+      });
+
+      const error = await service
+        .checkout(userId, {
+          items: [
+            { product_id: keyboardId, quantity: 1 },
+            { product_id: mouseId, quantity: 1 },
+          ],
+        })
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        errors: [{ field: 'items.1.variant_id' }],
+      });
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+    });
+
+    it('should use the only active variant when the others are archived', async () => {
+      otherVariants.push({
+        id: '3a4b5c6d-7e8f-4a9b-8c0d-1e2f3a4b5c6d',
+        product_id: mouseId,
+        price: null,
+        stock_qty: 3,
+        is_active: false,
+      });
+
+      await service.checkout(userId, {
+        items: [{ product_id: mouseId, quantity: 1 }],
+      });
+
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ variant_id: mouseVariantId }),
+        { activeOnly: true },
+      );
+    });
+
+    it('should not oversell when checkouts race for the last units', async () => {
+      const results = await Promise.allSettled([
+        service.checkout(userId, {
+          items: [{ product_id: keyboardId, quantity: 2 }],
+        }),
+        service.checkout(userId, {
+          items: [{ product_id: keyboardId, quantity: 2 }],
+        }),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual([
+        'fulfilled',
+        'rejected',
+      ]);
+      expect(stock[keyboardId].stock_qty).toBe(0);
+    });
+  });
+
+  describe('changeStatus', () => {
+    it('should move the order and record the change with actor and reason', async () => {
+      order = buildOrder('paid');
+
+      await service.changeStatus(orderId, 'shipped', adminId, 'DHL 123');
+
+      expect(order.status).toBe('shipped');
+      expect(prisma.order_status_history.create).toHaveBeenCalledWith({
+        data: {
+          order_id: orderId,
+          from_status: 'paid',
+          to_status: 'shipped',
+          actor_id: adminId,
+          reason: 'DHL 123',
+        },
+      });
+    });
+
+    it.each<[order_status, order_status]>([
+      ['shipped', 'pending'],
+      ['pending', 'shipped'],
+      ['delivered', 'cancelled'],
+      ['cancelled', 'paid'],
+      ['paid', 'paid'],
+      ['refunded', 'shipped'],
+    ])('should reject the transition from %s to %s', async (from, to) => {
+      order = buildOrder(from);
+
+      await expect(
+        service.changeStatus(orderId, to, adminId),
+      ).rejects.toMatchObject({
+        response: { error: 'invalid_status_transition' },
+      });
+      expect(order.status).toBe(from);
+      expect(prisma.order_status_history.create).not.toHaveBeenCalled();
+    });
+
+    it('should ship a partially refunded order that was not shipped yet', async () => {
+      order = buildOrder('partially_refunded');
+      jest
+        .spyOn(prisma.order_status_history, 'findFirst')
+        .mockResolvedValueOnce({ to_status: 'paid' } as never);
+
+      await service.changeStatus(orderId, 'shipped', adminId);
+
+      expect(order.status).toBe('shipped');
+    });
+
+    it.each<order_status>(['shipped', 'delivered'])(
+      'should not move a partially refunded order back once it was %s',
+      async (reached) => {
+        order = buildOrder('partially_refunded');
+        jest
+          .spyOn(prisma.order_status_history, 'findFirst')
+          .mockResolvedValueOnce({ to_status: reached } as never);
+
+        await expect(
+          service.changeStatus(orderId, 'shipped', adminId),
+        ).rejects.toMatchObject({
+          response: { error: 'invalid_status_transition' },
+        });
+        expect(order.status).toBe('partially_refunded');
+      },
+    );
+
+    it('should restock the items when an unshipped order is cancelled', async () => {
+      order = buildOrder('paid');
+
+      await service.changeStatus(orderId, 'cancelled', adminId);
+
+      expect(stock[mouseId].stock_qty).toBe(7);
+      expect(stock[keyboardId].stock_qty).toBe(3);
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(prisma, {
+        product_id: mouseId,
+        variant_id: mouseVariantId,
+        delta: 2,
+        reason: 'sale',
+        order_id: orderId,
+        actor_id: adminId,
+        note: 'Order cancelled',
+      });
+    });
+
+    it('should not restock on other transitions', async () => {
+      order = buildOrder('shipped');
+
+      await service.changeStatus(orderId, 'delivered', adminId);
+
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+    });
+
+    it('should reject a change when the status was changed concurrently', async () => {
+      order = buildOrder('pending');
+      jest
+        .spyOn(prisma.orders, 'updateMany')
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.changeStatus(orderId, 'cancelled', adminId),
+      ).rejects.toMatchObject({ response: { error: 'status_changed' } });
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+    });
+
+    it('should record system changes without an actor', async () => {
+      order = buildOrder('pending');
+
+      await service.changeStatus(orderId, 'paid', null);
+
+      expect(prisma.order_status_history.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ actor_id: null }),
+      });
+    });
+
+    it('should throw NotFoundException for an unknown order', async () => {
+      await expect(
+        service.changeStatus(orderId, 'paid', adminId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findForUser', () => {
+    it('should return the status timeline without actors or reasons', async () => {
+      order = buildOrder('pending');
+
+      const result = await service.findForUser(orderId, userId);
+
+      expect(result.status_history).toEqual([
+        {
+          from_status: null,
+          to_status: 'pending',
+          created_at: new Date('2026-01-01T00:00:00Z'),
+        },
+      ]);
+    });
+
+    it("should hide other customers' orders", async () => {
+      order = buildOrder('pending', adminId);
+
+      await expect(service.findForUser(orderId, userId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('should only list the orders of the given customer', async () => {
+      await service.list({ user_id: adminId }, userId);
+
+      expect(prisma.orders.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { status: undefined, user_id: userId },
+        }),
+      );
+    });
+
+    it('should let admins filter by customer', async () => {
+      await service.list({ status: 'paid', user_id: userId });
+
+      expect(prisma.orders.count).toHaveBeenCalledWith({
+        where: { status: 'paid', user_id: userId },
+      });
+    });
+  });
+});
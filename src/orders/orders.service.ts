@@ -0,0 +1,573 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import {
+  Prisma,
+  order_items,
+  order_status,
+  order_status_history,
+  orders,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { PricingService } from '../pricing/pricing.service';
+import { variantPrices } from '../pricing/utils/variant-price.util';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { FieldError, validationError } from '../common/pipes/validation.pipe';
+import { CheckoutDto, CheckoutItemDto } from './dto/checkout.dto';
+import {
+  AdminListOrdersQueryDto,
+  ListOrdersQueryDto,
+} from './dto/list-orders-query.dto';
+import {
+  AdminOrderDetailResponse,
+  OrderDetailResponse,
+  OrderResponse,
+  StockErrorLine,
+} from './dto/order-response.dto';
+import { VariantOptions } from '../products/dto/product-response.dto';
+import {
+  FULFILMENT_STATUSES,
+  canTransition,
+  restocksOnCancel,
+} from './utils/order-status.util';
+
+type OrderWithItems = orders & {
+  order_items: (order_items & {
+    products: { name: string } | null;
+    product_variants: { sku: string; options: Prisma.JsonValue } | null;
+  })[];
+};
+
+// Units of a product variant; variant_id is null when checkout could not
+// find a variant for the product
+interface StockLine {
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+}
+
+type OrderWithHistory = OrderWithItems & {
+  status_history: order_status_history[];
+};
+
+const ORDER_INCLUDE = {
+  order_items: {
+    include: {
+      products: { select: { name: true } },
+      product_variants: { select: { sku: true, options: true } },
+    },
+  },
+} satisfies Prisma.ordersInclude;
+
+const ORDER_DETAIL_INCLUDE = {
+  ...ORDER_INCLUDE,
+  status_history: { orderBy: { created_at: 'asc' } },
+} satisfies Prisma.ordersInclude;
+
+@Injectable()
+export class OrdersService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  /**
+   * Place an order for the current user. Stock is reserved and the order is
+   * written in one transaction: either every line is reserved or nothing is.
+   * Lines without a variant are for the product's only variant.
+   * @param userId - ID of the customer
+   * @param checkoutDto - Products, variants and quantities
+   * @returns Promise<OrderResponse> - The pending order
+   */
+  async checkout(
+    userId: string,
+    checkoutDto: CheckoutDto,
+  ): Promise<OrderResponse> {
+    const productIds = [
+      ...new Set(checkoutDto.items.map((item) => item.product_id)),
+    ];
+    // Known before the order is written, so the stock movements can refer
+    // to it
+    const orderId = randomUUID();
+
+    const order = await this.prisma.$transaction(async (tx) => {
+      const lines = this.sumByVariant(
+        await this.resolveVariants(tx, checkoutDto.items),
+      );
+      const failed: StockLine[] = [];
+
+      // Rows are locked in ID order, so overlapping carts cannot deadlock
+      for (const line of lines) {
+        const movement =
+          line.variant_id &&
+          (await this.stockLedgerService.apply(
+            tx,
+            {
+              product_id: line.product_id,
+              variant_id: line.variant_id,
+              delta: -line.quantity,
+              reason: 'sale',
+              order_id: orderId,
+            },
+            { activeOnly: true },
+          ));
+
+        if (!movement) {
+          failed.push(line);
+        }
+      }
+
+      const products = await tx.products.findMany({
+        where: { id: { in: productIds } },
+        select: {
+          id: true,
+          category_id: true,
+          base_price: true,
+          sale_price: true,
+          is_active: true,
+        },
+      });
+      const productsById = new Map(
+        products.map((product) => [product.id, product]),
+      );
+      const variants = await tx.product_variants.findMany({
+        where: { product_id: { in: productIds } },
+        select: {
+          id: true,
+          product_id: true,
+          price: true,
+          stock_qty: true,
+          is_active: true,
+        },
+      });
+      const variantsById = new Map(
+        variants.map((variant) => [variant.id, variant]),
+      );
+
+      if (failed.length > 0) {
+        // Throwing rolls back the lines that were reserved
+        this.throwStockError(
+          failed.map((line): StockErrorLine => {
+            const variant = line.variant_id
+              ? variantsById.get(line.variant_id)
+              : undefined;
+            const forSale =
+              productsById.get(line.product_id)?.is_active === true &&
+              variant?.product_id === line.product_id &&
+              variant.is_active;
+
+            return {
+              product_id: line.product_id,
+              variant_id: line.variant_id,
+              requested: line.quantity,
+              available: forSale ? variant.stock_qty : 0,
+              reason: forSale ? 'insufficient_stock' : 'unavailable',
+            };
+          }),
+        );
+      }
+
+      // Prices are read after the rows were locked by the decrement above,
+      // and resolved like product reads so the customer pays what they saw
+      const prices = await this.pricingService.resolve(products, tx);
+      const items = lines.map((line) => {
+        // Every line was reserved, so every product and variant exists
+        const product = productsById.get(line.product_id)!;
+        const variant = variantsById.get(line.variant_id!)!;
+        const { base_price, sale_price } = variantPrices(variant.price, {
+          base_price: product.base_price,
+          sale_price: prices.get(product.id)!.sale_price,
+        });
+
+        return {
+          product_id: line.product_id,
+          variant_id: variant.id,
+          quantity: line.quantity,
+          price_at_purchase: sale_price ?? base_price,
+        };
+      });
+
+      const totalAmount = items.reduce(
+        (total, item) => total.add(item.price_at_purchase.mul(item.quantity)),
+        new Prisma.Decimal(0),
+      );
+
+      return await tx.orders.create({
+        data: {
+          id: orderId,
+          user_id: userId,
+          status: 'pending',
+          total_amount: totalAmount,
+          order_items: { create: items },
+          status_history: {
+            create: { to_status: 'pending', actor_id: userId },
+          },
+        },
+        include: ORDER_INCLUDE,
+      });
+    });
+
+    await this.stockAlertsService.checkProducts(productIds);
+
+    return this.toResponse(order);
+  }
+
+  /**
+   * List orders, newest first
+   * @param query - Status filter and page; admins may also filter by user
+   * @param userId - Only return the orders of this customer
+   * @returns Promise<PaginatedResponse<OrderResponse>> - One page of orders
+   */
+  async list(
+    query: ListOrdersQueryDto | AdminListOrdersQueryDto,
+    userId?: string,
+  ): Promise<PaginatedResponse<OrderResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const where: Prisma.ordersWhereInput = {
+      status: query.status,
+      user_id: userId ?? ('user_id' in query ? query.user_id : undefined),
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.orders.findMany({
+        where,
+        include: ORDER_INCLUDE,
+        orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.orders.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Find an order of the current customer
+   * @param id - Order ID
+   * @param userId - ID of the customer
+   * @returns Promise<OrderDetailResponse> - The order with its status timeline
+   */
+  async findForUser(id: string, userId: string): Promise<OrderDetailResponse> {
+    const order = await this.findOrder(id);
+
+    // Other customers' orders are reported as missing, not forbidden
+    if (order.user_id !== userId) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return {
+      ...this.toResponse(order),
+      status_history: order.status_history.map((entry) => ({
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        created_at: entry.created_at,
+      })),
+    };
+  }
+
+  /**
+   * Find any order (admin)
+   * @param id - Order ID
+   * @returns Promise<AdminOrderDetailResponse> - The order with its full status history
+   */
+  async findById(id: string): Promise<AdminOrderDetailResponse> {
+    const order = await this.findOrder(id);
+
+    return {
+      ...this.toResponse(order),
+      status_history: order.status_history.map((entry) => ({
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        actor_id: entry.actor_id,
+        reason: entry.reason,
+        created_at: entry.created_at,
+      })),
+    };
+  }
+
+  /**
+   * Move an order to another status and record the change. Cancelling an
+   * order that has not been shipped puts its items back in stock.
+   * @param id - Order ID
+   * @param status - New status
+   * @param actorId - User making the change, or null for the system
+   * @param reason - Optional note stored in the history
+   * @returns Promise<AdminOrderDetailResponse> - The updated order
+   */
+  async changeStatus(
+    id: string,
+    status: order_status,
+    actorId: string | null,
+    reason?: string,
+  ): Promise<AdminOrderDetailResponse> {
+    await this.prisma.$transaction((tx) =>
+      this.applyStatusChange(tx, id, status, actorId, reason),
+    );
+
+    const order = await this.findById(id);
+    if (status === 'cancelled') {
+      // Restocked items may be back above their threshold
+      await this.stockAlertsService.checkProducts(
+        order.items.flatMap((item) =>
+          item.product_id ? [item.product_id] : [],
+        ),
+      );
+    }
+
+    return order;
+  }
+
+  /**
+   * Same as changeStatus, within a transaction opened by the caller, so the
+   * status change commits together with the caller's own writes
+   * @param tx - Transaction client
+   * @param id - Order ID
+   * @param status - New status
+   * @param actorId - User making the change, or null for the system
+   * @param reason - Optional note stored in the history
+   */
+  async applyStatusChange(
+    tx: Prisma.TransactionClient,
+    id: string,
+    status: order_status,
+    actorId: string | null,
+    reason?: string,
+  ): Promise<void> {
+    const order = await tx.orders.findUnique({
+      where: { id },
+      include: { order_items: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const from = order.status ?? 'pending';
+    const reached =
+      from === 'partially_refunded'
+        ? await this.findFulfilmentStatus(tx, id)
+        : undefined;
+    if (!canTransition(from, status, reached)) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'invalid_status_transition',
+        message: `Cannot change order status from ${from} to ${status}`,
+      });
+    }
+
+    // Only one of two concurrent changes from the same status wins
+    const { count } = await tx.orders.updateMany({
+      where: { id, status: order.status },
+      data: { status },
+    });
+    if (count === 0) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'status_changed',
+        message: 'The order status was changed by another request',
+      });
+    }
+
+    if (status === 'cancelled' && restocksOnCancel(from)) {
+      // Same lock order as checkout. The sale is reversed rather than
+      // recorded as a return, as the units never left the warehouse.
+      for (const line of this.sumByVariant(order.order_items)) {
+        if (!line.variant_id) {
+          continue;
+        }
+
+        await this.stockLedgerService.apply(tx, {
+          product_id: line.product_id,
+          variant_id: line.variant_id,
+          delta: line.quantity,
+          reason: 'sale',
+          order_id: id,
+          actor_id: actorId,
+          note: 'Order cancelled',
+        });
+      }
+    }
+
+    await tx.order_status_history.create({
+      data: {
+        order_id: id,
+        from_status: from,
+        to_status: status,
+        actor_id: actorId,
+        reason,
+      },
+    });
+  }
+
+  /**
+   * The last fulfilment step an order reached before it was refunded, from
+   * its status history
+   * @param tx - Transaction client
+   * @param id - Order ID
+   * @returns Promise<order_status | undefined> - The step, if one was recorded
+   */
+  private async findFulfilmentStatus(
+    tx: Prisma.TransactionClient,
+    id: string,
+  ): Promise<order_status | undefined> {
+    const change = await tx.order_status_history.findFirst({
+      where: { order_id: id, to_status: { in: [...FULFILMENT_STATUSES] } },
+      orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+      select: { to_status: true },
+    });
+
+    return change?.to_status;
+  }
+
+  private async findOrder(id: string): Promise<OrderWithHistory> {
+    const order = await this.prisma.orders.findUnique({
+      where: { id },
+      include: ORDER_DETAIL_INCLUDE,
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * Find the variant of every checkout line. A line without one is for the
+   * only variant of its product, or its only active variant.
+   * @param tx - Transaction client
+   * @param items - Checkout lines
+   * @returns Promise<StockLine[]> - The lines; variant_id is null for unknown products
+   */
+  private async resolveVariants(
+    tx: Prisma.TransactionClient,
+    items: CheckoutItemDto[],
+  ): Promise<StockLine[]> {
+    const variants = await tx.product_variants.findMany({
+      where: {
+        product_id: {
+          in: items.flatMap((item) => (item.variant_id ? [] : item.product_id)),
+        },
+      },
+      select: { id: true, product_id: true, is_active: true },
+    });
+
+    const errors: FieldError[] = [];
+    const lines = items.map((item, index): StockLine => {
+      if (item.variant_id) {
+        return { ...item, variant_id: item.variant_id };
+      }
+
+      let candidates = variants.filter(
+        (variant) => variant.product_id === item.product_id,
+      );
+      if (candidates.length > 1) {
+        candidates = candidates.filter((variant) => variant.is_active);
+      }
+      if (candidates.length > 1) {
+        errors.push({
+          field: `items.${index}.variant_id`,
+          message: 'Variant ID is required for products with several variants',
+        });
+      }
+
+      return {
+        product_id: item.product_id,
+        variant_id: candidates.length === 1 ? candidates[0].id : null,
+        quantity: item.quantity,
+      };
+    });
+
+    if (errors.length > 0) {
+      throw validationError(errors);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Combine lines for the same variant and sort them by product ID, then
+   * variant ID
+   */
+  private sumByVariant(
+    lines: {
+      product_id: string | null;
+      variant_id: string | null;
+      quantity: number;
+    }[],
+  ): StockLine[] {
+    const sums = new Map<string, StockLine>();
+
+    for (const item of lines) {
+      if (!item.product_id) {
+        continue;
+      }
+      const key = `${item.product_id}:${item.variant_id ?? ''}`;
+      const line = sums.get(key) ?? {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        quantity: 0,
+      };
+      line.quantity += item.quantity;
+      sums.set(key, line);
+    }
+
+    return [...sums.values()].sort(
+      (a, b) =>
+        a.product_id.localeCompare(b.product_id) ||
+        (a.variant_id ?? '').localeCompare(b.variant_id ?? ''),
+    );
+  }
+
+  private throwStockError(errors: StockErrorLine[]): never {
+    throw new ConflictException({
+      statusCode: HttpStatus.CONFLICT,
+      error: 'insufficient_stock',
+      message: 'Some items are not available in the requested quantity',
+      errors,
+    });
+  }
+
+  private toResponse(order: OrderWithItems): OrderResponse {
+    return {
+      id: order.id,
+      user_id: order.user_id,
+      status: order.status ?? 'pending',
+      total_amount: order.total_amount.toFixed(2),
+      items: order.order_items.map((item) => ({
+        id: item.id,
+        product_id: item.product_id,
+        product_name: item.products?.name ?? null,
+        variant_id: item.variant_id,
+        sku: item.product_variants?.sku ?? null,
+        options:
+          (item.product_variants?.options as VariantOptions | undefined) ??
+          null,
+        quantity: item.quantity,
+        price_at_purchase: item.price_at_purchase.toFixed(2),
+        line_total: item.price_at_purchase.mul(item.quantity).toFixed(2),
+      })),
+      created_at: order.created_at,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { order_status } from '@prisma/client';
+
+/**
+ * Allowed status changes:
+ * - pending -> paid, cancelled
+ * - paid -> shipped, cancelled, partially_refunded, refunded
+ * - shipped -> delivered, partially_refunded, refunded
+ * - delivered -> partially_refunded, refunded
+ * - partially_refunded -> shipped, delivered, partially_refunded, refunded
+ * - refunded and cancelled are final
+ *
+ * A partially refunded order keeps being fulfilled, so it can still ship.
+ * It only moves on from the fulfilment step it had reached; see
+ * canTransition.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<
+  order_status,
+  readonly order_status[]
+> = {
+  pending: ['paid', 'cancelled'],
+  paid: ['shipped', 'cancelled', 'partially_refunded', 'refunded'],
+  shipped: ['delivered', 'partially_refunded', 'refunded'],
+  delivered: ['partially_refunded', 'refunded'],
+  partially_refunded: [
+    'shipped',
+    'delivered',
+    'partially_refunded',
+    'refunded',
+  ],
+  refunded: [],
+  cancelled: [],
+};
+
+// The customer's payment was taken, even if it was later refunded
+export const PAID_STATUSES: readonly order_status[] = [
+  'paid',
+  'shipped',
+  'delivered',
+  'partially_refunded',
+  'refunded',
+];
+
+// Only set by recording a refund, never by hand
+export const REFUND_STATUSES: readonly order_status[] = [
+  'partially_refunded',
+  'refunded',
+];
+
+// Fulfilment steps of a paid order, in order
+export const FULFILMENT_STATUSES: readonly order_status[] = [
+  'paid',
+  'shipped',
+  'delivered',
+];
+
+// The goods are still in the warehouse, so cancelling returns them to stock
+const UNSHIPPED_STATUSES: readonly order_status[] = ['pending', 'paid'];
+
+/**
+ * Whether an order may move from one status to another
+ * @param from - Current status
+ * @param to - New status
+ * @param reached - For a partially refunded order, the last fulfilment step
+ * it reached. It can only move on to a step that follows that one, never
+ * back to it or to an earlier one.
+ */
+export function canTransition(
+  from: order_status,
+  to: order_status,
+  reached?: order_status,
+): boolean {
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(to)) {
+    return false;
+  }
+
+  if (from === 'partially_refunded' && FULFILMENT_STATUSES.includes(to)) {
+    return (
+      reached !== undefined && ORDER_STATUS_TRANSITIONS[reached].includes(to)
+    );
+  }
+
+  return true;
+}
+
+export function restocksOnCancel(status: order_status): boolean {
+  return UNSHIPPED_STATUSES.includes(status);
+}
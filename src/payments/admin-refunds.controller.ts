@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { RefundsService } from './refunds.service';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { RefundResponse } from './dto/refund-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/orders')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminRefundsController {
+  constructor(private readonly refundsService: RefundsService) {}
+
+  /**
+   * List the refunds of an order
+   * GET /admin/orders/:id/refunds
+   */
+  @Get(':id/refunds')
+  @HttpCode(HttpStatus.OK)
+  async listRefunds(
+    @Param('id', ParseUUIDPipe) orderId: string,
+  ): Promise<RefundResponse[]> {
+    return await this.refundsService.list(orderId);
+  }
+
+  /**
+   * Refund an order, fully or per line item
+   * POST /admin/orders/:id/refunds
+   */
+  @Post(':id/refunds')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createRefund(
+    @Param('id', ParseUUIDPipe) orderId: string,
+    @Body() createRefundDto: CreateRefundDto,
+    @Request() req: any,
+  ): Promise<RefundResponse> {
+    return await this.refundsService.create(
+      orderId,
+      createRefundDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Send a pending refund to the payment provider again
+   * POST /admin/orders/:id/refunds/:refundId/retry
+   */
+  @Post(':id/refunds/:refundId/retry')
+  @HttpCode(HttpStatus.OK)
+  async retryRefund(
+    @Param('id', ParseUUIDPipe) orderId: string,
+    @Param('refundId', ParseUUIDPipe) refundId: string,
+    @Request() req: any,
+  ): Promise<RefundResponse> {
+    return await this.refundsService.retry(orderId, refundId, req.user.id);
+  }
+}
@@ -0,0 +1,6 @@
+import { IsUUID } from 'class-validator';
+
+export class CreateCheckoutSessionDto {
+  @IsUUID('4', { message: 'Order ID must be a valid UUID' })
+  order_id: string;
+}
@@ -0,0 +1,56 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class RefundItemDto {
+  @IsUUID('4', { message: 'Order item ID must be a valid UUID' })
+  order_item_id: string;
+
+  // Units returned; defaults to none when only an amount is given
+  @IsOptional()
+  @IsInt({ message: 'Quantity must be an integer' })
+  @Min(1, { message: 'Quantity must be at least 1' })
+  quantity?: number;
+
+  // Defaults to the purchase price of the returned units
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Amount must be a number with at most 2 decimal places' },
+  )
+  @Min(0.01, { message: 'Amount must be at least 0.01' })
+  amount?: number;
+}
+
+export class CreateRefundDto {
+  // Leave out to refund everything not refunded yet
+  @IsOptional()
+  @IsArray({ message: 'Items must be an array' })
+  @ArrayMinSize(1, { message: 'At least one item is required' })
+  @ArrayMaxSize(50, { message: 'At most 50 items are allowed' })
+  @ValidateNested({ each: true })
+  @Type(() => RefundItemDto)
+  items?: RefundItemDto[];
+
+  @IsOptional()
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(500, { message: 'Reason must be at most 500 characters' })
+  reason?: string;
+
+  // Put the returned units back in stock
+  @IsOptional()
+  @IsBoolean({ message: 'Restock must be a boolean' })
+  restock?: boolean = false;
+}
@@ -0,0 +1,34 @@
+/**
+ * The parts of a Stripe event used by the webhook handler
+ */
+export interface PaymentEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: CheckoutSessionObject;
+  };
+}
+
+export interface CheckoutSessionObject {
+  id: string;
+  object: string;
+  client_reference_id?: string | null;
+  metadata?: Record<string, string> | null;
+  // 'paid', 'unpaid' or 'no_payment_required'
+  payment_status?: string;
+  amount_total?: number | null;
+  currency?: string | null;
+}
+
+export interface CheckoutSessionResponse {
+  order_id: string;
+  session_id: string;
+  url: string;
+}
+
+export interface WebhookResponse {
+  received: true;
+  // The event was already handled and was ignored this time
+  duplicate?: boolean;
+}
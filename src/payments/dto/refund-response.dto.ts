@@ -0,0 +1,21 @@
+import { refund_status } from '@prisma/client';
+
+export interface RefundItemResponse {
+  order_item_id: string;
+  quantity: number;
+  amount: string;
+}
+
+export interface RefundResponse {
+  id: string;
+  order_id: string;
+  amount: string;
+  reason: string | null;
+  restocked: boolean;
+  // failed refunds returned nothing and are kept for the record
+  status: refund_status;
+  provider_refund_id: string | null;
+  actor_id: string | null;
+  items: RefundItemResponse[];
+  created_at: Date;
+}
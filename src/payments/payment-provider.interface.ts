@@ -0,0 +1,64 @@
+import { BadGatewayException } from '@nestjs/common';
+
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+/**
+ * The provider answered and turned the request down, so nothing was done.
+ * Providers throw it only then: after a timeout, a network error or a
+ * server error the request may still have gone through.
+ */
+export class PaymentRejectedException extends BadGatewayException {}
+
+export interface CheckoutLineItem {
+  name: string;
+  // Price of one unit in the smallest currency unit (cents)
+  unit_amount: number;
+  quantity: number;
+}
+
+export interface CheckoutSessionRequest {
+  order_id: string;
+  currency: string;
+  line_items: CheckoutLineItem[];
+  customer_email?: string;
+  success_url: string;
+  cancel_url: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  // Hosted payment page the customer is sent to
+  url: string;
+}
+
+export interface RefundRequest {
+  // Checkout session the order was paid with
+  session_id: string;
+  // Amount to return in the smallest currency unit (cents)
+  amount: number;
+  currency: string;
+  // Retrying with the same key does not refund twice
+  idempotency_key: string;
+  reason?: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+}
+
+export interface PaymentProvider {
+  /**
+   * Create a hosted checkout session for an order
+   * @param request - Order, amounts and return URLs
+   */
+  createCheckoutSession(
+    request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession>;
+
+  /**
+   * Return money paid through a checkout session. Throws
+   * PaymentRejectedException when the provider refuses the refund.
+   * @param request - Session, amount and idempotency key
+   */
+  refund(request: RefundRequest): Promise<ProviderRefund>;
+}
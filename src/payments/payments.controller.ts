@@ -0,0 +1,39 @@
+import {
+  Controller,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { PaymentsService } from './payments.service';
+import { CreateCheckoutSessionDto } from './dto/create-checkout-session.dto';
+import { CheckoutSessionResponse } from './dto/payment-event.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('payments')
+@UseGuards(JwtAuthGuard)
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * Create a payment page for a pending order of the current user
+   * POST /payments/checkout-sessions
+   */
+  @Post('checkout-sessions')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createCheckoutSession(
+    @Body() createCheckoutSessionDto: CreateCheckoutSessionDto,
+    @Request() req: any,
+  ): Promise<CheckoutSessionResponse> {
+    return await this.paymentsService.createCheckoutSession(
+      createCheckoutSessionDto.order_id,
+      req.user.id,
+    );
+  }
+}
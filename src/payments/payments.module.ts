@@ -0,0 +1,58 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+
+import { PaymentsService } from './payments.service';
+import { RefundsService } from './refunds.service';
+import { PaymentsController } from './payments.controller';
+import { WebhooksController } from './webhooks.controller';
+import { AdminRefundsController } from './admin-refunds.controller';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from './payment-provider.interface';
+import { StripePaymentProvider } from './providers/stripe.provider';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { OrdersModule } from '../orders/orders.module';
+import { InventoryModule } from '../inventory/inventory.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+
+    // JwtAuthGuard, RolesGuard and AalGuard
+    AuthModule,
+
+    // Status changes when payments succeed, fail or are refunded
+    OrdersModule,
+
+    // Stock movements and low stock alerts when refunds restock
+    InventoryModule,
+  ],
+  controllers: [PaymentsController, WebhooksController, AdminRefundsController],
+  providers: [
+    // Select the payment provider from configuration
+    {
+      provide: PAYMENT_PROVIDER,
+      useFactory: (configService: ConfigService): PaymentProvider => {
+        if (configService.get<string>('payments.provider') === 'stripe') {
+          return new StripePaymentProvider(
+            configService.get<string>('payments.stripeSecretKey') || '',
+            configService.get<string>('payments.stripeApiUrl'),
+          );
+        }
+
+        return new FakePaymentProvider(
+          configService.get<string>('mail.appUrl'),
+        );
+      },
+      inject: [ConfigService],
+    },
+    PaymentsService,
+    RefundsService,
+  ],
+  exports: [PaymentsService, RefundsService],
+})
+export class PaymentsModule {}
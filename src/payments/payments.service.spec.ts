@@ -0,0 +1,319 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, order_status, payment_events } from '@prisma/client';
+import { PaymentsService } from './payments.service';
+import { PAYMENT_PROVIDER } from './payment-provider.interface';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { signWebhookPayload } from './utils/webhook-signature.util';
+import { OrdersService } from '../orders/orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prisma: PrismaService;
+  let ordersService: OrdersService;
+  let provider: FakePaymentProvider;
+  let events: Map<string, payment_events>;
+  let order: {
+    id: string;
+    user_id: string;
+    status: order_status;
+    total_amount: Prisma.Decimal;
+    stripe_session_id: string | null;
+  };
+
+  const secret = 'whsec_test';
+  const userId = '987e6543-e21b-43d3-a654-426614174999';
+  const orderId = '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a';
+
+  const settings: Record<string, unknown> = {
+    'payments.webhookSecret': secret,
+    'payments.webhookToleranceSeconds': 300,
+    'payments.currency': 'usd',
+    'payments.successUrl': 'http://localhost:3000/checkout/success',
+    'payments.cancelUrl': 'http://localhost:3000/checkout/cancel',
+  };
+
+  const deliver = (event: object, signingSecret = secret) => {
+    const payload = Buffer.from(JSON.stringify(event));
+    return service.handleWebhook(
+      payload,
+      signWebhookPayload(payload, signingSecret),
+    );
+  };
+
+  const startCheckout = async () =>
+    (await service.createCheckoutSession(orderId, userId)).session_id;
+
+  beforeEach(async () => {
+    events = new Map();
+    order = {
+      id: orderId,
+      user_id: userId,
+      status: 'pending',
+      total_amount: new Prisma.Decimal('89.85'),
+      stripe_session_id: null,
+    };
+    provider = new FakePaymentProvider();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PAYMENT_PROVIDER, useValue: provider },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => settings[key]) },
+        },
+        {
+          provide: OrdersService,
+          useValue: {
+            changeStatus: jest.fn((id: string, status: order_status) => {
+              order.status = status;
+              return Promise.resolve();
+            }),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            orders: {
+              findUnique: jest.fn(
+                (args: {
+                  where: { id?: string; stripe_session_id?: string };
+                }) => {
+                  const matches =
+                    args.where.id === order.id ||
+                    (args.where.stripe_session_id !== undefined &&
+                      args.where.stripe_session_id === order.stripe_session_id);
+                  return Promise.resolve(
+                    matches
+                      ? {
+                          ...order,
+                          order_items: [
+                            {
+                              product_id: 'product-1',
+                              quantity: 3,
+                              price_at_purchase: new Prisma.Decimal('29.95'),
+                              products: { name: 'Wireless Mouse' },
+                              product_variants: { options: { color: 'Black' } },
+                            },
+                          ],
+                          profiles: { email: 'customer@example.com' },
+                        }
+                      : null,
+                  );
+                },
+              ),
+              update: jest.fn(
+                (args: { data: { stripe_session_id: string } }) => {
+                  order.stripe_session_id = args.data.stripe_session_id;
+                  return Promise.resolve(order);
+                },
+              ),
+            },
+            payment_events: {
+              upsert: jest.fn(
+                (args: { create: { id: string; type: string } }) => {
+                  const record = events.get(args.create.id) ?? {
+                    ...args.create,
+                    order_id: null,
+                    received_at: new Date(),
+                    processed_at: null,
+                  };
+                  events.set(record.id, record);
+                  return Promise.resolve(record);
+                },
+              ),
+              update: jest.fn(
+                (args: {
+                  where: { id: string };
+                  data: Partial<payment_events>;
+                }) => {
+                  const record = events.get(args.where.id) as payment_events;
+                  Object.assign(record, args.data);
+                  return Promise.resolve(record);
+                },
+              ),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+    prisma = module.get<PrismaService>(PrismaService);
+    ordersService = module.get<OrdersService>(OrdersService);
+  });
+
+  describe('createCheckoutSession', () => {
+    it('should create a session and store its ID on the order', async () => {
+      const spy = jest.spyOn(provider, 'createCheckoutSession');
+
+      const result = await service.createCheckoutSession(orderId, userId);
+
+      expect(result.session_id).toMatch(/^cs_test_/);
+      expect(result.url).toContain(result.session_id);
+      expect(order.stripe_session_id).toBe(result.session_id);
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          order_id: orderId,
+          currency: 'usd',
+          customer_email: 'customer@example.com',
+          line_items: [
+            {
+              name: 'Wireless Mouse (Black)',
+              unit_amount: 2995,
+              quantity: 3,
+            },
+          ],
+        }),
+      );
+    });
+
+    it("should hide other customers' orders", async () => {
+      await expect(
+        service.createCheckoutSession(
+          orderId,
+          '123e4567-e89b-12d3-a456-426614174000',
+        ),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should refuse orders that are no longer pending', async () => {
+      order.status = 'paid';
+
+      await expect(
+        service.createCheckoutSession(orderId, userId),
+      ).rejects.toMatchObject({ response: { error: 'order_not_payable' } });
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should mark the order paid when the session completes', async () => {
+      const sessionId = await startCheckout();
+
+      const result = await deliver(
+        provider.buildEvent('checkout.session.completed', sessionId),
+      );
+
+      expect(result).toEqual({ received: true });
+      expect(order.status).toBe('paid');
+      expect(ordersService.changeStatus).toHaveBeenCalledWith(
+        orderId,
+        'paid',
+        null,
+        expect.stringContaining('checkout.session.completed'),
+      );
+    });
+
+    it('should apply a redelivered event only once', async () => {
+      const sessionId = await startCheckout();
+      const event = provider.buildEvent(
+        'checkout.session.completed',
+        sessionId,
+      );
+
+      await deliver(event);
+      const result = await deliver(event);
+
+      expect(result).toEqual({ received: true, duplicate: true });
+      expect(ordersService.changeStatus).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply an event again when it failed the first time', async () => {
+      const sessionId = await startCheckout();
+      const event = provider.buildEvent(
+        'checkout.session.completed',
+        sessionId,
+      );
+      jest
+        .spyOn(ordersService, 'changeStatus')
+        .mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(deliver(event)).rejects.toThrow('database unavailable');
+      await deliver(event);
+
+      expect(order.status).toBe('paid');
+    });
+
+    it('should cancel the order when its session expires', async () => {
+      const sessionId = await startCheckout();
+
+      await deliver(provider.buildEvent('checkout.session.expired', sessionId));
+
+      expect(order.status).toBe('cancelled');
+    });
+
+    it('should ignore an older session expiring after a retry', async () => {
+      const oldSessionId = await startCheckout();
+      await startCheckout();
+
+      await deliver(
+        provider.buildEvent('checkout.session.expired', oldSessionId),
+      );
+
+      expect(order.status).toBe('pending');
+    });
+
+    it('should not change an order that was already paid', async () => {
+      const sessionId = await startCheckout();
+      order.status = 'shipped';
+
+      await deliver(
+        provider.buildEvent('checkout.session.completed', sessionId),
+      );
+
+      expect(ordersService.changeStatus).not.toHaveBeenCalled();
+    });
+
+    it('should not mark the order paid when the amount differs', async () => {
+      const sessionId = await startCheckout();
+      order.total_amount = new Prisma.Decimal('120.00');
+
+      await deliver(
+        provider.buildEvent('checkout.session.completed', sessionId),
+      );
+
+      expect(order.status).toBe('pending');
+    });
+
+    it('should acknowledge unrelated events without changing orders', async () => {
+      const sessionId = await startCheckout();
+
+      const result = await deliver({
+        ...provider.buildEvent('checkout.session.completed', sessionId),
+        type: 'customer.created',
+      });
+
+      expect(result).toEqual({ received: true });
+      expect(ordersService.changeStatus).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid signature', async () => {
+      const sessionId = await startCheckout();
+
+      await expect(
+        deliver(
+          provider.buildEvent('checkout.session.completed', sessionId),
+          'whsec_other',
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.payment_events.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should reject a request without a body', async () => {
+      await expect(
+        service.handleWebhook(undefined, 't=1,v1=abc'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a malformed event', async () => {
+      const payload = Buffer.from('{"id":"evt_1"}');
+
+      await expect(
+        service.handleWebhook(payload, signWebhookPayload(payload, secret)),
+      ).rejects.toThrow('Malformed webhook event');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, order_status } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { OrdersService } from '../orders/orders.service';
+import { canTransition } from '../orders/utils/order-status.util';
+import { VariantOptions } from '../products/dto/product-response.dto';
+import {
+  PAYMENT_PROVIDER,
+  type PaymentProvider,
+} from './payment-provider.interface';
+import {
+  CheckoutSessionResponse,
+  PaymentEvent,
+  WebhookResponse,
+} from './dto/payment-event.dto';
+import { verifyWebhookSignature } from './utils/webhook-signature.util';
+
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger('Payments');
+
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+    private readonly prisma: PrismaService,
+    private readonly ordersService: OrdersService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Start paying a pending order. A new session replaces any earlier one.
+   * @param orderId - Order to pay
+   * @param userId - ID of the customer who placed the order
+   * @returns Promise<CheckoutSessionResponse> - Session ID and payment page URL
+   */
+  async createCheckoutSession(
+    orderId: string,
+    userId: string,
+  ): Promise<CheckoutSessionResponse> {
+    const order = await this.prisma.orders.findUnique({
+      where: { id: orderId },
+      include: {
+        order_items: {
+          include: {
+            products: { select: { name: true } },
+            product_variants: { select: { options: true } },
+          },
+        },
+        profiles: { select: { email: true } },
+      },
+    });
+
+    if (!order || order.user_id !== userId) {
+      throw new NotFoundException('Order not found');
+    }
+
+    if (order.status !== 'pending') {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'order_not_payable',
+        message: 'Only pending orders can be paid',
+      });
+    }
+
+    const session = await this.provider.createCheckoutSession({
+      order_id: order.id,
+      currency: this.configService.get<string>('payments.currency') || 'usd',
+      line_items: order.order_items.map((item) => ({
+        name: this.lineItemName(
+          item.products?.name ?? 'Product',
+          item.product_variants?.options as VariantOptions | undefined,
+        ),
+        unit_amount: this.toMinorUnits(item.price_at_purchase),
+        quantity: item.quantity,
+      })),
+      customer_email: order.profiles?.email,
+      success_url: this.configService.get<string>('payments.successUrl') || '',
+      cancel_url: this.configService.get<string>('payments.cancelUrl') || '',
+    });
+
+    await this.prisma.orders.update({
+      where: { id: order.id },
+      data: { stripe_session_id: session.id },
+    });
+
+    return { order_id: order.id, session_id: session.id, url: session.url };
+  }
+
+  /**
+   * Verify and apply a webhook event from the payment provider. Events are
+   * recorded by ID, so redelivered events are acknowledged but not applied
+   * again.
+   * @param payload - Raw request body
+   * @param signature - Stripe-Signature header
+   * @returns Promise<WebhookResponse> - Acknowledgement for the provider
+   */
+  async handleWebhook(
+    payload: Buffer | undefined,
+    signature: string | undefined,
+  ): Promise<WebhookResponse> {
+    if (
+      !payload ||
+      !verifyWebhookSignature(
+        payload,
+        signature,
+        this.configService.get<string>('payments.webhookSecret') || '',
+        this.configService.get<number>('payments.webhookToleranceSeconds') ??
+          300,
+      )
+    ) {
+      throw new BadRequestException({
+        statusCode: HttpStatus.BAD_REQUEST,
+        error: 'invalid_signature',
+        message: 'Invalid webhook signature',
+      });
+    }
+
+    const event = this.parseEvent(payload);
+
+    const record = await this.prisma.payment_events.upsert({
+      where: { id: event.id },
+      create: { id: event.id, type: event.type },
+      update: {},
+    });
+    if (record.processed_at) {
+      return { received: true, duplicate: true };
+    }
+
+    // An event that failed before is applied again when it is redelivered
+    const orderId = await this.applyEvent(event);
+
+    await this.prisma.payment_events.update({
+      where: { id: event.id },
+      data: { order_id: orderId, processed_at: new Date() },
+    });
+
+    return { received: true };
+  }
+
+  /**
+   * @returns The ID of the order the event is about, if any
+   */
+  private async applyEvent(event: PaymentEvent): Promise<string | null> {
+    const session = event.data.object;
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        const orderId =
+          session.metadata?.order_id ?? session.client_reference_id ?? null;
+
+        // Delayed payment methods complete the session before the money
+        // arrives; async_payment_succeeded follows
+        if (!orderId || session.payment_status !== 'paid') {
+          return orderId;
+        }
+
+        await this.moveOrder(orderId, 'paid', event);
+        return orderId;
+      }
+
+      case 'checkout.session.expired':
+      case 'checkout.session.async_payment_failed': {
+        // Only the latest session of an order releases its stock; an older
+        // session expiring after a retry does not
+        const order = await this.prisma.orders.findUnique({
+          where: { stripe_session_id: session.id },
+          select: { id: true },
+        });
+
+        if (order) {
+          await this.moveOrder(order.id, 'cancelled', event);
+        }
+        return order?.id ?? null;
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private async moveOrder(
+    orderId: string,
+    status: order_status,
+    event: PaymentEvent,
+  ): Promise<void> {
+    const order = await this.prisma.orders.findUnique({
+      where: { id: orderId },
+      select: { status: true, total_amount: true },
+    });
+
+    if (!order) {
+      this.logger.warn(`Event ${event.id} refers to unknown order ${orderId}`);
+      return;
+    }
+
+    const from = order.status ?? 'pending';
+    if (from === status) {
+      return;
+    }
+
+    if (!canTransition(from, status)) {
+      // Money taken for an order that can no longer be fulfilled must be
+      // refunded by hand
+      this.logger.error(
+        `Event ${event.id} (${event.type}) cannot move order ${orderId} from ${from} to ${status}`,
+      );
+      return;
+    }
+
+    const amount = event.data.object.amount_total;
+    if (
+      status === 'paid' &&
+      amount !== undefined &&
+      amount !== null &&
+      amount !== this.toMinorUnits(order.total_amount)
+    ) {
+      this.logger.error(
+        `Event ${event.id} paid ${amount} for order ${orderId}, which totals ${order.total_amount.toFixed(2)}`,
+      );
+      return;
+    }
+
+    await this.ordersService.changeStatus(
+      orderId,
+      status,
+      null,
+      `Payment event ${event.id} (${event.type})`,
+    );
+  }
+
+  private parseEvent(payload: Buffer): PaymentEvent {
+    try {
+      const event = JSON.parse(payload.toString('utf8')) as PaymentEvent;
+      if (
+        typeof event.id === 'string' &&
+        typeof event.type === 'string' &&
+        typeof event.data?.object === 'object' &&
+        event.data.object !== null
+      ) {
+        return event;
+      }
+    } catch {
+      // Reported below
+    }
+
+    throw new BadRequestException('Malformed webhook event');
+  }
+
+  /**
+   * Product name followed by the option values of the variant, e.g.
+   * "T-Shirt (M, Red)"
+   */
+  private lineItemName(
+    productName: string,
+    options: VariantOptions | undefined,
+  ): string {
+    const values = Object.values(options ?? {});
+    return values.length > 0
+      ? `${productName} (${values.join(', ')})`
+      : productName;
+  }
+
+  private toMinorUnits(amount: Prisma.Decimal): number {
+    return amount.mul(100).toNumber();
+  }
+}
@@ -0,0 +1,85 @@
+import { randomBytes } from 'crypto';
+import {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentProvider,
+  PaymentRejectedException,
+  ProviderRefund,
+  RefundRequest,
+} from '../payment-provider.interface';
+import { PaymentEvent } from '../dto/payment-event.dto';
+
+/**
+ * Local stand-in for Stripe, for development and tests. Sessions and
+ * refunds are kept in memory, and events in the same format as Stripe's can be built for
+ * them and posted to the webhook.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  private readonly sessions = new Map<string, CheckoutSessionRequest>();
+  private readonly refunds = new Map<string, ProviderRefund>();
+
+  constructor(private readonly checkoutUrl = 'http://localhost:3000') {}
+
+  createCheckoutSession(
+    request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession> {
+    const id = `cs_test_${randomBytes(12).toString('hex')}`;
+    this.sessions.set(id, request);
+
+    return Promise.resolve({
+      id,
+      url: `${this.checkoutUrl}/fake-checkout/${id}`,
+    });
+  }
+
+  refund(request: RefundRequest): Promise<ProviderRefund> {
+    if (!this.sessions.has(request.session_id)) {
+      return Promise.reject(
+        new PaymentRejectedException(
+          `Unknown checkout session ${request.session_id}`,
+        ),
+      );
+    }
+
+    // Like Stripe, a retried request returns the refund it already created
+    const refund = this.refunds.get(request.idempotency_key) ?? {
+      id: `re_test_${randomBytes(12).toString('hex')}`,
+    };
+    this.refunds.set(request.idempotency_key, refund);
+
+    return Promise.resolve(refund);
+  }
+
+  /**
+   * Build the webhook event Stripe would send for a session
+   * @param type - e.g. checkout.session.completed or checkout.session.expired
+   * @param sessionId - Session returned by createCheckoutSession
+   */
+  buildEvent(type: string, sessionId: string): PaymentEvent {
+    const request = this.sessions.get(sessionId);
+    if (!request) {
+      throw new Error(`Unknown checkout session ${sessionId}`);
+    }
+
+    return {
+      id: `evt_${randomBytes(12).toString('hex')}`,
+      type,
+      created: Math.floor(Date.now() / 1000),
+      data: {
+        object: {
+          id: sessionId,
+          object: 'checkout.session',
+          client_reference_id: request.order_id,
+          metadata: { order_id: request.order_id },
+          payment_status:
+            type === 'checkout.session.completed' ? 'paid' : 'unpaid',
+          amount_total: request.line_items.reduce(
+            (total, item) => total + item.unit_amount * item.quantity,
+            0,
+          ),
+          currency: request.currency,
+        },
+      },
+    };
+  }
+}
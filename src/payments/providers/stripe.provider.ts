@@ -0,0 +1,126 @@
+import { BadGatewayException, Logger } from '@nestjs/common';
+import {
+  CheckoutSession,
+  CheckoutSessionRequest,
+  PaymentProvider,
+  PaymentRejectedException,
+  ProviderRefund,
+  RefundRequest,
+} from '../payment-provider.interface';
+
+/**
+ * Creates Checkout Sessions and refunds through the Stripe REST API
+ */
+export class StripePaymentProvider implements PaymentProvider {
+  private readonly logger = new Logger('Payments');
+
+  constructor(
+    private readonly secretKey: string,
+    private readonly apiUrl = 'https://api.stripe.com',
+  ) {}
+
+  async createCheckoutSession(
+    request: CheckoutSessionRequest,
+  ): Promise<CheckoutSession> {
+    // The API takes form-encoded bodies with bracketed keys
+    const form = new URLSearchParams({
+      mode: 'payment',
+      success_url: request.success_url,
+      cancel_url: request.cancel_url,
+      client_reference_id: request.order_id,
+      'metadata[order_id]': request.order_id,
+    });
+    if (request.customer_email) {
+      form.set('customer_email', request.customer_email);
+    }
+    request.line_items.forEach((item, index) => {
+      const prefix = `line_items[${index}]`;
+      form.set(`${prefix}[quantity]`, String(item.quantity));
+      form.set(`${prefix}[price_data][currency]`, request.currency);
+      form.set(`${prefix}[price_data][unit_amount]`, String(item.unit_amount));
+      form.set(`${prefix}[price_data][product_data][name]`, item.name);
+    });
+
+    const session = await this.request<{ id: string; url: string }>(
+      'POST',
+      '/v1/checkout/sessions',
+      form,
+    );
+    return { id: session.id, url: session.url };
+  }
+
+  async refund(request: RefundRequest): Promise<ProviderRefund> {
+    // Refunds are made against the payment intent behind the session
+    const session = await this.request<{ payment_intent: string | null }>(
+      'GET',
+      `/v1/checkout/sessions/${encodeURIComponent(request.session_id)}`,
+    );
+    if (!session.payment_intent) {
+      this.logger.error(
+        `Checkout session ${request.session_id} has no payment to refund`,
+      );
+      throw new PaymentRejectedException('The payment cannot be refunded');
+    }
+
+    const form = new URLSearchParams({
+      payment_intent: session.payment_intent,
+      amount: String(request.amount),
+      'metadata[idempotency_key]': request.idempotency_key,
+    });
+    if (request.reason) {
+      form.set('metadata[reason]', request.reason);
+    }
+
+    const refund = await this.request<{ id: string }>(
+      'POST',
+      '/v1/refunds',
+      form,
+      request.idempotency_key,
+    );
+    return { id: refund.id };
+  }
+
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    form?: URLSearchParams,
+    idempotencyKey?: string,
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${this.secretKey}`,
+    };
+    if (form) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      method,
+      headers,
+      body: form,
+    });
+
+    if (!response.ok) {
+      this.logger.error(
+        `${method} ${path} failed with status ${response.status}: ${await response.text()}`,
+      );
+      // Other 4xx answers mean the request was refused as sent. A 409 or 429
+      // means it clashed with another or was throttled, and may still succeed
+      if (
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 409 &&
+        response.status !== 429
+      ) {
+        throw new PaymentRejectedException(
+          'The payment provider rejected the request',
+        );
+      }
+      throw new BadGatewayException('The payment provider is unavailable');
+    }
+
+    return (await response.json()) as T;
+  }
+}
@@ -0,0 +1,648 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadGatewayException,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, order_status, refund_status } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { RefundsService } from './refunds.service';
+import {
+  PAYMENT_PROVIDER,
+  PaymentRejectedException,
+} from './payment-provider.interface';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { OrdersService } from '../orders/orders.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import {
+  StockLedgerService,
+  StockMovementInput,
+} from '../inventory/stock-ledger.service';
+
+interface StoredRefund {
+  id: string;
+  order_id: string;
+  amount: Prisma.Decimal;
+  reason: string | null;
+  restocked: boolean;
+  status: refund_status;
+  provider_refund_id: string | null;
+  actor_id: string | null;
+  created_at: Date;
+  refund_items: {
+    order_item_id: string;
+    quantity: number;
+    amount: Prisma.Decimal;
+  }[];
+}
+
+describe('RefundsService', () => {
+  let service: RefundsService;
+  let prisma: PrismaService;
+  let ordersService: OrdersService;
+  let stockLedgerService: StockLedgerService;
+  let provider: FakePaymentProvider;
+  let order: { id: string; status: order_status; stripe_session_id: string };
+  let refunds: StoredRefund[];
+  let stock: Record<string, number>;
+
+  const adminId = '987e6543-e21b-43d3-a654-426614174999';
+  const orderId = '5d4c3b2a-1f0e-4d9c-8b7a-6f5e4d3c2b1a';
+  const mouseLineId = '1a1a1a1a-1a1a-4a1a-8a1a-1a1a1a1a1a1a';
+  const keyboardLineId = '2b2b2b2b-2b2b-4b2b-8b2b-2b2b2b2b2b2b';
+  const mouseId = '3c3c3c3c-3c3c-4c3c-8c3c-3c3c3c3c3c3c';
+  const keyboardId = '4d4d4d4d-4d4d-4d4d-8d4d-4d4d4d4d4d4d';
+  const mouseVariantId = '5e5e5e5e-5e5e-4e5e-8e5e-5e5e5e5e5e5e';
+  const keyboardVariantId = '6f6f6f6f-6f6f-4f6f-8f6f-6f6f6f6f6f6f';
+
+  // 3 x 29.95 + 1 x 89.99 = 179.84
+  const orderItems = [
+    {
+      id: mouseLineId,
+      order_id: orderId,
+      product_id: mouseId,
+      variant_id: mouseVariantId,
+      quantity: 3,
+      price_at_purchase: new Prisma.Decimal('29.95'),
+    },
+    {
+      id: keyboardLineId,
+      order_id: orderId,
+      product_id: keyboardId,
+      variant_id: keyboardVariantId,
+      quantity: 1,
+      price_at_purchase: new Prisma.Decimal('89.99'),
+    },
+  ];
+
+  beforeEach(async () => {
+    refunds = [];
+    stock = { [mouseId]: 10, [keyboardId]: 2 };
+    provider = new FakePaymentProvider();
+
+    const session = await provider.createCheckoutSession({
+      order_id: orderId,
+      currency: 'usd',
+      line_items: [],
+      success_url: '',
+      cancel_url: '',
+    });
+    order = { id: orderId, status: 'paid', stripe_session_id: session.id };
+
+    const prismaMock = {
+      $queryRaw: jest.fn(() => Promise.resolve([order])),
+      orders: {
+        findUnique: jest.fn((args: { where: { id: string } }) =>
+          Promise.resolve(args.where.id === order.id ? order : null),
+        ),
+      },
+      order_items: {
+        findMany: jest.fn(() => Promise.resolve(orderItems)),
+      },
+      refund_items: {
+        findMany: jest.fn(
+          (args: { where: { refunds: { status: { in: refund_status[] } } } }) =>
+            Promise.resolve(
+              refunds
+                .filter((refund) =>
+                  args.where.refunds.status.in.includes(refund.status),
+                )
+                .flatMap((refund) => refund.refund_items),
+            ),
+        ),
+      },
+      refunds: {
+        create: jest.fn(
+          (args: {
+            data: Omit<
+              StoredRefund,
+              'id' | 'status' | 'refund_items' | 'created_at'
+            > & {
+              refund_items: { create: StoredRefund['refund_items'] };
+            };
+          }) => {
+            const refund: StoredRefund = {
+              ...args.data,
+              id: randomUUID(),
+              reason: args.data.reason ?? null,
+              status: 'pending',
+              provider_refund_id: null,
+              created_at: new Date(),
+              refund_items: args.data.refund_items.create,
+            };
+            refunds.push(refund);
+            return Promise.resolve(refund);
+          },
+        ),
+        update: jest.fn(
+          (args: {
+            where: { id: string };
+            data: Partial<Pick<StoredRefund, 'status' | 'provider_refund_id'>>;
+          }) => {
+            const refund = refunds.find((row) => row.id === args.where.id)!;
+            Object.assign(refund, args.data);
+            return Promise.resolve(refund);
+          },
+        ),
+        updateMany: jest.fn(
+          (args: {
+            where: { id: string; status: refund_status };
+            data: Partial<Pick<StoredRefund, 'status' | 'provider_refund_id'>>;
+          }) => {
+            const matched = refunds.filter(
+              (row) =>
+                row.id === args.where.id && row.status === args.where.status,
+            );
+            matched.forEach((row) => Object.assign(row, args.data));
+            return Promise.resolve({ count: matched.length });
+          },
+        ),
+        findUniqueOrThrow: jest.fn((args: { where: { id: string } }) =>
+          Promise.resolve(refunds.find((row) => row.id === args.where.id)!),
+        ),
+        findFirst: jest.fn(
+          (args: { where: { id: string; order_id: string } }) => {
+            const refund = refunds.find(
+              (row) =>
+                row.id === args.where.id &&
+                row.order_id === args.where.order_id,
+            );
+            return Promise.resolve(
+              refund && {
+                ...refund,
+                orders: { stripe_session_id: order.stripe_session_id },
+                refund_items: refund.refund_items.map((line) => ({
+                  ...line,
+                  order_items: orderItems.find(
+                    (item) => item.id === line.order_item_id,
+                  ),
+                })),
+              },
+            );
+          },
+        ),
+        findMany: jest.fn(() => Promise.resolve(refunds)),
+      },
+      // Writes made before a failure are not rolled back
+      $transaction: jest.fn((callback: (tx: unknown) => Promise<unknown>) =>
+        callback(prismaMock),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundsService,
+        { provide: PAYMENT_PROVIDER, useValue: provider },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => 'usd') },
+        },
+        {
+          provide: OrdersService,
+          useValue: {
+            applyStatusChange: jest.fn(
+              (tx: unknown, id: string, status: order_status) => {
+                order.status = status;
+                return Promise.resolve();
+              },
+            ),
+          },
+        },
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+        {
+          provide: StockLedgerService,
+          useValue: {
+            apply: jest.fn((tx: unknown, movement: StockMovementInput) => {
+              stock[movement.product_id] += movement.delta;
+              return Promise.resolve({
+                id: 'movement-id',
+                ...movement,
+                stock_after: stock[movement.product_id],
+              });
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RefundsService>(RefundsService);
+    prisma = module.get<PrismaService>(PrismaService);
+    ordersService = module.get<OrdersService>(OrdersService);
+    stockLedgerService = module.get<StockLedgerService>(StockLedgerService);
+  });
+
+  describe('create', () => {
+    it('should refund the whole order when no items are given', async () => {
+      const spy = jest.spyOn(provider, 'refund');
+
+      const result = await service.create(orderId, {}, adminId);
+
+      expect(result.amount).toBe('179.84');
+      expect(result.provider_refund_id).toMatch(/^re_test_/);
+      expect(result.items).toEqual([
+        { order_item_id: mouseLineId, quantity: 3, amount: '89.85' },
+        { order_item_id: keyboardLineId, quantity: 1, amount: '89.99' },
+      ]);
+      expect(order.status).toBe('refunded');
+      expect(spy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          session_id: order.stripe_session_id,
+          amount: 17984,
+          currency: 'usd',
+          idempotency_key: result.id,
+        }),
+      );
+      expect(ordersService.applyStatusChange).toHaveBeenCalledWith(
+        prisma,
+        orderId,
+        'refunded',
+        adminId,
+        `Refund ${result.id}`,
+      );
+    });
+
+    it('should refund single units at their purchase price', async () => {
+      const result = await service.create(
+        orderId,
+        { items: [{ order_item_id: mouseLineId, quantity: 2 }] },
+        adminId,
+      );
+
+      expect(result.amount).toBe('59.90');
+      expect(order.status).toBe('partially_refunded');
+    });
+
+    it('should accept an amount without returned units', async () => {
+      const result = await service.create(
+        orderId,
+        { items: [{ order_item_id: keyboardLineId, amount: 10 }] },
+        adminId,
+      );
+
+      expect(result.items).toEqual([
+        { order_item_id: keyboardLineId, quantity: 0, amount: '10.00' },
+      ]);
+    });
+
+    it('should subtract earlier refunds from what is left', async () => {
+      await service.create(
+        orderId,
+        { items: [{ order_item_id: keyboardLineId, amount: 80 }] },
+        adminId,
+      );
+
+      await expect(
+        service.create(
+          orderId,
+          { items: [{ order_item_id: keyboardLineId, quantity: 1 }] },
+          adminId,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              field: 'items.0.amount',
+              message: 'Only 9.99 is left to refund',
+            },
+          ],
+        },
+      });
+
+      const last = await service.create(orderId, {}, adminId);
+
+      expect(last.amount).toBe('99.84');
+      expect(last.items).toEqual([
+        { order_item_id: mouseLineId, quantity: 3, amount: '89.85' },
+        { order_item_id: keyboardLineId, quantity: 1, amount: '9.99' },
+      ]);
+      expect(order.status).toBe('refunded');
+    });
+
+    it('should reject more units than are left', async () => {
+      await service.create(
+        orderId,
+        { items: [{ order_item_id: mouseLineId, quantity: 2 }] },
+        adminId,
+      );
+
+      await expect(
+        service.create(
+          orderId,
+          { items: [{ order_item_id: mouseLineId, quantity: 2 }] },
+          adminId,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            {
+              field: 'items.0.quantity',
+              message: 'Only 1 units are left to refund',
+            },
+          ],
+        },
+      });
+    });
+
+    it('should report every invalid line', async () => {
+      await expect(
+        service.create(
+          orderId,
+          {
+            items: [
+              {
+                order_item_id: '9f9f9f9f-9f9f-4f9f-8f9f-9f9f9f9f9f9f',
+                quantity: 1,
+              },
+              { order_item_id: keyboardLineId },
+              { order_item_id: mouseLineId, amount: 100 },
+            ],
+          },
+          adminId,
+        ),
+      ).rejects.toMatchObject({
+        response: {
+          errors: [
+            { field: 'items.0.order_item_id' },
+            { field: 'items.1.quantity' },
+            { field: 'items.2.amount' },
+          ],
+        },
+      });
+    });
+
+    it('should reject an item listed twice', async () => {
+      await expect(
+        service.create(
+          orderId,
+          {
+            items: [
+              { order_item_id: mouseLineId, quantity: 1 },
+              { order_item_id: mouseLineId, quantity: 1 },
+            ],
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should put returned units back in stock when asked to', async () => {
+      const result = await service.create(
+        orderId,
+        {
+          items: [
+            { order_item_id: mouseLineId, quantity: 2 },
+            { order_item_id: keyboardLineId, amount: 5 },
+          ],
+          restock: true,
+        },
+        adminId,
+      );
+
+      expect(result.restocked).toBe(true);
+      expect(stock).toEqual({ [mouseId]: 12, [keyboardId]: 2 });
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(prisma, {
+        product_id: mouseId,
+        variant_id: mouseVariantId,
+        delta: 2,
+        reason: 'return',
+        order_id: orderId,
+        actor_id: adminId,
+      });
+    });
+
+    it('should leave stock alone by default', async () => {
+      await service.create(orderId, {}, adminId);
+
+      expect(stock).toEqual({ [mouseId]: 10, [keyboardId]: 2 });
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+    });
+
+    it.each<order_status>(['pending', 'cancelled', 'refunded'])(
+      'should refuse orders that are %s',
+      async (status) => {
+        order.status = status;
+
+        await expect(
+          service.create(orderId, {}, adminId),
+        ).rejects.toMatchObject({
+          response: { error: 'order_not_refundable' },
+        });
+      },
+    );
+
+    it('should mark the refund failed when the provider rejects it', async () => {
+      jest
+        .spyOn(provider, 'refund')
+        .mockRejectedValueOnce(
+          new PaymentRejectedException('The payment cannot be refunded'),
+        );
+
+      await expect(
+        service.create(orderId, { restock: true }, adminId),
+      ).rejects.toThrow(PaymentRejectedException);
+      expect(refunds.map((refund) => refund.status)).toEqual(['failed']);
+      expect(order.status).toBe('paid');
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+
+      // The failed refund no longer holds its amount
+      const retried = await service.create(orderId, {}, adminId);
+      expect(retried.amount).toBe('179.84');
+      expect(retried.status).toBe('succeeded');
+    });
+
+    it('should keep the refund pending when the provider does not answer', async () => {
+      jest
+        .spyOn(provider, 'refund')
+        .mockRejectedValueOnce(
+          new BadGatewayException('The payment provider is unavailable'),
+        );
+
+      await expect(
+        service.create(orderId, { restock: true }, adminId),
+      ).rejects.toThrow(BadGatewayException);
+      expect(refunds.map((refund) => refund.status)).toEqual(['pending']);
+      expect(order.status).toBe('paid');
+      expect(stockLedgerService.apply).not.toHaveBeenCalled();
+
+      // The provider may have made the refund, so its amount stays held
+      await expect(service.create(orderId, {}, adminId)).rejects.toMatchObject({
+        response: { error: 'order_not_refundable' },
+      });
+    });
+
+    it('should commit the pending refund before calling the provider', async () => {
+      let release!: () => void;
+      const answer = new Promise<void>((resolve) => (release = resolve));
+      const refund = provider.refund.bind(provider);
+      jest.spyOn(provider, 'refund').mockImplementationOnce(async (request) => {
+        await answer;
+        return refund(request);
+      });
+
+      const first = service.create(orderId, {}, adminId);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(refunds.map((row) => row.status)).toEqual(['pending']);
+      expect(provider.refund).toHaveBeenCalledWith(
+        expect.objectContaining({ idempotency_key: refunds[0].id }),
+      );
+      // The pending refund holds the whole remainder
+      await expect(service.create(orderId, {}, adminId)).rejects.toMatchObject({
+        response: { error: 'order_not_refundable' },
+      });
+
+      release();
+      await expect(first).resolves.toMatchObject({ status: 'succeeded' });
+      expect(order.status).toBe('refunded');
+    });
+
+    it('should throw for unknown orders', async () => {
+      jest.spyOn(prisma, '$queryRaw').mockResolvedValue([]);
+
+      await expect(service.create(orderId, {}, adminId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('retry', () => {
+    it('should complete a pending refund with the same idempotency key', async () => {
+      jest
+        .spyOn(provider, 'refund')
+        .mockRejectedValueOnce(
+          new BadGatewayException('The payment provider is unavailable'),
+        );
+      await expect(
+        service.create(
+          orderId,
+          { restock: true, reason: 'Damaged in transit' },
+          adminId,
+        ),
+      ).rejects.toThrow(BadGatewayException);
+      const [pending] = refunds;
+
+      const result = await service.retry(orderId, pending.id, adminId);
+
+      expect(provider.refund).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          idempotency_key: pending.id,
+          amount: 17984,
+          reason: 'Damaged in transit',
+        }),
+      );
+      expect(result).toMatchObject({ id: pending.id, status: 'succeeded' });
+      expect(order.status).toBe('refunded');
+      expect(stock).toEqual({ [mouseId]: 13, [keyboardId]: 3 });
+      expect(ordersService.applyStatusChange).toHaveBeenCalledWith(
+        prisma,
+        orderId,
+        'refunded',
+        adminId,
+        `Refund ${pending.id}: Damaged in transit`,
+      );
+    });
+
+    it('should complete a refund the provider made but that was not recorded', async () => {
+      jest
+        .spyOn(prisma.refunds, 'findUniqueOrThrow')
+        .mockRejectedValueOnce(new Error('Connection lost'));
+      await expect(service.create(orderId, {}, adminId)).rejects.toThrow(
+        'Connection lost',
+      );
+      // The mock does not roll back, so undo what the failed transaction wrote
+      const providerRefundId = refunds[0].provider_refund_id;
+      Object.assign(refunds[0], {
+        status: 'pending',
+        provider_refund_id: null,
+      });
+
+      const result = await service.retry(orderId, refunds[0].id, adminId);
+
+      // The provider returned the refund it made the first time
+      expect(result).toMatchObject({
+        status: 'succeeded',
+        provider_refund_id: providerRefundId,
+      });
+      expect(order.status).toBe('refunded');
+    });
+
+    it('should leave a refund completed meanwhile as it is', async () => {
+      const refund = await service.create(orderId, { restock: true }, adminId);
+      jest.spyOn(prisma.refunds, 'findFirst').mockResolvedValueOnce({
+        ...refunds[0],
+        status: 'pending',
+        orders: { stripe_session_id: order.stripe_session_id },
+        refund_items: refunds[0].refund_items.map((line) => ({
+          ...line,
+          order_items: orderItems.find(
+            (item) => item.id === line.order_item_id,
+          ),
+        })),
+      } as never);
+
+      const result = await service.retry(orderId, refund.id, adminId);
+
+      expect(result.status).toBe('succeeded');
+      expect(stockLedgerService.apply).toHaveBeenCalledTimes(2);
+      expect(ordersService.applyStatusChange).toHaveBeenCalledTimes(1);
+    });
+
+    it.each<refund_status>(['succeeded', 'failed'])(
+      'should refuse refunds that %s',
+      async (status) => {
+        const refund = await service.create(orderId, {}, adminId);
+        refunds[0].status = status;
+
+        await expect(
+          service.retry(orderId, refund.id, adminId),
+        ).rejects.toMatchObject({
+          response: { error: 'refund_not_pending' },
+        });
+      },
+    );
+
+    it('should throw for refunds of other orders', async () => {
+      const refund = await service.create(orderId, {}, adminId);
+
+      await expect(
+        service.retry(randomUUID(), refund.id, adminId),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('list', () => {
+    it('should list the refunds of an order', async () => {
+      await service.create(
+        orderId,
+        {
+          items: [{ order_item_id: mouseLineId, quantity: 1 }],
+          reason: 'Broken',
+        },
+        adminId,
+      );
+
+      const result = await service.list(orderId);
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        order_id: orderId,
+        amount: '29.95',
+        reason: 'Broken',
+        actor_id: adminId,
+        restocked: false,
+      });
+    });
+
+    it('should throw for unknown orders', async () => {
+      await expect(
+        service.list('9f9f9f9f-9f9f-4f9f-8f9f-9f9f9f9f9f9f'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
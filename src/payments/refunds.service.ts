@@ -0,0 +1,584 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  Prisma,
+  order_items,
+  order_status,
+  refund_status,
+} from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { FieldError, validationError } from '../common/pipes/validation.pipe';
+import { OrdersService } from '../orders/orders.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import {
+  PAID_STATUSES,
+  canTransition,
+} from '../orders/utils/order-status.util';
+import {
+  PAYMENT_PROVIDER,
+  PaymentRejectedException,
+  type PaymentProvider,
+  type ProviderRefund,
+} from './payment-provider.interface';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { RefundResponse } from './dto/refund-response.dto';
+
+// Money has been taken and not all of it returned
+const REFUNDABLE_STATUSES: readonly order_status[] = PAID_STATUSES.filter(
+  (status) => status !== 'refunded',
+);
+
+// Refunds that return money or may still do so
+const OPEN_REFUND_STATUSES: readonly refund_status[] = ['pending', 'succeeded'];
+
+const REFUND_INCLUDE = {
+  refund_items: true,
+} satisfies Prisma.refundsInclude;
+
+type RefundWithItems = Prisma.refundsGetPayload<{
+  include: typeof REFUND_INCLUDE;
+}>;
+
+interface LockedOrder {
+  id: string;
+  status: order_status | null;
+  stripe_session_id: string | null;
+}
+
+interface PendingRefund {
+  id: string;
+  orderId: string;
+  sessionId: string;
+  amount: Prisma.Decimal;
+  reason?: string;
+  lines: RefundLine[];
+}
+
+interface RefundLine {
+  item: order_items;
+  quantity: number;
+  amount: Prisma.Decimal;
+}
+
+interface RefundableItem {
+  item: order_items;
+  // Units not returned yet
+  quantity: number;
+  // Money not refunded yet
+  amount: Prisma.Decimal;
+}
+
+@Injectable()
+export class RefundsService {
+  private readonly logger = new Logger('Refunds');
+
+  constructor(
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+    private readonly prisma: PrismaService,
+    private readonly ordersService: OrdersService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Refund a paid order, fully or per line. Each line can be refunded up to
+   * its purchase price times its quantity, minus what earlier refunds
+   * returned. The refund is committed as pending before the payment provider
+   * is called, so the order is not locked during the call and the refund ID
+   * can serve as the idempotency key. The restock and the status change are
+   * committed once the provider accepted the refund; a refund it rejects is
+   * marked failed. When the call ends without an answer, or the provider
+   * accepted the refund but it could not be recorded, the refund stays
+   * pending and can be completed with retry.
+   * @param orderId - Order to refund
+   * @param createRefundDto - Lines to refund; all of the remainder when left out
+   * @param actorId - Admin making the refund
+   * @returns Promise<RefundResponse> - The recorded refund
+   */
+  async create(
+    orderId: string,
+    createRefundDto: CreateRefundDto,
+    actorId: string,
+  ): Promise<RefundResponse> {
+    const pending = await this.reserve(orderId, createRefundDto, actorId);
+
+    return await this.send(pending, actorId);
+  }
+
+  /**
+   * Send a pending refund to the payment provider again and record the
+   * outcome. The refund ID is sent as the idempotency key again, so a refund
+   * the provider already made is returned rather than made twice.
+   * @param orderId - Order the refund belongs to
+   * @param refundId - Pending refund
+   * @param actorId - Admin retrying the refund
+   * @returns Promise<RefundResponse> - The recorded refund
+   */
+  async retry(
+    orderId: string,
+    refundId: string,
+    actorId: string,
+  ): Promise<RefundResponse> {
+    const refund = await this.prisma.refunds.findFirst({
+      where: { id: refundId, order_id: orderId },
+      include: {
+        orders: { select: { stripe_session_id: true } },
+        refund_items: { include: { order_items: true } },
+      },
+    });
+
+    if (!refund || !refund.orders.stripe_session_id) {
+      throw new NotFoundException('Refund not found');
+    }
+    if (refund.status !== 'pending') {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'refund_not_pending',
+        message: `Refunds that ${refund.status} cannot be retried`,
+      });
+    }
+
+    return await this.send(
+      {
+        id: refund.id,
+        orderId,
+        sessionId: refund.orders.stripe_session_id,
+        amount: refund.amount,
+        reason: refund.reason ?? undefined,
+        lines: refund.refund_items.map((line) => ({
+          item: line.order_items,
+          quantity: line.quantity,
+          amount: line.amount,
+        })),
+      },
+      actorId,
+    );
+  }
+
+  /**
+   * List the refunds of an order, oldest first
+   * @param orderId - Order ID
+   * @returns Promise<RefundResponse[]> - Refunds with their lines
+   */
+  async list(orderId: string): Promise<RefundResponse[]> {
+    const order = await this.prisma.orders.findUnique({
+      where: { id: orderId },
+      select: { id: true },
+    });
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    const refunds = await this.prisma.refunds.findMany({
+      where: { order_id: orderId },
+      include: REFUND_INCLUDE,
+      orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+    });
+
+    return refunds.map((refund) => this.toResponse(refund));
+  }
+
+  /**
+   * Check the refund against what is left and record it as pending. The
+   * pending refund holds its amount, so concurrent refunds of the same order
+   * cannot both take the same remainder.
+   */
+  private async reserve(
+    orderId: string,
+    createRefundDto: CreateRefundDto,
+    actorId: string,
+  ): Promise<PendingRefund> {
+    return await this.prisma.$transaction(async (tx) => {
+      const order = await this.lockOrder(tx, orderId);
+
+      const status = order.status ?? 'pending';
+      if (!REFUNDABLE_STATUSES.includes(status) || !order.stripe_session_id) {
+        throw new ConflictException({
+          statusCode: HttpStatus.CONFLICT,
+          error: 'order_not_refundable',
+          message: `Orders that are ${status} cannot be refunded`,
+        });
+      }
+
+      const refundable = await this.findRefundable(
+        tx,
+        orderId,
+        OPEN_REFUND_STATUSES,
+      );
+      const lines = createRefundDto.items
+        ? this.selectLines(createRefundDto, refundable)
+        : this.remainingLines(refundable);
+
+      const amount = lines.reduce(
+        (total, line) => total.add(line.amount),
+        new Prisma.Decimal(0),
+      );
+      if (amount.isZero()) {
+        throw new ConflictException({
+          statusCode: HttpStatus.CONFLICT,
+          error: 'order_not_refundable',
+          message: 'The order has already been fully refunded',
+        });
+      }
+
+      const refund = await tx.refunds.create({
+        data: {
+          order_id: orderId,
+          amount,
+          reason: createRefundDto.reason,
+          restocked: createRefundDto.restock ?? false,
+          actor_id: actorId,
+          refund_items: {
+            create: lines.map((line) => ({
+              order_item_id: line.item.id,
+              quantity: line.quantity,
+              amount: line.amount,
+            })),
+          },
+        },
+      });
+
+      return {
+        id: refund.id,
+        orderId,
+        sessionId: order.stripe_session_id,
+        amount,
+        reason: createRefundDto.reason,
+        lines,
+      };
+    });
+  }
+
+  /**
+   * Ask the payment provider for a pending refund and record the outcome
+   */
+  private async send(
+    pending: PendingRefund,
+    actorId: string,
+  ): Promise<RefundResponse> {
+    let providerRefund: ProviderRefund;
+    try {
+      // Retrying with the same refund ID does not refund twice
+      providerRefund = await this.provider.refund({
+        session_id: pending.sessionId,
+        amount: this.toMinorUnits(pending.amount),
+        currency: this.configService.get<string>('payments.currency') || 'usd',
+        idempotency_key: pending.id,
+        reason: pending.reason,
+      });
+    } catch (error) {
+      if (error instanceof PaymentRejectedException) {
+        // Releases the amount the refund was holding
+        await this.prisma.refunds.update({
+          where: { id: pending.id },
+          data: { status: 'failed' },
+        });
+      } else {
+        // The provider may have made the refund; it keeps holding its amount
+        this.logger.warn(
+          `Refund ${pending.id} was left pending: the payment provider did not answer`,
+        );
+      }
+      throw error;
+    }
+
+    const refund = await this.complete(pending, providerRefund, actorId);
+
+    // Restocked products may be back above their threshold
+    await this.stockAlertsService.checkProducts(
+      refund.restocked ? this.returnedProductIds(pending.lines) : [],
+    );
+
+    return this.toResponse(refund);
+  }
+
+  /**
+   * Mark a refund the provider accepted as succeeded, put the returned units
+   * back in stock if asked to and move the order to its refund status. A
+   * refund that is no longer pending was completed by a concurrent retry and
+   * is returned as it is.
+   */
+  private async complete(
+    pending: PendingRefund,
+    providerRefund: ProviderRefund,
+    actorId: string,
+  ): Promise<RefundWithItems> {
+    return await this.prisma.$transaction(async (tx) => {
+      const order = await this.lockOrder(tx, pending.orderId);
+
+      const { count } = await tx.refunds.updateMany({
+        where: { id: pending.id, status: 'pending' },
+        data: { status: 'succeeded', provider_refund_id: providerRefund.id },
+      });
+      const refund = await tx.refunds.findUniqueOrThrow({
+        where: { id: pending.id },
+        include: REFUND_INCLUDE,
+      });
+      if (count === 0) {
+        return refund;
+      }
+
+      if (refund.restocked) {
+        await this.restock(tx, pending.orderId, pending.lines, actorId);
+      }
+
+      // Only money actually returned counts towards a full refund
+      const refundable = await this.findRefundable(tx, pending.orderId, [
+        'succeeded',
+      ]);
+      const remaining = [...refundable.values()].reduce(
+        (total, line) => total.add(line.amount),
+        new Prisma.Decimal(0),
+      );
+      const from = order.status ?? 'pending';
+      const to = remaining.gt(0) ? 'partially_refunded' : 'refunded';
+
+      if (canTransition(from, to)) {
+        await this.ordersService.applyStatusChange(
+          tx,
+          pending.orderId,
+          to,
+          actorId,
+          pending.reason
+            ? `Refund ${pending.id}: ${pending.reason}`
+            : `Refund ${pending.id}`,
+        );
+      } else {
+        // The money is gone either way; the order was moved on meanwhile
+        this.logger.error(
+          `Refund ${pending.id} succeeded, but order ${pending.orderId} cannot move from ${from} to ${to}`,
+        );
+      }
+
+      return refund;
+    });
+  }
+
+  /**
+   * Lock an order row, so refunds of the same order are applied one at a time
+   */
+  private async lockOrder(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ): Promise<LockedOrder> {
+    const [order] = await tx.$queryRaw<LockedOrder[]>`
+      SELECT id, status, stripe_session_id
+      FROM public.orders
+      WHERE id = ${orderId}::uuid
+      FOR UPDATE
+    `;
+
+    if (!order) {
+      throw new NotFoundException('Order not found');
+    }
+
+    return order;
+  }
+
+  /**
+   * What is left to refund on each line of an order, keyed by order item ID
+   */
+  private async findRefundable(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    statuses: readonly refund_status[],
+  ): Promise<Map<string, RefundableItem>> {
+    const items = await tx.order_items.findMany({
+      where: { order_id: orderId },
+      orderBy: { id: 'asc' },
+    });
+    const refunded = await tx.refund_items.findMany({
+      where: {
+        refunds: { order_id: orderId, status: { in: [...statuses] } },
+      },
+      select: { order_item_id: true, quantity: true, amount: true },
+    });
+
+    const refundable = new Map(
+      items.map((item): [string, RefundableItem] => [
+        item.id,
+        {
+          item,
+          quantity: item.quantity,
+          amount: item.price_at_purchase.mul(item.quantity),
+        },
+      ]),
+    );
+
+    for (const line of refunded) {
+      const entry = refundable.get(line.order_item_id);
+      if (entry) {
+        entry.quantity -= line.quantity;
+        entry.amount = entry.amount.sub(line.amount);
+      }
+    }
+
+    return refundable;
+  }
+
+  /**
+   * Check the requested lines against what is left to refund. All problems
+   * are reported at once, in the shape of the validation pipe errors.
+   */
+  private selectLines(
+    createRefundDto: CreateRefundDto,
+    refundable: Map<string, RefundableItem>,
+  ): RefundLine[] {
+    const errors: FieldError[] = [];
+    const lines: RefundLine[] = [];
+    const seen = new Set<string>();
+
+    (createRefundDto.items ?? []).forEach((requested, index) => {
+      const field = `items.${index}`;
+      const entry = refundable.get(requested.order_item_id);
+
+      if (!entry) {
+        errors.push({
+          field: `${field}.order_item_id`,
+          message: 'Order item does not belong to this order',
+        });
+        return;
+      }
+      if (seen.has(requested.order_item_id)) {
+        errors.push({
+          field: `${field}.order_item_id`,
+          message: 'Order item is listed more than once',
+        });
+        return;
+      }
+      seen.add(requested.order_item_id);
+
+      if (requested.quantity === undefined && requested.amount === undefined) {
+        errors.push({
+          field: `${field}.quantity`,
+          message: 'Quantity or amount is required',
+        });
+        return;
+      }
+
+      const quantity = requested.quantity ?? 0;
+      if (quantity > entry.quantity) {
+        errors.push({
+          field: `${field}.quantity`,
+          message: `Only ${entry.quantity} units are left to refund`,
+        });
+        return;
+      }
+
+      const amount =
+        requested.amount !== undefined
+          ? new Prisma.Decimal(requested.amount)
+          : entry.item.price_at_purchase.mul(quantity);
+      if (amount.gt(entry.amount)) {
+        errors.push({
+          field: `${field}.amount`,
+          message: `Only ${entry.amount.toFixed(2)} is left to refund`,
+        });
+        return;
+      }
+
+      lines.push({ item: entry.item, quantity, amount });
+    });
+
+    if (errors.length > 0) {
+      throw validationError(errors);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Every line with money left to refund, for its whole remainder
+   */
+  private remainingLines(
+    refundable: Map<string, RefundableItem>,
+  ): RefundLine[] {
+    return [...refundable.values()]
+      .filter((entry) => entry.amount.gt(0))
+      .map((entry) => ({
+        item: entry.item,
+        quantity: Math.max(entry.quantity, 0),
+        amount: entry.amount,
+      }));
+  }
+
+  private async restock(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    lines: RefundLine[],
+    actorId: string,
+  ): Promise<void> {
+    const returns = new Map<
+      string,
+      { product_id: string; variant_id: string; quantity: number }
+    >();
+    for (const { item, quantity } of lines) {
+      if (item.product_id && item.variant_id && quantity > 0) {
+        const entry = returns.get(item.variant_id) ?? {
+          product_id: item.product_id,
+          variant_id: item.variant_id,
+          quantity: 0,
+        };
+        entry.quantity += quantity;
+        returns.set(item.variant_id, entry);
+      }
+    }
+
+    // Same lock order as checkout
+    const sorted = [...returns.values()].sort(
+      (a, b) =>
+        a.product_id.localeCompare(b.product_id) ||
+        a.variant_id.localeCompare(b.variant_id),
+    );
+    for (const entry of sorted) {
+      await this.stockLedgerService.apply(tx, {
+        product_id: entry.product_id,
+        variant_id: entry.variant_id,
+        delta: entry.quantity,
+        reason: 'return',
+        order_id: orderId,
+        actor_id: actorId,
+      });
+    }
+  }
+
+  private returnedProductIds(lines: RefundLine[]): string[] {
+    return lines.flatMap((line) =>
+      line.item.product_id && line.quantity > 0 ? [line.item.product_id] : [],
+    );
+  }
+
+  private toMinorUnits(amount: Prisma.Decimal): number {
+    return amount.mul(100).toNumber();
+  }
+
+  private toResponse(refund: RefundWithItems): RefundResponse {
+    return {
+      id: refund.id,
+      order_id: refund.order_id,
+      amount: refund.amount.toFixed(2),
+      reason: refund.reason,
+      restocked: refund.restocked,
+      status: refund.status,
+      provider_refund_id: refund.provider_refund_id,
+      actor_id: refund.actor_id,
+      items: refund.refund_items.map((item) => ({
+        order_item_id: item.order_item_id,
+        quantity: item.quantity,
+        amount: item.amount.toFixed(2),
+      })),
+      created_at: refund.created_at,
+    };
+  }
+}
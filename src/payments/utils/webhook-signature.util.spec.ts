@@ -0,0 +1,67 @@
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature.util';
+
+describe('webhook signatures', () => {
+  const secret = 'whsec_test';
+  const payload = JSON.stringify({ id: 'evt_1', type: 'test' });
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  const timestamp = now / 1000;
+
+  it('should accept a payload signed with the secret', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toBe(
+      true,
+    );
+  });
+
+  it('should produce the Stripe header format', () => {
+    expect(signWebhookPayload(payload, secret, timestamp)).toMatch(
+      /^t=1767225600,v1=[0-9a-f]{64}$/,
+    );
+  });
+
+  it('should reject a modified payload', () => {
+    const header = signWebhookPayload(payload, secret, timestamp);
+
+    expect(
+      verifyWebhookSignature(`${payload} `, header, secret, 300, now),
+    ).toBe(false);
+  });
+
+  it('should reject another secret', () => {
+    const header = signWebhookPayload(payload, 'whsec_other', timestamp);
+
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toBe(
+      false,
+    );
+  });
+
+  it('should reject a signature older than the tolerance', () => {
+    const header = signWebhookPayload(payload, secret, timestamp - 301);
+
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toBe(
+      false,
+    );
+  });
+
+  it('should accept any of several signatures during secret rotation', () => {
+    const valid = signWebhookPayload(payload, secret, timestamp);
+    const header = `t=${timestamp},v1=${'0'.repeat(64)},${valid.split(',')[1]}`;
+
+    expect(verifyWebhookSignature(payload, header, secret, 300, now)).toBe(
+      true,
+    );
+  });
+
+  it.each([undefined, '', 'v1=abc', 't=abc,v1=abc', `t=${timestamp}`])(
+    'should reject the malformed header %p',
+    (header) => {
+      expect(verifyWebhookSignature(payload, header, secret, 300, now)).toBe(
+        false,
+      );
+    },
+  );
+});
@@ -0,0 +1,77 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Sign a webhook payload the way Stripe does: an HMAC-SHA256 of
+ * "<timestamp>.<payload>", sent as "t=<timestamp>,v1=<signature>".
+ * Used by the fake provider and in tests.
+ * @param payload - Raw request body
+ * @param secret - Webhook signing secret
+ * @param timestamp - Unix time in seconds
+ * @returns The Stripe-Signature header value
+ */
+export function signWebhookPayload(
+  payload: string | Buffer,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000),
+): string {
+  return `t=${timestamp},v1=${computeSignature(payload, secret, timestamp)}`;
+}
+
+/**
+ * Check a Stripe-Signature header against the raw request body. Several v1
+ * signatures may be present while the secret is being rotated.
+ * @param payload - Raw request body, exactly as received
+ * @param header - Stripe-Signature header
+ * @param secret - Webhook signing secret
+ * @param toleranceSeconds - Maximum age of the signature, against replays
+ * @returns Whether one of the signatures is valid and recent enough
+ */
+export function verifyWebhookSignature(
+  payload: string | Buffer,
+  header: string | undefined,
+  secret: string,
+  toleranceSeconds: number,
+  now = Date.now(),
+): boolean {
+  if (!header) {
+    return false;
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't' && /^\d+$/.test(value ?? '')) {
+      timestamp = parseInt(value, 10);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (
+    timestamp === undefined ||
+    Math.abs(now / 1000 - timestamp) > toleranceSeconds
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(computeSignature(payload, secret, timestamp));
+  return signatures.some((signature) => {
+    const candidate = Buffer.from(signature);
+    return (
+      candidate.length === expected.length &&
+      timingSafeEqual(candidate, expected)
+    );
+  });
+}
+
+function computeSignature(
+  payload: string | Buffer,
+  secret: string,
+  timestamp: number,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(payload)
+    .digest('hex');
+}
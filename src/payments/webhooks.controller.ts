@@ -0,0 +1,32 @@
+import {
+  Controller,
+  Post,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Request,
+  type RawBodyRequest,
+} from '@nestjs/common';
+import type { Request as ExpressRequest } from 'express';
+
+import { PaymentsService } from './payments.service';
+import { WebhookResponse } from './dto/payment-event.dto';
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  /**
+   * Receive events from the payment provider. Authenticated by the
+   * Stripe-Signature header instead of a user token.
+   * POST /webhooks/payments
+   */
+  @Post('payments')
+  @HttpCode(HttpStatus.OK)
+  async handlePaymentEvent(
+    @Request() req: RawBodyRequest<ExpressRequest>,
+    @Headers('stripe-signature') signature?: string,
+  ): Promise<WebhookResponse> {
+    return await this.paymentsService.handleWebhook(req.rawBody, signature);
+  }
+}
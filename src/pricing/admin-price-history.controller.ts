@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+} from '@nestjs/common';
+
+import { PriceHistoryService } from './price-history.service';
+import { ListPriceHistoryQueryDto } from './dto/list-price-history-query.dto';
+import { PriceAtQueryDto } from './dto/price-at-query.dto';
+import {
+  PriceAtResponse,
+  PriceHistoryEntryResponse,
+} from './dto/price-history-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/products')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminPriceHistoryController {
+  constructor(private readonly priceHistoryService: PriceHistoryService) {}
+
+  /**
+   * Price timeline of a product
+   * GET /admin/products/:id/price-history
+   */
+  @Get(':id/price-history')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listPriceHistory(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Query() query: ListPriceHistoryQueryDto,
+  ): Promise<PaginatedResponse<PriceHistoryEntryResponse>> {
+    return await this.priceHistoryService.history(productId, query);
+  }
+
+  /**
+   * Prices of a product, or of one of its variants, at a point in time
+   * GET /admin/products/:id/price-history/at?at=&variant_id=
+   */
+  @Get(':id/price-history/at')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async getPriceAt(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Query() query: PriceAtQueryDto,
+  ): Promise<PriceAtResponse> {
+    return await this.priceHistoryService.priceAt(
+      productId,
+      new Date(query.at),
+      query.variant_id,
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { PriceSchedulesService } from './price-schedules.service';
+import { CreatePriceScheduleDto } from './dto/create-price-schedule.dto';
+import { UpdatePriceScheduleDto } from './dto/update-price-schedule.dto';
+import { ListPriceSchedulesQueryDto } from './dto/list-price-schedules-query.dto';
+import { PriceScheduleResponse } from './dto/price-schedule-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/price-schedules')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminPriceSchedulesController {
+  constructor(private readonly priceSchedulesService: PriceSchedulesService) {}
+
+  /**
+   * List price schedules
+   * GET /admin/price-schedules
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listSchedules(
+    @Query() query: ListPriceSchedulesQueryDto,
+  ): Promise<PaginatedResponse<PriceScheduleResponse>> {
+    return await this.priceSchedulesService.list(query);
+  }
+
+  /**
+   * Schedule a sale for a product or a category
+   * POST /admin/price-schedules
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createSchedule(
+    @Body() createPriceScheduleDto: CreatePriceScheduleDto,
+    @Request() req: any,
+  ): Promise<PriceScheduleResponse> {
+    return await this.priceSchedulesService.create(
+      createPriceScheduleDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Change the price or period of an upcoming schedule, or the end of a
+   * running one
+   * PATCH /admin/price-schedules/:id
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async updateSchedule(
+    @Param('id', ParseUUIDPipe) scheduleId: string,
+    @Body() updatePriceScheduleDto: UpdatePriceScheduleDto,
+  ): Promise<PriceScheduleResponse> {
+    return await this.priceSchedulesService.update(
+      scheduleId,
+      updatePriceScheduleDto,
+    );
+  }
+
+  /**
+   * Delete a schedule, ending it early when it is running
+   * DELETE /admin/price-schedules/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteSchedule(
+    @Param('id', ParseUUIDPipe) scheduleId: string,
+  ): Promise<void> {
+    await this.priceSchedulesService.remove(scheduleId);
+  }
+}
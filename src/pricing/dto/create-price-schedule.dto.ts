@@ -0,0 +1,42 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { price_schedule_kind } from '@prisma/client';
+
+export class CreatePriceScheduleDto {
+  // Exactly one of product_id and category_id; a category schedule also
+  // covers the products of its subcategories
+  @IsOptional()
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id?: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Category ID must be a valid UUID' })
+  category_id?: string;
+
+  // percentage: value is the percent taken off the base price;
+  // fixed: value is the sale price
+  @IsEnum(price_schedule_kind, {
+    message: `Kind must be one of: ${Object.values(price_schedule_kind).join(', ')}`,
+  })
+  kind: price_schedule_kind;
+
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Value must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Value cannot be negative' })
+  value: number;
+
+  @IsDateString({}, { message: 'Start must be an ISO 8601 date' })
+  starts_at: string;
+
+  // Exclusive: the regular price is back at this instant
+  @IsDateString({}, { message: 'End must be an ISO 8601 date' })
+  ends_at: string;
+}
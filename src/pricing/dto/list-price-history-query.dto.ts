@@ -0,0 +1,27 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ListPriceHistoryQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  // Start of the period, inclusive
+  @IsOptional()
+  @IsDateString({}, { message: 'From must be an ISO 8601 date' })
+  from?: string;
+
+  // End of the period, exclusive
+  @IsOptional()
+  @IsDateString({}, { message: 'To must be an ISO 8601 date' })
+  to?: string;
+}
@@ -0,0 +1,35 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+
+export const PRICE_SCHEDULE_STATUSES = ['upcoming', 'active', 'ended'] as const;
+
+export type PriceScheduleStatus = (typeof PRICE_SCHEDULE_STATUSES)[number];
+
+export class ListPriceSchedulesQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Product ID must be a valid UUID' })
+  product_id?: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Category ID must be a valid UUID' })
+  category_id?: string;
+
+  @IsOptional()
+  @IsIn(PRICE_SCHEDULE_STATUSES, {
+    message: `Status must be one of: ${PRICE_SCHEDULE_STATUSES.join(', ')}`,
+  })
+  status?: PriceScheduleStatus;
+}
@@ -0,0 +1,11 @@
+import { IsDateString, IsOptional, IsUUID } from 'class-validator';
+
+export class PriceAtQueryDto {
+  @IsDateString({}, { message: 'At must be an ISO 8601 date' })
+  at: string;
+
+  // Prices of this variant rather than the product's
+  @IsOptional()
+  @IsUUID('4', { message: 'Variant ID must be a valid UUID' })
+  variant_id?: string;
+}
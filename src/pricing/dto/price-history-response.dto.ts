@@ -0,0 +1,34 @@
+import { price_change_reason } from '@prisma/client';
+
+export interface PriceHistoryEntryResponse {
+  id: string;
+  product_id: string;
+  // Decimal strings, like product prices
+  base_price: string;
+  sale_price: string | null;
+  // Set for a change to the price of a variant; base_price and sale_price
+  // are then the product's at the time
+  variant_id: string | null;
+  // Price set on the variant, null when it sells at the product's price
+  variant_price: string | null;
+  reason: price_change_reason;
+  schedule_id: string | null;
+  actor_id: string | null;
+  note: string | null;
+  created_at: Date;
+}
+
+export interface PriceAtResponse {
+  product_id: string;
+  // Variant the prices are for, null for the product's
+  variant_id: string | null;
+  at: Date;
+  base_price: string;
+  sale_price: string | null;
+  // Price a customer paid: the sale price if any, else the base price
+  price: string;
+  // The change that set these prices
+  changed_at: Date;
+  reason: price_change_reason;
+  schedule_id: string | null;
+}
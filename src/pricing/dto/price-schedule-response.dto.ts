@@ -0,0 +1,16 @@
+import { price_schedule_kind } from '@prisma/client';
+import { PriceScheduleStatus } from './list-price-schedules-query.dto';
+
+export interface PriceScheduleResponse {
+  id: string;
+  product_id: string | null;
+  category_id: string | null;
+  kind: price_schedule_kind;
+  // Decimal string, like product prices
+  value: string;
+  starts_at: Date;
+  ends_at: Date;
+  status: PriceScheduleStatus;
+  created_by: string | null;
+  created_at: Date;
+}
@@ -0,0 +1,33 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import { price_schedule_kind } from '@prisma/client';
+
+// The product or category of a schedule cannot change
+export class UpdatePriceScheduleDto {
+  @IsOptional()
+  @IsEnum(price_schedule_kind, {
+    message: `Kind must be one of: ${Object.values(price_schedule_kind).join(', ')}`,
+  })
+  kind?: price_schedule_kind;
+
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Value must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Value cannot be negative' })
+  value?: number;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Start must be an ISO 8601 date' })
+  starts_at?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'End must be an ISO 8601 date' })
+  ends_at?: string;
+}
@@ -0,0 +1,321 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PriceHistoryService } from './price-history.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PriceHistoryService', () => {
+  let service: PriceHistoryService;
+  let prisma: any;
+  let queries: Prisma.Sql[];
+
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+  const scheduleId = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+  const variantId = '8a7b6c5d-4e3f-4a2b-9c1d-0e9f8a7b6c5d';
+
+  const entry = {
+    id: 'entry-id',
+    product_id: productId,
+    base_price: new Prisma.Decimal('49.90'),
+    sale_price: new Prisma.Decimal('39.90'),
+    variant_id: null,
+    variant_price: null,
+    reason: 'admin',
+    schedule_id: null,
+    actor_id: adminId,
+    note: null,
+    created_at: new Date('2026-10-01T12:00:00Z'),
+  };
+
+  // Recorded prices of the product, and those of its variant
+  const mockHistory = (productEntries: unknown[], variantEntries: unknown[]) =>
+    prisma.price_history.findMany.mockImplementation(
+      (args: { where: { variant_id: unknown } }) =>
+        Promise.resolve(
+          args.where.variant_id === null ? productEntries : variantEntries,
+        ),
+    );
+
+  beforeEach(async () => {
+    queries = [];
+
+    const capture = (strings: TemplateStringsArray, ...values: any[]) => {
+      queries.push(Prisma.sql(strings, ...values));
+      return Promise.resolve([]);
+    };
+    const prismaMock = {
+      $executeRaw: jest.fn(capture),
+      $queryRaw: jest.fn(capture),
+      products: {
+        findUnique: jest.fn().mockResolvedValue({ id: productId }),
+      },
+      product_variants: {
+        findFirst: jest.fn().mockResolvedValue({ id: variantId }),
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: variantId, product_id: productId }]),
+      },
+      price_history: {
+        findMany: jest.fn().mockResolvedValue([entry]),
+        count: jest.fn().mockResolvedValue(1),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceHistoryService,
+        { provide: PrismaService, useValue: prismaMock },
+      ],
+    }).compile();
+
+    service = module.get<PriceHistoryService>(PriceHistoryService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('record', () => {
+    it('should insert the prices of changed products with the reason', async () => {
+      await service.record(prisma, [productId], {
+        reason: 'admin',
+        actor_id: adminId,
+      });
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].sql).toContain('INSERT INTO public.price_history');
+      expect(queries[0].sql).toContain('IS DISTINCT FROM');
+      expect(queries[0].sql).toContain('h.variant_id IS NULL');
+      expect(queries[0].values).toEqual([
+        'admin',
+        null,
+        adminId,
+        null,
+        productId,
+      ]);
+    });
+
+    it('should not query without products', async () => {
+      await service.record(prisma, [], { reason: 'import' });
+
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe('recordVariants', () => {
+    it('should insert the prices of changed variants with the reason', async () => {
+      await service.recordVariants(prisma, [variantId], {
+        reason: 'admin',
+        actor_id: adminId,
+      });
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0].sql).toContain('v.price');
+      expect(queries[0].sql).toContain(
+        'last.variant_price IS DISTINCT FROM v.price',
+      );
+      expect(queries[0].values).toEqual([
+        'admin',
+        null,
+        adminId,
+        null,
+        variantId,
+      ]);
+    });
+
+    it('should not query without variants', async () => {
+      await service.recordVariants(prisma, [], { reason: 'admin' });
+
+      expect(queries).toHaveLength(0);
+    });
+  });
+
+  describe('history', () => {
+    it('should list the changes of a product within the period', async () => {
+      const result = await service.history(productId, {
+        from: '2026-10-01T00:00:00Z',
+      });
+
+      expect(prisma.price_history.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            product_id: productId,
+            created_at: {
+              gte: new Date('2026-10-01T00:00:00Z'),
+              lt: undefined,
+            },
+          },
+        }),
+      );
+      expect(result.data[0]).toMatchObject({
+        base_price: '49.90',
+        sale_price: '39.90',
+        reason: 'admin',
+      });
+    });
+
+    it('should throw NotFoundException for an unknown product', async () => {
+      prisma.products.findUnique.mockResolvedValue(null);
+
+      await expect(service.history(productId, {})).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('priceAt', () => {
+    it('should return the prices set by the last change before that time', async () => {
+      const at = new Date('2026-10-05T00:00:00Z');
+
+      const result = await service.priceAt(productId, at);
+
+      expect(result).toEqual({
+        product_id: productId,
+        variant_id: null,
+        at,
+        base_price: '49.90',
+        sale_price: '39.90',
+        price: '39.90',
+        changed_at: entry.created_at,
+        reason: 'admin',
+        schedule_id: null,
+      });
+    });
+
+    it('should return the sale price a schedule recorded', async () => {
+      const applied = {
+        ...entry,
+        sale_price: new Prisma.Decimal('29.90'),
+        reason: 'schedule',
+        schedule_id: scheduleId,
+        actor_id: null,
+        created_at: new Date('2026-10-04T00:01:00Z'),
+      };
+      mockHistory([entry, applied], []);
+
+      const result = await service.priceAt(
+        productId,
+        new Date('2026-10-05T00:00:00Z'),
+      );
+
+      expect(result).toMatchObject({
+        sale_price: '29.90',
+        price: '29.90',
+        changed_at: applied.created_at,
+        reason: 'schedule',
+        schedule_id: scheduleId,
+      });
+    });
+
+    it('should apply the price the variant had of its own', async () => {
+      mockHistory(
+        [entry],
+        [
+          {
+            ...entry,
+            variant_id: variantId,
+            variant_price: new Prisma.Decimal('59.90'),
+            created_at: new Date('2026-10-03T12:00:00Z'),
+          },
+        ],
+      );
+
+      const result = await service.priceAt(
+        productId,
+        new Date('2026-10-05T00:00:00Z'),
+        variantId,
+      );
+
+      expect(prisma.price_history.findMany).toHaveBeenLastCalledWith({
+        where: { variant_id: variantId },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      });
+      expect(result).toMatchObject({
+        variant_id: variantId,
+        base_price: '59.90',
+        // Discounted in the same proportion as the product
+        sale_price: '47.90',
+        changed_at: new Date('2026-10-03T12:00:00Z'),
+      });
+    });
+
+    it('should throw NotFoundException for a variant of another product', async () => {
+      prisma.product_variants.findFirst.mockResolvedValue(null);
+
+      await expect(
+        service.priceAt(productId, new Date(), variantId),
+      ).rejects.toThrow('Variant not found');
+    });
+
+    it('should throw NotFoundException before the first recorded price', async () => {
+      await expect(
+        service.priceAt(productId, new Date('2020-01-01T00:00:00Z')),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('lowestPrices', () => {
+    it('should map the lowest prices by product and by variant', async () => {
+      mockHistory(
+        [
+          { ...entry, sale_price: new Prisma.Decimal('44.90') },
+          { ...entry, created_at: new Date('2026-10-10T12:00:00Z') },
+        ],
+        [],
+      );
+
+      const result = await service.lowestPrices([productId]);
+
+      expect(prisma.price_history.findMany).toHaveBeenCalledWith({
+        where: { product_id: { in: [productId] }, variant_id: null },
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+      });
+      expect(result.products.get(productId)).toEqual(
+        new Prisma.Decimal('44.90'),
+      );
+      // The variant has always sold at the product's prices
+      expect(result.variants.get(variantId)).toEqual(
+        new Prisma.Decimal('44.90'),
+      );
+    });
+
+    it('should follow the prices a variant had of its own', async () => {
+      mockHistory(
+        [{ ...entry, sale_price: null }],
+        [
+          {
+            ...entry,
+            variant_id: variantId,
+            variant_price: new Prisma.Decimal('54.90'),
+            created_at: new Date('2026-10-02T12:00:00Z'),
+          },
+          {
+            ...entry,
+            variant_id: variantId,
+            variant_price: new Prisma.Decimal('52.90'),
+            created_at: new Date('2026-10-10T12:00:00Z'),
+          },
+        ],
+      );
+
+      const result = await service.lowestPrices([productId]);
+
+      expect(result.products.has(productId)).toBe(false);
+      expect(result.variants.get(variantId)).toEqual(
+        new Prisma.Decimal('49.90'),
+      );
+    });
+
+    it('should not query without products', async () => {
+      const result = await service.lowestPrices([]);
+
+      expect(result.products.size).toBe(0);
+      expect(result.variants.size).toBe(0);
+      expect(prisma.price_history.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
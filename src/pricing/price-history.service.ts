@@ -0,0 +1,358 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, price_change_reason, price_history } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { ListPriceHistoryQueryDto } from './dto/list-price-history-query.dto';
+import {
+  PriceAtResponse,
+  PriceHistoryEntryResponse,
+} from './dto/price-history-response.dto';
+import {
+  TimelineEntry,
+  lowestPriceBefore,
+  variantPriceAt,
+} from './utils/price-timeline.util';
+
+export interface PriceChange {
+  reason: price_change_reason;
+  actor_id?: string | null;
+  schedule_id?: string | null;
+  note?: string | null;
+}
+
+export interface LowestPrices {
+  // By product ID, for products that have one
+  products: Map<string, Prisma.Decimal>;
+  // By variant ID, for variants that have one
+  variants: Map<string, Prisma.Decimal>;
+}
+
+const HISTORY_ORDER = [
+  { created_at: 'asc' },
+  { id: 'asc' },
+] satisfies Prisma.price_historyOrderByWithRelationInput[];
+
+// Period before a price took effect in which its reference price is looked up
+const REFERENCE_DAYS = 30;
+
+@Injectable()
+export class PriceHistoryService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record the current prices of products whose prices differ from their
+   * last recorded ones, within the transaction that changed them. Call it
+   * after the change, so the rows are locked and the prices are read back
+   * as written.
+   * @param tx - Transaction client
+   * @param productIds - Products that may have changed
+   * @param change - Why, and who made the change
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    productIds: string[],
+    change: PriceChange,
+  ): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    // clock_timestamp rather than the transaction start, so changes made
+    // one after the other in a transaction keep their order
+    await tx.$executeRaw`
+      INSERT INTO public.price_history
+        (product_id, base_price, sale_price, reason, schedule_id, actor_id, note, created_at)
+      SELECT
+        p.id,
+        p.base_price,
+        p.sale_price,
+        ${change.reason}::public.price_change_reason,
+        ${change.schedule_id ?? null}::uuid,
+        ${change.actor_id ?? null}::uuid,
+        ${change.note ?? null},
+        clock_timestamp()
+      FROM public.products p
+      LEFT JOIN LATERAL (
+        SELECT h.base_price, h.sale_price
+        FROM public.price_history h
+        WHERE h.product_id = p.id AND h.variant_id IS NULL
+        ORDER BY h.created_at DESC
+        LIMIT 1
+      ) last ON true
+      WHERE p.id IN (${Prisma.join(productIds.map((id) => Prisma.sql`${id}::uuid`))})
+        AND (
+          last.base_price IS DISTINCT FROM p.base_price
+          OR last.sale_price IS DISTINCT FROM p.sale_price
+        )
+    `;
+  }
+
+  /**
+   * Record the prices set on variants that differ from their last recorded
+   * ones, along with the product's prices at the time. Like record, call it
+   * within the transaction that changed them, after the change.
+   * @param tx - Transaction client
+   * @param variantIds - Variants that may have changed
+   * @param change - Why, and who made the change
+   */
+  async recordVariants(
+    tx: Prisma.TransactionClient,
+    variantIds: string[],
+    change: PriceChange,
+  ): Promise<void> {
+    if (variantIds.length === 0) {
+      return;
+    }
+
+    // A variant with nothing recorded has sold at the product's prices, so
+    // it is only recorded once it has a price of its own
+    await tx.$executeRaw`
+      INSERT INTO public.price_history
+        (product_id, variant_id, base_price, sale_price, variant_price, reason, schedule_id, actor_id, note, created_at)
+      SELECT
+        v.product_id,
+        v.id,
+        p.base_price,
+        p.sale_price,
+        v.price,
+        ${change.reason}::public.price_change_reason,
+        ${change.schedule_id ?? null}::uuid,
+        ${change.actor_id ?? null}::uuid,
+        ${change.note ?? null},
+        clock_timestamp()
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      LEFT JOIN LATERAL (
+        SELECT h.variant_price
+        FROM public.price_history h
+        WHERE h.variant_id = v.id
+        ORDER BY h.created_at DESC
+        LIMIT 1
+      ) last ON true
+      WHERE v.id IN (${Prisma.join(variantIds.map((id) => Prisma.sql`${id}::uuid`))})
+        AND last.variant_price IS DISTINCT FROM v.price
+    `;
+  }
+
+  /**
+   * Price changes of a product and of the prices set on its variants, newest
+   * first
+   * @param productId - Product ID
+   * @param query - Period and page
+   * @returns Promise<PaginatedResponse<PriceHistoryEntryResponse>> - One page of changes
+   */
+  async history(
+    productId: string,
+    query: ListPriceHistoryQueryDto,
+  ): Promise<PaginatedResponse<PriceHistoryEntryResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    await this.assertProductExists(productId);
+
+    const where: Prisma.price_historyWhereInput = {
+      product_id: productId,
+      created_at: {
+        gte: query.from ? new Date(query.from) : undefined,
+        lt: query.to ? new Date(query.to) : undefined,
+      },
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.price_history.findMany({
+        where,
+        orderBy: [{ created_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.price_history.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Prices of a product, or of one of its variants, at a point in time, e.g.
+   * to settle a dispute. Only recorded prices are used, so later changes to
+   * schedules and categories do not change the answer. The sale price of a
+   * schedule counts from when the scheduler wrote it, at most one scheduler
+   * interval after the schedule started.
+   * @param productId - Product ID
+   * @param at - Point in time
+   * @param variantId - Variant ID, for the prices of that variant
+   * @returns Promise<PriceAtResponse> - Prices in effect at that time
+   */
+  async priceAt(
+    productId: string,
+    at: Date,
+    variantId?: string,
+  ): Promise<PriceAtResponse> {
+    await this.assertProductExists(productId);
+    if (variantId) {
+      await this.assertVariantExists(productId, variantId);
+    }
+
+    const [entries, variantEntries] = await Promise.all([
+      this.findEntries([productId]),
+      variantId
+        ? this.prisma.price_history.findMany({
+            where: { variant_id: variantId },
+            orderBy: HISTORY_ORDER,
+          })
+        : [],
+    ]);
+    const prices = variantPriceAt(
+      entries.get(productId) ?? [],
+      variantEntries,
+      at,
+    );
+    if (!prices) {
+      throw new NotFoundException(
+        'No price recorded for the product at that time',
+      );
+    }
+
+    return {
+      product_id: productId,
+      variant_id: variantId ?? null,
+      at,
+      base_price: prices.base_price.toFixed(2),
+      sale_price: prices.sale_price?.toFixed(2) ?? null,
+      price: (prices.sale_price ?? prices.base_price).toFixed(2),
+      changed_at: prices.since,
+      reason: prices.reason,
+      schedule_id: prices.schedule_id,
+    };
+  }
+
+  /**
+   * Lowest price of products and of their variants in the 30 days before
+   * their current price took effect, which is the price a discount has to
+   * be shown against. The price is the sale price if any, else the base
+   * price, as recorded. There is no lowest price when nothing is recorded
+   * before the current price.
+   * @param productIds - Products to look up
+   * @returns Promise<LowestPrices> - Lowest prices by product ID and by variant ID
+   */
+  async lowestPrices(productIds: string[]): Promise<LowestPrices> {
+    const lowest: LowestPrices = { products: new Map(), variants: new Map() };
+    if (productIds.length === 0) {
+      return lowest;
+    }
+
+    const [entries, variants, variantEntries] = await Promise.all([
+      this.findEntries(productIds),
+      this.prisma.product_variants.findMany({
+        where: { product_id: { in: productIds } },
+        select: { id: true, product_id: true },
+      }),
+      this.prisma.price_history.findMany({
+        where: { product_id: { in: productIds }, variant_id: { not: null } },
+        orderBy: HISTORY_ORDER,
+      }),
+    ]);
+
+    const now = new Date();
+    for (const [productId, productEntries] of entries) {
+      const productPrice = lowestPriceBefore(
+        productEntries,
+        now,
+        REFERENCE_DAYS,
+      );
+      if (productPrice) {
+        lowest.products.set(productId, productPrice);
+      }
+
+      for (const variant of variants) {
+        if (variant.product_id !== productId) {
+          continue;
+        }
+
+        // Variants that never had a price of their own sell at the product's
+        const entries = variantEntries.filter(
+          (entry) => entry.variant_id === variant.id,
+        );
+        const price =
+          entries.length > 0
+            ? lowestPriceBefore(productEntries, now, REFERENCE_DAYS, entries)
+            : productPrice;
+        if (price) {
+          lowest.variants.set(variant.id, price);
+        }
+      }
+    }
+
+    return lowest;
+  }
+
+  /**
+   * Prices recorded for products, oldest first, by product ID. Products
+   * with nothing recorded are left out.
+   */
+  private async findEntries(
+    productIds: string[],
+  ): Promise<Map<string, TimelineEntry[]>> {
+    const rows = await this.prisma.price_history.findMany({
+      where: { product_id: { in: productIds }, variant_id: null },
+      orderBy: HISTORY_ORDER,
+    });
+
+    const entries = new Map<string, TimelineEntry[]>();
+    for (const row of rows) {
+      entries.set(row.product_id, [
+        ...(entries.get(row.product_id) ?? []),
+        row,
+      ]);
+    }
+
+    return entries;
+  }
+
+  private async assertProductExists(productId: string): Promise<void> {
+    const product = await this.prisma.products.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+  }
+
+  private async assertVariantExists(
+    productId: string,
+    variantId: string,
+  ): Promise<void> {
+    const variant = await this.prisma.product_variants.findFirst({
+      where: { id: variantId, product_id: productId },
+      select: { id: true },
+    });
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+  }
+
+  private toResponse(entry: price_history): PriceHistoryEntryResponse {
+    return {
+      id: entry.id,
+      product_id: entry.product_id,
+      base_price: entry.base_price.toFixed(2),
+      sale_price: entry.sale_price?.toFixed(2) ?? null,
+      variant_id: entry.variant_id,
+      variant_price: entry.variant_price?.toFixed(2) ?? null,
+      reason: entry.reason,
+      schedule_id: entry.schedule_id,
+      actor_id: entry.actor_id,
+      note: entry.note,
+      created_at: entry.created_at,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnApplicationShutdown,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { PricingService } from './pricing.service';
+
+/**
+ * Applies and reverts price schedules on a timer, in-process. Every
+ * instance may run it; runs are serialised in the database.
+ */
+@Injectable()
+export class PriceSchedulerService
+  implements OnApplicationBootstrap, OnApplicationShutdown
+{
+  private readonly logger = new Logger('PriceScheduler');
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private readonly pricingService: PricingService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (this.configService.get<boolean>('pricing.schedulerEnabled') === false) {
+      return;
+    }
+
+    const seconds =
+      this.configService.get<number>('pricing.schedulerIntervalSeconds') || 60;
+    this.timer = setInterval(() => void this.run(), seconds * 1000);
+    // The timer alone does not keep the process alive
+    this.timer.unref();
+
+    // Catch up on schedules that started or ended while the app was down
+    void this.run();
+  }
+
+  onApplicationShutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Apply and revert due schedules once. Skipped while a previous run is
+   * still going; errors are logged and retried on the next run.
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const { applied, reverted } = await this.pricingService.applySchedules();
+      if (applied > 0 || reverted > 0) {
+        this.logger.log(
+          `Set ${applied} scheduled sale price(s), restored ${reverted}`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Applying price schedules failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,383 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PriceSchedulesService } from './price-schedules.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PriceSchedulesService', () => {
+  let service: PriceSchedulesService;
+  let prisma: any;
+
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const categoryId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+  const parentCategoryId = 'b4b7a3d2-7f63-4d59-9c3e-1a2b3c4d5e6f';
+  const scheduleId = '9b2f6c1e-3d4a-4f5b-8c7d-6e5f4a3b2c1d';
+
+  const startsAt = '2099-01-01T00:00:00.000Z';
+  const endsAt = '2099-01-08T00:00:00.000Z';
+
+  const existing = {
+    id: scheduleId,
+    product_id: null as string | null,
+    category_id: parentCategoryId as string | null,
+    kind: 'percentage',
+    value: new Prisma.Decimal('20'),
+    starts_at: new Date('2099-01-05T00:00:00Z'),
+    ends_at: new Date('2099-01-12T00:00:00Z'),
+    created_by: adminId,
+    created_at: new Date(),
+  };
+
+  beforeEach(async () => {
+    const prismaMock = {
+      $executeRaw: jest.fn(),
+      price_schedules: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue(existing),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve({
+            id: 'new-schedule-id',
+            product_id: null,
+            category_id: null,
+            created_at: new Date(),
+            ...args.data,
+          }),
+        ),
+        update: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve({ ...existing, ...args.data }),
+        ),
+        delete: jest.fn(),
+      },
+      products: {
+        findUnique: jest
+          .fn()
+          .mockResolvedValue({ base_price: new Prisma.Decimal('100.00') }),
+        findMany: jest
+          .fn()
+          .mockResolvedValue([{ id: productId, category_id: categoryId }]),
+      },
+      categories: {
+        findUnique: jest.fn().mockResolvedValue({ id: categoryId }),
+        findMany: jest.fn().mockResolvedValue([
+          { id: categoryId, parent_id: parentCategoryId },
+          { id: parentCategoryId, parent_id: null },
+        ]),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PriceSchedulesService,
+        { provide: PrismaService, useValue: prismaMock },
+      ],
+    }).compile();
+
+    service = module.get<PriceSchedulesService>(PriceSchedulesService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('create', () => {
+    it('should create a schedule for a product', async () => {
+      const result = await service.create(
+        {
+          product_id: productId,
+          kind: 'fixed',
+          value: 79.9,
+          starts_at: startsAt,
+          ends_at: endsAt,
+        },
+        adminId,
+      );
+
+      expect(result).toMatchObject({
+        product_id: productId,
+        kind: 'fixed',
+        value: '79.90',
+        status: 'upcoming',
+        created_by: adminId,
+      });
+      expect(prisma.$executeRaw).toHaveBeenCalled();
+    });
+
+    it('should require exactly one target', async () => {
+      await expect(
+        service.create(
+          {
+            product_id: productId,
+            category_id: categoryId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not take a null product ID for a target', async () => {
+      await expect(
+        service.create(
+          {
+            product_id: null as unknown as string,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['a percentage of 100', { kind: 'percentage', value: 100 }],
+      ['an end before the start', { ends_at: '2098-12-31T00:00:00.000Z' }],
+      [
+        'an end in the past',
+        {
+          starts_at: '2020-01-01T00:00:00.000Z',
+          ends_at: '2020-02-01T00:00:00.000Z',
+        },
+      ],
+      ['a fixed price above the base price', { kind: 'fixed', value: 120 }],
+    ] as const)('should reject %s', async (_, override) => {
+      await expect(
+        service.create(
+          {
+            product_id: productId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+            ...override,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.price_schedules.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a product schedule overlapping its parent category', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([existing]);
+
+      const error = await service
+        .create(
+          {
+            product_id: productId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        )
+        .catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(ConflictException);
+      expect((error as ConflictException).getResponse()).toMatchObject({
+        error: 'schedule_overlap',
+      });
+      expect(prisma.price_schedules.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            starts_at: { lt: new Date(endsAt) },
+            ends_at: { gt: new Date(startsAt) },
+          }),
+        }),
+      );
+    });
+
+    it('should reject a category schedule overlapping a subcategory', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([
+        { ...existing, category_id: categoryId },
+      ]);
+
+      await expect(
+        service.create(
+          {
+            category_id: parentCategoryId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should allow overlapping schedules on unrelated targets', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([
+        { ...existing, category_id: null, product_id: 'other-product-id' },
+      ]);
+      prisma.products.findMany.mockResolvedValue([
+        { id: productId, category_id: categoryId },
+        { id: 'other-product-id', category_id: null },
+      ]);
+
+      await expect(
+        service.create(
+          {
+            product_id: productId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        ),
+      ).resolves.toMatchObject({ product_id: productId });
+    });
+
+    it('should reject an unknown category', async () => {
+      prisma.categories.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.create(
+          {
+            category_id: categoryId,
+            kind: 'percentage',
+            value: 10,
+            starts_at: startsAt,
+            ends_at: endsAt,
+          },
+          adminId,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should not count the schedule itself as an overlap', async () => {
+      await service.update(scheduleId, { value: 25 });
+
+      expect(prisma.price_schedules.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { not: scheduleId } }),
+        }),
+      );
+      expect(prisma.price_schedules.update).toHaveBeenCalledWith({
+        where: { id: scheduleId },
+        data: expect.objectContaining({ value: new Prisma.Decimal(25) }),
+      });
+    });
+
+    it('should reject changes to a schedule that has ended', async () => {
+      prisma.price_schedules.findUnique.mockResolvedValue({
+        ...existing,
+        starts_at: new Date('2020-01-01T00:00:00Z'),
+        ends_at: new Date('2020-02-01T00:00:00Z'),
+      });
+
+      await expect(service.update(scheduleId, { value: 25 })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should only change the end of a running schedule', async () => {
+      const running = {
+        ...existing,
+        starts_at: new Date('2020-01-01T00:00:00Z'),
+      };
+      prisma.price_schedules.findUnique.mockResolvedValue(running);
+
+      await expect(
+        service.update(scheduleId, { value: 25 }),
+      ).rejects.toMatchObject({ response: { error: 'schedule_started' } });
+      await expect(
+        service.update(scheduleId, { starts_at: startsAt }),
+      ).rejects.toMatchObject({ response: { error: 'schedule_started' } });
+
+      await service.update(scheduleId, { ends_at: endsAt });
+
+      expect(prisma.price_schedules.update).toHaveBeenCalledWith({
+        where: { id: scheduleId },
+        data: expect.objectContaining({
+          value: running.value,
+          starts_at: running.starts_at,
+          ends_at: new Date(endsAt),
+        }),
+      });
+    });
+
+    it('should reject ending a running schedule in the past', async () => {
+      prisma.price_schedules.findUnique.mockResolvedValue({
+        ...existing,
+        starts_at: new Date('2020-01-01T00:00:00Z'),
+      });
+
+      await expect(
+        service.update(scheduleId, { ends_at: '2020-06-01T00:00:00.000Z' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.price_schedules.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject moving the start into the past', async () => {
+      await expect(
+        service.update(scheduleId, { starts_at: '2020-01-01T00:00:00.000Z' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.price_schedules.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete an upcoming schedule', async () => {
+      await service.remove(scheduleId);
+
+      expect(prisma.price_schedules.delete).toHaveBeenCalledWith({
+        where: { id: scheduleId },
+      });
+    });
+
+    it('should end a running schedule now instead of deleting it', async () => {
+      prisma.price_schedules.findUnique.mockResolvedValue({
+        ...existing,
+        starts_at: new Date('2020-01-01T00:00:00Z'),
+      });
+
+      await service.remove(scheduleId);
+
+      expect(prisma.price_schedules.update).toHaveBeenCalledWith({
+        where: { id: scheduleId },
+        data: { ends_at: expect.any(Date) },
+      });
+      expect(prisma.price_schedules.delete).not.toHaveBeenCalled();
+    });
+
+    it('should reject deleting a schedule that has ended', async () => {
+      prisma.price_schedules.findUnique.mockResolvedValue({
+        ...existing,
+        starts_at: new Date('2020-01-01T00:00:00Z'),
+        ends_at: new Date('2020-02-01T00:00:00Z'),
+      });
+
+      await expect(service.remove(scheduleId)).rejects.toMatchObject({
+        response: { error: 'schedule_ended' },
+      });
+      expect(prisma.price_schedules.delete).not.toHaveBeenCalled();
+      expect(prisma.price_schedules.update).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for an unknown schedule', async () => {
+      prisma.price_schedules.findUnique.mockResolvedValue(null);
+
+      await expect(service.remove(scheduleId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
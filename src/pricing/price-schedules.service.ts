@@ -0,0 +1,402 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, price_schedule_kind, price_schedules } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { validationError } from '../common/pipes/validation.pipe';
+import { CreatePriceScheduleDto } from './dto/create-price-schedule.dto';
+import { UpdatePriceScheduleDto } from './dto/update-price-schedule.dto';
+import {
+  ListPriceSchedulesQueryDto,
+  PriceScheduleStatus,
+} from './dto/list-price-schedules-query.dto';
+import { PriceScheduleResponse } from './dto/price-schedule-response.dto';
+import { CategoryParents, categoryLineage } from './utils/price-schedule.util';
+
+type ScheduleTarget = Pick<price_schedules, 'product_id' | 'category_id'>;
+
+@Injectable()
+export class PriceSchedulesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List price schedules, latest start first
+   * @param query - Product, category and status filters, and page
+   * @returns Promise<PaginatedResponse<PriceScheduleResponse>> - One page of schedules
+   */
+  async list(
+    query: ListPriceSchedulesQueryDto,
+  ): Promise<PaginatedResponse<PriceScheduleResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const now = new Date();
+
+    const where: Prisma.price_schedulesWhereInput = {
+      product_id: query.product_id,
+      category_id: query.category_id,
+      ...(query.status === 'upcoming' && { starts_at: { gt: now } }),
+      ...(query.status === 'active' && {
+        starts_at: { lte: now },
+        ends_at: { gt: now },
+      }),
+      ...(query.status === 'ended' && { ends_at: { lte: now } }),
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.price_schedules.findMany({
+        where,
+        orderBy: [{ starts_at: 'desc' }, { id: 'asc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.price_schedules.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toResponse(row, now)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Schedule a sale for a product or a category. Schedules whose periods
+   * overlap cannot cover the same product: not for the same product or
+   * category, nor for a product and its category, nor for a category and
+   * one of its subcategories.
+   * @param createPriceScheduleDto - Target, price and period
+   * @param actorId - Admin creating the schedule
+   * @returns Promise<PriceScheduleResponse> - The created schedule
+   */
+  async create(
+    createPriceScheduleDto: CreatePriceScheduleDto,
+    actorId: string,
+  ): Promise<PriceScheduleResponse> {
+    const { product_id, category_id, kind, value } = createPriceScheduleDto;
+    const startsAt = new Date(createPriceScheduleDto.starts_at);
+    const endsAt = new Date(createPriceScheduleDto.ends_at);
+
+    // null counts as missing, like an omitted field
+    if ((product_id == null) === (category_id == null)) {
+      throw validationError([
+        {
+          field: 'product_id',
+          message: 'Exactly one of product ID and category ID is required',
+        },
+      ]);
+    }
+    this.assertSchedule(kind, value, startsAt, endsAt);
+
+    if (product_id) {
+      await this.assertProductPrice(product_id, kind, value);
+    } else {
+      const category = await this.prisma.categories.findUnique({
+        where: { id: category_id },
+        select: { id: true },
+      });
+      if (!category) {
+        throw new BadRequestException('Category not found');
+      }
+    }
+
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      await this.lockSchedules(tx);
+      await this.assertNoOverlap(
+        tx,
+        { product_id: product_id ?? null, category_id: category_id ?? null },
+        startsAt,
+        endsAt,
+      );
+
+      return await tx.price_schedules.create({
+        data: {
+          product_id,
+          category_id,
+          kind,
+          value: new Prisma.Decimal(value),
+          starts_at: startsAt,
+          ends_at: endsAt,
+          created_by: actorId,
+        },
+      });
+    });
+
+    return this.toResponse(schedule, new Date());
+  }
+
+  /**
+   * Change the price or period of an upcoming schedule. Of a running
+   * schedule only the end can be changed, so the sale prices it already set
+   * stay as they were recorded.
+   * @param id - Schedule ID
+   * @param updatePriceScheduleDto - Fields to change
+   * @returns Promise<PriceScheduleResponse> - The updated schedule
+   */
+  async update(
+    id: string,
+    updatePriceScheduleDto: UpdatePriceScheduleDto,
+  ): Promise<PriceScheduleResponse> {
+    const now = new Date();
+    const existing = await this.findSchedule(id);
+    if (existing.ends_at <= now) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'schedule_ended',
+        message: 'Schedules that have ended cannot be changed',
+      });
+    }
+    if (
+      existing.starts_at <= now &&
+      (updatePriceScheduleDto.kind !== undefined ||
+        updatePriceScheduleDto.value !== undefined ||
+        updatePriceScheduleDto.starts_at !== undefined)
+    ) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'schedule_started',
+        message: 'Only the end of a running schedule can be changed',
+      });
+    }
+
+    const kind = updatePriceScheduleDto.kind ?? existing.kind;
+    const value = updatePriceScheduleDto.value ?? existing.value.toNumber();
+    const startsAt = updatePriceScheduleDto.starts_at
+      ? new Date(updatePriceScheduleDto.starts_at)
+      : existing.starts_at;
+    const endsAt = updatePriceScheduleDto.ends_at
+      ? new Date(updatePriceScheduleDto.ends_at)
+      : existing.ends_at;
+
+    if (updatePriceScheduleDto.starts_at && startsAt < now) {
+      throw validationError([
+        { field: 'starts_at', message: 'Start cannot be in the past' },
+      ]);
+    }
+    this.assertSchedule(kind, value, startsAt, endsAt);
+    // The price of a running schedule is not changing
+    if (existing.product_id && existing.starts_at > now) {
+      await this.assertProductPrice(existing.product_id, kind, value);
+    }
+
+    const schedule = await this.prisma.$transaction(async (tx) => {
+      await this.lockSchedules(tx);
+      await this.assertNoOverlap(tx, existing, startsAt, endsAt, id);
+
+      return await tx.price_schedules.update({
+        where: { id },
+        data: {
+          kind,
+          value: new Prisma.Decimal(value),
+          starts_at: startsAt,
+          ends_at: endsAt,
+        },
+      });
+    });
+
+    return this.toResponse(schedule, new Date());
+  }
+
+  /**
+   * Delete an upcoming schedule, or end a running one now. Prices a running
+   * schedule set go back to what they were on the next scheduler run, and
+   * right away for reads and checkout. Ended schedules are kept as they are.
+   * @param id - Schedule ID
+   */
+  async remove(id: string): Promise<void> {
+    const now = new Date();
+    const schedule = await this.findSchedule(id);
+    if (schedule.ends_at <= now) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'schedule_ended',
+        message: 'Schedules that have ended cannot be deleted',
+      });
+    }
+
+    if (schedule.starts_at <= now) {
+      await this.prisma.price_schedules.update({
+        where: { id },
+        data: { ends_at: now },
+      });
+      return;
+    }
+
+    await this.prisma.price_schedules.delete({ where: { id } });
+  }
+
+  private assertSchedule(
+    kind: price_schedule_kind,
+    value: number,
+    startsAt: Date,
+    endsAt: Date,
+  ): void {
+    if (kind === 'percentage' && (value <= 0 || value >= 100)) {
+      throw validationError([
+        {
+          field: 'value',
+          message: 'Percentage must be greater than 0 and less than 100',
+        },
+      ]);
+    }
+    if (endsAt <= startsAt) {
+      throw validationError([
+        { field: 'ends_at', message: 'End must be after start' },
+      ]);
+    }
+    if (endsAt <= new Date()) {
+      throw validationError([
+        { field: 'ends_at', message: 'End must be in the future' },
+      ]);
+    }
+  }
+
+  // A fixed sale price cannot be above the base price of its product. A
+  // category schedule is not checked against every product in it: where its
+  // fixed price is above a product's base price, scheduledSalePrice keeps
+  // that product at its base price.
+  private async assertProductPrice(
+    productId: string,
+    kind: price_schedule_kind,
+    value: number,
+  ): Promise<void> {
+    const product = await this.prisma.products.findUnique({
+      where: { id: productId },
+      select: { base_price: true },
+    });
+    if (!product) {
+      throw new BadRequestException('Product not found');
+    }
+
+    if (kind === 'fixed' && product.base_price.lt(value)) {
+      throw validationError([
+        {
+          field: 'value',
+          message: 'Sale price must be less than or equal to base price',
+        },
+      ]);
+    }
+  }
+
+  // Serialises schedule changes, so two overlapping schedules created at
+  // the same time cannot both pass the overlap check
+  private async lockSchedules(tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('price_schedules'))`;
+  }
+
+  private async assertNoOverlap(
+    tx: Prisma.TransactionClient,
+    target: ScheduleTarget,
+    startsAt: Date,
+    endsAt: Date,
+    excludeId?: string,
+  ): Promise<void> {
+    const candidates = await tx.price_schedules.findMany({
+      where: {
+        id: excludeId ? { not: excludeId } : undefined,
+        starts_at: { lt: endsAt },
+        ends_at: { gt: startsAt },
+      },
+      orderBy: { starts_at: 'asc' },
+    });
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const categories = await tx.categories.findMany({
+      select: { id: true, parent_id: true },
+    });
+    const parents: CategoryParents = new Map(
+      categories.map((category) => [category.id, category.parent_id]),
+    );
+
+    const productIds = [target, ...candidates].flatMap((schedule) =>
+      schedule.product_id ? [schedule.product_id] : [],
+    );
+    const products = await tx.products.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, category_id: true },
+    });
+    const categoryOf = new Map(
+      products.map((product) => [product.id, product.category_id]),
+    );
+
+    // Categories whose schedules would cover the same products
+    const lineage = (schedule: ScheduleTarget): string[] => {
+      const categoryId =
+        schedule.category_id ?? categoryOf.get(schedule.product_id!);
+      return categoryId ? categoryLineage(categoryId, parents) : [];
+    };
+    const targetLineage = lineage(target);
+
+    const overlapping = candidates.find((candidate) => {
+      if (target.product_id && candidate.product_id) {
+        return target.product_id === candidate.product_id;
+      }
+      if (target.product_id) {
+        return targetLineage.includes(candidate.category_id!);
+      }
+      if (candidate.product_id) {
+        return lineage(candidate).includes(target.category_id!);
+      }
+      return (
+        targetLineage.includes(candidate.category_id!) ||
+        lineage(candidate).includes(target.category_id!)
+      );
+    });
+
+    if (overlapping) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'schedule_overlap',
+        message: `Overlaps schedule ${overlapping.id}, which runs from ${overlapping.starts_at.toISOString()} to ${overlapping.ends_at.toISOString()}`,
+      });
+    }
+  }
+
+  private async findSchedule(id: string): Promise<price_schedules> {
+    const schedule = await this.prisma.price_schedules.findUnique({
+      where: { id },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Price schedule not found');
+    }
+
+    return schedule;
+  }
+
+  private toResponse(
+    schedule: price_schedules,
+    now: Date,
+  ): PriceScheduleResponse {
+    let status: PriceScheduleStatus = 'active';
+    if (schedule.starts_at > now) {
+      status = 'upcoming';
+    } else if (schedule.ends_at <= now) {
+      status = 'ended';
+    }
+
+    return {
+      id: schedule.id,
+      product_id: schedule.product_id,
+      category_id: schedule.category_id,
+      kind: schedule.kind,
+      value: schedule.value.toFixed(2),
+      starts_at: schedule.starts_at,
+      ends_at: schedule.ends_at,
+      status,
+      created_by: schedule.created_by,
+      created_at: schedule.created_at,
+    };
+  }
+}
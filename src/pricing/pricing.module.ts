@@ -0,0 +1,30 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { PricingService } from './pricing.service';
+import { PriceSchedulesService } from './price-schedules.service';
+import { PriceSchedulerService } from './price-scheduler.service';
+import { PriceHistoryService } from './price-history.service';
+import { AdminPriceSchedulesController } from './admin-price-schedules.controller';
+import { AdminPriceHistoryController } from './admin-price-history.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+  ],
+  controllers: [AdminPriceSchedulesController, AdminPriceHistoryController],
+  providers: [
+    PricingService,
+    PriceSchedulesService,
+    PriceSchedulerService,
+    PriceHistoryService,
+  ],
+  exports: [PricingService, PriceHistoryService],
+})
+export class PricingModule {}
@@ -0,0 +1,246 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PricingService } from './pricing.service';
+import { PriceHistoryService } from './price-history.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('PricingService', () => {
+  let service: PricingService;
+  let prisma: any;
+  let priceHistoryService: PriceHistoryService;
+
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const categoryId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+  const parentCategoryId = 'b4b7a3d2-7f63-4d59-9c3e-1a2b3c4d5e6f';
+  const scheduleId = '9b2f6c1e-3d4a-4f5b-8c7d-6e5f4a3b2c1d';
+  const endsAt = new Date('2099-01-01T00:00:00Z');
+
+  const product = {
+    id: productId,
+    category_id: categoryId,
+    base_price: new Prisma.Decimal('100.00'),
+    sale_price: null as Prisma.Decimal | null,
+  };
+
+  const schedule = {
+    id: scheduleId,
+    product_id: null as string | null,
+    category_id: parentCategoryId as string | null,
+    kind: 'percentage',
+    value: new Prisma.Decimal('20'),
+    starts_at: new Date('2026-01-01T00:00:00Z'),
+    ends_at: endsAt,
+  };
+
+  beforeEach(async () => {
+    const prismaMock = {
+      $queryRaw: jest.fn().mockResolvedValue([{ locked: true }]),
+      price_schedules: { findMany: jest.fn().mockResolvedValue([]) },
+      price_schedule_products: {
+        findMany: jest.fn().mockResolvedValue([]),
+        upsert: jest.fn(),
+        delete: jest.fn(),
+      },
+      categories: {
+        findMany: jest.fn().mockResolvedValue([
+          { id: categoryId, parent_id: parentCategoryId },
+          { id: parentCategoryId, parent_id: null },
+        ]),
+      },
+      products: {
+        findMany: jest.fn().mockResolvedValue([]),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricingService,
+        { provide: PrismaService, useValue: prismaMock },
+        { provide: PriceHistoryService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<PricingService>(PricingService);
+    prisma = module.get<PrismaService>(PrismaService);
+    priceHistoryService = module.get<PriceHistoryService>(PriceHistoryService);
+  });
+
+  describe('resolve', () => {
+    it('should price products in a category with a running schedule', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([schedule]);
+
+      const prices = await service.resolve([product]);
+
+      expect(prices.get(productId)?.sale_price?.toFixed(2)).toBe('80.00');
+      expect(prices.get(productId)?.sale_ends_at).toBe(endsAt);
+    });
+
+    it('should not raise a price above the base price for a category fixed price', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([
+        { ...schedule, kind: 'fixed', value: new Prisma.Decimal('120.00') },
+      ]);
+
+      const prices = await service.resolve([product]);
+
+      expect(prices.get(productId)?.sale_price?.toFixed(2)).toBe('100.00');
+    });
+
+    it('should keep the stored sale price without a schedule', async () => {
+      const prices = await service.resolve([
+        { ...product, sale_price: new Prisma.Decimal('90.00') },
+      ]);
+
+      expect(prices.get(productId)).toEqual({
+        sale_price: new Prisma.Decimal('90.00'),
+        sale_ends_at: null,
+      });
+      expect(prisma.categories.findMany).not.toHaveBeenCalled();
+    });
+
+    it('should restore the previous price of a schedule that is over', async () => {
+      prisma.price_schedule_products.findMany.mockResolvedValue([
+        {
+          product_id: productId,
+          schedule_id: scheduleId,
+          previous_sale_price: new Prisma.Decimal('95.00'),
+          applied_sale_price: new Prisma.Decimal('80.00'),
+        },
+      ]);
+
+      const prices = await service.resolve([
+        { ...product, sale_price: new Prisma.Decimal('80.00') },
+      ]);
+
+      expect(prices.get(productId)?.sale_price).toEqual(
+        new Prisma.Decimal('95.00'),
+      );
+    });
+  });
+
+  describe('applySchedules', () => {
+    it('should set the sale price and remember the previous one', async () => {
+      prisma.price_schedules.findMany.mockResolvedValue([schedule]);
+      prisma.products.findMany.mockResolvedValue([
+        {
+          ...product,
+          sale_price: new Prisma.Decimal('95.00'),
+          scheduled_sale: null,
+        },
+      ]);
+
+      const result = await service.applySchedules();
+
+      expect(result).toEqual({ applied: 1, reverted: 0 });
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { id: productId, sale_price: new Prisma.Decimal('95.00') },
+        data: { sale_price: new Prisma.Decimal('80.00') },
+      });
+      expect(prisma.price_schedule_products.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            product_id: productId,
+            schedule_id: scheduleId,
+            previous_sale_price: new Prisma.Decimal('95.00'),
+            applied_sale_price: new Prisma.Decimal('80.00'),
+          }),
+        }),
+      );
+      expect(priceHistoryService.record).toHaveBeenCalledWith(
+        prisma,
+        [productId],
+        { reason: 'schedule', schedule_id: scheduleId },
+      );
+    });
+
+    it('should restore the previous price once no schedule applies', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        {
+          ...product,
+          sale_price: new Prisma.Decimal('80.00'),
+          scheduled_sale: {
+            product_id: productId,
+            schedule_id: scheduleId,
+            previous_sale_price: null,
+            applied_sale_price: new Prisma.Decimal('80.00'),
+          },
+        },
+      ]);
+
+      const result = await service.applySchedules();
+
+      expect(result).toEqual({ applied: 0, reverted: 1 });
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { id: productId, sale_price: new Prisma.Decimal('80.00') },
+        data: { sale_price: null },
+      });
+      expect(prisma.price_schedule_products.delete).toHaveBeenCalledWith({
+        where: { product_id: productId },
+      });
+      expect(priceHistoryService.record).toHaveBeenCalledWith(
+        prisma,
+        [productId],
+        { reason: 'schedule', schedule_id: scheduleId, note: 'Schedule ended' },
+      );
+    });
+
+    it('should keep the application when the price changed meanwhile', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        {
+          ...product,
+          sale_price: new Prisma.Decimal('80.00'),
+          scheduled_sale: {
+            product_id: productId,
+            schedule_id: scheduleId,
+            previous_sale_price: null,
+            applied_sale_price: new Prisma.Decimal('80.00'),
+          },
+        },
+      ]);
+      prisma.products.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await service.applySchedules();
+
+      expect(result).toEqual({ applied: 0, reverted: 0 });
+      expect(prisma.price_schedule_products.delete).not.toHaveBeenCalled();
+      expect(priceHistoryService.record).not.toHaveBeenCalled();
+    });
+
+    it('should keep a sale price changed by hand during a schedule', async () => {
+      prisma.products.findMany.mockResolvedValue([
+        {
+          ...product,
+          sale_price: new Prisma.Decimal('70.00'),
+          scheduled_sale: {
+            product_id: productId,
+            schedule_id: scheduleId,
+            previous_sale_price: null,
+            applied_sale_price: new Prisma.Decimal('80.00'),
+          },
+        },
+      ]);
+
+      await service.applySchedules();
+
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { id: productId, sale_price: new Prisma.Decimal('70.00') },
+        data: { sale_price: new Prisma.Decimal('70.00') },
+      });
+    });
+
+    it('should do nothing while another instance holds the lock', async () => {
+      prisma.$queryRaw.mockResolvedValue([{ locked: false }]);
+
+      const result = await service.applySchedules();
+
+      expect(result).toEqual({ applied: 0, reverted: 0 });
+      expect(prisma.products.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
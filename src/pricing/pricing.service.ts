@@ -0,0 +1,258 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, price_schedules } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { PriceHistoryService } from './price-history.service';
+import {
+  CategoryParents,
+  categoryLineage,
+  scheduleForProduct,
+  scheduledSalePrice,
+} from './utils/price-schedule.util';
+
+export interface PricedProduct {
+  id: string;
+  category_id: string | null;
+  base_price: Prisma.Decimal;
+  sale_price: Prisma.Decimal | null;
+}
+
+export interface ResolvedPrice {
+  sale_price: Prisma.Decimal | null;
+  // End of the schedule setting the sale price, or null for a regular price
+  sale_ends_at: Date | null;
+}
+
+export interface ScheduleRunResult {
+  applied: number;
+  reverted: number;
+}
+
+/**
+ * Effective sale prices. The scheduler writes the price of a running
+ * schedule to products.sale_price, so SQL filters and sorting see it, and
+ * restores the previous price once the schedule is over. Reads and checkout
+ * resolve schedules themselves, so prices change on time even between
+ * scheduler runs.
+ */
+@Injectable()
+export class PricingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly priceHistoryService: PriceHistoryService,
+  ) {}
+
+  /**
+   * Sale prices of products right now
+   * @param products - Products with their stored prices
+   * @param client - Transaction client, e.g. during checkout
+   * @returns Promise<Map<string, ResolvedPrice>> - Price of every given product, by ID
+   */
+  async resolve(
+    products: PricedProduct[],
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<Map<string, ResolvedPrice>> {
+    const prices = new Map<string, ResolvedPrice>();
+    if (products.length === 0) {
+      return prices;
+    }
+
+    const schedules = await this.activeSchedules(client, new Date());
+    const parents = await this.categoryParents(client, schedules);
+    const applications = await client.price_schedule_products.findMany({
+      where: { product_id: { in: products.map((product) => product.id) } },
+    });
+    const applicationsByProduct = new Map(
+      applications.map((application) => [application.product_id, application]),
+    );
+
+    for (const product of products) {
+      const schedule = scheduleForProduct(product, schedules, parents);
+      if (schedule) {
+        prices.set(product.id, {
+          sale_price: scheduledSalePrice(schedule, product.base_price),
+          sale_ends_at: schedule.ends_at,
+        });
+        continue;
+      }
+
+      // A schedule that is over but not reverted yet
+      const application = applicationsByProduct.get(product.id);
+      prices.set(product.id, {
+        sale_price:
+          application &&
+          this.samePrice(product.sale_price, application.applied_sale_price)
+            ? application.previous_sale_price
+            : product.sale_price,
+        sale_ends_at: null,
+      });
+    }
+
+    return prices;
+  }
+
+  /**
+   * Write the prices of running schedules to products.sale_price and
+   * restore the prices of products no schedule applies to any more. A sale
+   * price changed by hand during a schedule becomes the price restored at
+   * its end. Changes are recorded in the price history. Only one instance
+   * runs at a time.
+   * @returns Promise<ScheduleRunResult> - Products whose sale price was set or restored
+   */
+  async applySchedules(): Promise<ScheduleRunResult> {
+    return await this.prisma.$transaction(
+      async (tx) => {
+        const [{ locked }] = await tx.$queryRaw<{ locked: boolean }[]>`
+          SELECT pg_try_advisory_xact_lock(hashtext('price_schedules_apply')) AS locked
+        `;
+        if (!locked) {
+          // Another instance is applying schedules right now
+          return { applied: 0, reverted: 0 };
+        }
+
+        const schedules = await this.activeSchedules(tx, new Date());
+        const parents = await this.categoryParents(tx, schedules);
+
+        const productIds = schedules.flatMap((schedule) =>
+          schedule.product_id ? [schedule.product_id] : [],
+        );
+        const categoryIds = [...parents.keys()].filter((categoryId) =>
+          schedules.some(
+            (schedule) =>
+              schedule.category_id &&
+              categoryLineage(categoryId, parents).includes(
+                schedule.category_id,
+              ),
+          ),
+        );
+        const products = await tx.products.findMany({
+          where: {
+            OR: [
+              { id: { in: productIds } },
+              { category_id: { in: categoryIds } },
+              { scheduled_sale: { isNot: null } },
+            ],
+          },
+          select: {
+            id: true,
+            category_id: true,
+            base_price: true,
+            sale_price: true,
+            scheduled_sale: true,
+          },
+        });
+
+        const result = { applied: 0, reverted: 0 };
+        for (const product of products) {
+          const schedule = scheduleForProduct(product, schedules, parents);
+          const application = product.scheduled_sale;
+
+          // The price outside of schedules: kept from before the schedule,
+          // unless it was changed by hand since the schedule applied
+          const regularPrice =
+            application &&
+            this.samePrice(product.sale_price, application.applied_sale_price)
+              ? application.previous_sale_price
+              : product.sale_price;
+
+          if (!schedule) {
+            // Only products with an application get here without a schedule.
+            // The application is kept when the price changed since it was
+            // read, so the next run reverts it.
+            const { count } = await tx.products.updateMany({
+              where: { id: product.id, sale_price: product.sale_price },
+              data: { sale_price: regularPrice },
+            });
+            if (count === 0) {
+              continue;
+            }
+            await this.priceHistoryService.record(tx, [product.id], {
+              reason: 'schedule',
+              schedule_id: application!.schedule_id,
+              note: 'Schedule ended',
+            });
+            await tx.price_schedule_products.delete({
+              where: { product_id: product.id },
+            });
+            result.reverted++;
+            continue;
+          }
+
+          const price = scheduledSalePrice(schedule, product.base_price);
+          if (
+            application?.schedule_id === schedule.id &&
+            this.samePrice(application.applied_sale_price, price) &&
+            this.samePrice(product.sale_price, price)
+          ) {
+            continue;
+          }
+
+          // Skipped when the price changed since it was read; the next run
+          // picks the product up again
+          const { count } = await tx.products.updateMany({
+            where: { id: product.id, sale_price: product.sale_price },
+            data: { sale_price: price },
+          });
+          if (count === 0) {
+            continue;
+          }
+          await this.priceHistoryService.record(tx, [product.id], {
+            reason: 'schedule',
+            schedule_id: schedule.id,
+          });
+
+          const data = {
+            schedule_id: schedule.id,
+            previous_sale_price: regularPrice,
+            applied_sale_price: price,
+            applied_at: new Date(),
+          };
+          await tx.price_schedule_products.upsert({
+            where: { product_id: product.id },
+            create: { product_id: product.id, ...data },
+            update: data,
+          });
+          result.applied++;
+        }
+
+        return result;
+      },
+      // Starting a sale on a large category touches many products
+      { timeout: 60_000 },
+    );
+  }
+
+  private async activeSchedules(
+    client: Prisma.TransactionClient,
+    at: Date,
+  ): Promise<price_schedules[]> {
+    return await client.price_schedules.findMany({
+      where: { starts_at: { lte: at }, ends_at: { gt: at } },
+      orderBy: { starts_at: 'asc' },
+    });
+  }
+
+  // The category tree is only needed when a category schedule is running
+  private async categoryParents(
+    client: Prisma.TransactionClient,
+    schedules: price_schedules[],
+  ): Promise<CategoryParents> {
+    if (!schedules.some((schedule) => schedule.category_id)) {
+      return new Map();
+    }
+
+    const categories = await client.categories.findMany({
+      select: { id: true, parent_id: true },
+    });
+    return new Map(
+      categories.map((category) => [category.id, category.parent_id]),
+    );
+  }
+
+  private samePrice(
+    a: Prisma.Decimal | null,
+    b: Prisma.Decimal | null,
+  ): boolean {
+    return a === null || b === null ? a === b : a.equals(b);
+  }
+}
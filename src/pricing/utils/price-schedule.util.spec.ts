@@ -0,0 +1,112 @@
+import { Prisma } from '@prisma/client';
+import {
+  categoryLineage,
+  scheduleForProduct,
+  scheduledSalePrice,
+} from './price-schedule.util';
+
+describe('scheduledSalePrice', () => {
+  const basePrice = new Prisma.Decimal('49.99');
+
+  it('should take a percentage off the base price, rounding half up', () => {
+    expect(
+      scheduledSalePrice(
+        { kind: 'percentage', value: new Prisma.Decimal('15') },
+        basePrice,
+      ).toFixed(2),
+    ).toBe('42.49');
+  });
+
+  it('should use a fixed value as the sale price', () => {
+    expect(
+      scheduledSalePrice(
+        { kind: 'fixed', value: new Prisma.Decimal('39.00') },
+        basePrice,
+      ).toFixed(2),
+    ).toBe('39.00');
+  });
+
+  it('should never go above the base price', () => {
+    expect(
+      scheduledSalePrice(
+        { kind: 'fixed', value: new Prisma.Decimal('59.00') },
+        basePrice,
+      ).toFixed(2),
+    ).toBe('49.99');
+  });
+});
+
+describe('categoryLineage', () => {
+  const parents = new Map<string, string | null>([
+    ['laptops', 'computers'],
+    ['computers', 'electronics'],
+    ['electronics', null],
+  ]);
+
+  it('should list a category and its ancestors, nearest first', () => {
+    expect(categoryLineage('laptops', parents)).toEqual([
+      'laptops',
+      'computers',
+      'electronics',
+    ]);
+  });
+
+  it('should stop at a cycle', () => {
+    const cyclic = new Map([
+      ['a', 'b'],
+      ['b', 'a'],
+    ]);
+
+    expect(categoryLineage('a', cyclic)).toEqual(['a', 'b']);
+  });
+});
+
+describe('scheduleForProduct', () => {
+  const parents = new Map<string, string | null>([
+    ['laptops', 'computers'],
+    ['computers', 'electronics'],
+    ['electronics', null],
+  ]);
+  const product = { id: 'laptop-1', category_id: 'laptops' };
+
+  it('should prefer the schedule of the product itself', () => {
+    const own = { id: 'own', product_id: 'laptop-1', category_id: null };
+    const category = {
+      id: 'category',
+      product_id: null,
+      category_id: 'laptops',
+    };
+
+    expect(scheduleForProduct(product, [category, own], parents)).toBe(own);
+  });
+
+  it('should use the schedule of the nearest category', () => {
+    const electronics = {
+      id: 'electronics',
+      product_id: null,
+      category_id: 'electronics',
+    };
+    const computers = {
+      id: 'computers',
+      product_id: null,
+      category_id: 'computers',
+    };
+
+    expect(scheduleForProduct(product, [electronics, computers], parents)).toBe(
+      computers,
+    );
+  });
+
+  it('should ignore schedules of other products and categories', () => {
+    expect(
+      scheduleForProduct(
+        product,
+        [
+          { id: 'other', product_id: 'laptop-2', category_id: null },
+          { id: 'books', product_id: null, category_id: 'books' },
+        ],
+        parents,
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { Prisma, price_schedules } from '@prisma/client';
+
+export type CategoryParents = Map<string, string | null>;
+
+/**
+ * Sale price a schedule sets for a product. Percentages are taken off the
+ * base price and rounded half up to cents. A schedule never raises the
+ * price above the base price.
+ * @param schedule - Kind and value of the schedule
+ * @param basePrice - Base price of the product
+ * @returns Prisma.Decimal - The sale price
+ */
+export function scheduledSalePrice(
+  schedule: Pick<price_schedules, 'kind' | 'value'>,
+  basePrice: Prisma.Decimal,
+): Prisma.Decimal {
+  const price =
+    schedule.kind === 'percentage'
+      ? basePrice
+          .mul(new Prisma.Decimal(100).sub(schedule.value))
+          .div(100)
+          .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP)
+      : schedule.value;
+
+  return Prisma.Decimal.min(price, basePrice);
+}
+
+/**
+ * A category followed by its parent, grandparent and so on up to the root
+ * @param categoryId - Category ID
+ * @param parents - Parent of every category
+ * @returns string[] - Category IDs, nearest first
+ */
+export function categoryLineage(
+  categoryId: string,
+  parents: CategoryParents,
+): string[] {
+  const lineage: string[] = [];
+  let current: string | null | undefined = categoryId;
+
+  // The tree has no cycles, but a bad row must not hang the caller
+  while (current && !lineage.includes(current)) {
+    lineage.push(current);
+    current = parents.get(current);
+  }
+
+  return lineage;
+}
+
+/**
+ * The schedule that applies to a product among the given ones: its own
+ * schedule, or else the schedule of its category or of the nearest parent
+ * category that has one. Schedules do not overlap, so there is normally at
+ * most one candidate; when products move between categories there can be
+ * more, and the nearest wins.
+ * @param product - Product ID and category
+ * @param schedules - Schedules to choose from, e.g. the active ones
+ * @param parents - Parent of every category
+ * @returns T | null - The applicable schedule, if any
+ */
+export function scheduleForProduct<
+  T extends Pick<price_schedules, 'product_id' | 'category_id'>,
+>(
+  product: { id: string; category_id: string | null },
+  schedules: T[],
+  parents: CategoryParents,
+): T | null {
+  const own = schedules.find((schedule) => schedule.product_id === product.id);
+  if (own) {
+    return own;
+  }
+  if (!product.category_id) {
+    return null;
+  }
+
+  for (const categoryId of categoryLineage(product.category_id, parents)) {
+    const schedule = schedules.find(
+      (candidate) => candidate.category_id === categoryId,
+    );
+    if (schedule) {
+      return schedule;
+    }
+  }
+
+  return null;
+}
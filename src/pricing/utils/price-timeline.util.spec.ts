@@ -0,0 +1,172 @@
+import { Prisma } from '@prisma/client';
+import {
+  TimelineEntry,
+  lowestPriceBefore,
+  timelinePriceAt,
+  variantPriceAt,
+} from './price-timeline.util';
+
+describe('price timeline', () => {
+  const scheduleId = '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a';
+
+  const day = (n: number, minutes = 0) =>
+    new Date(Date.UTC(2026, 8, 1) + (n * 24 * 60 + minutes) * 60 * 1000);
+
+  const entry = (
+    createdAt: Date,
+    salePrice: string | null,
+    overrides: Partial<TimelineEntry> = {},
+  ): TimelineEntry => ({
+    base_price: new Prisma.Decimal('50.00'),
+    sale_price: salePrice === null ? null : new Prisma.Decimal(salePrice),
+    reason: 'admin',
+    schedule_id: null,
+    created_at: createdAt,
+    ...overrides,
+  });
+
+  describe('timelinePriceAt', () => {
+    it('should return the last prices recorded before that time', () => {
+      const result = timelinePriceAt(
+        [entry(day(0), null), entry(day(10), '45.00')],
+        day(20),
+      );
+
+      expect(result).toEqual({
+        base_price: new Prisma.Decimal('50.00'),
+        sale_price: new Prisma.Decimal('45.00'),
+        since: day(10),
+        reason: 'admin',
+        schedule_id: null,
+      });
+    });
+
+    it('should keep the regular price until the scheduler recorded a sale', () => {
+      const entries = [
+        entry(day(0), '45.00'),
+        entry(day(30, 5), '40.00', {
+          reason: 'schedule',
+          schedule_id: scheduleId,
+        }),
+      ];
+
+      expect(timelinePriceAt(entries, day(30, 1))).toMatchObject({
+        sale_price: new Prisma.Decimal('45.00'),
+        since: day(0),
+        reason: 'admin',
+      });
+      expect(timelinePriceAt(entries, day(30, 10))).toMatchObject({
+        sale_price: new Prisma.Decimal('40.00'),
+        since: day(30, 5),
+        reason: 'schedule',
+        schedule_id: scheduleId,
+      });
+    });
+
+    it('should return null before the first recorded price', () => {
+      expect(timelinePriceAt([entry(day(10), null)], day(5))).toBe(null);
+    });
+  });
+
+  describe('variantPriceAt', () => {
+    const variantEntry = (createdAt: Date, price: string | null) => ({
+      variant_price: price === null ? null : new Prisma.Decimal(price),
+      reason: 'admin' as const,
+      created_at: createdAt,
+    });
+
+    it('should discount a price of its own like the product', () => {
+      const result = variantPriceAt(
+        [entry(day(0), '45.00')],
+        [variantEntry(day(5), '60.00')],
+        day(10),
+      );
+
+      expect(result).toEqual({
+        base_price: new Prisma.Decimal('60.00'),
+        sale_price: new Prisma.Decimal('54.00'),
+        since: day(5),
+        reason: 'admin',
+        schedule_id: null,
+      });
+    });
+
+    it('should sell at the product prices before it had a price of its own', () => {
+      const result = variantPriceAt(
+        [entry(day(0), '45.00')],
+        [variantEntry(day(5), '60.00')],
+        day(3),
+      );
+
+      expect(result).toMatchObject({
+        base_price: new Prisma.Decimal('50.00'),
+        sale_price: new Prisma.Decimal('45.00'),
+        since: day(0),
+      });
+    });
+  });
+
+  describe('lowestPriceBefore', () => {
+    it('should take the lowest price in the period before the current price', () => {
+      const result = lowestPriceBefore(
+        [
+          entry(day(0), null),
+          entry(day(35), '45.00'),
+          entry(day(45), '48.00'),
+          entry(day(60), '42.00'),
+        ],
+        day(61),
+        30,
+      );
+
+      expect(result).toEqual(new Prisma.Decimal('45.00'));
+    });
+
+    it('should count a price in effect when the period started', () => {
+      const result = lowestPriceBefore(
+        [entry(day(0), '44.00'), entry(day(50), null), entry(day(60), '42.00')],
+        day(61),
+        30,
+      );
+
+      expect(result).toEqual(new Prisma.Decimal('44.00'));
+    });
+
+    it('should see a recorded schedule price as the current price', () => {
+      const result = lowestPriceBefore(
+        [
+          entry(day(0), null),
+          entry(day(30, 5), '40.00', {
+            reason: 'schedule',
+            schedule_id: scheduleId,
+          }),
+        ],
+        day(31),
+        30,
+      );
+
+      expect(result).toEqual(new Prisma.Decimal('50.00'));
+    });
+
+    it('should follow the prices a variant had of its own', () => {
+      const result = lowestPriceBefore([entry(day(0), null)], day(61), 30, [
+        {
+          variant_price: new Prisma.Decimal('40.00'),
+          reason: 'admin',
+          created_at: day(45),
+        },
+        {
+          variant_price: null,
+          reason: 'admin',
+          created_at: day(60),
+        },
+      ]);
+
+      expect(result).toEqual(new Prisma.Decimal('40.00'));
+    });
+
+    it('should return null when nothing is known before the current price', () => {
+      expect(lowestPriceBefore([entry(day(0), null)], day(10), 30)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Prisma, price_change_reason, price_history } from '@prisma/client';
+
+import { variantPrices } from './variant-price.util';
+
+export type TimelineEntry = Pick<
+  price_history,
+  'base_price' | 'sale_price' | 'reason' | 'schedule_id' | 'created_at'
+>;
+
+// Price a variant had of its own from then on
+export type VariantTimelineEntry = Pick<
+  price_history,
+  'variant_price' | 'reason' | 'created_at'
+>;
+
+export interface TimelinePrice {
+  base_price: Prisma.Decimal;
+  sale_price: Prisma.Decimal | null;
+  // When these prices took effect
+  since: Date;
+  reason: price_change_reason;
+  schedule_id: string | null;
+}
+
+/**
+ * Prices of a product at a point in time, as recorded. Sale prices of
+ * schedules count from when the scheduler wrote them to the product.
+ * @param entries - Prices recorded for the product, oldest first
+ * @param at - Point in time
+ * @returns TimelinePrice | null - The prices, or null before the first recorded one
+ */
+export function timelinePriceAt(
+  entries: TimelineEntry[],
+  at: Date,
+): TimelinePrice | null {
+  const entry = entries.findLast((row) => row.created_at <= at);
+  if (!entry) {
+    return null;
+  }
+
+  return {
+    base_price: entry.base_price,
+    sale_price: entry.sale_price,
+    since: entry.created_at,
+    reason: entry.reason,
+    schedule_id: entry.schedule_id,
+  };
+}
+
+/**
+ * Prices of a variant at a point in time: the product's prices as
+ * timelinePriceAt has them, with the price the variant had of its own then
+ * applied like variantPrices does.
+ * @param entries - Prices recorded for the product, oldest first
+ * @param variantEntries - Prices recorded for the variant, oldest first
+ * @param at - Point in time
+ * @returns TimelinePrice | null - The prices, or null before the first recorded product price
+ */
+export function variantPriceAt(
+  entries: TimelineEntry[],
+  variantEntries: VariantTimelineEntry[],
+  at: Date,
+): TimelinePrice | null {
+  const prices = timelinePriceAt(entries, at);
+  if (!prices) {
+    return null;
+  }
+
+  // Variants without a recorded price have always sold at the product's
+  const entry = variantEntries.findLast((row) => row.created_at <= at);
+  const converted = variantPrices(entry?.variant_price ?? null, prices);
+  if (!entry || entry.created_at <= prices.since) {
+    return { ...prices, ...converted };
+  }
+
+  return {
+    ...converted,
+    since: entry.created_at,
+    reason: entry.reason,
+    schedule_id: null,
+  };
+}
+
+/**
+ * Lowest price of a product, or of one of its variants, in the given number
+ * of days before its current price took effect. The price is the sale price
+ * if any, else the base price.
+ * @param entries - Prices recorded for the product, oldest first
+ * @param now - Current time
+ * @param days - Length of the period
+ * @param variantEntries - Prices recorded for the variant, oldest first; none for the product itself
+ * @returns Prisma.Decimal | null - The lowest price, or null when nothing is known before the current price
+ */
+export function lowestPriceBefore(
+  entries: TimelineEntry[],
+  now: Date,
+  days: number,
+  variantEntries: VariantTimelineEntry[] = [],
+): Prisma.Decimal | null {
+  const changes = priceChanges(entries, variantEntries, now);
+  if (changes.length < 2) {
+    return null;
+  }
+
+  const since = changes[changes.length - 1].since;
+  const from = new Date(since.getTime() - days * 24 * 60 * 60 * 1000);
+
+  // Prices that were still in effect when the period started, or set during it
+  const earlier = changes
+    .slice(0, -1)
+    .filter((change, index) => changes[index + 1].since > from)
+    .map((change) => change.price);
+
+  return Prisma.Decimal.min(...earlier);
+}
+
+/**
+ * Every time the price of a product or variant changed, up to now
+ */
+function priceChanges(
+  entries: TimelineEntry[],
+  variantEntries: VariantTimelineEntry[],
+  now: Date,
+): { since: Date; price: Prisma.Decimal }[] {
+  // Prices only change when an entry was recorded
+  const times = [
+    ...entries.map((entry) => entry.created_at),
+    ...variantEntries.map((entry) => entry.created_at),
+  ]
+    .filter((time) => time <= now)
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  const changes: { since: Date; price: Prisma.Decimal }[] = [];
+  for (const time of times) {
+    const prices = variantPriceAt(entries, variantEntries, time);
+    if (!prices) {
+      continue;
+    }
+
+    const price = prices.sale_price ?? prices.base_price;
+    if (!changes.at(-1)?.price.equals(price)) {
+      changes.push({ since: time, price });
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,30 @@
+import { Prisma } from '@prisma/client';
+import { variantPrices } from './variant-price.util';
+
+describe('variantPrices', () => {
+  const product = {
+    base_price: new Prisma.Decimal('40.00'),
+    sale_price: new Prisma.Decimal('30.00'),
+  };
+
+  it('should use the product prices when the variant has none', () => {
+    expect(variantPrices(null, product)).toEqual(product);
+  });
+
+  it('should discount a variant price like the product, rounding half up', () => {
+    const prices = variantPrices(new Prisma.Decimal('45.50'), product);
+
+    expect(prices.base_price.toFixed(2)).toBe('45.50');
+    // 45.50 x 30 / 40 = 34.125
+    expect(prices.sale_price?.toFixed(2)).toBe('34.13');
+  });
+
+  it('should leave a variant price alone when the product is not on sale', () => {
+    expect(
+      variantPrices(new Prisma.Decimal('45.50'), {
+        base_price: product.base_price,
+        sale_price: null,
+      }).sale_price,
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { Prisma } from '@prisma/client';
+
+export interface VariantPrices {
+  base_price: Prisma.Decimal;
+  sale_price: Prisma.Decimal | null;
+}
+
+/**
+ * Prices of a variant. A variant without a price of its own sells at the
+ * product's prices. One with a price is discounted in the same proportion
+ * as the product, rounded half up to cents.
+ * @param variantPrice - Price of the variant, if it overrides the product's
+ * @param product - Base and sale price of the product, as resolved for display
+ * @returns VariantPrices - Base and sale price of the variant
+ */
+export function variantPrices(
+  variantPrice: Prisma.Decimal | null,
+  product: VariantPrices,
+): VariantPrices {
+  if (!variantPrice) {
+    return { base_price: product.base_price, sale_price: product.sale_price };
+  }
+
+  // A product priced at zero has no proportion to apply
+  const salePrice =
+    product.sale_price && product.base_price.gt(0)
+      ? variantPrice
+          .mul(product.sale_price)
+          .div(product.base_price)
+          .toDecimalPlaces(2, Prisma.Decimal.ROUND_HALF_UP)
+      : null;
+
+  return { base_price: variantPrice, sale_price: salePrice };
+}
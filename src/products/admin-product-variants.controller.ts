@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+
+import { ProductVariantsService } from './product-variants.service';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { SetProductOptionsDto } from './dto/set-product-options.dto';
+import {
+  ProductVariantDeletionResponse,
+  ProductVariantResponse,
+} from './dto/product-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/products')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminProductVariantsController {
+  constructor(
+    private readonly productVariantsService: ProductVariantsService,
+  ) {}
+
+  /**
+   * List the variants of a product, including archived ones
+   * GET /admin/products/:id/variants
+   */
+  @Get(':id/variants')
+  @HttpCode(HttpStatus.OK)
+  async listVariants(
+    @Param('id', ParseUUIDPipe) productId: string,
+  ): Promise<ProductVariantResponse[]> {
+    return await this.productVariantsService.list(productId);
+  }
+
+  /**
+   * Add a variant to a product
+   * POST /admin/products/:id/variants
+   */
+  @Post(':id/variants')
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createVariant(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Body() createProductVariantDto: CreateProductVariantDto,
+    @Request() req: any,
+  ): Promise<ProductVariantResponse> {
+    return await this.productVariantsService.create(
+      productId,
+      createProductVariantDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Update a variant of a product
+   * PATCH /admin/products/:id/variants/:variantId
+   */
+  @Patch(':id/variants/:variantId')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async updateVariant(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Param('variantId', ParseUUIDPipe) variantId: string,
+    @Body() updateProductVariantDto: UpdateProductVariantDto,
+    @Request() req: any,
+  ): Promise<ProductVariantResponse> {
+    return await this.productVariantsService.update(
+      productId,
+      variantId,
+      updateProductVariantDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Delete a variant, or archive it if it appears in orders
+   * DELETE /admin/products/:id/variants/:variantId
+   */
+  @Delete(':id/variants/:variantId')
+  @HttpCode(HttpStatus.OK)
+  async deleteVariant(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Param('variantId', ParseUUIDPipe) variantId: string,
+    @Request() req: any,
+  ): Promise<ProductVariantDeletionResponse> {
+    return await this.productVariantsService.remove(
+      productId,
+      variantId,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Set the option names of a product, e.g. size and color
+   * PUT /admin/products/:id/options
+   */
+  @Put(':id/options')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async setOptions(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Body() setProductOptionsDto: SetProductOptionsDto,
+  ): Promise<ProductVariantResponse[]> {
+    return await this.productVariantsService.setOptions(
+      productId,
+      setProductOptionsDto,
+    );
+  }
+}
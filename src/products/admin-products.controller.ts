@@ -0,0 +1,221 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+  Request,
+  StreamableFile,
+  UseInterceptors,
+  UploadedFile,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Readable } from 'stream';
+import type { Request as ExpressRequest } from 'express';
+
+import { ProductsService } from './products.service';
+import { ProductImportService } from './product-import.service';
+import { CreateProductDto } from './dto/create-product.dto';
+import { UpdateProductDto } from './dto/update-product.dto';
+import { ReorderProductImagesDto } from './dto/reorder-product-images.dto';
+import { SetMainImageDto } from './dto/set-main-image.dto';
+import { AdminListProductsQueryDto } from './dto/list-products-query.dto';
+import {
+  ExportProductsQueryDto,
+  ImportProductsQueryDto,
+} from './dto/import-products-query.dto';
+import { ImportProductsResponse } from './dto/import-products-response.dto';
+import {
+  ProductDeletionResponse,
+  ProductResponse,
+} from './dto/product-response.dto';
+import { UploadedImageResponse } from '../storage/dto/uploaded-image-response.dto';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/products')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminProductsController {
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly productImportService: ProductImportService,
+  ) {}
+
+  /**
+   * List all products, including archived ones
+   * GET /admin/products
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listProducts(
+    @Query() query: AdminListProductsQueryDto,
+  ): Promise<PaginatedResponse<ProductResponse>> {
+    return await this.productsService.list(query, true);
+  }
+
+  /**
+   * Download the whole catalog as CSV or JSON Lines
+   * GET /admin/products/export
+   */
+  @Get('export')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  exportProducts(@Query() query: ExportProductsQueryDto): StreamableFile {
+    const format = query.format || 'csv';
+
+    return new StreamableFile(
+      Readable.from(this.productImportService.exportCatalog(format)),
+      {
+        type:
+          format === 'csv'
+            ? 'text/csv; charset=utf-8'
+            : 'application/x-ndjson; charset=utf-8',
+        disposition: `attachment; filename="products.${format === 'csv' ? 'csv' : 'jsonl'}"`,
+      },
+    );
+  }
+
+  /**
+   * Create or update products from a CSV (text/csv), JSON array
+   * (application/json) or JSON Lines (application/x-ndjson) body. JSON
+   * arrays are subject to the body size limit; CSV and JSON Lines are
+   * streamed, so large files should use them.
+   * POST /admin/products/import
+   */
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async importProducts(
+    @Query() query: ImportProductsQueryDto,
+    @Request() req: ExpressRequest & { user: { id: string } },
+  ): Promise<ImportProductsResponse> {
+    return await this.productImportService.import(
+      {
+        contentType: req.headers['content-type'],
+        body: req.body,
+        stream: req,
+      },
+      query.dry_run ?? false,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Get a product by ID
+   * GET /admin/products/:id
+   */
+  @Get(':id')
+  @HttpCode(HttpStatus.OK)
+  async getProduct(
+    @Param('id', ParseUUIDPipe) productId: string,
+  ): Promise<ProductResponse> {
+    return await this.productsService.findById(productId);
+  }
+
+  /**
+   * Create a product
+   * POST /admin/products
+   */
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @UsePipes(createValidationPipe())
+  async createProduct(
+    @Body() createProductDto: CreateProductDto,
+    @Request() req: any,
+  ): Promise<ProductResponse> {
+    return await this.productsService.create(createProductDto, req.user.id);
+  }
+
+  /**
+   * Update a product
+   * PATCH /admin/products/:id
+   */
+  @Patch(':id')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async updateProduct(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Body() updateProductDto: UpdateProductDto,
+    @Request() req: any,
+  ): Promise<ProductResponse> {
+    return await this.productsService.update(
+      productId,
+      updateProductDto,
+      req.user.id,
+    );
+  }
+
+  /**
+   * Upload a product image (multipart/form-data, field "image"): JPEG, PNG
+   * or WebP. Resized variants are generated alongside it.
+   * POST /admin/products/:id/images
+   */
+  @Post(':id/images')
+  @HttpCode(HttpStatus.CREATED)
+  @UseInterceptors(FileInterceptor('image'))
+  async uploadImage(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+  ): Promise<UploadedImageResponse> {
+    return await this.productsService.addImage(productId, file);
+  }
+
+  /**
+   * Change the order of the product images
+   * POST /admin/products/:id/images/reorder
+   */
+  @Post(':id/images/reorder')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async reorderImages(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Body() reorderProductImagesDto: ReorderProductImagesDto,
+  ): Promise<ProductResponse> {
+    return await this.productsService.reorderImages(
+      productId,
+      reorderProductImagesDto,
+    );
+  }
+
+  /**
+   * Make one of the product images the main image
+   * POST /admin/products/:id/images/main
+   */
+  @Post(':id/images/main')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async setMainImage(
+    @Param('id', ParseUUIDPipe) productId: string,
+    @Body() setMainImageDto: SetMainImageDto,
+  ): Promise<ProductResponse> {
+    return await this.productsService.setMainImage(productId, setMainImageDto);
+  }
+
+  /**
+   * Delete a product, or archive it when it appears in orders
+   * DELETE /admin/products/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  async deleteProduct(
+    @Param('id', ParseUUIDPipe) productId: string,
+  ): Promise<ProductDeletionResponse> {
+    return await this.productsService.remove(productId);
+  }
+}
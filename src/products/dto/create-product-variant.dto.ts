@@ -0,0 +1,54 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const SKU_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export class CreateProductVariantDto {
+  @Matches(SKU_PATTERN, {
+    message:
+      'SKU may only contain letters, numbers, dots, hyphens and underscores',
+  })
+  @MaxLength(64, { message: 'SKU must be at most 64 characters' })
+  sku: string;
+
+  // A value for each option name of the product, e.g. { "size": "M" }
+  @IsObject({ message: 'Options must be an object' })
+  options: Record<string, string>;
+
+  // Replaces the product's base price; omit to sell at the product's price
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Price cannot be negative' })
+  price?: number | null;
+
+  @IsOptional()
+  @IsInt({ message: 'Stock quantity must be an integer' })
+  @Min(0, { message: 'Stock quantity cannot be negative' })
+  stock_qty?: number;
+
+  // Chosen among the images of the product
+  @IsOptional()
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  images?: string[];
+
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position cannot be negative' })
+  position?: number;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  is_active?: boolean;
+}
@@ -0,0 +1,94 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SKU_PATTERN } from './create-product-variant.dto';
+
+export class CreateProductDto {
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name is required' })
+  @MaxLength(200, { message: 'Name must be at most 200 characters' })
+  name: string;
+
+  // Generated from the name when omitted
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  @MaxLength(100, { message: 'Slug must be at most 100 characters' })
+  slug?: string;
+
+  // SKU of the product's first variant, the slug in capitals when omitted
+  @IsOptional()
+  @Matches(SKU_PATTERN, {
+    message:
+      'SKU may only contain letters, numbers, dots, hyphens and underscores',
+  })
+  @MaxLength(64, { message: 'SKU must be at most 64 characters' })
+  sku?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  @IsOptional()
+  @IsUUID('4', { message: 'Category ID must be a valid UUID' })
+  category_id?: string;
+
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Base price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Base price cannot be negative' })
+  base_price: number;
+
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Sale price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Sale price cannot be negative' })
+  sale_price?: number | null;
+
+  // Stock of the first variant
+  @IsOptional()
+  @IsInt({ message: 'Stock quantity must be an integer' })
+  @Min(0, { message: 'Stock quantity cannot be negative' })
+  stock_qty?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'Low stock threshold must be an integer' })
+  @Min(0, { message: 'Low stock threshold cannot be negative' })
+  low_stock_threshold?: number;
+
+  @IsOptional()
+  @IsString({ message: 'Main image must be a string' })
+  main_image?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Images must be a list of strings' })
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  images?: string[];
+
+  @IsOptional()
+  @IsObject({ message: 'Specs must be an object' })
+  specs?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Featured must be a boolean' })
+  is_featured?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  is_active?: boolean;
+}
@@ -0,0 +1,89 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * One product of an import file. Rows are matched to products by slug: an
+ * unknown slug creates a product, a known one updates the fields given.
+ */
+export class ImportProductRowDto {
+  @IsString({ message: 'Slug must be a string' })
+  @IsNotEmpty({ message: 'Slug is required' })
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  @MaxLength(100, { message: 'Slug must be at most 100 characters' })
+  slug: string;
+
+  // Required for new products
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(200, { message: 'Name must be at most 200 characters' })
+  name?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string | null;
+
+  // Category slug; null removes the product from its category
+  @IsOptional()
+  @IsString({ message: 'Category must be a category slug' })
+  category?: string | null;
+
+  // Required for new products
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Base price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Base price cannot be negative' })
+  base_price?: number;
+
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Sale price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Sale price cannot be negative' })
+  sale_price?: number | null;
+
+  @IsOptional()
+  @IsInt({ message: 'Stock quantity must be an integer' })
+  @Min(0, { message: 'Stock quantity cannot be negative' })
+  stock_qty?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'Low stock threshold must be an integer' })
+  @Min(0, { message: 'Low stock threshold cannot be negative' })
+  low_stock_threshold?: number | null;
+
+  @IsOptional()
+  @IsString({ message: 'Main image must be a string' })
+  main_image?: string | null;
+
+  @IsOptional()
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  images?: string[];
+
+  @IsOptional()
+  @IsObject({ message: 'Specs must be an object' })
+  specs?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Featured must be a boolean' })
+  is_featured?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  is_active?: boolean;
+}
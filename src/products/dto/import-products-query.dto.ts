@@ -0,0 +1,24 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { toBoolean } from '../../common/utils/query.util';
+
+export const CATALOG_FORMATS = ['csv', 'json'] as const;
+
+export type CatalogFormat = (typeof CATALOG_FORMATS)[number];
+
+export class ImportProductsQueryDto {
+  // Validate every row and report what would change, without writing
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Dry run must be true or false' })
+  dry_run?: boolean = false;
+}
+
+export class ExportProductsQueryDto {
+  // json is one product per line (JSON Lines)
+  @IsOptional()
+  @IsIn(CATALOG_FORMATS, {
+    message: `Format must be one of: ${CATALOG_FORMATS.join(', ')}`,
+  })
+  format?: CatalogFormat = 'csv';
+}
@@ -0,0 +1,19 @@
+export interface ImportRowError {
+  // Record number in the file: for CSV the header is 1, the first product 2;
+  // for JSON the first product is 1
+  row: number;
+  slug: string | null;
+  field: string | null;
+  message: string;
+}
+
+export interface ImportProductsResponse {
+  dry_run: boolean;
+  rows: number;
+  // Products created and updated, or that would be in a dry run
+  created: number;
+  updated: number;
+  failed: number;
+  // The first errors found, up to a limit; failed has the full count
+  errors: ImportRowError[];
+}
@@ -0,0 +1,68 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { toBoolean } from '../../common/utils/query.util';
+
+export const PRODUCT_SORTS = [
+  'newest',
+  'price_asc',
+  'price_desc',
+  'name',
+] as const;
+export type ProductSort = (typeof PRODUCT_SORTS)[number];
+
+/**
+ * Filters shared by the product listing and the product search
+ */
+export class ProductFiltersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsString({ message: 'Search must be a string' })
+  @MaxLength(100, { message: 'Search must be at most 100 characters' })
+  search?: string;
+
+  // Category slug
+  @IsOptional()
+  @IsString({ message: 'Category must be a string' })
+  category?: string;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Featured must be true or false' })
+  featured?: boolean;
+}
+
+export class ListProductsQueryDto extends ProductFiltersQueryDto {
+  @IsOptional()
+  @IsIn(PRODUCT_SORTS, {
+    message: `Sort must be one of: ${PRODUCT_SORTS.join(', ')}`,
+  })
+  sort?: ProductSort = 'newest';
+}
+
+export class AdminListProductsQueryDto extends ListProductsQueryDto {
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Active must be true or false' })
+  is_active?: boolean;
+}
@@ -0,0 +1,72 @@
+// Value of each option axis of a variant, e.g. { size: 'M', color: 'Red' }
+export type VariantOptions = Record<string, string>;
+
+export interface ProductCategorySummary {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface ProductOptionResponse {
+  name: string;
+  // Values of the variants, in variant order
+  values: string[];
+}
+
+export interface ProductVariantResponse {
+  id: string;
+  sku: string;
+  options: VariantOptions;
+  // Price set on the variant, or null when it sells at the product's price
+  price: string | null;
+  // Prices the variant sells at, like the product's
+  base_price: string;
+  sale_price: string | null;
+  // Lowest price of the variant, like the product's lowest_price_30d
+  lowest_price_30d: string | null;
+  stock_qty: number;
+  images: string[];
+  position: number;
+  is_active: boolean;
+}
+
+export interface ProductResponse {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  category: ProductCategorySummary | null;
+  // Prices are decimal strings ("19.99") so no precision is lost
+  base_price: string;
+  // The sale price in effect, set by hand or by a running price schedule
+  sale_price: string | null;
+  // When the price schedule setting sale_price ends, if one does
+  sale_ends_at: Date | null;
+  // Lowest price in the 30 days before the current price took effect, to
+  // show a discount against; null when there was no earlier price
+  lowest_price_30d: string | null;
+  // Sum of the stock of the variants
+  stock_qty: number;
+  low_stock_threshold: number;
+  main_image: string | null;
+  images: string[];
+  specs: Record<string, unknown>;
+  is_featured: boolean;
+  is_active: boolean;
+  options: ProductOptionResponse[];
+  // Active variants only on the storefront
+  variants: ProductVariantResponse[];
+  created_at: Date | null;
+}
+
+export interface ProductDeletionResponse {
+  id: string;
+  // Products that appear in orders are archived instead of deleted
+  result: 'deleted' | 'archived';
+}
+
+export interface ProductVariantDeletionResponse {
+  id: string;
+  // Variants that appear in orders are archived instead of deleted
+  result: 'deleted' | 'archived';
+}
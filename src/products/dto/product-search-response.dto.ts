@@ -0,0 +1,43 @@
+import { PaginatedResponse } from '../../common/dto/paginated-response.dto';
+import { ProductResponse } from './product-response.dto';
+
+export interface CategoryFacet {
+  id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface SpecFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SpecFacet {
+  key: string;
+  values: SpecFacetValue[];
+}
+
+export interface ProductSearchFacets {
+  categories: CategoryFacet[];
+  specs: SpecFacet[];
+}
+
+export interface ProductSearchResponse
+  extends PaginatedResponse<ProductResponse> {
+  facets: ProductSearchFacets;
+  // Product names close to a search text that matched nothing
+  did_you_mean: string[];
+}
+
+export interface ProductSuggestion {
+  id: string;
+  name: string;
+  slug: string;
+  main_image: string | null;
+}
+
+export interface ProductSuggestResponse {
+  products: ProductSuggestion[];
+  did_you_mean: string[];
+}
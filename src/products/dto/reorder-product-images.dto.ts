@@ -0,0 +1,9 @@
+import { ArrayUnique, IsArray, IsString } from 'class-validator';
+
+export class ReorderProductImagesDto {
+  // Every current image URL of the product, in the new order
+  @IsArray({ message: 'Images must be an array' })
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  @ArrayUnique({ message: 'Images must not repeat' })
+  images: string[];
+}
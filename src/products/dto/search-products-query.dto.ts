@@ -0,0 +1,62 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  Min,
+} from 'class-validator';
+import { toBoolean } from '../../common/utils/query.util';
+import {
+  PRODUCT_SORTS,
+  ProductFiltersQueryDto,
+} from './list-products-query.dto';
+
+export const SEARCH_SORTS = ['relevance', ...PRODUCT_SORTS] as const;
+export type SearchSort = (typeof SEARCH_SORTS)[number];
+
+export class SearchProductsQueryDto extends ProductFiltersQueryDto {
+  // Defaults to relevance when there is a search text, newest otherwise
+  @IsOptional()
+  @IsIn(SEARCH_SORTS, {
+    message: `Sort must be one of: ${SEARCH_SORTS.join(', ')}`,
+  })
+  sort?: SearchSort;
+
+  // Compared against the price of each variant, its sale price when there
+  // is one
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Minimum price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Minimum price must be at least 0' })
+  min_price?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Maximum price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Maximum price must be at least 0' })
+  max_price?: number;
+
+  // At least one active variant in stock
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'In stock must be true or false' })
+  in_stock?: boolean;
+
+  // Collected from specs.<key>=<value> parameters by SpecFiltersPipe
+  @IsOptional()
+  @IsObject({ message: 'Spec filters must be an object' })
+  specs?: Record<string, string[]>;
+
+  // Collected from options.<name>=<value> parameters by SpecFiltersPipe
+  @IsOptional()
+  @IsObject({ message: 'Option filters must be an object' })
+  options?: Record<string, string[]>;
+}
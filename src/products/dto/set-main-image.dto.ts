@@ -0,0 +1,8 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class SetMainImageDto {
+  // One of the product's image URLs
+  @IsString({ message: 'Image must be a string' })
+  @IsNotEmpty({ message: 'Image cannot be empty' })
+  image: string;
+}
@@ -0,0 +1,30 @@
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class SetProductOptionsDto {
+  // Option axes in display order, e.g. ["size", "color"]; empty for a
+  // product without options
+  @IsArray({ message: 'Names must be an array' })
+  @ArrayMaxSize(3, { message: 'At most 3 option names are allowed' })
+  @ArrayUnique({ message: 'Names must not repeat' })
+  @IsString({ each: true, message: 'Names must be a list of strings' })
+  @IsNotEmpty({ each: true, message: 'Names cannot be empty' })
+  @MaxLength(50, {
+    each: true,
+    message: 'Names must be at most 50 characters',
+  })
+  names: string[];
+
+  // Value the existing variants take for each added name
+  @IsOptional()
+  @IsObject({ message: 'Values must be an object' })
+  values?: Record<string, string>;
+}
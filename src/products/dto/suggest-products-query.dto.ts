@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SuggestProductsQueryDto {
+  @IsString({ message: 'Query must be a string' })
+  @IsNotEmpty({ message: 'Query is required' })
+  @MaxLength(100, { message: 'Query must be at most 100 characters' })
+  q: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(20, { message: 'Limit must be at most 20' })
+  limit?: number = 8;
+}
@@ -0,0 +1,54 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SKU_PATTERN } from './create-product-variant.dto';
+
+export class UpdateProductVariantDto {
+  @IsOptional()
+  @Matches(SKU_PATTERN, {
+    message:
+      'SKU may only contain letters, numbers, dots, hyphens and underscores',
+  })
+  @MaxLength(64, { message: 'SKU must be at most 64 characters' })
+  sku?: string;
+
+  @IsOptional()
+  @IsObject({ message: 'Options must be an object' })
+  options?: Record<string, string>;
+
+  // null goes back to the product's price
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Price cannot be negative' })
+  price?: number | null;
+
+  // Recorded in the stock ledger as a correction
+  @IsOptional()
+  @IsInt({ message: 'Stock quantity must be an integer' })
+  @Min(0, { message: 'Stock quantity cannot be negative' })
+  stock_qty?: number;
+
+  @IsOptional()
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  images?: string[];
+
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer' })
+  @Min(0, { message: 'Position cannot be negative' })
+  position?: number;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  is_active?: boolean;
+}
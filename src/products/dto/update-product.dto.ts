@@ -0,0 +1,88 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class UpdateProductDto {
+  @IsOptional()
+  @IsString({ message: 'Name must be a string' })
+  @IsNotEmpty({ message: 'Name cannot be empty' })
+  @MaxLength(200, { message: 'Name must be at most 200 characters' })
+  name?: string;
+
+  // Changing the slug breaks existing product URLs
+  @IsOptional()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'Slug may only contain lowercase letters, numbers and hyphens',
+  })
+  @MaxLength(100, { message: 'Slug must be at most 100 characters' })
+  slug?: string;
+
+  @IsOptional()
+  @IsString({ message: 'Description must be a string' })
+  description?: string;
+
+  // null removes the product from its category
+  @IsOptional()
+  @IsUUID('4', { message: 'Category ID must be a valid UUID' })
+  category_id?: string | null;
+
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Base price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Base price cannot be negative' })
+  base_price?: number;
+
+  @IsOptional()
+  @IsNumber(
+    { maxDecimalPlaces: 2 },
+    { message: 'Sale price must be a number with at most 2 decimals' },
+  )
+  @Min(0, { message: 'Sale price cannot be negative' })
+  sale_price?: number | null;
+
+  // Only for products with a single variant; the others set the stock of
+  // each variant
+  @IsOptional()
+  @IsInt({ message: 'Stock quantity must be an integer' })
+  @Min(0, { message: 'Stock quantity cannot be negative' })
+  stock_qty?: number;
+
+  @IsOptional()
+  @IsInt({ message: 'Low stock threshold must be an integer' })
+  @Min(0, { message: 'Low stock threshold cannot be negative' })
+  low_stock_threshold?: number;
+
+  @IsOptional()
+  @IsString({ message: 'Main image must be a string' })
+  main_image?: string;
+
+  @IsOptional()
+  @IsArray({ message: 'Images must be a list of strings' })
+  @IsString({ each: true, message: 'Images must be a list of strings' })
+  images?: string[];
+
+  @IsOptional()
+  @IsObject({ message: 'Specs must be an object' })
+  specs?: Record<string, unknown>;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Featured must be a boolean' })
+  is_featured?: boolean;
+
+  @IsOptional()
+  @IsBoolean({ message: 'Active must be a boolean' })
+  is_active?: boolean;
+}
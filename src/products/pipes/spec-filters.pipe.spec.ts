@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import { SpecFiltersPipe } from './spec-filters.pipe';
+
+describe('SpecFiltersPipe', () => {
+  const pipe = new SpecFiltersPipe();
+
+  it('should collect specs.<key> parameters into a specs object', () => {
+    expect(
+      pipe.transform(
+        {
+          search: 'laptop',
+          'specs.ram': ['16GB', '32GB'],
+          'specs.color': 'black',
+        },
+        { type: 'query' },
+      ),
+    ).toEqual({
+      search: 'laptop',
+      specs: { ram: ['16GB', '32GB'], color: ['black'] },
+    });
+  });
+
+  it('should collect options.<name> parameters into an options object', () => {
+    expect(
+      pipe.transform(
+        { 'options.size': ['M', 'L'], 'specs.color': 'black' },
+        { type: 'query' },
+      ),
+    ).toEqual({
+      specs: { color: ['black'] },
+      options: { size: ['M', 'L'] },
+    });
+  });
+
+  it('should leave queries without spec filters unchanged', () => {
+    expect(pipe.transform({ page: '2' }, { type: 'query' })).toEqual({
+      page: '2',
+    });
+  });
+
+  it('should ignore other parameter types', () => {
+    const body = { 'specs.ram': '16GB' };
+
+    expect(pipe.transform(body, { type: 'body' })).toBe(body);
+  });
+
+  it('should reject an empty spec key', () => {
+    expect(() => pipe.transform({ 'specs.': 'x' }, { type: 'query' })).toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should reject too many spec filters', () => {
+    const query = Object.fromEntries(
+      Array.from({ length: 11 }, (_, i) => [`specs.key${i}`, 'value']),
+    );
+
+    expect(() => pipe.transform(query, { type: 'query' })).toThrow(
+      BadRequestException,
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { ArgumentMetadata, Injectable, PipeTransform } from '@nestjs/common';
+import {
+  FieldError,
+  validationError,
+} from '../../common/pipes/validation.pipe';
+
+// Objects filters are collected into, with the label used in errors
+const FILTER_GROUPS = { specs: 'Spec', options: 'Option' } as const;
+type FilterGroup = keyof typeof FILTER_GROUPS;
+
+const MAX_FILTERS = 10;
+const MAX_KEY_LENGTH = 50;
+const MAX_VALUE_LENGTH = 100;
+
+/**
+ * Collect specs.<key>=<value> query parameters into a `specs` object, so
+ * `?specs.ram=16GB&specs.ram=32GB&specs.color=black` becomes
+ * `{ specs: { ram: ['16GB', '32GB'], color: ['black'] } }`, and
+ * options.<name>=<value> parameters into an `options` object likewise.
+ * Must run before the validation pipe, which rejects unknown parameters.
+ */
+@Injectable()
+export class SpecFiltersPipe implements PipeTransform {
+  transform(value: unknown, metadata: ArgumentMetadata): unknown {
+    if (metadata.type !== 'query' || !value || typeof value !== 'object') {
+      return value;
+    }
+
+    const query: Record<string, unknown> = {};
+    const filters: Record<FilterGroup, Record<string, string[]>> = {
+      specs: {},
+      options: {},
+    };
+    const errors: FieldError[] = [];
+
+    for (const [param, raw] of Object.entries(value)) {
+      const group = (Object.keys(FILTER_GROUPS) as FilterGroup[]).find(
+        (prefix) => param.startsWith(`${prefix}.`),
+      );
+      if (!group) {
+        query[param] = raw;
+        continue;
+      }
+
+      const label = FILTER_GROUPS[group];
+      const key = param.slice(group.length + 1);
+      const values = (Array.isArray(raw) ? raw : [raw]).map(String);
+
+      if (!key || key.length > MAX_KEY_LENGTH) {
+        errors.push({
+          field: param,
+          message: `${label} key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+        });
+      } else if (
+        values.some((item) => !item || item.length > MAX_VALUE_LENGTH)
+      ) {
+        errors.push({
+          field: param,
+          message: `${label} value must be between 1 and ${MAX_VALUE_LENGTH} characters`,
+        });
+      } else {
+        filters[group][key] = [
+          ...new Set([...(filters[group][key] ?? []), ...values]),
+        ];
+      }
+    }
+
+    for (const [group, label] of Object.entries(FILTER_GROUPS)) {
+      if (Object.keys(filters[group as FilterGroup]).length > MAX_FILTERS) {
+        errors.push({
+          field: group,
+          message: `At most ${MAX_FILTERS} ${label.toLowerCase()} filters are allowed`,
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw validationError(errors);
+    }
+
+    for (const group of Object.keys(FILTER_GROUPS) as FilterGroup[]) {
+      if (Object.keys(filters[group]).length > 0) {
+        query[group] = filters[group];
+      }
+    }
+
+    return query;
+  }
+}
@@ -0,0 +1,369 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Readable } from 'stream';
+import { ProductImportService } from './product-import.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { PriceHistoryService } from '../pricing/price-history.service';
+import { ProductVariantsService } from './product-variants.service';
+
+describe('ProductImportService', () => {
+  let service: ProductImportService;
+  let prisma: any;
+  let stockLedgerService: StockLedgerService;
+  let priceHistoryService: PriceHistoryService;
+  let productVariantsService: ProductVariantsService;
+
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+  const mouseId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const tshirtId = '8a7b6c5d-4e3f-4a2b-9c1d-0e9f8a7b6c5d';
+  const categoryId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+
+  const csv = (...lines: string[]) => ({
+    contentType: 'text/csv; charset=utf-8',
+    body: undefined,
+    stream: Readable.from([Buffer.from(lines.join('\r\n'))]),
+  });
+
+  beforeEach(async () => {
+    const prismaMock = {
+      categories: {
+        findMany: jest.fn(() =>
+          Promise.resolve([{ id: categoryId, slug: 'mice' }]),
+        ),
+      },
+      products: {
+        // The wireless mouse and the t-shirt exist, everything else is new
+        findMany: jest.fn((args: { where?: { slug?: { in: string[] } } }) =>
+          Promise.resolve(
+            [
+              {
+                id: mouseId,
+                slug: 'wireless-mouse',
+                base_price: new Prisma.Decimal('49.90'),
+                sale_price: null,
+                _count: { product_variants: 1 },
+              },
+              {
+                id: tshirtId,
+                slug: 't-shirt',
+                base_price: new Prisma.Decimal('19.90'),
+                sale_price: null,
+                _count: { product_variants: 3 },
+              },
+            ].filter((product) => args.where?.slug?.in.includes(product.slug)),
+          ),
+        ),
+        create: jest.fn().mockResolvedValue({
+          id: 'new-product-id',
+          product_variants: [{ id: 'new-variant-id' }],
+        }),
+        update: jest.fn(),
+      },
+      product_variants: {
+        findMany: jest.fn((args: { where: { sku: { in: string[] } } }) =>
+          Promise.resolve(
+            args.where.sku.in.includes('DESK-MAT') ? [{ sku: 'DESK-MAT' }] : [],
+          ),
+        ),
+      },
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductImportService,
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockLedgerService,
+          useValue: { apply: jest.fn(), setStock: jest.fn() },
+        },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+        {
+          provide: PriceHistoryService,
+          useValue: { record: jest.fn() },
+        },
+        {
+          provide: ProductVariantsService,
+          useValue: { pruneImages: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductImportService>(ProductImportService);
+    prisma = module.get<PrismaService>(PrismaService);
+    stockLedgerService = module.get<StockLedgerService>(StockLedgerService);
+    priceHistoryService = module.get<PriceHistoryService>(PriceHistoryService);
+    productVariantsService = module.get<ProductVariantsService>(
+      ProductVariantsService,
+    );
+  });
+
+  describe('import', () => {
+    it('should update known slugs and create the others', async () => {
+      const result = await service.import(
+        csv(
+          'slug,name,category,base_price,stock_qty,images,specs',
+          'wireless-mouse,,mice,39.90,4,,',
+          'gaming-keyboard,Gaming Keyboard,,89.99,10,a.jpg|b.jpg,"{""layout"":""ISO""}"',
+        ),
+        false,
+        adminId,
+      );
+
+      expect(result).toEqual({
+        dry_run: false,
+        rows: 2,
+        created: 1,
+        updated: 1,
+        failed: 0,
+        errors: [],
+      });
+      expect(prisma.products.update).toHaveBeenCalledWith({
+        where: { id: mouseId },
+        data: expect.objectContaining({
+          name: undefined,
+          category_id: categoryId,
+          base_price: new Prisma.Decimal('39.90'),
+          images: [],
+          specs: {},
+        }),
+      });
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        mouseId,
+        4,
+        { reason: 'correction', actor_id: adminId, note: 'Import' },
+      );
+      // The empty images column took every image off the product
+      expect(productVariantsService.pruneImages).toHaveBeenCalledWith(prisma, [
+        mouseId,
+      ]);
+      expect(prisma.products.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Gaming Keyboard',
+          slug: 'gaming-keyboard',
+          category_id: null,
+          images: ['a.jpg', 'b.jpg'],
+          specs: { layout: 'ISO' },
+          stock_qty: 0,
+          product_variants: { create: { sku: 'GAMING-KEYBOARD' } },
+        }),
+        select: { id: true, product_variants: { select: { id: true } } },
+      });
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(prisma, {
+        product_id: 'new-product-id',
+        variant_id: 'new-variant-id',
+        delta: 10,
+        reason: 'restock',
+        actor_id: adminId,
+        note: 'Import',
+      });
+      expect(priceHistoryService.record).toHaveBeenCalledWith(
+        prisma,
+        [mouseId, 'new-product-id'],
+        { reason: 'import', actor_id: adminId },
+      );
+    });
+
+    it('should report row errors without writing in a dry run', async () => {
+      const result = await service.import(
+        csv(
+          'slug,name,category,base_price,sale_price',
+          'wireless-mouse,,,49.90,59.90',
+          'new-product,,,10,',
+          'Not A Slug,Thing,,10,',
+          'keyboard,Keyboard,desks,10,',
+          'keyboard-2,Keyboard,,ten,',
+          'wireless-mouse,Mouse,,10,',
+          'stand,Stand,,15,',
+        ),
+        true,
+        adminId,
+      );
+
+      expect(result.rows).toBe(7);
+      expect(result.created).toBe(1);
+      expect(result.updated).toBe(0);
+      expect(result.failed).toBe(6);
+      expect(result.errors.map((error) => [error.row, error.field])).toEqual([
+        [4, 'slug'],
+        [6, 'base_price'],
+        [7, 'slug'],
+        [2, 'sale_price'],
+        [3, 'name'],
+        [5, 'category'],
+      ]);
+      expect(prisma.$transaction).not.toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.anything(),
+      );
+      expect(prisma.products.create).not.toHaveBeenCalled();
+    });
+
+    it('should report rows the variants of a product conflict with', async () => {
+      const result = await service.import(
+        csv(
+          'slug,name,base_price,stock_qty',
+          't-shirt,,,10',
+          'desk-mat,Desk Mat,25,',
+        ),
+        true,
+        adminId,
+      );
+
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 2, field: 'stock_qty' }),
+        expect.objectContaining({
+          row: 3,
+          field: 'slug',
+          message: 'SKU DESK-MAT is already taken',
+        }),
+      ]);
+    });
+
+    it('should import a JSON array', async () => {
+      const result = await service.import(
+        {
+          contentType: 'application/json',
+          body: [
+            { slug: 'stand', name: 'Stand', base_price: 15, specs: {} },
+            'not an object',
+          ],
+          stream: Readable.from([]),
+        },
+        false,
+        adminId,
+      );
+
+      expect(result.created).toBe(1);
+      expect(result.errors).toEqual([
+        {
+          row: 2,
+          slug: null,
+          field: null,
+          message: 'Each item must be an object',
+        },
+      ]);
+    });
+
+    it('should import JSON Lines', async () => {
+      const result = await service.import(
+        {
+          contentType: 'application/x-ndjson',
+          body: undefined,
+          stream: Readable.from([
+            '{"slug":"stand","name":"Stand","base_price":15}\n{"slug":',
+            '"lamp","name":"Lamp","base_price":20,"color":"red"}\n{oops\n',
+          ]),
+        },
+        true,
+        adminId,
+      );
+
+      expect(result.created).toBe(1);
+      expect(result.errors).toEqual([
+        expect.objectContaining({ row: 2, slug: 'lamp', field: 'color' }),
+        expect.objectContaining({ row: 3, message: 'Invalid JSON' }),
+      ]);
+    });
+
+    it('should reject unknown CSV columns', async () => {
+      await expect(
+        service.import(csv('slug,colour', 'stand,red'), true, adminId),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject other content types', async () => {
+      await expect(
+        service.import(
+          {
+            contentType: 'application/xml',
+            body: undefined,
+            stream: Readable.from([]),
+          },
+          true,
+          adminId,
+        ),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+  });
+
+  describe('exportCatalog', () => {
+    const product = {
+      id: mouseId,
+      slug: 'wireless-mouse',
+      name: 'Mouse, wireless',
+      description: null,
+      categories: { slug: 'mice' },
+      base_price: new Prisma.Decimal('49.9'),
+      sale_price: null,
+      stock_qty: 3,
+      low_stock_threshold: 5,
+      main_image: null,
+      images: ['a.jpg', 'b.jpg'],
+      specs: { dpi: 1600 },
+      is_featured: false,
+      is_active: true,
+    };
+
+    const collect = async (format: 'csv' | 'json') => {
+      const lines: string[] = [];
+      for await (const line of service.exportCatalog(format)) {
+        lines.push(line);
+      }
+      return lines;
+    };
+
+    it('should write a header and a CSV record per product', async () => {
+      prisma.products.findMany.mockResolvedValueOnce([product]);
+
+      expect(await collect('csv')).toEqual([
+        'slug,name,description,category,base_price,sale_price,stock_qty,low_stock_threshold,main_image,images,specs,is_featured,is_active\r\n',
+        'wireless-mouse,"Mouse, wireless",,mice,49.90,,3,5,,a.jpg|b.jpg,"{""dpi"":1600}",false,true\r\n',
+      ]);
+    });
+
+    it('should write one JSON object per line', async () => {
+      prisma.products.findMany.mockResolvedValueOnce([product]);
+
+      const [line] = await collect('json');
+
+      expect(JSON.parse(line)).toMatchObject({
+        slug: 'wireless-mouse',
+        category: 'mice',
+        base_price: 49.9,
+        sale_price: null,
+        images: ['a.jpg', 'b.jpg'],
+      });
+    });
+
+    it('should page through the catalog by ID', async () => {
+      const page = Array.from({ length: 500 }, (_, index) => ({
+        ...product,
+        id: `id-${String(index).padStart(3, '0')}`,
+      }));
+      prisma.products.findMany
+        .mockResolvedValueOnce(page)
+        .mockResolvedValueOnce([product]);
+
+      expect(await collect('json')).toHaveLength(501);
+      expect(prisma.products.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ cursor: { id: 'id-499' }, skip: 1 }),
+      );
+    });
+  });
+});
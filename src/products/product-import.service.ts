@@ -0,0 +1,640 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { PriceHistoryService } from '../pricing/price-history.service';
+import { ProductVariantsService } from './product-variants.service';
+import { parseCsv, toCsvLine } from '../common/utils/csv.util';
+import { ImportProductRowDto } from './dto/import-product-row.dto';
+import { CatalogFormat } from './dto/import-products-query.dto';
+import {
+  ImportProductsResponse,
+  ImportRowError,
+} from './dto/import-products-response.dto';
+
+// Columns of the CSV format, also the keys of the JSON format
+const CATALOG_COLUMNS = [
+  'slug',
+  'name',
+  'description',
+  'category',
+  'base_price',
+  'sale_price',
+  'stock_qty',
+  'low_stock_threshold',
+  'main_image',
+  'images',
+  'specs',
+  'is_featured',
+  'is_active',
+] as const;
+
+type CatalogColumn = (typeof CATALOG_COLUMNS)[number];
+
+// An empty CSV cell clears these; it leaves the other columns unchanged
+const NULLABLE_COLUMNS: CatalogColumn[] = [
+  'description',
+  'category',
+  'sale_price',
+  'low_stock_threshold',
+  'main_image',
+];
+
+const NUMBER_COLUMNS: CatalogColumn[] = [
+  'base_price',
+  'sale_price',
+  'stock_qty',
+  'low_stock_threshold',
+];
+
+const BOOLEAN_COLUMNS: CatalogColumn[] = ['is_featured', 'is_active'];
+
+// Separates the image URLs of the CSV images column
+const IMAGE_SEPARATOR = '|';
+
+// Rows written per transaction, and products read per export query
+const BATCH_SIZE = 500;
+
+// Keeps the response small when a whole file is wrong
+const MAX_REPORTED_ERRORS = 1000;
+
+interface ImportRow {
+  row: number;
+  data: Record<string, unknown> | null;
+  // Set when the row could not be read at all
+  error?: string;
+}
+
+interface ImportSource {
+  contentType: string | undefined;
+  // Set when a body parser already read the request
+  body: unknown;
+  stream: AsyncIterable<Buffer | string>;
+}
+
+interface AcceptedRow {
+  row: number;
+  dto: ImportProductRowDto;
+  // Product to update, or undefined to create one
+  productId?: string;
+  categoryId?: string | null;
+}
+
+type ExportedProduct = Prisma.productsGetPayload<{
+  include: { categories: { select: { slug: true } } };
+}>;
+
+@Injectable()
+export class ProductImportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly productVariantsService: ProductVariantsService,
+  ) {}
+
+  /**
+   * Create or update products from a CSV, JSON or JSON Lines file, matching
+   * them by slug. The file is read as it streams in and written in batches,
+   * one transaction each; invalid rows are reported and skipped. Stock
+   * levels go through the stock ledger, and price changes are recorded in
+   * the price history.
+   * @param source - Content type and body of the request
+   * @param dryRun - Only validate and count, without writing
+   * @param actorId - Admin importing the file
+   * @returns Promise<ImportProductsResponse> - Counts and row errors
+   */
+  async import(
+    source: ImportSource,
+    dryRun: boolean,
+    actorId: string,
+  ): Promise<ImportProductsResponse> {
+    const result: ImportProductsResponse = {
+      dry_run: dryRun,
+      rows: 0,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      errors: [],
+    };
+    // Row of each slug seen so far, to reject duplicates
+    const seen = new Map<string, number>();
+
+    let batch: ImportRow[] = [];
+    for await (const row of this.readRows(source)) {
+      batch.push(row);
+      if (batch.length === BATCH_SIZE) {
+        await this.importBatch(batch, dryRun, actorId, seen, result);
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      await this.importBatch(batch, dryRun, actorId, seen, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * The whole catalog, archived products included, in the import format
+   * @param format - csv, or json for one product per line
+   * @returns AsyncGenerator<string> - The file, a line at a time
+   */
+  async *exportCatalog(format: CatalogFormat): AsyncGenerator<string> {
+    if (format === 'csv') {
+      yield toCsvLine([...CATALOG_COLUMNS]);
+    }
+
+    let cursor: string | undefined;
+    for (;;) {
+      const products = await this.prisma.products.findMany({
+        include: { categories: { select: { slug: true } } },
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const product of products) {
+        yield format === 'csv'
+          ? this.toCsvRecord(product)
+          : `${JSON.stringify(this.toJsonRecord(product))}\n`;
+      }
+
+      if (products.length < BATCH_SIZE) {
+        return;
+      }
+      cursor = products[products.length - 1].id;
+    }
+  }
+
+  private async importBatch(
+    batch: ImportRow[],
+    dryRun: boolean,
+    actorId: string,
+    seen: Map<string, number>,
+    result: ImportProductsResponse,
+  ): Promise<void> {
+    const report = (error: ImportRowError) => {
+      result.failed++;
+      if (result.errors.length < MAX_REPORTED_ERRORS) {
+        result.errors.push(error);
+      }
+    };
+
+    const valid: { row: number; dto: ImportProductRowDto }[] = [];
+    for (const { row, data, error } of batch) {
+      result.rows++;
+      const slug = typeof data?.slug === 'string' ? data.slug : null;
+
+      if (!data) {
+        report({ row, slug, field: null, message: error! });
+        continue;
+      }
+
+      const cleared = CATALOG_COLUMNS.find(
+        (column) => data[column] === null && !NULLABLE_COLUMNS.includes(column),
+      );
+      if (cleared) {
+        report({ row, slug, field: cleared, message: 'Value cannot be null' });
+        continue;
+      }
+
+      const dto = plainToInstance(ImportProductRowDto, data);
+      const errors = await validate(dto, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+      if (errors.length > 0) {
+        // One entry per row, for its first invalid field
+        const [first] = errors;
+        report({
+          row,
+          slug,
+          field: first.property,
+          message: Object.values(first.constraints ?? {}).join(', '),
+        });
+        continue;
+      }
+
+      const earlier = seen.get(dto.slug);
+      if (earlier !== undefined) {
+        report({
+          row,
+          slug,
+          field: 'slug',
+          message: `Slug already appears in row ${earlier}`,
+        });
+        continue;
+      }
+      seen.set(dto.slug, row);
+      valid.push({ row, dto });
+    }
+
+    const categorySlugs = [
+      ...new Set(valid.flatMap(({ dto }) => dto.category ?? [])),
+    ];
+    const [categories, products, takenSkus] = await this.prisma.$transaction([
+      this.prisma.categories.findMany({
+        where: { slug: { in: categorySlugs } },
+        select: { id: true, slug: true },
+      }),
+      this.prisma.products.findMany({
+        where: { slug: { in: valid.map(({ dto }) => dto.slug) } },
+        select: {
+          id: true,
+          slug: true,
+          base_price: true,
+          sale_price: true,
+          _count: { select: { product_variants: true } },
+        },
+      }),
+      // SKUs new products would get for their first variant
+      this.prisma.product_variants.findMany({
+        where: { sku: { in: valid.map(({ dto }) => dto.slug.toUpperCase()) } },
+        select: { sku: true },
+      }),
+    ]);
+    const categoriesBySlug = new Map(
+      categories.map((category) => [category.slug, category.id]),
+    );
+    const productsBySlug = new Map(
+      products.map((product) => [product.slug, product]),
+    );
+    const skus = new Set(takenSkus.map((variant) => variant.sku));
+
+    const accepted: AcceptedRow[] = [];
+    for (const { row, dto } of valid) {
+      const existing = productsBySlug.get(dto.slug);
+      const fail = (field: string, message: string) =>
+        report({ row, slug: dto.slug, field, message });
+
+      if (!existing && dto.name === undefined) {
+        fail('name', 'Name is required');
+        continue;
+      }
+      if (!existing && dto.base_price === undefined) {
+        fail('base_price', 'Base price is required');
+        continue;
+      }
+      if (!existing && skus.has(dto.slug.toUpperCase())) {
+        fail('slug', `SKU ${dto.slug.toUpperCase()} is already taken`);
+        continue;
+      }
+      if (
+        existing &&
+        existing._count.product_variants > 1 &&
+        dto.stock_qty !== undefined
+      ) {
+        fail(
+          'stock_qty',
+          'Products with several variants have their stock set per variant',
+        );
+        continue;
+      }
+
+      const categoryId =
+        dto.category === undefined || dto.category === null
+          ? dto.category
+          : categoriesBySlug.get(dto.category);
+      if (categoryId === undefined && dto.category !== undefined) {
+        fail('category', `Category ${dto.category} does not exist`);
+        continue;
+      }
+
+      // Compare against the stored values for whichever price is not changing
+      const basePrice = dto.base_price ?? existing!.base_price;
+      const salePrice =
+        dto.sale_price === undefined ? existing?.sale_price : dto.sale_price;
+      if (
+        salePrice !== null &&
+        salePrice !== undefined &&
+        new Prisma.Decimal(salePrice).gt(basePrice)
+      ) {
+        fail(
+          'sale_price',
+          'Sale price must be less than or equal to base price',
+        );
+        continue;
+      }
+
+      accepted.push({ row, dto, productId: existing?.id, categoryId });
+    }
+
+    result.created += accepted.filter((entry) => !entry.productId).length;
+    result.updated += accepted.filter((entry) => entry.productId).length;
+
+    if (dryRun || accepted.length === 0) {
+      return;
+    }
+
+    const productIds = await this.prisma.$transaction(
+      async (tx) => {
+        const ids: string[] = [];
+        // Updates lock rows in ID order, like checkout, so they cannot
+        // deadlock with it
+        const updates = accepted
+          .filter((entry) => entry.productId)
+          .sort((a, b) => a.productId!.localeCompare(b.productId!));
+        const creates = accepted.filter((entry) => !entry.productId);
+
+        for (const entry of [...updates, ...creates]) {
+          ids.push(await this.writeRow(tx, entry, actorId));
+        }
+        await this.priceHistoryService.record(tx, ids, {
+          reason: 'import',
+          actor_id: actorId,
+        });
+        return ids;
+      },
+      { timeout: 60000 },
+    );
+
+    await this.stockAlertsService.checkProducts(productIds);
+  }
+
+  private async writeRow(
+    tx: Prisma.TransactionClient,
+    { dto, productId, categoryId }: AcceptedRow,
+    actorId: string,
+  ): Promise<string> {
+    const data = {
+      name: dto.name,
+      description: dto.description,
+      category_id: categoryId,
+      base_price:
+        dto.base_price === undefined
+          ? undefined
+          : new Prisma.Decimal(dto.base_price),
+      sale_price:
+        dto.sale_price === undefined || dto.sale_price === null
+          ? dto.sale_price
+          : new Prisma.Decimal(dto.sale_price),
+      low_stock_threshold: dto.low_stock_threshold,
+      main_image: dto.main_image,
+      images: dto.images,
+      specs: dto.specs as Prisma.InputJsonObject | undefined,
+      is_featured: dto.is_featured,
+      is_active: dto.is_active,
+    };
+
+    if (productId) {
+      if (dto.stock_qty !== undefined) {
+        await this.stockLedgerService.setStock(tx, productId, dto.stock_qty, {
+          reason: 'correction',
+          actor_id: actorId,
+          note: 'Import',
+        });
+      }
+      await tx.products.update({ where: { id: productId }, data });
+      if (dto.images !== undefined) {
+        await this.productVariantsService.pruneImages(tx, [productId]);
+      }
+      return productId;
+    }
+
+    // New products have a single variant, like products created by hand
+    const { id, product_variants } = await tx.products.create({
+      data: {
+        ...data,
+        name: dto.name!,
+        slug: dto.slug,
+        base_price: data.base_price!,
+        stock_qty: 0,
+        product_variants: { create: { sku: dto.slug.toUpperCase() } },
+      },
+      select: { id: true, product_variants: { select: { id: true } } },
+    });
+    if (dto.stock_qty) {
+      await this.stockLedgerService.apply(tx, {
+        product_id: id,
+        variant_id: product_variants[0].id,
+        delta: dto.stock_qty,
+        reason: 'restock',
+        actor_id: actorId,
+        note: 'Import',
+      });
+    }
+    return id;
+  }
+
+  /**
+   * Rows of the request body, parsed according to its content type
+   */
+  private readRows(
+    source: ImportSource,
+  ): AsyncIterable<ImportRow> | Iterable<ImportRow> {
+    const type = (source.contentType ?? '').split(';')[0].trim().toLowerCase();
+
+    switch (type) {
+      case 'text/csv':
+        return this.readCsv(source.stream);
+      case 'application/x-ndjson':
+      case 'application/jsonl':
+        return this.readJsonLines(source.stream);
+      case 'application/json':
+        if (!Array.isArray(source.body)) {
+          throw new BadRequestException(
+            'The JSON body must be an array of products',
+          );
+        }
+        return this.readJsonArray(source.body);
+      default:
+        throw new UnsupportedMediaTypeException(
+          'Send text/csv, application/json or application/x-ndjson',
+        );
+    }
+  }
+
+  private async *readCsv(
+    stream: AsyncIterable<Buffer | string>,
+  ): AsyncGenerator<ImportRow> {
+    let header: CatalogColumn[] | undefined;
+    // The header is record 1
+    let row = 1;
+
+    for await (const record of parseCsv(stream)) {
+      if (!header) {
+        header = this.readHeader(record);
+        continue;
+      }
+
+      row++;
+      if (record.length !== header.length) {
+        yield {
+          row,
+          data: null,
+          error: `Expected ${header.length} fields, got ${record.length}`,
+        };
+        continue;
+      }
+
+      const data: Record<string, unknown> = {};
+      header.forEach((column, index) => {
+        const value = this.parseCsvValue(column, record[index]);
+        if (value !== undefined) {
+          data[column] = value;
+        }
+      });
+      yield { row, data };
+    }
+  }
+
+  private readHeader(record: string[]): CatalogColumn[] {
+    const columns = record.map((name) => name.trim());
+    const unknown = columns.filter(
+      (name) => !(CATALOG_COLUMNS as readonly string[]).includes(name),
+    );
+
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown columns: ${unknown.join(', ')}. Columns are: ${CATALOG_COLUMNS.join(', ')}`,
+      );
+    }
+    if (!columns.includes('slug')) {
+      throw new BadRequestException('The slug column is required');
+    }
+    if (new Set(columns).size !== columns.length) {
+      throw new BadRequestException('Columns may only appear once');
+    }
+
+    return columns as CatalogColumn[];
+  }
+
+  /**
+   * Convert a CSV cell to the value the JSON format would have. Values that
+   * cannot be converted are kept as text, for validation to reject.
+   */
+  private parseCsvValue(column: CatalogColumn, text: string): unknown {
+    const value = text.trim();
+
+    if (value === '') {
+      if (column === 'images') {
+        return [];
+      }
+      if (column === 'specs') {
+        return {};
+      }
+      return NULLABLE_COLUMNS.includes(column) ? null : undefined;
+    }
+
+    if (NUMBER_COLUMNS.includes(column)) {
+      return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+    }
+    if (BOOLEAN_COLUMNS.includes(column)) {
+      const lower = value.toLowerCase();
+      return lower === 'true' ? true : lower === 'false' ? false : value;
+    }
+    if (column === 'images') {
+      return value
+        .split(IMAGE_SEPARATOR)
+        .map((url) => url.trim())
+        .filter(Boolean);
+    }
+    if (column === 'specs') {
+      try {
+        return JSON.parse(value) as unknown;
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  }
+
+  private async *readJsonLines(
+    stream: AsyncIterable<Buffer | string>,
+  ): AsyncGenerator<ImportRow> {
+    const decoder = new TextDecoder('utf-8');
+    let buffered = '';
+    let row = 0;
+
+    const parse = (line: string): ImportRow => {
+      row++;
+      try {
+        const value = JSON.parse(line) as unknown;
+        return this.isRecord(value)
+          ? { row, data: value }
+          : { row, data: null, error: 'Each line must be a JSON object' };
+      } catch {
+        return { row, data: null, error: 'Invalid JSON' };
+      }
+    };
+
+    for await (const chunk of stream) {
+      buffered +=
+        typeof chunk === 'string'
+          ? chunk
+          : decoder.decode(chunk, { stream: true });
+
+      const lines = buffered.split('\n');
+      buffered = lines.pop()!;
+      for (const line of lines) {
+        if (line.trim() !== '') {
+          yield parse(line);
+        }
+      }
+    }
+
+    if (buffered.trim() !== '') {
+      yield parse(buffered);
+    }
+  }
+
+  private *readJsonArray(items: unknown[]): Generator<ImportRow> {
+    for (const [index, item] of items.entries()) {
+      yield this.isRecord(item)
+        ? { row: index + 1, data: item }
+        : { row: index + 1, data: null, error: 'Each item must be an object' };
+    }
+  }
+
+  private isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private toCsvRecord(product: ExportedProduct): string {
+    return toCsvLine([
+      product.slug,
+      product.name,
+      product.description,
+      product.categories?.slug,
+      product.base_price.toFixed(2),
+      product.sale_price?.toFixed(2),
+      product.stock_qty ?? 0,
+      product.low_stock_threshold,
+      product.main_image,
+      product.images.join(IMAGE_SEPARATOR),
+      JSON.stringify(product.specs ?? {}),
+      product.is_featured ?? false,
+      product.is_active ?? true,
+    ]);
+  }
+
+  private toJsonRecord(
+    product: ExportedProduct,
+  ): Record<CatalogColumn, unknown> {
+    return {
+      slug: product.slug,
+      name: product.name,
+      description: product.description,
+      category: product.categories?.slug ?? null,
+      base_price: product.base_price.toNumber(),
+      sale_price: product.sale_price?.toNumber() ?? null,
+      stock_qty: product.stock_qty ?? 0,
+      low_stock_threshold: product.low_stock_threshold,
+      main_image: product.main_image,
+      images: product.images,
+      specs: product.specs ?? {},
+      is_featured: product.is_featured ?? false,
+      is_active: product.is_active ?? true,
+    };
+  }
+}
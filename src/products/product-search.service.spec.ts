@@ -0,0 +1,284 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ProductSearchService } from './product-search.service';
+import { ProductsService } from './products.service';
+import { CategoriesService } from '../categories/categories.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ProductSearchService', () => {
+  let service: ProductSearchService;
+  let prisma: PrismaService;
+  let queries: Prisma.Sql[];
+
+  const categoryId = '0a5e1a5e-0000-4000-8000-000000000001';
+  const subcategoryId = '0a5e1a5e-0000-4000-8000-000000000002';
+
+  // Query results, in the order the service sends the queries
+  let results: unknown[][];
+
+  const mainQuery = () => queries[0];
+  const categoryFacetQuery = () => queries[2];
+  const specFacetQuery = () => queries[3];
+
+  beforeEach(async () => {
+    queries = [];
+    results = [[], [{ total: 0 }], [], [], []];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductSearchService,
+        {
+          provide: PrismaService,
+          useValue: {
+            $queryRaw: jest.fn(
+              (strings: TemplateStringsArray, ...values: unknown[]) => {
+                queries.push(Prisma.sql(strings, ...values));
+                return Promise.resolve(results[queries.length - 1]);
+              },
+            ),
+            $transaction: jest.fn((batch: Promise<unknown>[]) =>
+              Promise.all(batch),
+            ),
+            categories: { findUnique: jest.fn() },
+          },
+        },
+        {
+          provide: ProductsService,
+          useValue: { findManyByIds: jest.fn().mockResolvedValue([]) },
+        },
+        {
+          provide: CategoriesService,
+          useValue: {
+            getDescendantIds: jest
+              .fn()
+              .mockResolvedValue(new Set([categoryId, subcategoryId])),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductSearchService>(ProductSearchService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should only return active products', async () => {
+    await service.search({});
+
+    expect(mainQuery().sql).toContain('p.is_active = true');
+  });
+
+  it('should compare the price range against the price of each variant', async () => {
+    await service.search({ min_price: 10, max_price: 50 });
+
+    expect(mainQuery().sql).toContain('FROM public.product_variants v');
+    expect(mainQuery().sql).toContain(
+      'WHEN v.price IS NULL THEN COALESCE(p.sale_price, p.base_price)',
+    );
+    expect(mainQuery().sql).toMatch(/END >= \?\s+AND CASE/);
+    expect(mainQuery().values).toEqual(expect.arrayContaining([10, 50]));
+  });
+
+  it('should match options, price and stock on the same variant', async () => {
+    await service.search({
+      in_stock: true,
+      options: { size: ['M', 'L'], color: ['Red'] },
+    });
+
+    const sql = mainQuery().sql;
+    expect(sql.match(/EXISTS/g)).toHaveLength(1);
+    expect(sql).toContain(
+      '(v.options @> ?::jsonb OR v.options @> ?::jsonb) AND (v.options @> ?::jsonb)',
+    );
+    expect(sql).toContain('v.stock_qty > 0');
+    expect(mainQuery().values).toEqual(
+      expect.arrayContaining([
+        '{"size":"M"}',
+        '{"size":"L"}',
+        '{"color":"Red"}',
+      ]),
+    );
+  });
+
+  it('should reject a minimum price above the maximum price', async () => {
+    await expect(
+      service.search({ min_price: 50, max_price: 10 }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should match the search text as word prefixes', async () => {
+    await service.search({ search: 'Wireless mou' });
+
+    expect(mainQuery().sql).toContain(
+      "p.search_vector @@ to_tsquery('simple', ?)",
+    );
+    expect(mainQuery().values).toContain('wireless:* & mou:*');
+  });
+
+  it('should also find products by the SKU of a variant', async () => {
+    await service.search({ search: ' ts-001-m ' });
+
+    expect(mainQuery().sql).toContain('upper(v.sku) = upper(?)');
+    expect(mainQuery().values).toContain('ts-001-m');
+  });
+
+  it('should drop tsquery operators from the search text', async () => {
+    await service.search({ search: "usb-c & !hub'" });
+
+    expect(mainQuery().values).toContain('usb:* & c:* & hub:*');
+  });
+
+  it('should order by relevance when searching', async () => {
+    await service.search({ search: 'mouse' });
+
+    expect(mainQuery().sql).toContain('ORDER BY ts_rank(p.search_vector');
+  });
+
+  it('should order by the requested sort when searching', async () => {
+    await service.search({ search: 'mouse', sort: 'price_asc' });
+
+    expect(mainQuery().sql).toContain('ORDER BY (\n  SELECT MIN(CASE');
+  });
+
+  it('should order by newest without a search text', async () => {
+    await service.search({ sort: 'relevance' });
+
+    expect(mainQuery().sql).toContain('ORDER BY p.created_at DESC');
+  });
+
+  it('should offer similar names when the search text finds nothing', async () => {
+    results[4] = [{ name: 'Wireless Mouse' }];
+
+    const result = await service.search({ search: 'wireles mose' });
+
+    expect(queries[4].sql).toContain('<% p.name');
+    expect(result.did_you_mean).toEqual(['Wireless Mouse']);
+  });
+
+  it('should filter on spec values with JSON containment', async () => {
+    await service.search({ specs: { ram: ['16GB', '32GB'], cores: ['8'] } });
+
+    expect(mainQuery().sql).toContain('p.specs @> ?::jsonb');
+    expect(mainQuery().values).toEqual(
+      expect.arrayContaining([
+        '{"ram":"16GB"}',
+        '{"ram":"32GB"}',
+        '{"cores":"8"}',
+        '{"cores":8}',
+      ]),
+    );
+  });
+
+  it('should leave the own key out of each spec facet', async () => {
+    await service.search({ specs: { ram: ['16GB'] } });
+
+    expect(specFacetQuery().sql).toContain(
+      '(e.key = ? OR (p.specs @> ?::jsonb))',
+    );
+    expect(specFacetQuery().values).toEqual(
+      expect.arrayContaining(['ram', '{"ram":"16GB"}']),
+    );
+  });
+
+  it('should include subcategories and leave the category out of its facet', async () => {
+    jest
+      .spyOn(prisma.categories, 'findUnique')
+      .mockResolvedValue({ id: categoryId } as any);
+
+    await service.search({ category: 'electronics' });
+
+    expect(mainQuery().sql).toContain('p.category_id IN (?::uuid,?::uuid)');
+    expect(mainQuery().values).toEqual(
+      expect.arrayContaining([categoryId, subcategoryId]),
+    );
+    expect(categoryFacetQuery().sql).not.toContain('p.category_id IN');
+    expect(specFacetQuery().sql).toContain('p.category_id IN');
+  });
+
+  it('should return no products for an unknown category', async () => {
+    jest.spyOn(prisma.categories, 'findUnique').mockResolvedValue(null);
+
+    await service.search({ category: 'unknown' });
+
+    expect(mainQuery().sql).toContain('FALSE');
+  });
+
+  it('should group spec facet counts by key', async () => {
+    results[1] = [{ total: 45 }];
+    results[2] = [
+      { id: categoryId, name: 'Laptops', slug: 'laptops', count: 45 },
+    ];
+    results[3] = [
+      { key: 'color', value: 'black', count: 30 },
+      { key: 'color', value: 'silver', count: 15 },
+      { key: 'ram', value: '16GB', count: 45 },
+    ];
+
+    const result = await service.search({ limit: 20 });
+
+    expect(result.meta).toEqual({
+      page: 1,
+      limit: 20,
+      total: 45,
+      total_pages: 3,
+    });
+    expect(result.did_you_mean).toEqual([]);
+    expect(result.facets).toEqual({
+      categories: [
+        { id: categoryId, name: 'Laptops', slug: 'laptops', count: 45 },
+      ],
+      specs: [
+        {
+          key: 'color',
+          values: [
+            { value: 'black', count: 30 },
+            { value: 'silver', count: 15 },
+          ],
+        },
+        { key: 'ram', values: [{ value: '16GB', count: 45 }] },
+      ],
+    });
+  });
+
+  describe('suggest', () => {
+    it('should return products matching the typed prefix', async () => {
+      results[0] = [
+        {
+          id: '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c',
+          name: 'Wireless Mouse',
+          slug: 'wireless-mouse',
+          main_image: null,
+        },
+      ];
+
+      const result = await service.suggest({ q: 'wirel', limit: 5 });
+
+      expect(queries[0].values).toEqual(expect.arrayContaining(['wirel:*', 5]));
+      expect(result).toEqual({
+        products: results[0],
+        did_you_mean: [],
+      });
+      expect(queries).toHaveLength(1);
+    });
+
+    it('should offer similar names when nothing matches', async () => {
+      results[1] = [{ name: 'Wireless Mouse' }];
+
+      const result = await service.suggest({ q: 'wirless' });
+
+      expect(result).toEqual({
+        products: [],
+        did_you_mean: ['Wireless Mouse'],
+      });
+    });
+
+    it('should skip the full-text query when no word is left', async () => {
+      results[0] = [];
+
+      const result = await service.suggest({ q: '!!!' });
+
+      expect(result.products).toEqual([]);
+      expect(queries[0].sql).toContain('word_similarity');
+    });
+  });
+});
@@ -0,0 +1,366 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { validationError } from '../common/pipes/validation.pipe';
+import { CategoriesService } from '../categories/categories.service';
+import { ProductsService } from './products.service';
+import {
+  SearchProductsQueryDto,
+  SearchSort,
+} from './dto/search-products-query.dto';
+import { SuggestProductsQueryDto } from './dto/suggest-products-query.dto';
+import {
+  PRODUCT_SORT_ORDERS,
+  VARIANT_PRICE,
+  textSearchCondition,
+  toPrefixTsQuery,
+} from './utils/product-sql.util';
+import {
+  CategoryFacet,
+  ProductSearchResponse,
+  ProductSuggestion,
+  ProductSuggestResponse,
+  SpecFacet,
+} from './dto/product-search-response.dto';
+
+// Keeps the sidebar usable when a spec has many distinct values
+const MAX_FACET_VALUES = 50;
+
+// Trigram matches offered when a search text finds nothing
+const DID_YOU_MEAN_LIMIT = 3;
+
+interface SearchConditions {
+  // Full-text query built from the search text
+  tsquery: string | null;
+  // Filters that every query applies
+  base: Prisma.Sql[];
+  // Left out of the category facet, so other categories stay selectable
+  category: Prisma.Sql | null;
+  // Each one is left out of the facet of its own key
+  specs: Map<string, Prisma.Sql>;
+}
+
+@Injectable()
+export class ProductSearchService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly productsService: ProductsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  /**
+   * Search active products and count the matches per category and per spec
+   * value. A facet ignores its own filter, so selecting `ram=16GB` still
+   * shows how many products have 32GB. Option, price and stock filters
+   * match when a single active variant meets all of them.
+   * @param query - Text, category, price, stock, featured, spec and option filters
+   * @returns Promise<ProductSearchResponse> - One page of products with facet counts
+   */
+  async search(query: SearchProductsQueryDto): Promise<ProductSearchResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    if (
+      query.min_price !== undefined &&
+      query.max_price !== undefined &&
+      query.min_price > query.max_price
+    ) {
+      throw validationError([
+        {
+          field: 'max_price',
+          message:
+            'Maximum price must be greater than or equal to minimum price',
+        },
+      ]);
+    }
+
+    const conditions = await this.buildConditions(query);
+    const where = this.combine([
+      ...conditions.base,
+      ...(conditions.category ? [conditions.category] : []),
+      ...conditions.specs.values(),
+    ]);
+
+    const [rows, [{ total }], categoryFacets, specFacets] =
+      await this.prisma.$transaction([
+        this.prisma.$queryRaw<{ id: string }[]>`
+          SELECT p.id
+          FROM public.products p
+          WHERE ${where}
+          ORDER BY ${this.orderBy(query.sort, conditions.tsquery)}
+          LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        `,
+        this.prisma.$queryRaw<{ total: number }[]>`
+          SELECT COUNT(*)::int AS total
+          FROM public.products p
+          WHERE ${where}
+        `,
+        this.categoryFacetQuery(conditions),
+        this.specFacetQuery(conditions),
+      ]);
+
+    return {
+      data: await this.productsService.findManyByIds(rows.map((row) => row.id)),
+      did_you_mean:
+        total === 0 && query.search
+          ? await this.findSimilarNames(query.search, DID_YOU_MEAN_LIMIT)
+          : [],
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+      facets: {
+        categories: categoryFacets,
+        specs: this.groupSpecFacets(specFacets),
+      },
+    };
+  }
+
+  /**
+   * Autocomplete: active products whose words start with the typed words,
+   * best matches first. When nothing matches, similar product names are
+   * offered instead to catch typos.
+   * @param query - Typed text and number of suggestions
+   * @returns Promise<ProductSuggestResponse> - Matching products and "did you mean" names
+   */
+  async suggest(
+    query: SuggestProductsQueryDto,
+  ): Promise<ProductSuggestResponse> {
+    const limit = query.limit || 8;
+    const tsquery = toPrefixTsQuery(query.q);
+
+    const products = tsquery
+      ? await this.prisma.$queryRaw<ProductSuggestion[]>`
+          SELECT p.id, p.name, p.slug, p.main_image
+          FROM public.products p
+          WHERE p.is_active = true
+            AND p.search_vector @@ to_tsquery('simple', ${tsquery})
+          ORDER BY ts_rank(p.search_vector, to_tsquery('simple', ${tsquery})) DESC, p.name
+          LIMIT ${limit}
+        `
+      : [];
+
+    return {
+      products,
+      did_you_mean:
+        products.length === 0
+          ? await this.findSimilarNames(query.q, DID_YOU_MEAN_LIMIT)
+          : [],
+    };
+  }
+
+  /**
+   * Names of active products containing a word close to the text, using
+   * the trigram index on products.name
+   */
+  private async findSimilarNames(
+    text: string,
+    limit: number,
+  ): Promise<string[]> {
+    const rows = await this.prisma.$queryRaw<{ name: string }[]>`
+      SELECT p.name
+      FROM public.products p
+      WHERE p.is_active = true
+        AND ${text} <% p.name
+      GROUP BY p.name
+      ORDER BY MAX(word_similarity(${text}, p.name)) DESC, p.name
+      LIMIT ${limit}
+    `;
+
+    return rows.map((row) => row.name);
+  }
+
+  private orderBy(
+    sort: SearchSort | undefined,
+    tsquery: string | null,
+  ): Prisma.Sql {
+    const order = sort || (tsquery ? 'relevance' : 'newest');
+
+    if (order !== 'relevance') {
+      return PRODUCT_SORT_ORDERS[order];
+    }
+
+    // Without a search text every product ranks the same
+    return tsquery
+      ? Prisma.sql`ts_rank(p.search_vector, to_tsquery('simple', ${tsquery})) DESC, p.id`
+      : PRODUCT_SORT_ORDERS.newest;
+  }
+
+  private async buildConditions(
+    query: SearchProductsQueryDto,
+  ): Promise<SearchConditions> {
+    const base: Prisma.Sql[] = [Prisma.sql`p.is_active = true`];
+    const tsquery = query.search ? toPrefixTsQuery(query.search) : null;
+
+    if (tsquery) {
+      base.push(textSearchCondition(query.search!, tsquery));
+    }
+
+    const variantFilters: Prisma.Sql[] = [];
+    if (query.min_price !== undefined) {
+      variantFilters.push(Prisma.sql`${VARIANT_PRICE} >= ${query.min_price}`);
+    }
+    if (query.max_price !== undefined) {
+      variantFilters.push(Prisma.sql`${VARIANT_PRICE} <= ${query.max_price}`);
+    }
+    if (query.in_stock) {
+      variantFilters.push(Prisma.sql`v.stock_qty > 0`);
+    }
+    for (const [name, values] of Object.entries(query.options ?? {})) {
+      variantFilters.push(this.optionCondition(name, values));
+    }
+    if (variantFilters.length > 0) {
+      base.push(Prisma.sql`EXISTS (
+        SELECT 1
+        FROM public.product_variants v
+        WHERE v.product_id = p.id
+          AND v.is_active = true
+          AND ${this.combine(variantFilters)}
+      )`);
+    }
+
+    if (query.featured !== undefined) {
+      base.push(Prisma.sql`p.is_featured = ${query.featured}`);
+    }
+
+    const specs = new Map<string, Prisma.Sql>();
+    for (const [key, values] of Object.entries(query.specs ?? {})) {
+      specs.set(key, this.specCondition(key, values));
+    }
+
+    return {
+      tsquery,
+      base,
+      category: query.category
+        ? await this.categoryCondition(query.category)
+        : null,
+      specs,
+    };
+  }
+
+  /**
+   * Products in the category or any of its subcategories
+   */
+  private async categoryCondition(slug: string): Promise<Prisma.Sql> {
+    const category = await this.prisma.categories.findUnique({
+      where: { slug },
+      select: { id: true },
+    });
+
+    if (!category) {
+      return Prisma.sql`FALSE`;
+    }
+
+    const ids = [
+      ...(await this.categoriesService.getDescendantIds(category.id)),
+    ];
+    return Prisma.sql`p.category_id IN (${Prisma.join(
+      ids.map((id) => Prisma.sql`${id}::uuid`),
+    )})`;
+  }
+
+  /**
+   * Products whose spec matches any of the values. Containment (@>) is what
+   * the GIN index on specs supports. Numbers and booleans are stored
+   * unquoted in JSON, so `specs.cores=8` matches both "8" and 8. Only
+   * canonical JSON literals are tried that way, so "08" stays a string.
+   */
+  private specCondition(key: string, values: string[]): Prisma.Sql {
+    const candidates = values.flatMap((value) => {
+      const documents = [JSON.stringify({ [key]: value })];
+      if (
+        /^-?(0|[1-9]\d*)(\.\d+)?$/.test(value) ||
+        value === 'true' ||
+        value === 'false'
+      ) {
+        documents.push(`{${JSON.stringify(key)}:${value}}`);
+      }
+      return documents;
+    });
+
+    return Prisma.sql`(${Prisma.join(
+      candidates.map((document) => Prisma.sql`p.specs @> ${document}::jsonb`),
+      ' OR ',
+    )})`;
+  }
+
+  /**
+   * Variants whose option takes any of the values. Option values are always
+   * stored as strings.
+   */
+  private optionCondition(name: string, values: string[]): Prisma.Sql {
+    return Prisma.sql`(${Prisma.join(
+      values.map(
+        (value) =>
+          Prisma.sql`v.options @> ${JSON.stringify({ [name]: value })}::jsonb`,
+      ),
+      ' OR ',
+    )})`;
+  }
+
+  private categoryFacetQuery(conditions: SearchConditions) {
+    const where = this.combine([
+      ...conditions.base,
+      ...conditions.specs.values(),
+    ]);
+
+    return this.prisma.$queryRaw<CategoryFacet[]>`
+      SELECT c.id, c.name, c.slug, COUNT(*)::int AS count
+      FROM public.products p
+      JOIN public.categories c ON c.id = p.category_id
+      WHERE ${where}
+      GROUP BY c.id, c.name, c.slug
+      ORDER BY count DESC, c.name
+    `;
+  }
+
+  private specFacetQuery(conditions: SearchConditions) {
+    // A key/value pair is counted when the product matches every spec
+    // filter except the one on that key
+    const specFilters = [...conditions.specs.entries()].map(
+      ([key, condition]) => Prisma.sql`(e.key = ${key} OR ${condition})`,
+    );
+    const where = this.combine([
+      ...conditions.base,
+      ...(conditions.category ? [conditions.category] : []),
+      ...specFilters,
+    ]);
+
+    return this.prisma.$queryRaw<
+      { key: string; value: string; count: number }[]
+    >`
+      SELECT e.key, e.value #>> '{}' AS value, COUNT(*)::int AS count
+      FROM public.products p
+      CROSS JOIN LATERAL jsonb_each(
+        CASE WHEN jsonb_typeof(p.specs) = 'object' THEN p.specs ELSE '{}'::jsonb END
+      ) e
+      WHERE jsonb_typeof(e.value) IN ('string', 'number', 'boolean')
+        AND ${where}
+      GROUP BY e.key, e.value #>> '{}'
+      ORDER BY e.key, count DESC, value
+    `;
+  }
+
+  private groupSpecFacets(
+    rows: { key: string; value: string; count: number }[],
+  ): SpecFacet[] {
+    const facets = new Map<string, SpecFacet>();
+
+    for (const row of rows) {
+      const facet = facets.get(row.key) ?? { key: row.key, values: [] };
+      if (facet.values.length < MAX_FACET_VALUES) {
+        facet.values.push({ value: row.value, count: row.count });
+      }
+      facets.set(row.key, facet);
+    }
+
+    return [...facets.values()];
+  }
+
+  private combine(conditions: Prisma.Sql[]): Prisma.Sql {
+    return Prisma.join(conditions, ' AND ');
+  }
+}
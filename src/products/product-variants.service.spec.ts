@@ -0,0 +1,459 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { ProductVariantsService } from './product-variants.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { PricingService } from '../pricing/pricing.service';
+import { PriceHistoryService } from '../pricing/price-history.service';
+
+describe('ProductVariantsService', () => {
+  let service: ProductVariantsService;
+  let prisma: any;
+  let stockLedgerService: StockLedgerService;
+  let stockAlertsService: StockAlertsService;
+  let priceHistoryService: PriceHistoryService;
+
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const smallId = '8a7b6c5d-4e3f-4a2b-9c1d-0e9f8a7b6c5d';
+  const largeId = '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b';
+
+  const product = {
+    id: productId,
+    category_id: null,
+    base_price: new Prisma.Decimal('20.00'),
+    sale_price: new Prisma.Decimal('15.00'),
+    images: ['front.jpg', 'back.jpg'],
+    option_names: ['size'],
+  };
+
+  const buildVariant = (overrides: Record<string, unknown> = {}) => ({
+    id: smallId,
+    product_id: productId,
+    sku: 'TSHIRT-S',
+    options: { size: 'S' },
+    price: null,
+    stock_qty: 4,
+    images: [],
+    position: 0,
+    is_active: true,
+    created_at: new Date('2026-10-01T10:00:00Z'),
+    updated_at: new Date('2026-10-01T10:00:00Z'),
+    ...overrides,
+  });
+
+  const uniqueConflict = (column: string) =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: '5.22.0',
+      meta: { target: [column] },
+    });
+
+  beforeEach(async () => {
+    const prismaMock = {
+      products: {
+        findUnique: jest.fn().mockResolvedValue(product),
+        update: jest.fn(),
+      },
+      product_variants: {
+        findMany: jest.fn().mockResolvedValue([buildVariant()]),
+        findFirst: jest.fn().mockResolvedValue(buildVariant()),
+        count: jest.fn().mockResolvedValue(2),
+        create: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve(buildVariant({ id: largeId, ...args.data })),
+        ),
+        update: jest.fn((args: { data: Record<string, unknown> }) =>
+          Promise.resolve(buildVariant(args.data)),
+        ),
+        delete: jest.fn(),
+      },
+      order_items: {
+        count: jest.fn().mockResolvedValue(0),
+      },
+      $executeRaw: jest.fn(),
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (callback: (tx: typeof prismaMock) => Promise<unknown>) =>
+        callback(prismaMock),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductVariantsService,
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockLedgerService,
+          useValue: {
+            apply: jest.fn().mockResolvedValue({ stock_after: 6 }),
+            setStock: jest.fn(),
+          },
+        },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+        {
+          provide: PricingService,
+          useValue: {
+            resolve: jest.fn().mockResolvedValue(
+              new Map([
+                [
+                  productId,
+                  {
+                    sale_price: product.sale_price,
+                    sale_ends_at: null,
+                  },
+                ],
+              ]),
+            ),
+          },
+        },
+        {
+          provide: PriceHistoryService,
+          useValue: {
+            recordVariants: jest.fn(),
+            lowestPrices: jest.fn().mockResolvedValue({
+              products: new Map(),
+              variants: new Map([[largeId, new Prisma.Decimal('21.00')]]),
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductVariantsService>(ProductVariantsService);
+    prisma = module.get<PrismaService>(PrismaService);
+    stockLedgerService = module.get<StockLedgerService>(StockLedgerService);
+    stockAlertsService = module.get<StockAlertsService>(StockAlertsService);
+    priceHistoryService = module.get<PriceHistoryService>(PriceHistoryService);
+  });
+
+  describe('list', () => {
+    it('should price variants without a price of their own like the product', async () => {
+      const result = await service.list(productId);
+
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: smallId,
+          price: null,
+          base_price: '20.00',
+          sale_price: '15.00',
+        }),
+      ]);
+    });
+
+    it('should throw NotFoundException when the product does not exist', async () => {
+      prisma.products.findUnique.mockResolvedValueOnce(null);
+
+      await expect(service.list(productId)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('create', () => {
+    it('should record the initial stock as a restock of the new variant', async () => {
+      const result = await service.create(
+        productId,
+        {
+          sku: 'TSHIRT-L',
+          options: { size: ' L ' },
+          price: 24,
+          stock_qty: 6,
+          images: ['back.jpg'],
+        },
+        adminId,
+      );
+
+      expect(prisma.product_variants.create).toHaveBeenCalledWith({
+        data: {
+          sku: 'TSHIRT-L',
+          product_id: productId,
+          options: { size: 'L' },
+          price: new Prisma.Decimal(24),
+          images: ['back.jpg'],
+          stock_qty: 0,
+        },
+      });
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(prisma, {
+        product_id: productId,
+        variant_id: largeId,
+        delta: 6,
+        reason: 'restock',
+        actor_id: adminId,
+        note: 'Initial stock',
+      });
+      expect(priceHistoryService.recordVariants).toHaveBeenCalledWith(
+        prisma,
+        [largeId],
+        { reason: 'admin', actor_id: adminId },
+      );
+      expect(stockAlertsService.checkProducts).toHaveBeenCalledWith([
+        productId,
+      ]);
+      expect(result).toMatchObject({
+        id: largeId,
+        options: { size: 'L' },
+        price: '24.00',
+        base_price: '24.00',
+        sale_price: '18.00',
+        lowest_price_30d: '21.00',
+        stock_qty: 6,
+      });
+    });
+
+    it('should reject options that do not match the option names', async () => {
+      await expect(
+        service.create(productId, {
+          sku: 'TSHIRT-RED',
+          options: { color: 'Red' },
+        }),
+      ).rejects.toThrow(BadRequestException);
+
+      expect(prisma.product_variants.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject images the product does not have', async () => {
+      await expect(
+        service.create(productId, {
+          sku: 'TSHIRT-L',
+          options: { size: 'L' },
+          images: ['other.jpg'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw ConflictException when the options are taken', async () => {
+      prisma.product_variants.create.mockRejectedValueOnce(
+        uniqueConflict('options'),
+      );
+
+      await expect(
+        service.create(productId, { sku: 'TSHIRT-S2', options: { size: 'S' } }),
+      ).rejects.toMatchObject({
+        response: expect.objectContaining({ error: 'duplicate_variant' }),
+      });
+    });
+
+    it('should throw ConflictException when the SKU is taken', async () => {
+      prisma.product_variants.create.mockRejectedValueOnce(
+        uniqueConflict('sku'),
+      );
+
+      await expect(
+        service.create(productId, { sku: 'TSHIRT-S', options: { size: 'L' } }),
+      ).rejects.toThrow('A variant with this SKU already exists');
+    });
+  });
+
+  describe('update', () => {
+    it('should record a new stock level as a correction', async () => {
+      await service.update(productId, smallId, { stock_qty: 10 }, adminId);
+
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        productId,
+        10,
+        { reason: 'correction', actor_id: adminId },
+        smallId,
+      );
+      expect(stockAlertsService.checkProducts).toHaveBeenCalledWith([
+        productId,
+      ]);
+    });
+
+    it('should record a new price in the price history', async () => {
+      await service.update(productId, smallId, { price: 18 }, adminId);
+
+      expect(prisma.product_variants.update).toHaveBeenCalledWith({
+        where: { id: smallId },
+        data: expect.objectContaining({ price: new Prisma.Decimal(18) }),
+      });
+      expect(priceHistoryService.recordVariants).toHaveBeenCalledWith(
+        prisma,
+        [smallId],
+        { reason: 'admin', actor_id: adminId },
+      );
+    });
+
+    it('should not record prices when the price is left alone', async () => {
+      await service.update(productId, smallId, { sku: 'TSHIRT-SMALL' });
+
+      expect(priceHistoryService.recordVariants).not.toHaveBeenCalled();
+    });
+
+    it('should take the stock out of a variant it archives', async () => {
+      await service.update(productId, smallId, { is_active: false }, adminId);
+
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        productId,
+        0,
+        { reason: 'correction', actor_id: adminId, note: 'Variant archived' },
+        smallId,
+      );
+      expect(prisma.product_variants.update).toHaveBeenCalledWith({
+        where: { id: smallId },
+        data: expect.objectContaining({ is_active: false }),
+      });
+      expect(stockAlertsService.checkProducts).toHaveBeenCalledWith([
+        productId,
+      ]);
+    });
+
+    it('should refuse stock for an archived variant', async () => {
+      prisma.product_variants.findFirst.mockResolvedValueOnce(
+        buildVariant({ is_active: false, stock_qty: 0 }),
+      );
+
+      await expect(
+        service.update(productId, smallId, { stock_qty: 5 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(stockLedgerService.setStock).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to archive the last active variant', async () => {
+      prisma.product_variants.count.mockResolvedValueOnce(1);
+
+      await expect(
+        service.update(productId, smallId, { is_active: false }),
+      ).rejects.toMatchObject({
+        response: expect.objectContaining({ error: 'last_variant' }),
+      });
+      expect(prisma.product_variants.count).toHaveBeenCalledWith({
+        where: { product_id: productId, is_active: true },
+      });
+    });
+
+    it('should throw NotFoundException for a variant of another product', async () => {
+      prisma.product_variants.findFirst.mockResolvedValueOnce(null);
+
+      await expect(
+        service.update(productId, smallId, { price: 10 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should take the stock out before deleting the variant', async () => {
+      const result = await service.remove(productId, smallId, adminId);
+
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        productId,
+        0,
+        { reason: 'correction', actor_id: adminId, note: 'Variant deleted' },
+        smallId,
+      );
+      expect(prisma.product_variants.delete).toHaveBeenCalledWith({
+        where: { id: smallId },
+      });
+      expect(result).toEqual({ id: smallId, result: 'deleted' });
+    });
+
+    it('should archive a variant that was ordered', async () => {
+      prisma.order_items.count.mockResolvedValueOnce(3);
+
+      const result = await service.remove(productId, smallId, adminId);
+
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        productId,
+        0,
+        { reason: 'correction', actor_id: adminId, note: 'Variant archived' },
+        smallId,
+      );
+      expect(prisma.product_variants.update).toHaveBeenCalledWith({
+        where: { id: smallId },
+        data: { is_active: false },
+      });
+      expect(prisma.product_variants.delete).not.toHaveBeenCalled();
+      expect(stockAlertsService.checkProducts).toHaveBeenCalledWith([
+        productId,
+      ]);
+      expect(result).toEqual({ id: smallId, result: 'archived' });
+    });
+
+    it('should refuse to delete the last active variant', async () => {
+      prisma.product_variants.count.mockResolvedValueOnce(1);
+
+      await expect(service.remove(productId, smallId)).rejects.toMatchObject({
+        response: expect.objectContaining({ error: 'last_variant' }),
+      });
+      expect(prisma.product_variants.count).toHaveBeenCalledWith({
+        where: { product_id: productId, is_active: true },
+      });
+    });
+
+    it('should delete an archived variant next to the last active one', async () => {
+      prisma.product_variants.findFirst.mockResolvedValueOnce(
+        buildVariant({ is_active: false, stock_qty: 0 }),
+      );
+      prisma.product_variants.count.mockResolvedValueOnce(1);
+
+      const result = await service.remove(productId, smallId, adminId);
+
+      expect(result).toEqual({ id: smallId, result: 'deleted' });
+    });
+  });
+
+  describe('setOptions', () => {
+    it('should give every variant the value of an added option', async () => {
+      await service.setOptions(productId, {
+        names: ['size', 'color'],
+        values: { color: 'White' },
+      });
+
+      expect(prisma.products.update).toHaveBeenCalledWith({
+        where: { id: productId },
+        data: { option_names: ['size', 'color'] },
+      });
+      expect(prisma.product_variants.update).toHaveBeenCalledWith({
+        where: { id: smallId },
+        data: { options: { size: 'S', color: 'White' } },
+      });
+    });
+
+    it('should require a value for each added option', async () => {
+      await expect(
+        service.setOptions(productId, { names: ['size', 'color'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should refuse to remove an option that tells variants apart', async () => {
+      prisma.product_variants.findMany.mockResolvedValueOnce([
+        buildVariant(),
+        buildVariant({ id: largeId, sku: 'TSHIRT-L', options: { size: 'L' } }),
+      ]);
+
+      await expect(
+        service.setOptions(productId, { names: [] }),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.products.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pruneImages', () => {
+    it('should keep only images the product still has', async () => {
+      await service.pruneImages(prisma, [productId]);
+
+      const [strings, ...values] = prisma.$executeRaw.mock.calls[0];
+      const sql = Prisma.sql(strings, ...values);
+      expect(sql.sql).toContain('UPDATE public.product_variants v');
+      expect(sql.sql).toContain('WHERE image = ANY (p.images)');
+      expect(sql.sql).toContain('NOT (v.images <@ p.images)');
+      expect(sql.values).toEqual([productId]);
+    });
+
+    it('should not query without products', async () => {
+      await service.pruneImages(prisma, []);
+
+      expect(prisma.$executeRaw).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,531 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, product_variants, products } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { validationError } from '../common/pipes/validation.pipe';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { PricingService } from '../pricing/pricing.service';
+import { PriceHistoryService } from '../pricing/price-history.service';
+import { CreateProductVariantDto } from './dto/create-product-variant.dto';
+import { UpdateProductVariantDto } from './dto/update-product-variant.dto';
+import { SetProductOptionsDto } from './dto/set-product-options.dto';
+import {
+  ProductVariantDeletionResponse,
+  ProductVariantResponse,
+  VariantOptions,
+} from './dto/product-response.dto';
+import {
+  isUniqueConflict,
+  optionsError,
+  toVariantResponse,
+} from './utils/product-variant.util';
+
+type VariantProduct = Pick<
+  products,
+  'id' | 'category_id' | 'base_price' | 'sale_price' | 'images' | 'option_names'
+>;
+
+const VARIANT_ORDER = [
+  { position: 'asc' },
+  { id: 'asc' },
+] satisfies Prisma.product_variantsOrderByWithRelationInput[];
+
+@Injectable()
+export class ProductVariantsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly pricingService: PricingService,
+    private readonly priceHistoryService: PriceHistoryService,
+  ) {}
+
+  /**
+   * Variants of a product, active or not, in display order
+   * @param productId - Product ID
+   * @returns Promise<ProductVariantResponse[]> - The variants
+   */
+  async list(productId: string): Promise<ProductVariantResponse[]> {
+    const product = await this.findProduct(productId);
+
+    const variants = await this.prisma.product_variants.findMany({
+      where: { product_id: productId },
+      orderBy: VARIANT_ORDER,
+    });
+
+    return await this.toResponses(product, variants);
+  }
+
+  /**
+   * Add a variant to a product. Initial stock is recorded in the stock
+   * ledger as a restock, and a price of its own in the price history.
+   * @param productId - Product ID
+   * @param createProductVariantDto - SKU, options, price, stock and images
+   * @param actorId - Admin adding the variant
+   * @returns Promise<ProductVariantResponse> - The created variant
+   */
+  async create(
+    productId: string,
+    createProductVariantDto: CreateProductVariantDto,
+    actorId?: string,
+  ): Promise<ProductVariantResponse> {
+    const { options, price, stock_qty, images, ...rest } =
+      createProductVariantDto;
+    const product = await this.findProduct(productId);
+
+    this.assertOptions(options, product.option_names);
+    this.assertImages(images, product.images);
+
+    const variant = await this.writeVariant(async (tx) => {
+      const created = await tx.product_variants.create({
+        data: {
+          ...rest,
+          product_id: productId,
+          options: this.normalizeOptions(options, product.option_names),
+          price:
+            price === undefined || price === null
+              ? price
+              : new Prisma.Decimal(price),
+          images,
+          stock_qty: 0,
+        },
+      });
+      await this.priceHistoryService.recordVariants(tx, [created.id], {
+        reason: 'admin',
+        actor_id: actorId,
+      });
+      if (!stock_qty) {
+        return created;
+      }
+
+      const movement = await this.stockLedgerService.apply(tx, {
+        product_id: productId,
+        variant_id: created.id,
+        delta: stock_qty,
+        reason: 'restock',
+        actor_id: actorId,
+        note: 'Initial stock',
+      });
+      return { ...created, stock_qty: movement!.stock_after };
+    });
+
+    await this.stockAlertsService.checkProducts([productId]);
+
+    const [response] = await this.toResponses(product, [variant]);
+    return response;
+  }
+
+  /**
+   * Update a variant of a product. A new stock level is recorded in the
+   * stock ledger as a correction, and a new price in the price history.
+   * Deactivating a variant archives it: its stock is taken out, as remove
+   * does for archived variants.
+   * @param productId - Product ID
+   * @param variantId - Variant ID
+   * @param updateProductVariantDto - Fields to change
+   * @param actorId - Admin making the change
+   * @returns Promise<ProductVariantResponse> - The updated variant
+   */
+  async update(
+    productId: string,
+    variantId: string,
+    updateProductVariantDto: UpdateProductVariantDto,
+    actorId?: string,
+  ): Promise<ProductVariantResponse> {
+    const { options, price, stock_qty, images, ...rest } =
+      updateProductVariantDto;
+    const product = await this.findProduct(productId);
+    const existing = await this.findVariant(productId, variantId);
+
+    if (options !== undefined) {
+      this.assertOptions(options, product.option_names);
+    }
+    this.assertImages(images, product.images);
+
+    const archiving = rest.is_active === false && existing.is_active;
+    if (!(rest.is_active ?? existing.is_active) && stock_qty) {
+      throw validationError([
+        {
+          field: 'stock_qty',
+          message: 'Archived variants cannot hold stock',
+        },
+      ]);
+    }
+    if (archiving) {
+      await this.assertNotLastVariant(productId, existing);
+    }
+
+    const variant = await this.writeVariant(async (tx) => {
+      if (archiving) {
+        await this.stockLedgerService.setStock(
+          tx,
+          productId,
+          0,
+          { reason: 'correction', actor_id: actorId, note: 'Variant archived' },
+          variantId,
+        );
+      } else if (stock_qty !== undefined) {
+        await this.stockLedgerService.setStock(
+          tx,
+          productId,
+          stock_qty,
+          { reason: 'correction', actor_id: actorId },
+          variantId,
+        );
+      }
+
+      const updated = await tx.product_variants.update({
+        where: { id: variantId },
+        data: {
+          ...rest,
+          options:
+            options === undefined
+              ? undefined
+              : this.normalizeOptions(options, product.option_names),
+          price:
+            price === undefined || price === null
+              ? price
+              : new Prisma.Decimal(price),
+          images,
+        },
+      });
+      if (price !== undefined) {
+        await this.priceHistoryService.recordVariants(tx, [variantId], {
+          reason: 'admin',
+          actor_id: actorId,
+        });
+      }
+      return updated;
+    });
+
+    if (stock_qty !== undefined || rest.is_active !== undefined) {
+      await this.stockAlertsService.checkProducts([productId]);
+    }
+
+    const [response] = await this.toResponses(product, [variant]);
+    return response;
+  }
+
+  /**
+   * Delete a variant of a product, taking its stock out of the product's
+   * stock. Variants referenced by order items are archived (is_active=false)
+   * instead, so order history stays intact; their stock is taken out all
+   * the same.
+   * @param productId - Product ID
+   * @param variantId - Variant ID
+   * @param actorId - Admin deleting the variant
+   * @returns Promise<ProductVariantDeletionResponse> - Whether the variant was deleted or archived
+   */
+  async remove(
+    productId: string,
+    variantId: string,
+    actorId?: string,
+  ): Promise<ProductVariantDeletionResponse> {
+    await this.findProduct(productId);
+    const variant = await this.findVariant(productId, variantId);
+    await this.assertNotLastVariant(productId, variant);
+
+    const orderItems = await this.prisma.order_items.count({
+      where: { variant_id: variantId },
+    });
+    if (orderItems > 0) {
+      return await this.archive(productId, variantId, actorId);
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await this.stockLedgerService.setStock(
+          tx,
+          productId,
+          0,
+          { reason: 'correction', actor_id: actorId, note: 'Variant deleted' },
+          variantId,
+        );
+        await tx.product_variants.delete({ where: { id: variantId } });
+      });
+    } catch (error) {
+      // An order was placed in the meantime; the foreign key keeps the row
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        return await this.archive(productId, variantId, actorId);
+      }
+      throw error;
+    }
+
+    await this.stockAlertsService.checkProducts([productId]);
+    return { id: variantId, result: 'deleted' };
+  }
+
+  /**
+   * Set the option names of a product. Variants drop the values of removed
+   * names and take the given value for added ones.
+   * @param productId - Product ID
+   * @param setProductOptionsDto - Option names in display order, and values for the added ones
+   * @returns Promise<ProductVariantResponse[]> - The variants with their new options
+   */
+  async setOptions(
+    productId: string,
+    setProductOptionsDto: SetProductOptionsDto,
+  ): Promise<ProductVariantResponse[]> {
+    const { names, values = {} } = setProductOptionsDto;
+    const product = await this.findProduct(productId);
+
+    const added = names.filter((name) => !product.option_names.includes(name));
+    const missing = added.filter((name) => {
+      const value = values[name];
+      return typeof value !== 'string' || !value.trim();
+    });
+    if (missing.length > 0) {
+      throw validationError(
+        missing.map((name) => ({
+          field: `values.${name}`,
+          message: 'A value is required for each added option name',
+        })),
+      );
+    }
+
+    const variants = await this.prisma.product_variants.findMany({
+      where: { product_id: productId },
+      orderBy: VARIANT_ORDER,
+    });
+    const updates = variants.map((variant) => ({
+      variant,
+      options: this.normalizeOptions(
+        { ...values, ...(variant.options as VariantOptions) },
+        names,
+      ),
+    }));
+
+    const seen = new Map<string, string>();
+    for (const { variant, options } of updates) {
+      const key = JSON.stringify(options);
+      const other = seen.get(key);
+      if (other) {
+        throw new ConflictException({
+          statusCode: HttpStatus.CONFLICT,
+          error: 'duplicate_variant',
+          message: `Variants ${other} and ${variant.sku} would have the same options`,
+        });
+      }
+      seen.set(key, variant.sku);
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.products.update({
+        where: { id: productId },
+        data: { option_names: names },
+      });
+
+      return await Promise.all(
+        updates.map(({ variant, options }) =>
+          tx.product_variants.update({
+            where: { id: variant.id },
+            data: { options },
+          }),
+        ),
+      );
+    });
+
+    return await this.toResponses(product, updated);
+  }
+
+  /**
+   * Take images off variants that are no longer among the images of their
+   * product. Call it within the transaction that changed the product's
+   * images, after the change.
+   * @param tx - Transaction client
+   * @param productIds - Products whose images may have changed
+   */
+  async pruneImages(
+    tx: Prisma.TransactionClient,
+    productIds: string[],
+  ): Promise<void> {
+    if (productIds.length === 0) {
+      return;
+    }
+
+    await tx.$executeRaw`
+      UPDATE public.product_variants v
+      SET images = ARRAY(
+        SELECT image
+        FROM unnest(v.images) WITH ORDINALITY AS kept(image, position)
+        WHERE image = ANY (p.images)
+        ORDER BY position
+      )
+      FROM public.products p
+      WHERE p.id = v.product_id
+        AND v.product_id IN (${Prisma.join(productIds.map((id) => Prisma.sql`${id}::uuid`))})
+        AND NOT (v.images <@ p.images)
+    `;
+  }
+
+  private async archive(
+    productId: string,
+    variantId: string,
+    actorId?: string,
+  ): Promise<ProductVariantDeletionResponse> {
+    await this.prisma.$transaction(async (tx) => {
+      await this.stockLedgerService.setStock(
+        tx,
+        productId,
+        0,
+        { reason: 'correction', actor_id: actorId, note: 'Variant archived' },
+        variantId,
+      );
+      await tx.product_variants.update({
+        where: { id: variantId },
+        data: { is_active: false },
+      });
+    });
+
+    await this.stockAlertsService.checkProducts([productId]);
+    return { id: variantId, result: 'archived' };
+  }
+
+  /**
+   * Run a variant write, reporting SKU and options clashes as conflicts
+   */
+  private async writeVariant(
+    write: (tx: Prisma.TransactionClient) => Promise<product_variants>,
+  ): Promise<product_variants> {
+    try {
+      return await this.prisma.$transaction(write);
+    } catch (error) {
+      if (isUniqueConflict(error, 'sku')) {
+        throw new ConflictException('A variant with this SKU already exists');
+      }
+      if (isUniqueConflict(error, 'options')) {
+        throw new ConflictException({
+          statusCode: HttpStatus.CONFLICT,
+          error: 'duplicate_variant',
+          message: 'The product already has a variant with these options',
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async findProduct(id: string): Promise<VariantProduct> {
+    const product = await this.prisma.products.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        category_id: true,
+        base_price: true,
+        sale_price: true,
+        images: true,
+        option_names: true,
+      },
+    });
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return product;
+  }
+
+  private async findVariant(
+    productId: string,
+    variantId: string,
+  ): Promise<product_variants> {
+    const variant = await this.prisma.product_variants.findFirst({
+      where: { id: variantId, product_id: productId },
+    });
+
+    if (!variant) {
+      throw new NotFoundException('Variant not found');
+    }
+
+    return variant;
+  }
+
+  // Archived variants do not count, as they cannot be bought
+  private async assertNotLastVariant(
+    productId: string,
+    variant: product_variants,
+  ): Promise<void> {
+    if (!variant.is_active) {
+      return;
+    }
+
+    const active = await this.prisma.product_variants.count({
+      where: { product_id: productId, is_active: true },
+    });
+    if (active === 1) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'last_variant',
+        message:
+          'A product needs at least one active variant, archive or delete the product instead',
+      });
+    }
+  }
+
+  private assertOptions(
+    options: Record<string, unknown>,
+    optionNames: string[],
+  ): void {
+    const message = optionsError(options, optionNames);
+
+    if (message) {
+      throw validationError([{ field: 'options', message }]);
+    }
+  }
+
+  private assertImages(
+    images: string[] | undefined,
+    productImages: string[],
+  ): void {
+    if (images?.some((image) => !productImages.includes(image))) {
+      throw validationError([
+        {
+          field: 'images',
+          message: 'Images must be among the images of the product',
+        },
+      ]);
+    }
+  }
+
+  /**
+   * Options with trimmed values, keyed in the order of the option names, so
+   * equal options are stored alike
+   */
+  private normalizeOptions(
+    options: Record<string, string>,
+    optionNames: string[],
+  ): VariantOptions {
+    return Object.fromEntries(
+      optionNames.map((name) => [name, options[name].trim()]),
+    );
+  }
+
+  private async toResponses(
+    product: VariantProduct,
+    variants: product_variants[],
+  ): Promise<ProductVariantResponse[]> {
+    const [prices, lowestPrices] = await Promise.all([
+      this.pricingService.resolve([product]),
+      this.priceHistoryService.lowestPrices([product.id]),
+    ]);
+
+    return variants.map((variant) =>
+      toVariantResponse(
+        variant,
+        {
+          base_price: product.base_price,
+          sale_price: prices.get(product.id)!.sale_price,
+        },
+        lowestPrices.variants.get(variant.id) ?? null,
+      ),
+    );
+  }
+}
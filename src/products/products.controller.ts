@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+} from '@nestjs/common';
+
+import { ProductsService } from './products.service';
+import { ProductSearchService } from './product-search.service';
+import { ListProductsQueryDto } from './dto/list-products-query.dto';
+import { SearchProductsQueryDto } from './dto/search-products-query.dto';
+import { SuggestProductsQueryDto } from './dto/suggest-products-query.dto';
+import { ProductResponse } from './dto/product-response.dto';
+import {
+  ProductSearchResponse,
+  ProductSuggestResponse,
+} from './dto/product-search-response.dto';
+import { SpecFiltersPipe } from './pipes/spec-filters.pipe';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('products')
+export class ProductsController {
+  constructor(
+    private readonly productsService: ProductsService,
+    private readonly productSearchService: ProductSearchService,
+  ) {}
+
+  /**
+   * List active products (storefront)
+   * GET /products
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async listProducts(
+    @Query() query: ListProductsQueryDto,
+  ): Promise<PaginatedResponse<ProductResponse>> {
+    return await this.productsService.list(query);
+  }
+
+  /**
+   * Search active products with facet counts for the filter sidebar.
+   * Spec filters are passed as specs.<key>=<value>, repeated for several values.
+   * GET /products/search
+   */
+  @Get('search')
+  @HttpCode(HttpStatus.OK)
+  async searchProducts(
+    @Query(SpecFiltersPipe, createValidationPipe())
+    query: SearchProductsQueryDto,
+  ): Promise<ProductSearchResponse> {
+    return await this.productSearchService.search(query);
+  }
+
+  /**
+   * Autocomplete suggestions, with "did you mean" names when nothing matches
+   * GET /products/suggest?q=lapt
+   */
+  @Get('suggest')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async suggestProducts(
+    @Query() query: SuggestProductsQueryDto,
+  ): Promise<ProductSuggestResponse> {
+    return await this.productSearchService.suggest(query);
+  }
+
+  /**
+   * Get an active product by slug (storefront)
+   * GET /products/:slug
+   */
+  @Get(':slug')
+  @HttpCode(HttpStatus.OK)
+  async getProduct(@Param('slug') slug: string): Promise<ProductResponse> {
+    return await this.productsService.findBySlug(slug);
+  }
+}
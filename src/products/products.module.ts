@@ -0,0 +1,49 @@
+import { Module } from '@nestjs/common';
+
+import { ProductsService } from './products.service';
+import { ProductSearchService } from './product-search.service';
+import { ProductImportService } from './product-import.service';
+import { ProductVariantsService } from './product-variants.service';
+import { ProductsController } from './products.controller';
+import { AdminProductsController } from './admin-products.controller';
+import { AdminProductVariantsController } from './admin-product-variants.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { CategoriesModule } from '../categories/categories.module';
+import { StorageModule } from '../storage/storage.module';
+import { PricingModule } from '../pricing/pricing.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+
+    // Category subtrees for search
+    CategoriesModule,
+
+    // Stock ledger and low stock alerts for stock edits
+    InventoryModule,
+
+    // Image uploads
+    StorageModule,
+
+    // Sale prices of running price schedules, and the price history
+    PricingModule,
+  ],
+  controllers: [
+    ProductsController,
+    AdminProductsController,
+    AdminProductVariantsController,
+  ],
+  providers: [
+    ProductsService,
+    ProductSearchService,
+    ProductImportService,
+    ProductVariantsService,
+  ],
+  exports: [ProductsService],
+})
+export class ProductsModule {}
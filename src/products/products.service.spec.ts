@@ -0,0 +1,739 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, product_variants, products } from '@prisma/client';
+import { ProductsService } from './products.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import {
+  StockLedgerService,
+  StockMovementInput,
+} from '../inventory/stock-ledger.service';
+import { ImagesService } from '../storage/images.service';
+import { PricedProduct, PricingService } from '../pricing/pricing.service';
+import { PriceHistoryService } from '../pricing/price-history.service';
+import { ProductVariantsService } from './product-variants.service';
+
+describe('ProductsService', () => {
+  let service: ProductsService;
+  let prisma: PrismaService;
+  let stockLedgerService: StockLedgerService;
+  let imagesService: ImagesService;
+  let pricingService: PricingService;
+  let priceHistoryService: PriceHistoryService;
+  let productVariantsService: ProductVariantsService;
+
+  const productId = '3f1c2a9e-5b7d-4e8a-9c1f-2d3e4f5a6b7c';
+  const variantId = '9b2e7c41-6d3a-4f58-8e1b-0c7d5a2f4e63';
+  const adminId = '123e4567-e89b-12d3-a456-426614174000';
+
+  const buildVariant = (
+    overrides: Partial<product_variants> = {},
+  ): product_variants => ({
+    id: variantId,
+    product_id: productId,
+    sku: 'WIRELESS-MOUSE',
+    options: {},
+    price: null,
+    stock_qty: 10,
+    images: [],
+    position: 0,
+    is_active: true,
+    created_at: new Date(),
+    ...overrides,
+  });
+
+  const buildProduct = (
+    overrides: Partial<products> = {},
+    variants: product_variants[] = [buildVariant()],
+  ): products & { categories: null; product_variants: product_variants[] } => ({
+    id: productId,
+    category_id: null,
+    name: 'Wireless Mouse',
+    slug: 'wireless-mouse',
+    description: null,
+    base_price: new Prisma.Decimal('49.90'),
+    sale_price: null,
+    stock_qty: 10,
+    low_stock_threshold: 5,
+    main_image: null,
+    images: [],
+    specs: {},
+    is_featured: false,
+    is_active: true,
+    ai_integrated: false,
+    created_at: new Date(),
+    option_names: [],
+    ...overrides,
+    categories: null,
+    product_variants: variants,
+  });
+
+  const uniqueConflict = (column: string) =>
+    new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+      code: 'P2002',
+      clientVersion: '5.22.0',
+      meta: { target: [column] },
+    });
+
+  beforeEach(async () => {
+    const prismaMock = {
+      products: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        findUnique: jest.fn(),
+        count: jest.fn(),
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        delete: jest.fn(),
+      },
+      categories: { findUnique: jest.fn() },
+      order_items: { count: jest.fn().mockResolvedValue(0) },
+      $queryRaw: jest.fn(),
+      $transaction: jest.fn(),
+    };
+    prismaMock.$transaction.mockImplementation(
+      (
+        arg: ((tx: typeof prismaMock) => Promise<unknown>) | Promise<unknown>[],
+      ) => (typeof arg === 'function' ? arg(prismaMock) : Promise.all(arg)),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProductsService,
+        { provide: PrismaService, useValue: prismaMock },
+        {
+          provide: StockAlertsService,
+          useValue: { checkProducts: jest.fn() },
+        },
+        {
+          provide: StockLedgerService,
+          useValue: {
+            apply: jest.fn((tx: unknown, movement: StockMovementInput) =>
+              Promise.resolve({
+                id: 'movement-id',
+                ...movement,
+                stock_after: movement.delta,
+              }),
+            ),
+            setStock: jest.fn(),
+          },
+        },
+        {
+          provide: ImagesService,
+          useValue: {
+            upload: jest.fn().mockResolvedValue({
+              url: '/uploads/products/image-id/original.jpg',
+              variants: {
+                thumb: '/uploads/products/image-id/thumb.jpg',
+                medium: '/uploads/products/image-id/medium.jpg',
+              },
+              width: 1200,
+              height: 800,
+            }),
+            discard: jest.fn(),
+          },
+        },
+        {
+          provide: PricingService,
+          useValue: {
+            resolve: jest.fn((products: PricedProduct[]) =>
+              Promise.resolve(
+                new Map(
+                  products.map((product) => [
+                    product.id,
+                    { sale_price: product.sale_price, sale_ends_at: null },
+                  ]),
+                ),
+              ),
+            ),
+          },
+        },
+        {
+          provide: PriceHistoryService,
+          useValue: {
+            record: jest.fn(),
+            lowestPrices: jest
+              .fn()
+              .mockResolvedValue({ products: new Map(), variants: new Map() }),
+          },
+        },
+        {
+          provide: ProductVariantsService,
+          useValue: { pruneImages: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ProductsService>(ProductsService);
+    prisma = module.get<PrismaService>(PrismaService);
+    stockLedgerService = module.get<StockLedgerService>(StockLedgerService);
+    imagesService = module.get<ImagesService>(ImagesService);
+    pricingService = module.get<PricingService>(PricingService);
+    priceHistoryService = module.get<PriceHistoryService>(PriceHistoryService);
+    productVariantsService = module.get<ProductVariantsService>(
+      ProductVariantsService,
+    );
+  });
+
+  describe('list', () => {
+    it('should sort by the price products sell at and keep that order', async () => {
+      const otherId = '7c6b5a4f-3e2d-4c1b-9a8e-7d5b2e9a1c3f';
+      jest
+        .spyOn(prisma, '$queryRaw')
+        .mockResolvedValueOnce([{ id: otherId }, { id: productId }])
+        .mockResolvedValueOnce([{ total: 2 }]);
+      jest
+        .spyOn(prisma.products, 'findMany')
+        .mockResolvedValue([
+          buildProduct(),
+          buildProduct({ id: otherId, slug: 'usb-hub' }),
+        ]);
+
+      const result = await service.list({ sort: 'price_asc', page: 1 });
+
+      const [strings, ...values] = jest.mocked(prisma.$queryRaw).mock
+        .calls[0] as [TemplateStringsArray, ...unknown[]];
+      const { sql } = Prisma.sql(strings, ...values);
+      expect(sql).toContain('COALESCE(p.sale_price, p.base_price)');
+      expect(sql).toContain('ASC, p.id');
+      expect(result.data.map((product) => product.id)).toEqual([
+        otherId,
+        productId,
+      ]);
+      expect(result.meta).toEqual({
+        page: 1,
+        limit: 20,
+        total: 2,
+        total_pages: 1,
+      });
+    });
+
+    it('should search through the full-text index and match SKUs', async () => {
+      jest
+        .spyOn(prisma, '$queryRaw')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+
+      await service.list({ search: 'Wireless Mou' });
+
+      const [strings, ...values] = jest.mocked(prisma.$queryRaw).mock
+        .calls[0] as [TemplateStringsArray, ...unknown[]];
+      const query = Prisma.sql(strings, ...values);
+      expect(query.sql).toContain('p.search_vector @@ to_tsquery');
+      expect(query.sql).not.toContain('ILIKE');
+      expect(query.values).toEqual(
+        expect.arrayContaining(['wireless:* & mou:*', 'Wireless Mou']),
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should generate a slug from the name', async () => {
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockImplementation(
+          (args: any) => buildProduct({ slug: args.data.slug }) as any,
+        );
+
+      const result = await service.create({
+        name: 'Wireless Mouse',
+        base_price: 49.9,
+      });
+
+      expect(result.slug).toBe('wireless-mouse');
+      expect(result.base_price).toBe('49.90');
+    });
+
+    it('should create a first variant with the slug as its SKU', async () => {
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockImplementation(() => buildProduct() as any);
+
+      await service.create({ name: 'Wireless Mouse', base_price: 49.9 });
+
+      const { data } = jest.mocked(prisma.products.create).mock.calls[0][0];
+      expect(data.product_variants).toEqual({
+        create: { sku: 'WIRELESS-MOUSE' },
+      });
+    });
+
+    it('should reject a SKU that is already used', async () => {
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockRejectedValue(uniqueConflict('sku'));
+
+      await expect(
+        service.create({ name: 'Mouse', sku: 'MOUSE-1', base_price: 10 }),
+      ).rejects.toThrow('A variant with this SKU already exists');
+      expect(prisma.products.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should add a suffix when the slug is taken', async () => {
+      jest
+        .spyOn(prisma.products, 'findMany')
+        .mockResolvedValue([
+          { slug: 'wireless-mouse' },
+          { slug: 'wireless-mouse-2' },
+        ] as any);
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockImplementation(
+          (args: any) => buildProduct({ slug: args.data.slug }) as any,
+        );
+
+      const result = await service.create({
+        name: 'Wireless Mouse',
+        base_price: 49.9,
+      });
+
+      expect(result.slug).toBe('wireless-mouse-3');
+    });
+
+    it('should retry with a new slug when a concurrent insert took it', async () => {
+      jest
+        .spyOn(prisma.products, 'findMany')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ slug: 'wireless-mouse' }] as any);
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockRejectedValueOnce(uniqueConflict('slug'))
+        .mockImplementation(
+          (args: any) => buildProduct({ slug: args.data.slug }) as any,
+        );
+
+      const result = await service.create({
+        name: 'Wireless Mouse',
+        base_price: 49.9,
+      });
+
+      expect(result.slug).toBe('wireless-mouse-2');
+    });
+
+    it('should reject an explicit slug that is already used', async () => {
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockRejectedValue(uniqueConflict('slug'));
+
+      await expect(
+        service.create({
+          name: 'Wireless Mouse',
+          slug: 'wireless-mouse',
+          base_price: 49.9,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should record the initial stock in the ledger', async () => {
+      jest
+        .spyOn(prisma.products, 'create')
+        .mockImplementation(
+          (args: any) =>
+            buildProduct({ stock_qty: args.data.stock_qty }) as any,
+        );
+
+      const result = await service.create(
+        { name: 'Wireless Mouse', base_price: 49.9, stock_qty: 10 },
+        adminId,
+      );
+
+      const { data } = jest.mocked(prisma.products.create).mock.calls[0][0];
+      expect(data.stock_qty).toBe(0);
+      expect(stockLedgerService.apply).toHaveBeenCalledWith(prisma, {
+        product_id: productId,
+        variant_id: variantId,
+        delta: 10,
+        reason: 'restock',
+        actor_id: adminId,
+        note: 'Initial stock',
+      });
+      expect(result.stock_qty).toBe(10);
+      expect(result.variants[0].stock_qty).toBe(10);
+    });
+
+    it('should reject a sale price above the base price', async () => {
+      await expect(
+        service.create({ name: 'Mouse', base_price: 10, sale_price: 12.5 }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.products.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown category', async () => {
+      jest.spyOn(prisma.categories, 'findUnique').mockResolvedValue(null);
+
+      await expect(
+        service.create({
+          name: 'Mouse',
+          base_price: 10,
+          category_id: '6ec0bd7f-11c0-43da-975e-2a8ad9ebae0b',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it('should compare a new sale price with the stored base price', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+
+      await expect(
+        service.update(productId, { sale_price: 59.9 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should compare a new base price with the stored sale price', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(
+          buildProduct({ sale_price: new Prisma.Decimal('39.90') }),
+        );
+
+      await expect(
+        service.update(productId, { base_price: 29.9 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should keep the slug when the product is renamed', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest
+        .spyOn(prisma.products, 'update')
+        .mockResolvedValue(buildProduct({ name: 'Silent Mouse' }) as any);
+
+      await service.update(productId, { name: 'Silent Mouse' });
+
+      const { data } = jest.mocked(prisma.products.update).mock.calls[0][0];
+      expect(data.name).toBe('Silent Mouse');
+      expect(data.slug).toBeUndefined();
+      expect(priceHistoryService.record).not.toHaveBeenCalled();
+      expect(productVariantsService.pruneImages).not.toHaveBeenCalled();
+    });
+
+    it('should take removed images off the variants', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest
+        .spyOn(prisma.products, 'update')
+        .mockResolvedValue(buildProduct({ images: ['a.jpg'] }) as any);
+
+      await service.update(productId, { images: ['a.jpg'] });
+
+      expect(productVariantsService.pruneImages).toHaveBeenCalledWith(prisma, [
+        productId,
+      ]);
+    });
+
+    it('should record new prices in the price history', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest
+        .spyOn(prisma.products, 'update')
+        .mockResolvedValue(
+          buildProduct({ sale_price: new Prisma.Decimal('39.90') }) as any,
+        );
+
+      await service.update(productId, { sale_price: 39.9 }, adminId);
+
+      expect(priceHistoryService.record).toHaveBeenCalledWith(
+        prisma,
+        [productId],
+        { reason: 'admin', actor_id: adminId },
+      );
+    });
+
+    it('should record a new stock level in the ledger as a correction', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest
+        .spyOn(prisma.products, 'update')
+        .mockResolvedValue(buildProduct({ stock_qty: 4 }) as any);
+
+      await service.update(productId, { stock_qty: 4 }, adminId);
+
+      expect(stockLedgerService.setStock).toHaveBeenCalledWith(
+        prisma,
+        productId,
+        4,
+        { reason: 'correction', actor_id: adminId },
+      );
+      const { data } = jest.mocked(prisma.products.update).mock.calls[0][0];
+      expect(data.stock_qty).toBeUndefined();
+    });
+  });
+
+  describe('addImage', () => {
+    const file = { mimetype: 'image/png' } as Express.Multer.File;
+
+    it('should append the image and make it the main image if there is none', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+
+      const result = await service.addImage(productId, file);
+
+      expect(imagesService.upload).toHaveBeenCalledWith('products', file);
+      expect(prisma.products.update).toHaveBeenCalledWith({
+        where: { id: productId },
+        data: { images: { push: result.url } },
+      });
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { id: productId, main_image: null },
+        data: { main_image: result.url },
+      });
+    });
+
+    it('should not upload for an unknown product', async () => {
+      jest.spyOn(prisma.products, 'findUnique').mockResolvedValue(null);
+
+      await expect(service.addImage(productId, file)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(imagesService.upload).not.toHaveBeenCalled();
+    });
+
+    it('should remove the upload when the product disappears meanwhile', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest.spyOn(prisma.products, 'update').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Record not found', {
+          code: 'P2025',
+          clientVersion: '5.22.0',
+        }),
+      );
+
+      await expect(service.addImage(productId, file)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(imagesService.discard).toHaveBeenCalled();
+    });
+  });
+
+  describe('reorderImages', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct({ images: ['a.jpg', 'b.jpg'] }));
+    });
+
+    it('should store the images in the new order', async () => {
+      const result = await service.reorderImages(productId, {
+        images: ['b.jpg', 'a.jpg'],
+      });
+
+      expect(result.images).toEqual(['b.jpg', 'a.jpg']);
+      expect(prisma.products.updateMany).toHaveBeenCalledWith({
+        where: { id: productId, images: { equals: ['a.jpg', 'b.jpg'] } },
+        data: { images: ['b.jpg', 'a.jpg'] },
+      });
+    });
+
+    it('should reject a list that is not the current images', async () => {
+      await expect(
+        service.reorderImages(productId, { images: ['b.jpg', 'c.jpg'] }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.products.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject the change when the images changed meanwhile', async () => {
+      jest.spyOn(prisma.products, 'updateMany').mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.reorderImages(productId, { images: ['b.jpg', 'a.jpg'] }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('setMainImage', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct({ images: ['a.jpg', 'b.jpg'] }));
+    });
+
+    it('should make one of the images the main image', async () => {
+      jest
+        .spyOn(prisma.products, 'update')
+        .mockResolvedValue(
+          buildProduct({ images: ['a.jpg', 'b.jpg'], main_image: 'b.jpg' }),
+        );
+
+      const result = await service.setMainImage(productId, { image: 'b.jpg' });
+
+      expect(result.main_image).toBe('b.jpg');
+      expect(prisma.products.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { main_image: 'b.jpg' } }),
+      );
+    });
+
+    it('should reject an image the product does not have', async () => {
+      await expect(
+        service.setMainImage(productId, { image: 'c.jpg' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.products.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a product that was never ordered', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+
+      const result = await service.remove(productId);
+
+      expect(result).toEqual({ id: productId, result: 'deleted' });
+      expect(prisma.products.delete).toHaveBeenCalledWith({
+        where: { id: productId },
+      });
+    });
+
+    it('should archive a product that appears in orders', async () => {
+      jest
+        .spyOn(prisma.products, 'findUnique')
+        .mockResolvedValue(buildProduct());
+      jest.spyOn(prisma.order_items, 'count').mockResolvedValue(3);
+
+      const result = await service.remove(productId);
+
+      expect(result).toEqual({ id: productId, result: 'archived' });
+      expect(prisma.products.update).toHaveBeenCalledWith({
+        where: { id: productId },
+        data: { is_active: false },
+      });
+      expect(prisma.products.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findBySlug', () => {
+    it('should only return active products', async () => {
+      jest.spyOn(prisma.products, 'findFirst').mockResolvedValue(null);
+
+      await expect(service.findBySlug('wireless-mouse')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prisma.products.findFirst).toHaveBeenCalledWith({
+        where: { slug: 'wireless-mouse', is_active: true },
+        include: {
+          categories: true,
+          product_variants: { orderBy: [{ position: 'asc' }, { id: 'asc' }] },
+        },
+      });
+    });
+
+    it('should list the active variants with their options and prices', async () => {
+      jest.spyOn(prisma.products, 'findFirst').mockResolvedValue(
+        buildProduct(
+          {
+            option_names: ['size'],
+            sale_price: new Prisma.Decimal('39.92'),
+          },
+          [
+            buildVariant({ sku: 'MOUSE-S', options: { size: 'S' } }),
+            buildVariant({
+              id: 'large-variant-id',
+              sku: 'MOUSE-L',
+              options: { size: 'L' },
+              price: new Prisma.Decimal('59.90'),
+            }),
+            buildVariant({
+              id: 'archived-variant-id',
+              sku: 'MOUSE-XL',
+              options: { size: 'XL' },
+              is_active: false,
+            }),
+          ],
+        ),
+      );
+
+      const result = await service.findBySlug('wireless-mouse');
+
+      expect(result.options).toEqual([{ name: 'size', values: ['S', 'L'] }]);
+      expect(result.variants).toEqual([
+        expect.objectContaining({
+          sku: 'MOUSE-S',
+          price: null,
+          base_price: '49.90',
+          sale_price: '39.92',
+        }),
+        // 59.90 x 39.92 / 49.90 = 47.92
+        expect.objectContaining({
+          sku: 'MOUSE-L',
+          price: '59.90',
+          base_price: '59.90',
+          sale_price: '47.92',
+        }),
+      ]);
+    });
+
+    it('should return the sale price of a running price schedule', async () => {
+      const endsAt = new Date('2026-10-25T00:00:00Z');
+      jest
+        .spyOn(prisma.products, 'findFirst')
+        .mockResolvedValue(buildProduct());
+      jest
+        .mocked(pricingService.resolve)
+        .mockResolvedValueOnce(
+          new Map([
+            [
+              productId,
+              { sale_price: new Prisma.Decimal('29.00'), sale_ends_at: endsAt },
+            ],
+          ]),
+        );
+
+      const result = await service.findBySlug('wireless-mouse');
+
+      expect(result).toMatchObject({
+        base_price: '49.90',
+        sale_price: '29.00',
+        sale_ends_at: endsAt,
+      });
+    });
+
+    it('should return the lowest price before the current one', async () => {
+      jest
+        .spyOn(prisma.products, 'findFirst')
+        .mockResolvedValue(
+          buildProduct({ sale_price: new Prisma.Decimal('39.90') }),
+        );
+      jest.mocked(priceHistoryService.lowestPrices).mockResolvedValueOnce({
+        products: new Map([[productId, new Prisma.Decimal('44.90')]]),
+        variants: new Map([[variantId, new Prisma.Decimal('42.90')]]),
+      });
+
+      const result = await service.findBySlug('wireless-mouse');
+
+      expect(priceHistoryService.lowestPrices).toHaveBeenCalledWith([
+        productId,
+      ]);
+      expect(result.lowest_price_30d).toBe('44.90');
+      expect(result.variants[0].lowest_price_30d).toBe('42.90');
+    });
+  });
+
+  describe('findManyByIds', () => {
+    it('should return the products in the order of the given IDs', async () => {
+      const otherId = '7c6b5a4f-3e2d-4c1b-9a8e-7d5b2e9a1c3f';
+      jest
+        .spyOn(prisma.products, 'findMany')
+        .mockResolvedValue([
+          buildProduct(),
+          buildProduct({ id: otherId, slug: 'usb-hub' }),
+        ]);
+
+      const result = await service.findManyByIds([otherId, productId]);
+
+      expect(result.map((product) => product.id)).toEqual([otherId, productId]);
+    });
+  });
+});
@@ -0,0 +1,677 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpStatus,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, categories, product_variants, products } from '@prisma/client';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { StockAlertsService } from '../inventory/stock-alerts.service';
+import { StockLedgerService } from '../inventory/stock-ledger.service';
+import { ImagesService } from '../storage/images.service';
+import { PricingService, ResolvedPrice } from '../pricing/pricing.service';
+import {
+  LowestPrices,
+  PriceHistoryService,
+} from '../pricing/price-history.service';
+import { UploadedImageResponse } from '../storage/dto/uploaded-image-response.dto';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import { nextAvailableSlug, slugify } from '../common/utils/slug.util';
+import { validationError } from '../common/pipes/validation.pipe';
+import { CreateProductDto } from './dto/create-product.dto';
+import { UpdateProductDto } from './dto/update-product.dto';
+import { ReorderProductImagesDto } from './dto/reorder-product-images.dto';
+import { SetMainImageDto } from './dto/set-main-image.dto';
+import { ProductVariantsService } from './product-variants.service';
+import {
+  AdminListProductsQueryDto,
+  ListProductsQueryDto,
+} from './dto/list-products-query.dto';
+import {
+  ProductDeletionResponse,
+  ProductResponse,
+} from './dto/product-response.dto';
+import {
+  isUniqueConflict,
+  productOptions,
+  toVariantResponse,
+} from './utils/product-variant.util';
+import {
+  PRODUCT_SORT_ORDERS,
+  textSearchCondition,
+  toPrefixTsQuery,
+} from './utils/product-sql.util';
+
+type ProductWithCategory = products & {
+  categories: categories | null;
+  product_variants: product_variants[];
+};
+
+const PRODUCT_INCLUDE = {
+  categories: true,
+  product_variants: { orderBy: [{ position: 'asc' }, { id: 'asc' }] },
+} satisfies Prisma.productsInclude;
+
+// Concurrent creations can pick the same free slug; retry with a fresh one
+const SLUG_ATTEMPTS = 3;
+
+@Injectable()
+export class ProductsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly stockAlertsService: StockAlertsService,
+    private readonly stockLedgerService: StockLedgerService,
+    private readonly imagesService: ImagesService,
+    private readonly pricingService: PricingService,
+    private readonly priceHistoryService: PriceHistoryService,
+    private readonly productVariantsService: ProductVariantsService,
+  ) {}
+
+  /**
+   * List products with filters and pagination. Price sorts use the price
+   * products sell at, sale prices and variant prices included. The search
+   * text goes through the full-text index, as in the product search.
+   * @param query - Filters, search, sort and page
+   * @param includeInactive - Admin listing; also returns archived products
+   * @returns Promise<PaginatedResponse<ProductResponse>> - One page of products
+   */
+  async list(
+    query: ListProductsQueryDto | AdminListProductsQueryDto,
+    includeInactive = false,
+  ): Promise<PaginatedResponse<ProductResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const conditions: Prisma.Sql[] = [];
+    if (!includeInactive) {
+      conditions.push(Prisma.sql`p.is_active = true`);
+    } else if ('is_active' in query && query.is_active !== undefined) {
+      conditions.push(Prisma.sql`p.is_active = ${query.is_active}`);
+    }
+    if (query.featured !== undefined) {
+      conditions.push(Prisma.sql`p.is_featured = ${query.featured}`);
+    }
+    if (query.category) {
+      conditions.push(Prisma.sql`p.category_id IN (
+        SELECT c.id FROM public.categories c WHERE c.slug = ${query.category}
+      )`);
+    }
+    const tsquery = query.search ? toPrefixTsQuery(query.search) : null;
+    if (tsquery) {
+      conditions.push(textSearchCondition(query.search!, tsquery));
+    }
+    const where =
+      conditions.length > 0
+        ? Prisma.join(conditions, ' AND ')
+        : Prisma.sql`TRUE`;
+
+    const [rows, [{ total }]] = await this.prisma.$transaction([
+      this.prisma.$queryRaw<{ id: string }[]>`
+        SELECT p.id
+        FROM public.products p
+        WHERE ${where}
+        ORDER BY ${PRODUCT_SORT_ORDERS[query.sort || 'newest']}
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      this.prisma.$queryRaw<{ total: number }[]>`
+        SELECT COUNT(*)::int AS total
+        FROM public.products p
+        WHERE ${where}
+      `,
+    ]);
+
+    return {
+      data: await this.toResponses(
+        await this.findInOrder(rows.map((row) => row.id)),
+        includeInactive,
+      ),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Find an active product by its slug (storefront)
+   * @param slug - Product slug
+   * @returns Promise<ProductResponse> - The product
+   */
+  async findBySlug(slug: string): Promise<ProductResponse> {
+    const product = await this.prisma.products.findFirst({
+      where: { slug, is_active: true },
+      include: PRODUCT_INCLUDE,
+    });
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    const [response] = await this.toResponses([product], false);
+    return response;
+  }
+
+  /**
+   * Find any product by its ID, archived or not (admin)
+   * @param id - Product ID
+   * @returns Promise<ProductResponse> - The product
+   */
+  async findById(id: string): Promise<ProductResponse> {
+    const [response] = await this.toResponses([await this.findProduct(id)]);
+    return response;
+  }
+
+  /**
+   * Load products by ID, keeping the order of the given IDs, with their
+   * active variants
+   * @param ids - Product IDs, e.g. one page of search results
+   * @returns Promise<ProductResponse[]> - The products that exist
+   */
+  async findManyByIds(ids: string[]): Promise<ProductResponse[]> {
+    return await this.toResponses(await this.findInOrder(ids), false);
+  }
+
+  /**
+   * Create a product with a single variant without options. The slug is
+   * derived from the name unless one is given, and the SKU from the slug.
+   * Initial stock is recorded in the stock ledger as a restock, and the
+   * prices start the price history of the product.
+   * @param createProductDto - Product data
+   * @param actorId - Admin creating the product
+   * @returns Promise<ProductResponse> - The created product
+   */
+  async create(
+    createProductDto: CreateProductDto,
+    actorId?: string,
+  ): Promise<ProductResponse> {
+    const {
+      slug,
+      sku,
+      category_id,
+      base_price,
+      sale_price,
+      specs,
+      stock_qty,
+      ...rest
+    } = createProductDto;
+
+    this.assertSalePrice(base_price, sale_price);
+    if (category_id) {
+      await this.assertCategoryExists(category_id);
+    }
+
+    const data: Omit<Prisma.productsUncheckedCreateInput, 'slug'> = {
+      ...rest,
+      category_id,
+      base_price: new Prisma.Decimal(base_price),
+      sale_price:
+        sale_price === undefined || sale_price === null
+          ? sale_price
+          : new Prisma.Decimal(sale_price),
+      specs: specs as Prisma.InputJsonObject | undefined,
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      const candidate =
+        slug || (await this.generateSlug(createProductDto.name));
+
+      try {
+        const product = await this.prisma.$transaction(async (tx) => {
+          const created = await tx.products.create({
+            data: {
+              ...data,
+              slug: candidate,
+              stock_qty: 0,
+              product_variants: {
+                create: { sku: sku ?? candidate.toUpperCase() },
+              },
+            },
+            include: PRODUCT_INCLUDE,
+          });
+          await this.priceHistoryService.record(tx, [created.id], {
+            reason: 'admin',
+            actor_id: actorId,
+          });
+          if (!stock_qty) {
+            return created;
+          }
+
+          const [variant] = created.product_variants;
+          const movement = await this.stockLedgerService.apply(tx, {
+            product_id: created.id,
+            variant_id: variant.id,
+            delta: stock_qty,
+            reason: 'restock',
+            actor_id: actorId,
+            note: 'Initial stock',
+          });
+          return {
+            ...created,
+            stock_qty: movement!.stock_after,
+            product_variants: [
+              { ...variant, stock_qty: movement!.stock_after },
+            ],
+          };
+        });
+
+        await this.stockAlertsService.checkProducts([product.id]);
+        const [response] = await this.toResponses([product]);
+        return response;
+      } catch (error) {
+        if (isUniqueConflict(error, 'sku')) {
+          throw new ConflictException('A variant with this SKU already exists');
+        }
+        if (!isUniqueConflict(error, 'slug')) {
+          throw error;
+        }
+        if (slug) {
+          throw new ConflictException(
+            'A product with this slug already exists',
+          );
+        }
+        if (attempt >= SLUG_ATTEMPTS) {
+          throw new ConflictException(
+            'Could not generate a unique slug, please provide one',
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Update a product. The slug only changes when a new one is given, so
+   * renaming a product does not break its URL. A new stock level, only
+   * accepted for products with a single variant, is recorded in the stock
+   * ledger as a correction, and new prices in the price history. Images
+   * taken off the product are taken off its variants too.
+   * @param id - Product ID
+   * @param updateProductDto - Fields to change
+   * @param actorId - Admin making the change
+   * @returns Promise<ProductResponse> - The updated product
+   */
+  async update(
+    id: string,
+    updateProductDto: UpdateProductDto,
+    actorId?: string,
+  ): Promise<ProductResponse> {
+    const existing = await this.findProduct(id);
+    const { category_id, base_price, sale_price, specs, stock_qty, ...rest } =
+      updateProductDto;
+
+    // Compare against the stored values for whichever price is not changing
+    this.assertSalePrice(
+      base_price ?? existing.base_price,
+      sale_price === undefined ? existing.sale_price : sale_price,
+    );
+    if (category_id) {
+      await this.assertCategoryExists(category_id);
+    }
+
+    try {
+      const product = await this.prisma.$transaction(async (tx) => {
+        if (stock_qty !== undefined) {
+          await this.stockLedgerService.setStock(tx, id, stock_qty, {
+            reason: 'correction',
+            actor_id: actorId,
+          });
+        }
+
+        const updated = await tx.products.update({
+          where: { id },
+          data: {
+            ...rest,
+            category_id,
+            base_price:
+              base_price === undefined
+                ? undefined
+                : new Prisma.Decimal(base_price),
+            sale_price:
+              sale_price === undefined || sale_price === null
+                ? sale_price
+                : new Prisma.Decimal(sale_price),
+            specs: specs as Prisma.InputJsonObject | undefined,
+          },
+          include: PRODUCT_INCLUDE,
+        });
+        if (rest.images !== undefined) {
+          await this.productVariantsService.pruneImages(tx, [id]);
+        }
+        if (base_price !== undefined || sale_price !== undefined) {
+          await this.priceHistoryService.record(tx, [id], {
+            reason: 'admin',
+            actor_id: actorId,
+          });
+        }
+        return updated;
+      });
+
+      if (
+        updateProductDto.stock_qty !== undefined ||
+        updateProductDto.low_stock_threshold !== undefined ||
+        updateProductDto.is_active !== undefined
+      ) {
+        await this.stockAlertsService.checkProducts([id]);
+      }
+
+      const [response] = await this.toResponses([product]);
+      return response;
+    } catch (error) {
+      if (isUniqueConflict(error, 'slug')) {
+        throw new ConflictException('A product with this slug already exists');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Upload an image and append it to the images of a product. It also
+   * becomes the main image when the product has none.
+   * @param id - Product ID
+   * @param file - Uploaded file
+   * @returns Promise<UploadedImageResponse> - The stored image and its variants
+   */
+  async addImage(
+    id: string,
+    file: Express.Multer.File | undefined,
+  ): Promise<UploadedImageResponse> {
+    await this.findProduct(id);
+
+    const image = await this.imagesService.upload('products', file);
+
+    try {
+      await this.prisma.$transaction([
+        this.prisma.products.update({
+          where: { id },
+          data: { images: { push: image.url } },
+        }),
+        this.prisma.products.updateMany({
+          where: { id, main_image: null },
+          data: { main_image: image.url },
+        }),
+      ]);
+    } catch (error) {
+      await this.imagesService.discard(image);
+
+      // The product was deleted while the image was processed
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new NotFoundException('Product not found');
+      }
+      throw error;
+    }
+
+    return image;
+  }
+
+  /**
+   * Change the order of the images of a product
+   * @param id - Product ID
+   * @param reorderProductImagesDto - The current images, in the new order
+   * @returns Promise<ProductResponse> - The updated product
+   */
+  async reorderImages(
+    id: string,
+    reorderProductImagesDto: ReorderProductImagesDto,
+  ): Promise<ProductResponse> {
+    const { images } = reorderProductImagesDto;
+    const existing = await this.findProduct(id);
+
+    const current = [...existing.images].sort();
+    const requested = [...images].sort();
+    if (
+      current.length !== requested.length ||
+      current.some((url, index) => url !== requested[index])
+    ) {
+      throw validationError([
+        {
+          field: 'images',
+          message: 'Images must list every current image of the product',
+        },
+      ]);
+    }
+
+    // Only applies if no image was added or removed since it was read
+    const { count } = await this.prisma.products.updateMany({
+      where: { id, images: { equals: existing.images } },
+      data: { images },
+    });
+    if (count === 0) {
+      throw new ConflictException({
+        statusCode: HttpStatus.CONFLICT,
+        error: 'images_changed',
+        message: 'The product images changed meanwhile, reload and try again',
+      });
+    }
+
+    const [response] = await this.toResponses([{ ...existing, images }]);
+    return response;
+  }
+
+  /**
+   * Make one of the images of a product its main image
+   * @param id - Product ID
+   * @param setMainImageDto - URL of the image
+   * @returns Promise<ProductResponse> - The updated product
+   */
+  async setMainImage(
+    id: string,
+    setMainImageDto: SetMainImageDto,
+  ): Promise<ProductResponse> {
+    const { image } = setMainImageDto;
+    const existing = await this.findProduct(id);
+
+    if (!existing.images.includes(image)) {
+      throw validationError([
+        {
+          field: 'image',
+          message: 'Image must be one of the images of the product',
+        },
+      ]);
+    }
+
+    const product = await this.prisma.products.update({
+      where: { id },
+      data: { main_image: image },
+      include: PRODUCT_INCLUDE,
+    });
+
+    const [response] = await this.toResponses([product]);
+    return response;
+  }
+
+  /**
+   * Delete a product. Products referenced by order items are archived
+   * (is_active=false) instead, so order history stays intact.
+   * @param id - Product ID
+   * @returns Promise<ProductDeletionResponse> - Whether the product was deleted or archived
+   */
+  async remove(id: string): Promise<ProductDeletionResponse> {
+    await this.findProduct(id);
+
+    const orderItems = await this.prisma.order_items.count({
+      where: { product_id: id },
+    });
+
+    if (orderItems > 0) {
+      await this.prisma.products.update({
+        where: { id },
+        data: { is_active: false },
+      });
+      return { id, result: 'archived' };
+    }
+
+    try {
+      await this.prisma.products.delete({ where: { id } });
+      return { id, result: 'deleted' };
+    } catch (error) {
+      // An order was placed in the meantime; the foreign key keeps the row
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2003'
+      ) {
+        await this.prisma.products.update({
+          where: { id },
+          data: { is_active: false },
+        });
+        return { id, result: 'archived' };
+      }
+      throw error;
+    }
+  }
+
+  private async findProduct(id: string): Promise<ProductWithCategory> {
+    const product = await this.prisma.products.findUnique({
+      where: { id },
+      include: PRODUCT_INCLUDE,
+    });
+
+    if (!product) {
+      throw new NotFoundException('Product not found');
+    }
+
+    return product;
+  }
+
+  /**
+   * Load products in the order of the given ids, skipping missing ones
+   * @param ids - Product ids in display order
+   * @returns ProductWithCategory[] - The products found
+   */
+  private async findInOrder(ids: string[]): Promise<ProductWithCategory[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const rows = await this.prisma.products.findMany({
+      where: { id: { in: ids } },
+      include: PRODUCT_INCLUDE,
+    });
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return ids
+      .map((id) => byId.get(id))
+      .filter((row): row is ProductWithCategory => row !== undefined);
+  }
+
+  private async generateSlug(name: string): Promise<string> {
+    const base = slugify(name) || 'product';
+
+    const taken = await this.prisma.products.findMany({
+      where: { slug: { startsWith: base } },
+      select: { slug: true },
+    });
+
+    return nextAvailableSlug(
+      base,
+      taken.map((product) => product.slug),
+    );
+  }
+
+  private assertSalePrice(
+    basePrice: Prisma.Decimal.Value,
+    salePrice: Prisma.Decimal.Value | null | undefined,
+  ): void {
+    if (salePrice === null || salePrice === undefined) {
+      return;
+    }
+
+    if (new Prisma.Decimal(salePrice).gt(basePrice)) {
+      throw validationError([
+        {
+          field: 'sale_price',
+          message: 'Sale price must be less than or equal to base price',
+        },
+      ]);
+    }
+  }
+
+  private async assertCategoryExists(categoryId: string): Promise<void> {
+    const category = await this.prisma.categories.findUnique({
+      where: { id: categoryId },
+      select: { id: true },
+    });
+
+    if (!category) {
+      throw new BadRequestException('Category not found');
+    }
+  }
+
+  // Responses carry the sale price in effect, which a price schedule may
+  // set, and the lowest earlier price to show a discount against. The
+  // storefront only sees active variants.
+  private async toResponses(
+    products: ProductWithCategory[],
+    includeInactiveVariants = true,
+  ): Promise<ProductResponse[]> {
+    const [prices, lowestPrices] = await Promise.all([
+      this.pricingService.resolve(products),
+      this.priceHistoryService.lowestPrices(
+        products.map((product) => product.id),
+      ),
+    ]);
+
+    return products.map((product) =>
+      this.toResponse(
+        product,
+        prices.get(product.id)!,
+        lowestPrices,
+        includeInactiveVariants,
+      ),
+    );
+  }
+
+  private toResponse(
+    product: ProductWithCategory,
+    price: ResolvedPrice,
+    lowestPrices: LowestPrices,
+    includeInactiveVariants: boolean,
+  ): ProductResponse {
+    const variants = includeInactiveVariants
+      ? product.product_variants
+      : product.product_variants.filter((variant) => variant.is_active);
+
+    return {
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      description: product.description,
+      category: product.categories
+        ? {
+            id: product.categories.id,
+            name: product.categories.name,
+            slug: product.categories.slug,
+          }
+        : null,
+      base_price: product.base_price.toFixed(2),
+      sale_price: price.sale_price ? price.sale_price.toFixed(2) : null,
+      sale_ends_at: price.sale_ends_at,
+      lowest_price_30d:
+        lowestPrices.products.get(product.id)?.toFixed(2) ?? null,
+      stock_qty: product.stock_qty ?? 0,
+      low_stock_threshold: product.low_stock_threshold ?? 0,
+      main_image: product.main_image,
+      images: product.images,
+      specs: (product.specs as Record<string, unknown> | null) || {},
+      is_featured: product.is_featured ?? false,
+      is_active: product.is_active ?? true,
+      options: productOptions(product.option_names, variants),
+      variants: variants.map((variant) =>
+        toVariantResponse(
+          variant,
+          {
+            base_price: product.base_price,
+            sale_price: price.sale_price,
+          },
+          lowestPrices.variants.get(variant.id) ?? null,
+        ),
+      ),
+      created_at: product.created_at,
+    };
+  }
+}
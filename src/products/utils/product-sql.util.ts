@@ -0,0 +1,60 @@
+import { Prisma } from '@prisma/client';
+
+import { ProductSort } from '../dto/list-products-query.dto';
+
+// Price a variant v of product p sells at, as variantPrices computes it
+export const VARIANT_PRICE = Prisma.sql`CASE
+  WHEN v.price IS NULL THEN COALESCE(p.sale_price, p.base_price)
+  WHEN p.sale_price IS NOT NULL AND p.base_price > 0
+    THEN ROUND(v.price * p.sale_price / p.base_price, 2)
+  ELSE v.price
+END`;
+
+// Lowest price among the active variants, shown as the "from" price
+export const EFFECTIVE_PRICE = Prisma.sql`(
+  SELECT MIN(${VARIANT_PRICE})
+  FROM public.product_variants v
+  WHERE v.product_id = p.id AND v.is_active = true
+)`;
+
+/**
+ * Turn free text into a tsquery where every word is a prefix, so "wireless
+ * mou" matches "Wireless Mouse". Only letters and digits are kept, which
+ * also keeps tsquery operators typed by the user out of the query.
+ * @returns The tsquery text, or null when no word is left
+ */
+export function toPrefixTsQuery(text: string): string | null {
+  const words = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+
+  return words.length > 0 ? words.map((word) => `${word}:*`).join(' & ') : null;
+}
+
+/**
+ * Match products p against the search text through the search_vector index.
+ * A SKU typed in full also finds its product.
+ * @param text - Search text as typed
+ * @param tsquery - The text run through toPrefixTsQuery
+ */
+export function textSearchCondition(text: string, tsquery: string): Prisma.Sql {
+  return Prisma.sql`(
+    p.search_vector @@ to_tsquery('simple', ${tsquery})
+    OR EXISTS (
+      SELECT 1
+      FROM public.product_variants v
+      WHERE v.product_id = p.id
+        AND v.is_active = true
+        AND upper(v.sku) = upper(${text.trim()})
+    )
+  )`;
+}
+
+// ORDER BY clauses over products p, shared by the listing and the search
+export const PRODUCT_SORT_ORDERS: Record<ProductSort, Prisma.Sql> = {
+  newest: Prisma.sql`p.created_at DESC NULLS LAST, p.id`,
+  price_asc: Prisma.sql`${EFFECTIVE_PRICE} ASC, p.id`,
+  price_desc: Prisma.sql`${EFFECTIVE_PRICE} DESC NULLS LAST, p.id`,
+  name: Prisma.sql`p.name ASC, p.id`,
+};
@@ -0,0 +1,115 @@
+import { Prisma, product_variants } from '@prisma/client';
+
+import {
+  VariantPrices,
+  variantPrices,
+} from '../../pricing/utils/variant-price.util';
+import {
+  ProductOptionResponse,
+  ProductVariantResponse,
+  VariantOptions,
+} from '../dto/product-response.dto';
+
+/**
+ * Check that variant options give a non-empty value for each option name
+ * of the product, and nothing else
+ * @param options - Options of the variant
+ * @param optionNames - Option names of the product
+ * @returns string | null - What is wrong with the options, or null when they are valid
+ */
+export function optionsError(
+  options: Record<string, unknown>,
+  optionNames: string[],
+): string | null {
+  const names = Object.keys(options);
+  const unknown = names.filter((name) => !optionNames.includes(name));
+  if (unknown.length > 0) {
+    return `Unknown option: ${unknown.join(', ')}`;
+  }
+
+  const missing = optionNames.filter((name) => {
+    const value = options[name];
+    return typeof value !== 'string' || !value.trim();
+  });
+  if (missing.length > 0) {
+    return `Options need a value for: ${missing.join(', ')}`;
+  }
+
+  return null;
+}
+
+/**
+ * Option names of a product with the values its variants take
+ * @param optionNames - Option names of the product, in display order
+ * @param variants - Variants, in display order
+ * @returns ProductOptionResponse[] - Each name with its distinct values
+ */
+export function productOptions(
+  optionNames: string[],
+  variants: Pick<product_variants, 'options'>[],
+): ProductOptionResponse[] {
+  return optionNames.map((name) => ({
+    name,
+    values: [
+      ...new Set(
+        variants.flatMap((variant) => {
+          const value = (variant.options as VariantOptions)[name];
+          return value === undefined ? [] : [value];
+        }),
+      ),
+    ],
+  }));
+}
+
+/**
+ * Response of a variant, priced from the prices of its product
+ * @param variant - The variant
+ * @param productPrices - Base price and sale price in effect of the product
+ * @param lowestPrice - Lowest price of the variant in the 30 days before its current price
+ * @returns ProductVariantResponse - The variant
+ */
+export function toVariantResponse(
+  variant: product_variants,
+  productPrices: VariantPrices,
+  lowestPrice: Prisma.Decimal | null,
+): ProductVariantResponse {
+  const { base_price, sale_price } = variantPrices(
+    variant.price,
+    productPrices,
+  );
+
+  return {
+    id: variant.id,
+    sku: variant.sku,
+    options: variant.options as VariantOptions,
+    price: variant.price ? variant.price.toFixed(2) : null,
+    base_price: base_price.toFixed(2),
+    sale_price: sale_price ? sale_price.toFixed(2) : null,
+    lowest_price_30d: lowestPrice ? lowestPrice.toFixed(2) : null,
+    stock_qty: variant.stock_qty,
+    images: variant.images,
+    position: variant.position,
+    is_active: variant.is_active,
+  };
+}
+
+/**
+ * Whether a write failed on a unique constraint over the given column
+ * @param error - Error thrown by Prisma
+ * @param column - Column of the constraint, e.g. "sku"
+ * @returns boolean - True for a conflict on that column
+ */
+export function isUniqueConflict(error: unknown, column: string): boolean {
+  if (
+    !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+    error.code !== 'P2002'
+  ) {
+    return false;
+  }
+
+  // An array of columns, or the index name for indexes Prisma does not know
+  const target = error.meta?.target;
+  return Array.isArray(target)
+    ? target.includes(column)
+    : typeof target === 'string' && target.includes(column);
+}
@@ -0,0 +1,40 @@
+import {
+  Controller,
+  Post,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UsePipes,
+  UseGuards,
+} from '@nestjs/common';
+
+import { ImagesService } from './images.service';
+import { CleanupImagesQueryDto } from './dto/cleanup-images-query.dto';
+import { CleanupImagesResponse } from './dto/cleanup-images-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { AalGuard } from '../auth/guards/aal.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { RequireAal } from '../auth/decorators/require-aal.decorator';
+import { createValidationPipe } from '../common/pipes/validation.pipe';
+
+@Controller('admin/images')
+@UseGuards(JwtAuthGuard, RolesGuard, AalGuard)
+@Roles('admin')
+@RequireAal('aal2')
+export class AdminImagesController {
+  constructor(private readonly imagesService: ImagesService) {}
+
+  /**
+   * Remove uploaded images no product or category uses any more
+   * POST /admin/images/cleanup
+   */
+  @Post('cleanup')
+  @HttpCode(HttpStatus.OK)
+  @UsePipes(createValidationPipe())
+  async cleanupImages(
+    @Query() query: CleanupImagesQueryDto,
+  ): Promise<CleanupImagesResponse> {
+    return await this.imagesService.cleanupOrphans(query.dry_run ?? false);
+  }
+}
@@ -0,0 +1,25 @@
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../app.module';
+import { ImagesService } from './images.service';
+
+/**
+ * Remove uploaded images no product or category uses any more.
+ * Pass --dry-run to only report them. Meant to run from cron.
+ * Usage: npm run images:cleanup [-- --dry-run]
+ */
+async function cleanup() {
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['error', 'warn'],
+  });
+
+  try {
+    const result = await app
+      .get(ImagesService)
+      .cleanupOrphans(process.argv.includes('--dry-run'));
+
+    console.table([result]);
+  } finally {
+    await app.close();
+  }
+}
+void cleanup();
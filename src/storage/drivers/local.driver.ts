@@ -0,0 +1,72 @@
+import { Dirent } from 'fs';
+import { mkdir, readdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { StorageDriver, StoredObject } from '../storage-driver.interface';
+
+/**
+ * Keeps files in a local directory, served by the app itself (see main.ts).
+ * Suited to development and single-instance deployments.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  async *list(prefix: string): AsyncIterable<StoredObject> {
+    // Walk the directory the prefix points into, then filter on the full key
+    const slash = prefix.lastIndexOf('/');
+    const directory = this.resolveKey(prefix.slice(0, slash + 1));
+
+    for await (const path of this.walk(directory)) {
+      const key = relative(this.root, path).split(sep).join('/');
+      if (!key.startsWith(prefix)) {
+        continue;
+      }
+
+      const stats = await stat(path);
+      yield { key, size: stats.size, last_modified: stats.mtime };
+    }
+  }
+
+  private async *walk(directory: string): AsyncGenerator<string> {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        yield* this.walk(path);
+      } else if (entry.isFile()) {
+        yield path;
+      }
+    }
+  }
+
+  // Keys never leave the storage directory
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (path !== this.root && !path.startsWith(this.root + sep)) {
+      throw new Error(`Storage key outside the storage directory: ${key}`);
+    }
+    return path;
+  }
+}
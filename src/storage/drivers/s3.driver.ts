@@ -0,0 +1,182 @@
+import { BadGatewayException, Logger } from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
+import { StorageDriver, StoredObject } from '../storage-driver.interface';
+
+export interface S3Options {
+  // e.g. https://s3.eu-west-1.amazonaws.com, or a MinIO / R2 endpoint
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Stored files are never rewritten in place, so clients may cache them forever
+const CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * Stores files in an S3-compatible bucket through the REST API, signing
+ * requests with AWS Signature Version 4. Uses path-style URLs
+ * (endpoint/bucket/key), which every S3-compatible store accepts.
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly logger = new Logger('Storage');
+
+  constructor(private readonly options: S3Options) {}
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    await this.request('PUT', key, {}, body, {
+      'content-type': contentType,
+      'cache-control': CACHE_CONTROL,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    // S3 answers 204 for missing keys as well
+    await this.request('DELETE', key);
+  }
+
+  async *list(prefix: string): AsyncIterable<StoredObject> {
+    let continuationToken: string | undefined;
+
+    do {
+      const query: Record<string, string> = { 'list-type': '2', prefix };
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const xml = await (await this.request('GET', '', query)).text();
+
+      for (const [, contents] of xml.matchAll(
+        /<Contents>([\s\S]*?)<\/Contents>/g,
+      )) {
+        yield {
+          key: this.xmlValue(contents, 'Key') ?? '',
+          size: Number(this.xmlValue(contents, 'Size') ?? 0),
+          last_modified: new Date(this.xmlValue(contents, 'LastModified') ?? 0),
+        };
+      }
+
+      continuationToken =
+        this.xmlValue(xml, 'IsTruncated') === 'true'
+          ? this.xmlValue(xml, 'NextContinuationToken')
+          : undefined;
+    } while (continuationToken);
+  }
+
+  private async request(
+    method: 'GET' | 'PUT' | 'DELETE',
+    key: string,
+    query: Record<string, string> = {},
+    body?: Buffer,
+    headers: Record<string, string> = {},
+  ): Promise<Response> {
+    const endpoint = new URL(this.options.endpoint);
+    const path = [
+      endpoint.pathname.replace(/\/$/, ''),
+      this.options.bucket,
+      ...(key ? key.split('/') : []),
+    ]
+      .map((segment, index) => (index === 0 ? segment : this.encode(segment)))
+      .join('/');
+    const queryString = Object.keys(query)
+      .sort()
+      .map((name) => `${this.encode(name)}=${this.encode(query[name])}`)
+      .join('&');
+
+    const signedHeaders = this.sign(method, endpoint.host, path, queryString, {
+      ...headers,
+      'x-amz-content-sha256': this.sha256(body ?? ''),
+    });
+
+    const response = await fetch(
+      `${endpoint.origin}${path}${queryString ? `?${queryString}` : ''}`,
+      {
+        method,
+        headers: signedHeaders,
+        body: body ? new Uint8Array(body) : undefined,
+      },
+    );
+
+    if (!response.ok) {
+      this.logger.error(
+        `${method} ${path} failed with status ${response.status}: ${await response.text()}`,
+      );
+      throw new BadGatewayException('File storage is unavailable');
+    }
+
+    return response;
+  }
+
+  // Adds the date and Authorization headers of Signature Version 4
+  private sign(
+    method: string,
+    host: string,
+    path: string,
+    queryString: string,
+    headers: Record<string, string>,
+  ): Record<string, string> {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+    const scope = `${date}/${this.options.region}/s3/aws4_request`;
+
+    const sent: Record<string, string> = { ...headers, 'x-amz-date': amzDate };
+    // fetch sets Host itself from the URL, but it is signed all the same
+    const all: Record<string, string> = { ...sent, host };
+    const names = Object.keys(all).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      queryString,
+      names.map((name) => `${name}:${all[name].trim()}\n`).join(''),
+      names.join(';'),
+      all['x-amz-content-sha256'],
+    ].join('\n');
+
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      amzDate,
+      scope,
+      this.sha256(canonicalRequest),
+    ].join('\n');
+
+    const signingKey = [date, this.options.region, 's3', 'aws4_request'].reduce<
+      Buffer | string
+    >(
+      (key, part) => createHmac('sha256', key).update(part).digest(),
+      `AWS4${this.options.secretAccessKey}`,
+    );
+    const signature = createHmac('sha256', signingKey)
+      .update(stringToSign)
+      .digest('hex');
+
+    return {
+      ...sent,
+      authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`,
+    };
+  }
+
+  private sha256(data: Buffer | string): string {
+    return createHash('sha256').update(data).digest('hex');
+  }
+
+  // RFC 3986 encoding, as the signature requires
+  private encode(value: string): string {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    );
+  }
+
+  private xmlValue(xml: string, tag: string): string | undefined {
+    const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+    return match
+      ? match[1]
+          .replace(/&lt;/g, '<')
+          .replace(/&gt;/g, '>')
+          .replace(/&quot;/g, '"')
+          .replace(/&apos;/g, "'")
+          .replace(/&amp;/g, '&')
+      : undefined;
+  }
+}
@@ -0,0 +1,11 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { toBoolean } from '../../common/utils/query.util';
+
+export class CleanupImagesQueryDto {
+  // Report what would be removed, without removing it
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Dry run must be true or false' })
+  dry_run?: boolean = false;
+}
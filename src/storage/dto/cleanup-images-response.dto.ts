@@ -0,0 +1,10 @@
+export interface CleanupImagesResponse {
+  dry_run: boolean;
+  // Uploaded images found in storage, each with its resized variants
+  scanned_images: number;
+  // Images no product or category refers to, past the grace period
+  orphaned_images: number;
+  // Files removed and the space freed, or that would be in a dry run
+  deleted_files: number;
+  freed_bytes: number;
+}
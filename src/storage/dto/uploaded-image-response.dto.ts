@@ -0,0 +1,12 @@
+export const IMAGE_VARIANTS = ['thumb', 'medium'] as const;
+
+export type ImageVariant = (typeof IMAGE_VARIANTS)[number];
+
+export interface UploadedImageResponse {
+  // URL of the full-size image, as stored on the product or category
+  url: string;
+  // Resized copies, in the same format as the full-size image
+  variants: Record<ImageVariant, string>;
+  width: number;
+  height: number;
+}
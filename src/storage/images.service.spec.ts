@@ -0,0 +1,210 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { ImagesService } from './images.service';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ImagesService', () => {
+  let service: ImagesService;
+  let prisma: any;
+  let driver: Record<'put' | 'delete' | 'list', jest.Mock>;
+  let stored: Map<string, { body: Buffer; last_modified: Date }>;
+
+  const config: Record<string, unknown> = {
+    'storage.publicUrl': '/uploads',
+    'storage.maxUploadBytes': 1024 * 1024,
+    'storage.orphanGraceHours': 24,
+  };
+
+  const png = (width: number, height: number) =>
+    sharp({
+      create: { width, height, channels: 3, background: '#3366cc' },
+    })
+      .png()
+      .toBuffer();
+
+  const upload = (buffer: Buffer, mimetype = 'image/png') =>
+    ({ buffer, mimetype, size: buffer.length }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    stored = new Map();
+    driver = {
+      put: jest.fn((key: string, body: Buffer) => {
+        stored.set(key, { body, last_modified: new Date() });
+        return Promise.resolve();
+      }),
+      delete: jest.fn((key: string) => {
+        stored.delete(key);
+        return Promise.resolve();
+      }),
+      list: jest.fn((prefix: string) =>
+        Readable.from(
+          [...stored]
+            .filter(([key]) => key.startsWith(prefix))
+            .map(([key, file]) => ({ key, size: file.body.length, ...file })),
+        ),
+      ),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImagesService,
+        { provide: STORAGE_DRIVER, useValue: driver },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+        { provide: PrismaService, useValue: { $queryRaw: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ImagesService>(ImagesService);
+    prisma = module.get<PrismaService>(PrismaService);
+  });
+
+  describe('upload', () => {
+    it('should store the image with resized variants', async () => {
+      const result = await service.upload(
+        'products',
+        upload(await png(1000, 500)),
+      );
+
+      expect(result.url).toMatch(
+        /^\/uploads\/products\/[0-9a-f-]{36}\/original\.png$/,
+      );
+      expect(result.variants.thumb).toBe(
+        result.url.replace('original', 'thumb'),
+      );
+      expect(result).toMatchObject({ width: 1000, height: 500 });
+      expect(stored.size).toBe(3);
+
+      const thumb = stored.get(result.variants.thumb.slice('/uploads/'.length));
+      expect(await sharp(thumb!.body).metadata()).toMatchObject({
+        format: 'png',
+        width: 200,
+        height: 100,
+      });
+      expect(driver.put).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(Buffer),
+        'image/png',
+      );
+    });
+
+    it('should not enlarge small images', async () => {
+      const result = await service.upload(
+        'categories',
+        upload(await png(120, 80)),
+      );
+
+      const medium = stored.get(
+        result.variants.medium.slice('/uploads/'.length),
+      );
+      expect(await sharp(medium!.body).metadata()).toMatchObject({
+        width: 120,
+        height: 80,
+      });
+    });
+
+    it('should require a file', async () => {
+      await expect(service.upload('products', undefined)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject files over the size limit', async () => {
+      const file = { ...upload(await png(10, 10)), size: 2 * 1024 * 1024 };
+
+      await expect(service.upload('products', file)).rejects.toThrow(
+        PayloadTooLargeException,
+      );
+    });
+
+    it.each([
+      ['an unsupported type', Buffer.from('GIF89a'), 'image/gif'],
+      ['a file that is not an image', Buffer.from('not an image'), 'image/png'],
+    ])('should reject %s', async (_, buffer, mimetype) => {
+      await expect(
+        service.upload('products', upload(buffer, mimetype)),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+      expect(stored.size).toBe(0);
+    });
+
+    it('should reject content that does not match the declared type', async () => {
+      await expect(
+        service.upload('products', upload(await png(10, 10), 'image/jpeg')),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('should remove what was stored when storing fails', async () => {
+      driver.put
+        .mockImplementationOnce((key: string, body: Buffer) => {
+          stored.set(key, { body, last_modified: new Date() });
+          return Promise.resolve();
+        })
+        .mockRejectedValueOnce(new Error('disk full'));
+
+      await expect(
+        service.upload('products', upload(await png(10, 10))),
+      ).rejects.toThrow('disk full');
+      expect(stored.size).toBe(0);
+    });
+  });
+
+  describe('cleanupOrphans', () => {
+    const old = new Date(Date.now() - 48 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+      const files = {
+        'products/used/original.png': old,
+        'products/used/thumb.png': old,
+        'products/orphan/original.png': old,
+        'products/orphan/thumb.png': old,
+        'products/recent/original.png': new Date(),
+        'categories/replaced/original.png': old,
+      };
+      for (const [key, last_modified] of Object.entries(files)) {
+        stored.set(key, { body: Buffer.from('x'), last_modified });
+      }
+      prisma.$queryRaw.mockResolvedValue([
+        { url: '/uploads/products/used/original.png' },
+        { url: 'https://cdn.example.com/legacy.png' },
+      ]);
+    });
+
+    it('should remove unused images past the grace period', async () => {
+      const result = await service.cleanupOrphans(false);
+
+      expect(result).toEqual({
+        dry_run: false,
+        scanned_images: 4,
+        orphaned_images: 2,
+        deleted_files: 3,
+        freed_bytes: 3,
+      });
+      const [strings] = prisma.$queryRaw.mock.calls[0];
+      expect(strings.join('')).toContain(
+        'SELECT unnest(images) FROM public.product_variants',
+      );
+      expect([...stored.keys()]).toEqual([
+        'products/used/original.png',
+        'products/used/thumb.png',
+        'products/recent/original.png',
+      ]);
+    });
+
+    it('should only count in a dry run', async () => {
+      const result = await service.cleanupOrphans(true);
+
+      expect(result.orphaned_images).toBe(2);
+      expect(driver.delete).not.toHaveBeenCalled();
+    });
+  });
+});
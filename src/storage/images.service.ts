@@ -0,0 +1,284 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import sharp from 'sharp';
+
+import { PrismaService } from '../prisma/prisma.service';
+import { validationError } from '../common/pipes/validation.pipe';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import type { StorageDriver } from './storage-driver.interface';
+import {
+  IMAGE_VARIANTS,
+  ImageVariant,
+  UploadedImageResponse,
+} from './dto/uploaded-image-response.dto';
+import { CleanupImagesResponse } from './dto/cleanup-images-response.dto';
+
+export const IMAGE_FOLDERS = ['products', 'categories'] as const;
+
+export type ImageFolder = (typeof IMAGE_FOLDERS)[number];
+
+// Accepted upload types, by the format sharp detects in the file itself
+const IMAGE_FORMATS: Record<string, { mimeType: string; extension: string }> = {
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { mimeType: 'image/png', extension: 'png' },
+  webp: { mimeType: 'image/webp', extension: 'webp' },
+};
+
+// Longest side of each resized variant, in pixels
+const VARIANT_SIZES: Record<ImageVariant, number> = {
+  thumb: 200,
+  medium: 800,
+};
+
+// Longest side the full-size image is stored at
+const MAX_DIMENSION = 2400;
+
+// Refuse to decode larger images, so a small file cannot expand into
+// gigabytes of pixels
+const MAX_INPUT_PIXELS = 50_000_000;
+
+/**
+ * Each upload is stored under <folder>/<uuid>/ as original.<ext> plus one
+ * file per variant (thumb.<ext>, medium.<ext>). Products and categories
+ * store the URL of the original.
+ */
+@Injectable()
+export class ImagesService {
+  private readonly logger = new Logger('Storage');
+
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly driver: StorageDriver,
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Validate an uploaded image, then store it with its resized variants.
+   * Images are re-encoded, which applies the EXIF orientation and drops
+   * the rest of the metadata (camera details, GPS position).
+   * @param folder - Kind of entity the image belongs to
+   * @param file - Uploaded file, held in memory
+   * @returns Promise<UploadedImageResponse> - URLs and size of the stored image
+   */
+  async upload(
+    folder: ImageFolder,
+    file: Express.Multer.File | undefined,
+  ): Promise<UploadedImageResponse> {
+    if (!file) {
+      throw validationError([
+        { field: 'image', message: 'Image file is required' },
+      ]);
+    }
+
+    const maxBytes = this.configService.get<number>('storage.maxUploadBytes');
+    if (maxBytes && file.size > maxBytes) {
+      throw new PayloadTooLargeException(
+        `Image must be at most ${maxBytes} bytes`,
+      );
+    }
+
+    const accepted = Object.values(IMAGE_FORMATS).map(
+      (format) => format.mimeType,
+    );
+    if (!accepted.includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `Image must be one of: ${accepted.join(', ')}`,
+      );
+    }
+
+    // The declared type is only a claim; the content has to agree with it
+    const format = await sharp(file.buffer, {
+      limitInputPixels: MAX_INPUT_PIXELS,
+    })
+      .metadata()
+      .then((metadata) => metadata.format)
+      .catch(() => undefined);
+    if (!format || IMAGE_FORMATS[format]?.mimeType !== file.mimetype) {
+      throw new UnsupportedMediaTypeException(
+        `File is not a valid ${file.mimetype} image`,
+      );
+    }
+
+    const { extension, mimeType } = IMAGE_FORMATS[format];
+    const directory = `${folder}/${randomUUID()}`;
+
+    const original = await this.resize(file.buffer, format, MAX_DIMENSION);
+    const files = [
+      { key: `${directory}/original.${extension}`, data: original.data },
+    ];
+    for (const variant of IMAGE_VARIANTS) {
+      const resized = await this.resize(
+        file.buffer,
+        format,
+        VARIANT_SIZES[variant],
+      );
+      files.push({
+        key: `${directory}/${variant}.${extension}`,
+        data: resized.data,
+      });
+    }
+
+    try {
+      for (const { key, data } of files) {
+        await this.driver.put(key, data, mimeType);
+      }
+    } catch (error) {
+      await this.deleteKeys(files.map((stored) => stored.key));
+      throw error;
+    }
+
+    return {
+      url: this.publicUrl(files[0].key),
+      variants: Object.fromEntries(
+        IMAGE_VARIANTS.map((variant, index) => [
+          variant,
+          this.publicUrl(files[index + 1].key),
+        ]),
+      ) as Record<ImageVariant, string>,
+      width: original.info.width,
+      height: original.info.height,
+    };
+  }
+
+  /**
+   * Remove an image stored by upload(), with its variants. Used when the
+   * record it was uploaded for could not be updated.
+   * @param image - The uploaded image
+   */
+  async discard(image: UploadedImageResponse): Promise<void> {
+    const keys = [image.url, ...Object.values(image.variants)]
+      .map((url) => this.keyFromUrl(url))
+      .filter((key): key is string => key !== null);
+
+    await this.deleteKeys(keys);
+  }
+
+  /**
+   * Remove uploaded images that no product, variant or category refers to
+   * any more, e.g. replaced category images or images taken off a product.
+   * Images uploaded within the grace period are kept.
+   * @param dryRun - Only count what would be removed
+   * @returns Promise<CleanupImagesResponse> - What was found and removed
+   */
+  async cleanupOrphans(dryRun: boolean): Promise<CleanupImagesResponse> {
+    const graceHours =
+      this.configService.get<number>('storage.orphanGraceHours') ?? 24;
+    const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+
+    // Image directories (<folder>/<uuid>) still in use
+    const rows = await this.prisma.$queryRaw<{ url: string }[]>`
+      SELECT main_image AS url FROM public.products WHERE main_image IS NOT NULL
+      UNION
+      SELECT unnest(images) FROM public.products
+      UNION
+      SELECT unnest(images) FROM public.product_variants
+      UNION
+      SELECT image_url FROM public.categories WHERE image_url IS NOT NULL
+    `;
+    const referenced = new Set(
+      rows
+        .map((row) => this.keyFromUrl(row.url))
+        .filter((key): key is string => key !== null)
+        .map((key) => this.directoryOf(key)),
+    );
+
+    const directories = new Map<
+      string,
+      { keys: string[]; bytes: number; newest: Date }
+    >();
+    for (const folder of IMAGE_FOLDERS) {
+      for await (const object of this.driver.list(`${folder}/`)) {
+        const directory = this.directoryOf(object.key);
+        const entry = directories.get(directory) ?? {
+          keys: [],
+          bytes: 0,
+          newest: object.last_modified,
+        };
+        entry.keys.push(object.key);
+        entry.bytes += object.size;
+        if (object.last_modified > entry.newest) {
+          entry.newest = object.last_modified;
+        }
+        directories.set(directory, entry);
+      }
+    }
+
+    const orphans = [...directories.entries()]
+      .filter(
+        ([directory, entry]) =>
+          !referenced.has(directory) && entry.newest < cutoff,
+      )
+      .map(([, entry]) => entry);
+
+    if (!dryRun) {
+      for (const orphan of orphans) {
+        await this.deleteKeys(orphan.keys);
+      }
+      if (orphans.length > 0) {
+        this.logger.log(`Removed ${orphans.length} orphaned image(s)`);
+      }
+    }
+
+    return {
+      dry_run: dryRun,
+      scanned_images: directories.size,
+      orphaned_images: orphans.length,
+      deleted_files: orphans.reduce(
+        (sum, orphan) => sum + orphan.keys.length,
+        0,
+      ),
+      freed_bytes: orphans.reduce((sum, orphan) => sum + orphan.bytes, 0),
+    };
+  }
+
+  private async resize(
+    input: Buffer,
+    format: string,
+    size: number,
+  ): Promise<{ data: Buffer; info: sharp.OutputInfo }> {
+    return await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate()
+      .resize(size, size, { fit: 'inside', withoutEnlargement: true })
+      .toFormat(format as keyof sharp.FormatEnum)
+      .toBuffer({ resolveWithObject: true });
+  }
+
+  private async deleteKeys(keys: string[]): Promise<void> {
+    const results = await Promise.allSettled(
+      keys.map((key) => this.driver.delete(key)),
+    );
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        // Left for the next orphan cleanup
+        this.logger.warn(`Could not delete a stored file: ${result.reason}`);
+      }
+    }
+  }
+
+  private publicUrl(key: string): string {
+    return `${this.baseUrl()}/${key}`;
+  }
+
+  // Storage key of a URL returned by upload(), or null for other URLs
+  private keyFromUrl(url: string): string | null {
+    const prefix = `${this.baseUrl()}/`;
+    return url.startsWith(prefix) ? url.slice(prefix.length) : null;
+  }
+
+  private directoryOf(key: string): string {
+    return key.split('/').slice(0, 2).join('/');
+  }
+
+  private baseUrl(): string {
+    return (
+      this.configService.get<string>('storage.publicUrl') || '/uploads'
+    ).replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,29 @@
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  last_modified: Date;
+}
+
+export interface StorageDriver {
+  /**
+   * Store a file, replacing any file with the same key
+   * @param key - Slash-separated path, e.g. products/<id>/thumb.jpg
+   * @param body - File contents
+   * @param contentType - MIME type served with the file
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Remove a file; removing a missing file is not an error
+   * @param key - Key the file was stored under
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Every file whose key starts with a prefix
+   * @param prefix - Key prefix, e.g. products/
+   */
+  list(prefix: string): AsyncIterable<StoredObject>;
+}
@@ -0,0 +1,64 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+
+import { ImagesService } from './images.service';
+import { AdminImagesController } from './admin-images.controller';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface';
+import { LocalStorageDriver } from './drivers/local.driver';
+import { S3StorageDriver } from './drivers/s3.driver';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [
+    ConfigModule,
+    PrismaModule,
+
+    // Guards for the admin endpoints
+    AuthModule,
+
+    // Upload limits for FileInterceptor, exported to the modules that
+    // accept uploads. Files are kept in memory until they are resized.
+    MulterModule.registerAsync({
+      useFactory: (configService: ConfigService) => ({
+        limits: {
+          fileSize: configService.get<number>('storage.maxUploadBytes'),
+          files: 1,
+        },
+      }),
+      inject: [ConfigService],
+    }),
+  ],
+  controllers: [AdminImagesController],
+  providers: [
+    // Select the storage driver from configuration
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (configService: ConfigService): StorageDriver => {
+        if (configService.get<string>('storage.driver') === 's3') {
+          return new S3StorageDriver({
+            endpoint:
+              configService.get<string>('storage.s3Endpoint') ||
+              'https://s3.amazonaws.com',
+            region:
+              configService.get<string>('storage.s3Region') || 'us-east-1',
+            bucket: configService.get<string>('storage.s3Bucket') || '',
+            accessKeyId:
+              configService.get<string>('storage.s3AccessKeyId') || '',
+            secretAccessKey:
+              configService.get<string>('storage.s3SecretAccessKey') || '',
+          });
+        }
+
+        return new LocalStorageDriver(
+          configService.get<string>('storage.localDir') || 'uploads',
+        );
+      },
+      inject: [ConfigService],
+    },
+    ImagesService,
+  ],
+  exports: [ImagesService, MulterModule],
+})
+export class StorageModule {}
@@ -0,0 +1,15 @@
+import { AccountState } from '../utils/account-state.util';
+
+export interface AdminUserResponse {
+  id: string;
+  email: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  role: 'admin' | 'customer';
+  state: AccountState;
+  email_confirmed_at: Date | null;
+  banned_until: Date | null;
+  deleted_at: Date | null;
+  last_sign_in_at: Date | null;
+  created_at: Date | null;
+}
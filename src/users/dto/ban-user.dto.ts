@@ -0,0 +1,8 @@
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class BanUserDto {
+  // End of the ban; the ban is permanent when omitted
+  @IsOptional()
+  @IsDateString({}, { message: 'Banned until must be an ISO 8601 date' })
+  until?: string;
+}
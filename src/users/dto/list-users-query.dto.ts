@@ -0,0 +1,61 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { user_role } from '@prisma/client';
+import { toBoolean } from '../../common/utils/query.util';
+
+export class ListUsersQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Page must be an integer' })
+  @Min(1, { message: 'Page must be at least 1' })
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: 'Limit must be an integer' })
+  @Min(1, { message: 'Limit must be at least 1' })
+  @Max(100, { message: 'Limit must be at most 100' })
+  limit?: number = 20;
+
+  @IsOptional()
+  @IsString({ message: 'Search must be a string' })
+  @MaxLength(100, { message: 'Search must be at most 100 characters' })
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(user_role, { message: 'Role must be either admin or customer' })
+  role?: user_role;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Confirmed must be true or false' })
+  confirmed?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Banned must be true or false' })
+  banned?: boolean;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean({ message: 'Include deleted must be true or false' })
+  include_deleted?: boolean;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Created from must be an ISO 8601 date' })
+  created_from?: string;
+
+  @IsOptional()
+  @IsDateString({}, { message: 'Created to must be an ISO 8601 date' })
+  created_to?: string;
+}
@@ -0,0 +1,7 @@
+import { IsEnum } from 'class-validator';
+import { user_role } from '@prisma/client';
+
+export class UpdateRoleDto {
+  @IsEnum(user_role, { message: 'Role must be either admin or customer' })
+  role: user_role;
+}
@@ -1,8 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { UsersService, CreateUserDto } from './users.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { user_role } from '@prisma/client';
+import { profiles, user_role, users } from '@prisma/client';
+import { PERMANENT_BAN_UNTIL } from './utils/account-state.util';
 import * as fc from 'fast-check';
 
 describe('UsersService', () => {
@@ -19,8 +24,18 @@ describe('UsersService', () => {
             profiles: {
               create: jest.fn(),
               findUnique: jest.fn(),
+              findMany: jest.fn(),
+              count: jest.fn(),
               update: jest.fn(),
             },
+            users: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              update: jest.fn(),
+            },
+            $transaction: jest.fn((queries: Promise<unknown>[]) =>
+              Promise.all(queries),
+            ),
           },
         },
       ],
@@ -314,5 +329,183 @@ describe('UsersService', () => {
         consoleSpy.mockRestore();
       });
     });
+
+    describe('admin management', () => {
+      const id = '123e4567-e89b-12d3-a456-426614174000';
+      const adminId = '987e6543-e21b-43d3-a654-426614174999';
+
+      const buildProfile = (
+        authOverrides: Partial<users> = {},
+      ): profiles & { users: users } => ({
+        id,
+        email: 'customer@example.com',
+        role: user_role.customer,
+        full_name: 'Customer',
+        avatar_url: null,
+        updated_at: new Date(),
+        users: {
+          id,
+          email: 'customer@example.com',
+          email_confirmed_at: new Date(),
+          banned_until: null,
+          deleted_at: null,
+          raw_app_meta_data: { provider: 'email' },
+          last_sign_in_at: null,
+          created_at: new Date(),
+          ...authOverrides,
+        } as users,
+      });
+
+      it('should build filters, search and pagination for the listing', async () => {
+        jest
+          .spyOn(prismaService.profiles, 'findMany')
+          .mockResolvedValue([buildProfile()]);
+        jest.spyOn(prismaService.profiles, 'count').mockResolvedValue(45);
+
+        const result = await service.listUsers({
+          page: 2,
+          limit: 20,
+          search: 'cust',
+          role: user_role.customer,
+          confirmed: true,
+          created_from: '2026-01-01T00:00:00Z',
+        });
+
+        expect(result.meta).toEqual({
+          page: 2,
+          limit: 20,
+          total: 45,
+          total_pages: 3,
+        });
+        expect(result.data[0]).toMatchObject({ id, state: 'active' });
+        expect(prismaService.profiles.findMany).toHaveBeenCalledWith({
+          where: {
+            role: user_role.customer,
+            users: {
+              deleted_at: null,
+              email_confirmed_at: { not: null },
+              created_at: { gte: new Date('2026-01-01T00:00:00Z') },
+            },
+            OR: [
+              { email: { contains: 'cust', mode: 'insensitive' } },
+              { full_name: { contains: 'cust', mode: 'insensitive' } },
+            ],
+          },
+          include: { users: true },
+          orderBy: { users: { created_at: 'desc' } },
+          skip: 20,
+          take: 20,
+        });
+      });
+
+      it('should leave users locked out by failed logins out of the banned filter', async () => {
+        jest
+          .spyOn(prismaService.users, 'findMany')
+          .mockResolvedValue([{ id } as users]);
+        jest.spyOn(prismaService.profiles, 'findMany').mockResolvedValue([]);
+        jest.spyOn(prismaService.profiles, 'count').mockResolvedValue(0);
+
+        await service.listUsers({ banned: false });
+
+        const adminBan = {
+          banned_until: { gt: expect.any(Date) },
+          raw_app_meta_data: { path: ['banned'], equals: true },
+        };
+        expect(prismaService.users.findMany).toHaveBeenCalledWith({
+          where: adminBan,
+          select: { id: true },
+        });
+        expect(prismaService.profiles.count).toHaveBeenCalledWith({
+          where: expect.objectContaining({
+            users: { deleted_at: null, id: { notIn: [id] } },
+          }),
+        });
+
+        await service.listUsers({ banned: true });
+
+        expect(prismaService.profiles.count).toHaveBeenLastCalledWith({
+          where: expect.objectContaining({
+            users: { deleted_at: null, AND: [adminBan] },
+          }),
+        });
+      });
+
+      it('should ban permanently and mark the ban as set by an administrator', async () => {
+        jest
+          .spyOn(prismaService.profiles, 'findUnique')
+          .mockResolvedValue(buildProfile());
+        jest
+          .spyOn(prismaService.users, 'findUnique')
+          .mockResolvedValue(buildProfile().users);
+
+        await service.ban(id, null, adminId);
+
+        expect(prismaService.users.update).toHaveBeenCalledWith({
+          where: { id },
+          data: {
+            banned_until: PERMANENT_BAN_UNTIL,
+            raw_app_meta_data: { provider: 'email', banned: true },
+            updated_at: expect.any(Date),
+          },
+        });
+      });
+
+      it('should report banned users in their state', async () => {
+        jest.spyOn(prismaService.profiles, 'findUnique').mockResolvedValue(
+          buildProfile({
+            banned_until: PERMANENT_BAN_UNTIL,
+            raw_app_meta_data: { banned: true },
+          }),
+        );
+
+        const result = await service.findAdminUser(id);
+
+        expect(result.state).toBe('banned');
+      });
+
+      it('should reject a ban that ends in the past', async () => {
+        jest
+          .spyOn(prismaService.profiles, 'findUnique')
+          .mockResolvedValue(buildProfile());
+
+        await expect(
+          service.ban(id, new Date('2020-01-01T00:00:00Z'), adminId),
+        ).rejects.toThrow(BadRequestException);
+        expect(prismaService.users.update).not.toHaveBeenCalled();
+      });
+
+      it('should prevent administrators from acting on their own account', async () => {
+        await expect(
+          service.changeRole(adminId, user_role.customer, adminId),
+        ).rejects.toThrow(BadRequestException);
+        await expect(service.ban(adminId, null, adminId)).rejects.toThrow(
+          BadRequestException,
+        );
+        await expect(service.softDelete(adminId, adminId)).rejects.toThrow(
+          BadRequestException,
+        );
+      });
+
+      it('should soft-delete by setting deleted_at', async () => {
+        jest
+          .spyOn(prismaService.profiles, 'findUnique')
+          .mockResolvedValue(buildProfile());
+
+        await service.softDelete(id, adminId);
+
+        expect(prismaService.users.update).toHaveBeenCalledWith({
+          where: { id },
+          data: { deleted_at: expect.any(Date), updated_at: expect.any(Date) },
+        });
+      });
+
+      it('should report the account state of deleted users', async () => {
+        jest
+          .spyOn(prismaService.users, 'findUnique')
+          .mockResolvedValue(buildProfile({ deleted_at: new Date() }).users);
+
+        expect(await service.getAccountState(id)).toBe('deleted');
+      });
+    });
   });
-});
\ No newline at end of file
+});
@@ -1,6 +1,19 @@
-import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import {
+  Injectable,
+  ConflictException,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { profiles, user_role } from '@prisma/client';
+import { Prisma, profiles, user_role, users } from '@prisma/client';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import { AdminUserResponse } from './dto/admin-user-response.dto';
+import { PaginatedResponse } from '../common/dto/paginated-response.dto';
+import {
+  AccountState,
+  PERMANENT_BAN_UNTIL,
+  getAccountState,
+} from './utils/account-state.util';
 
 export interface CreateUserDto {
   id: string;
@@ -112,4 +125,210 @@ export class UsersService {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async getAccountState(id: string): Promise<AccountState | null> {
+    const user = await this.prisma.users.findUnique({
+      where: { id },
+      select: { banned_until: true, deleted_at: true, raw_app_meta_data: true },
+    });
+
+    return user ? getAccountState(user) : null;
+  }
+
+  async listUsers(
+    query: ListUsersQueryDto,
+  ): Promise<PaginatedResponse<AdminUserResponse>> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const now = new Date();
+
+    const authFilter: Prisma.usersWhereInput = {};
+    if (!query.include_deleted) {
+      authFilter.deleted_at = null;
+    }
+    if (query.confirmed !== undefined) {
+      authFilter.email_confirmed_at = query.confirmed ? { not: null } : null;
+    }
+    if (query.banned !== undefined) {
+      // Login lockouts also set banned_until; only admin bans carry the marker
+      const adminBan: Prisma.usersWhereInput = {
+        banned_until: { gt: now },
+        raw_app_meta_data: { path: ['banned'], equals: true },
+      };
+      if (query.banned) {
+        authFilter.AND = [adminBan];
+      } else {
+        // NOT would also drop rows where the marker is missing (NULL in SQL)
+        const banned = await this.prisma.users.findMany({
+          where: adminBan,
+          select: { id: true },
+        });
+        authFilter.id = { notIn: banned.map((user) => user.id) };
+      }
+    }
+    if (query.created_from || query.created_to) {
+      authFilter.created_at = {
+        ...(query.created_from && { gte: new Date(query.created_from) }),
+        ...(query.created_to && { lte: new Date(query.created_to) }),
+      };
+    }
+
+    const where: Prisma.profilesWhereInput = {
+      role: query.role,
+      users: authFilter,
+      ...(query.search && {
+        OR: [
+          { email: { contains: query.search, mode: 'insensitive' } },
+          { full_name: { contains: query.search, mode: 'insensitive' } },
+        ],
+      }),
+    };
+
+    const [rows, total] = await this.prisma.$transaction([
+      this.prisma.profiles.findMany({
+        where,
+        include: { users: true },
+        orderBy: { users: { created_at: 'desc' } },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.profiles.count({ where }),
+    ]);
+
+    return {
+      data: rows.map((row) => this.toAdminUser(row, row.users)),
+      meta: {
+        page,
+        limit,
+        total,
+        total_pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async findAdminUser(id: string): Promise<AdminUserResponse> {
+    const profile = await this.prisma.profiles.findUnique({
+      where: { id },
+      include: { users: true },
+    });
+
+    if (!profile) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.toAdminUser(profile, profile.users);
+  }
+
+  async changeRole(
+    id: string,
+    role: user_role,
+    requesterId: string,
+  ): Promise<AdminUserResponse> {
+    this.assertNotSelf(id, requesterId);
+    await this.findAdminUser(id);
+
+    await this.prisma.profiles.update({
+      where: { id },
+      data: { role, updated_at: new Date() },
+    });
+
+    return await this.findAdminUser(id);
+  }
+
+  async ban(
+    id: string,
+    until: Date | null,
+    requesterId: string,
+  ): Promise<AdminUserResponse> {
+    this.assertNotSelf(id, requesterId);
+    await this.findAdminUser(id);
+
+    if (until && until.getTime() <= Date.now()) {
+      throw new BadRequestException('Ban end date must be in the future');
+    }
+
+    await this.prisma.users.update({
+      where: { id },
+      data: {
+        banned_until: until || PERMANENT_BAN_UNTIL,
+        // Tells an admin ban apart from a login lockout, which also sets banned_until
+        raw_app_meta_data: await this.mergeAppMetadata(id, { banned: true }),
+        updated_at: new Date(),
+      },
+    });
+
+    return await this.findAdminUser(id);
+  }
+
+  async unban(id: string): Promise<AdminUserResponse> {
+    await this.findAdminUser(id);
+
+    await this.prisma.users.update({
+      where: { id },
+      data: {
+        banned_until: null,
+        raw_app_meta_data: await this.mergeAppMetadata(id, { banned: false }),
+        updated_at: new Date(),
+      },
+    });
+
+    return await this.findAdminUser(id);
+  }
+
+  async softDelete(id: string, requesterId: string): Promise<void> {
+    this.assertNotSelf(id, requesterId);
+    const user = await this.findAdminUser(id);
+
+    if (user.deleted_at) {
+      throw new NotFoundException('User not found');
+    }
+
+    await this.prisma.users.update({
+      where: { id },
+      data: { deleted_at: new Date(), updated_at: new Date() },
+    });
+  }
+
+  private assertNotSelf(id: string, requesterId: string): void {
+    // Keeps an administrator from locking themselves out of the dashboard
+    if (id === requesterId) {
+      throw new BadRequestException(
+        'Administrators cannot perform this action on their own account',
+      );
+    }
+  }
+
+  private async mergeAppMetadata(
+    id: string,
+    values: Record<string, Prisma.InputJsonValue>,
+  ): Promise<Prisma.InputJsonObject> {
+    const user = await this.prisma.users.findUnique({
+      where: { id },
+      select: { raw_app_meta_data: true },
+    });
+    const current = user?.raw_app_meta_data;
+
+    return {
+      ...(current && typeof current === 'object' && !Array.isArray(current)
+        ? (current as Prisma.InputJsonObject)
+        : {}),
+      ...values,
+    };
+  }
+
+  private toAdminUser(profile: profiles, user: users): AdminUserResponse {
+    return {
+      id: profile.id,
+      email: profile.email,
+      full_name: profile.full_name,
+      avatar_url: profile.avatar_url,
+      role: profile.role || user_role.customer,
+      state: getAccountState(user),
+      email_confirmed_at: user.email_confirmed_at,
+      banned_until: user.banned_until,
+      deleted_at: user.deleted_at,
+      last_sign_in_at: user.last_sign_in_at,
+      created_at: user.created_at,
+    };
+  }
+}
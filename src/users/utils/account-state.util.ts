@@ -0,0 +1,51 @@
+import { Prisma, users } from '@prisma/client';
+
+/**
+ * - active: can log in
+ * - locked: temporarily locked out after too many failed logins
+ * - banned: banned by an administrator
+ * - deleted: soft-deleted by an administrator
+ */
+export type AccountState = 'active' | 'locked' | 'banned' | 'deleted';
+
+export type AccountStateFields = Pick<
+  users,
+  'banned_until' | 'deleted_at' | 'raw_app_meta_data'
+>;
+
+// banned_until used for bans without an end date
+export const PERMANENT_BAN_UNTIL = new Date('9999-12-31T23:59:59Z');
+
+/**
+ * Check whether banned_until was set by an administrator rather than by the
+ * login lockout, which uses the same column
+ * @param appMetadata - users.raw_app_meta_data
+ */
+export function isBannedByAdmin(appMetadata: Prisma.JsonValue): boolean {
+  return (
+    typeof appMetadata === 'object' &&
+    appMetadata !== null &&
+    !Array.isArray(appMetadata) &&
+    appMetadata.banned === true
+  );
+}
+
+/**
+ * Work out whether an account may be used
+ * @param user - Status columns of auth.users
+ * @param now - Reference time
+ */
+export function getAccountState(
+  user: AccountStateFields,
+  now = new Date(),
+): AccountState {
+  if (user.deleted_at) {
+    return 'deleted';
+  }
+
+  if (user.banned_until && user.banned_until.getTime() > now.getTime()) {
+    return isBannedByAdmin(user.raw_app_meta_data) ? 'banned' : 'locked';
+  }
+
+  return 'active';
+}
@@ -0,0 +1,161 @@
+import {
+  KeyObject,
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  sign,
+} from 'crypto';
+import { isoCBOR } from '@simplewebauthn/server/helpers';
+import type {
+  AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_ATTESTED_CREDENTIAL_DATA = 0x40;
+
+const sha256 = (data: Buffer): Buffer =>
+  createHash('sha256').update(data).digest();
+
+/**
+ * In-memory WebAuthn authenticator holding a single ES256 (P-256) credential.
+ * Produces "none" attestations and signed assertions the way a browser would
+ * return them, so registration and login ceremonies can be tested end to end.
+ */
+export class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(32).toString('base64url');
+  readonly aaguid = Buffer.alloc(16);
+  counter = 0;
+
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(
+    private readonly origin = 'http://localhost:3000',
+    private readonly userVerified = true,
+  ) {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    this.privateKey = privateKey;
+    this.publicKey = publicKey;
+  }
+
+  /**
+   * Answer navigator.credentials.create()
+   */
+  createCredential(
+    options: PublicKeyCredentialCreationOptionsJSON,
+  ): RegistrationResponseJSON {
+    const clientDataJSON = this.buildClientData(
+      'webauthn.create',
+      options.challenge,
+    );
+
+    const credentialId = Buffer.from(this.credentialId, 'base64url');
+    const credentialIdLength = Buffer.alloc(2);
+    credentialIdLength.writeUInt16BE(credentialId.length);
+
+    const authData = Buffer.concat([
+      this.buildAuthDataHeader(
+        options.rp.id || 'localhost',
+        FLAG_ATTESTED_CREDENTIAL_DATA,
+      ),
+      this.aaguid,
+      credentialIdLength,
+      credentialId,
+      Buffer.from(isoCBOR.encode(this.buildCosePublicKey())),
+    ]);
+
+    const attestationObject = isoCBOR.encode(
+      new Map<string, string | Uint8Array | Map<string, string>>([
+        ['fmt', 'none'],
+        ['attStmt', new Map<string, string>()],
+        ['authData', new Uint8Array(authData)],
+      ]),
+    );
+
+    return {
+      id: this.credentialId,
+      rawId: this.credentialId,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        attestationObject: Buffer.from(attestationObject).toString('base64url'),
+        transports: ['internal'],
+      },
+    };
+  }
+
+  /**
+   * Answer navigator.credentials.get(). Each assertion increments the
+   * signature counter, like a hardware authenticator.
+   */
+  getAssertion(
+    options: PublicKeyCredentialRequestOptionsJSON,
+  ): AuthenticationResponseJSON {
+    this.counter += 1;
+
+    const clientDataJSON = this.buildClientData(
+      'webauthn.get',
+      options.challenge,
+    );
+    const authData = this.buildAuthDataHeader(options.rpId || 'localhost', 0);
+    const signature = sign(
+      'sha256',
+      Buffer.concat([authData, sha256(clientDataJSON)]),
+      this.privateKey,
+    );
+
+    return {
+      id: this.credentialId,
+      rawId: this.credentialId,
+      type: 'public-key',
+      clientExtensionResults: {},
+      response: {
+        clientDataJSON: clientDataJSON.toString('base64url'),
+        authenticatorData: authData.toString('base64url'),
+        signature: signature.toString('base64url'),
+        userHandle: undefined,
+      },
+    };
+  }
+
+  private buildClientData(type: string, challenge: string): Buffer {
+    return Buffer.from(
+      JSON.stringify({ type, challenge, origin: this.origin }),
+    );
+  }
+
+  private buildAuthDataHeader(rpId: string, extraFlags: number): Buffer {
+    let flags = FLAG_USER_PRESENT | extraFlags;
+    if (this.userVerified) {
+      flags |= FLAG_USER_VERIFIED;
+    }
+
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.counter);
+
+    return Buffer.concat([
+      sha256(Buffer.from(rpId)),
+      Buffer.from([flags]),
+      counter,
+    ]);
+  }
+
+  private buildCosePublicKey(): Map<number, number | Uint8Array> {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+
+    return new Map<number, number | Uint8Array>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, new Uint8Array(Buffer.from(jwk.x as string, 'base64url'))],
+      [-3, new Uint8Array(Buffer.from(jwk.y as string, 'base64url'))],
+    ]);
+  }
+}
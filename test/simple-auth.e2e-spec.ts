@@ -90,7 +90,7 @@ describe('Simple Authentication Test (e2e)', () => {
 
     it('should reject access to admin route without token', async () => {
       const response = await request(app.getHttpServer())
-        .get('/auth/admin')
+        .get('/admin/dashboard')
         .expect(401);
 
       expect(response.body).toHaveProperty('message');